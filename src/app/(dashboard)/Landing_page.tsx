@@ -14,7 +14,7 @@ const mockEvents: Event[] = [
         location: "CAS Building, Room 201",
         time: "Today, 12:30 PM - 2:00 PM",
         attendees: 24,
-        status: "available",
+        status: "live",
         coords: [-71.1097, 42.3505]
     },
     {
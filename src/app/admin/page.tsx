@@ -0,0 +1,144 @@
+"use client";
+
+/**
+ * Admin Console Page Component
+ *
+ * One place for admins and moderators to look after the app:
+ * - Users: search accounts, approve faculty requests, change roles, suspend or reinstate
+ * - Events: edit or force-cancel any event
+ * - Reports: review events users flagged
+ * - Buildings: the campus building catalog organizers pick event locations from
+ * - Audit Log: every action taken from here (or anywhere else) by an admin or moderator
+ *
+ * Tabs only show up for the permissions the user has. The database enforces the same
+ * permissions, this page just hides what wouldn't work.
+ *
+ * @component
+ */
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { getEventRepository } from '@/lib/repository';
+import { hasPermission } from '@/lib/permissions';
+import UsersPanel from '@/components/admin/UsersPanel';
+import EventsPanel from '@/components/admin/EventsPanel';
+import ReportsPanel from '@/components/admin/ReportsPanel';
+import AuditLogPanel from '@/components/admin/AuditLogPanel';
+import BuildingsPanel from '@/components/admin/BuildingsPanel';
+
+type AdminTab = 'users' | 'events' | 'reports' | 'buildings' | 'audit';
+
+const TAB_LABELS: Record<AdminTab, string> = {
+    users: 'Users',
+    events: 'Events',
+    reports: 'Reports',
+    buildings: 'Buildings',
+    audit: 'Audit Log',
+};
+
+// Which tabs a role gets to see
+const tabsFor = (role: string): AdminTab[] => {
+    const tabs: AdminTab[] = [];
+    if (hasPermission(role, 'manage_users')) tabs.push('users');
+    if (hasPermission(role, 'edit_any_event')) tabs.push('events');
+    if (hasPermission(role, 'moderate')) tabs.push('reports');
+    if (hasPermission(role, 'manage_buildings')) tabs.push('buildings');
+    if (hasPermission(role, 'manage_users') || hasPermission(role, 'moderate')) tabs.push('audit');
+    return tabs;
+};
+
+export default function AdminPage() {
+    const router = useRouter();
+    const [isLoading, setIsLoading] = useState(true);
+    const [profileId, setProfileId] = useState<string | null>(null);
+    const [tabs, setTabs] = useState<AdminTab[]>([]);
+    const [activeTab, setActiveTab] = useState<AdminTab>('users');
+
+    useEffect(() => {
+        const loadAdmin = async () => {
+            try {
+                const profile = await getEventRepository().findSignedInProfile();
+                if (!profile) {
+                    router.push('/login');
+                    return;
+                }
+
+                if (profile.suspended_at) {
+                    return;
+                }
+
+                const allowedTabs = tabsFor(profile.role);
+                setProfileId(profile.id);
+                setTabs(allowedTabs);
+                if (allowedTabs.length > 0) {
+                    setActiveTab(allowedTabs[0]);
+                }
+            } catch (error) {
+                console.error('Error loading admin console:', error);
+                toast.error('Failed to load the admin console. Please try again.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadAdmin();
+    }, [router]);
+
+    if (isLoading) {
+        return (
+            <div className="min-h-screen bg-zinc-900 flex items-center justify-center">
+                <p className="text-zinc-400">Loading...</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-zinc-900 text-white p-6">
+            <div className="max-w-4xl mx-auto space-y-6">
+                <Link href="/dashboard" className="inline-flex items-center text-zinc-400 hover:text-white transition-colors">
+                    <ArrowLeftIcon className="h-5 w-5 mr-2" />
+                    Back to Dashboard
+                </Link>
+
+                <h1 className="text-3xl font-bold">Admin Console</h1>
+
+                {!profileId || tabs.length === 0 ? (
+                    <p className="text-zinc-400">Only admins can use the admin console.</p>
+                ) : (
+                    <>
+                        {/* Tabs */}
+                        <div role="tablist" className="flex space-x-2 border-b border-zinc-700">
+                            {tabs.map(tab => (
+                                <button
+                                    key={tab}
+                                    type="button"
+                                    role="tab"
+                                    aria-selected={activeTab === tab}
+                                    onClick={() => setActiveTab(tab)}
+                                    className={`px-4 py-2 -mb-px border-b-2 font-medium transition-colors ${
+                                        activeTab === tab
+                                            ? 'border-green-500 text-white'
+                                            : 'border-transparent text-zinc-400 hover:text-white'
+                                    }`}
+                                >
+                                    {TAB_LABELS[tab]}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div role="tabpanel" className="bg-zinc-800 rounded-lg p-4">
+                            {activeTab === 'users' && <UsersPanel currentUserId={profileId} />}
+                            {activeTab === 'events' && <EventsPanel currentUserId={profileId} />}
+                            {activeTab === 'reports' && <ReportsPanel currentUserId={profileId} />}
+                            {activeTab === 'buildings' && <BuildingsPanel />}
+                            {activeTab === 'audit' && <AuditLogPanel />}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
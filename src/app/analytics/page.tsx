@@ -0,0 +1,359 @@
+"use client";
+
+/**
+ * Impact Analytics Page Component
+ *
+ * Shows how much surplus food Spark!Bytes events kept out of the trash, for the numbers
+ * the sustainability office asks for each semester:
+ * - Totals for events, RSVPs vs. check-ins, portions posted vs. claimed, and pounds saved
+ * - Median time until an event's food ran out
+ * - Events and food per building
+ * - Pickup (check-in) peak hours and weekday patterns
+ * - Per-event and per-building CSV export
+ *
+ * Faculty see their own events, admins see every event (or only theirs).
+ * Pounds saved is an estimate, see ANALYTICS.POUNDS_PER_PORTION.
+ *
+ * @component
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { ArrowLeftIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { getEventRepository } from '@/lib/repository';
+import { hasPermission } from '@/lib/permissions';
+import {
+    AnalyticsEventRow,
+    buildImpactReport,
+    buildingImpactCsv,
+    eventImpactCsv,
+    fetchImpactEvents,
+    getSemesterRange
+} from '@/lib/analytics';
+import BarChart from '@/components/analytics/BarChart';
+import { ANALYTICS } from '@/constants/config';
+
+type RangeOption = 'current' | 'previous' | 'custom';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// yyyy-mm-dd in local time, for the date inputs
+const toDateInput = (date: Date) => {
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+    return local.toISOString().slice(0, 10);
+};
+
+const formatHour = (hour: number) => `${hour % 12 || 12}${hour < 12 ? 'a' : 'p'}`;
+
+// Saves text as a file through a temporary link
+const downloadCsv = (filename: string, csv: string) => {
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export default function AnalyticsPage() {
+    const router = useRouter();
+    const [isLoading, setIsLoading] = useState(true);
+    const [profileId, setProfileId] = useState<string | null>(null);
+    const [canSeeAllEvents, setCanSeeAllEvents] = useState(false);
+    const [onlyMyEvents, setOnlyMyEvents] = useState(false);
+    const [rangeOption, setRangeOption] = useState<RangeOption>('current');
+    const [customStart, setCustomStart] = useState(() => toDateInput(getSemesterRange(new Date()).start));
+    const [customEnd, setCustomEnd] = useState(() => toDateInput(new Date()));
+    const [rows, setRows] = useState<AnalyticsEventRow[]>([]);
+    const [isFetching, setIsFetching] = useState(false);
+
+    // Only people who post events (or can see everyone's) get analytics
+    useEffect(() => {
+        const loadProfile = async () => {
+            try {
+                const profile = await getEventRepository().findSignedInProfile();
+                if (!profile) {
+                    router.push('/login');
+                    return;
+                }
+
+                if (hasPermission(profile.role, 'edit_any_event')) {
+                    setCanSeeAllEvents(true);
+                    setProfileId(profile.id);
+                } else if (hasPermission(profile.role, 'create_event')) {
+                    setProfileId(profile.id);
+                }
+            } catch (error) {
+                console.error('Error loading analytics:', error);
+                toast.error('Failed to load analytics. Please try again.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadProfile();
+    }, [router]);
+
+    const range = useMemo(() => {
+        if (rangeOption === 'custom') {
+            const start = new Date(`${customStart}T00:00`);
+            const end = new Date(`${customEnd}T00:00`);
+            end.setDate(end.getDate() + 1); // include the whole end day
+            return { label: `${customStart} to ${customEnd}`, start, end };
+        }
+        return getSemesterRange(new Date(), rangeOption === 'previous' ? -1 : 0);
+    }, [rangeOption, customStart, customEnd]);
+
+    useEffect(() => {
+        if (!profileId || isNaN(range.start.getTime()) || isNaN(range.end.getTime())) return;
+
+        const loadEvents = async () => {
+            setIsFetching(true);
+            try {
+                setRows(await fetchImpactEvents({
+                    start: range.start,
+                    end: range.end,
+                    organizerId: canSeeAllEvents && !onlyMyEvents ? undefined : profileId,
+                }));
+            } catch (error) {
+                toast.error(error instanceof Error ? error.message : 'Failed to load analytics');
+            } finally {
+                setIsFetching(false);
+            }
+        };
+
+        loadEvents();
+    }, [profileId, canSeeAllEvents, onlyMyEvents, range]);
+
+    const report = useMemo(() => buildImpactReport(rows), [rows]);
+    const filePrefix = `sparkbytes-${range.label.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+
+    if (isLoading) {
+        return (
+            <div className="min-h-screen bg-zinc-900 flex items-center justify-center">
+                <p className="text-zinc-400">Loading...</p>
+            </div>
+        );
+    }
+
+    const stats = [
+        { label: 'Events', value: report.totals.events.toLocaleString() },
+        {
+            label: 'Checked in / RSVPs',
+            value: `${report.totals.checkIns.toLocaleString()} / ${report.totals.rsvps.toLocaleString()}`,
+            detail: report.totals.checkInRate !== null ? `${Math.round(report.totals.checkInRate * 100)}% showed up` : undefined,
+        },
+        {
+            label: 'Portions claimed / posted',
+            value: `${report.totals.portionsClaimed.toLocaleString()} / ${report.totals.portionsPosted.toLocaleString()}`,
+            detail: 'Counted portions only',
+        },
+        {
+            label: 'Median time to empty',
+            value: report.totals.medianMinutesToEmpty !== null ? `${Math.round(report.totals.medianMinutesToEmpty)} min` : '—',
+            detail: 'Events that ran out',
+        },
+        {
+            label: 'Food saved (est.)',
+            value: `${report.totals.poundsSaved.toLocaleString()} lb`,
+            detail: `About ${ANALYTICS.POUNDS_PER_PORTION} lb per portion`,
+        },
+    ];
+
+    return (
+        <div className="min-h-screen bg-zinc-900 text-white p-6">
+            <div className="max-w-5xl mx-auto space-y-6">
+                <Link href="/dashboard" className="inline-flex items-center text-zinc-400 hover:text-white transition-colors">
+                    <ArrowLeftIcon className="h-5 w-5 mr-2" />
+                    Back to Dashboard
+                </Link>
+
+                <h1 className="text-3xl font-bold">Impact Analytics</h1>
+
+                {!profileId ? (
+                    <p className="text-zinc-400">Only faculty and admins can see analytics.</p>
+                ) : (
+                    <>
+                        {/* Filters and export */}
+                        <div className="flex flex-wrap items-end gap-3">
+                            <div>
+                                <label htmlFor="analyticsRange" className="block text-sm font-medium text-zinc-400 mb-1">
+                                    Period
+                                </label>
+                                <select
+                                    id="analyticsRange"
+                                    value={rangeOption}
+                                    onChange={(e) => setRangeOption(e.target.value as RangeOption)}
+                                    className="px-4 py-2 rounded-lg bg-zinc-800 border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-green-500"
+                                >
+                                    <option value="current">{getSemesterRange(new Date()).label}</option>
+                                    <option value="previous">{getSemesterRange(new Date(), -1).label}</option>
+                                    <option value="custom">Custom dates</option>
+                                </select>
+                            </div>
+                            {rangeOption === 'custom' && (
+                                <>
+                                    <div>
+                                        <label htmlFor="analyticsStart" className="block text-sm font-medium text-zinc-400 mb-1">From</label>
+                                        <input
+                                            id="analyticsStart"
+                                            type="date"
+                                            value={customStart}
+                                            onChange={(e) => setCustomStart(e.target.value)}
+                                            className="px-4 py-2 rounded-lg bg-zinc-800 border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-green-500"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="analyticsEnd" className="block text-sm font-medium text-zinc-400 mb-1">To</label>
+                                        <input
+                                            id="analyticsEnd"
+                                            type="date"
+                                            value={customEnd}
+                                            onChange={(e) => setCustomEnd(e.target.value)}
+                                            className="px-4 py-2 rounded-lg bg-zinc-800 border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-green-500"
+                                        />
+                                    </div>
+                                </>
+                            )}
+                            {canSeeAllEvents && (
+                                <label className="flex items-center gap-2 text-sm text-zinc-300 py-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={onlyMyEvents}
+                                        onChange={(e) => setOnlyMyEvents(e.target.checked)}
+                                        className="rounded border-zinc-600 bg-zinc-700 text-green-500 focus:ring-green-500"
+                                    />
+                                    Only my events
+                                </label>
+                            )}
+                            <div className="flex gap-2 ml-auto">
+                                <button
+                                    type="button"
+                                    onClick={() => downloadCsv(`${filePrefix}-events.csv`, eventImpactCsv(report.events))}
+                                    disabled={report.events.length === 0}
+                                    className="flex items-center px-4 py-2 rounded-lg bg-zinc-700 hover:bg-zinc-600 text-sm font-medium transition-colors disabled:opacity-50"
+                                >
+                                    <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+                                    Events CSV
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => downloadCsv(`${filePrefix}-buildings.csv`, buildingImpactCsv(report.byBuilding))}
+                                    disabled={report.byBuilding.length === 0}
+                                    className="flex items-center px-4 py-2 rounded-lg bg-zinc-700 hover:bg-zinc-600 text-sm font-medium transition-colors disabled:opacity-50"
+                                >
+                                    <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+                                    Buildings CSV
+                                </button>
+                            </div>
+                        </div>
+
+                        {isFetching ? (
+                            <p className="text-zinc-400">Loading events...</p>
+                        ) : report.totals.events === 0 ? (
+                            <p className="text-zinc-400">No events in {range.label}.</p>
+                        ) : (
+                            <>
+                                {/* Totals */}
+                                <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                                    {stats.map(stat => (
+                                        <div key={stat.label} className="bg-zinc-800 rounded-lg p-4">
+                                            <p className="text-xs text-zinc-400">{stat.label}</p>
+                                            <p className="text-2xl font-bold mt-1">{stat.value}</p>
+                                            {stat.detail && <p className="text-xs text-zinc-500 mt-1">{stat.detail}</p>}
+                                        </div>
+                                    ))}
+                                </div>
+
+                                {/* Patterns */}
+                                <div className="grid md:grid-cols-3 gap-3">
+                                    <div className="bg-zinc-800 rounded-lg p-4">
+                                        <BarChart
+                                            label="Pickups by hour"
+                                            bars={report.checkInsByHour.map((count, hour) => ({ label: formatHour(hour), value: count }))}
+                                        />
+                                    </div>
+                                    <div className="bg-zinc-800 rounded-lg p-4">
+                                        <BarChart
+                                            label="Pickups by weekday"
+                                            bars={report.byWeekday.map((day, index) => ({ label: WEEKDAYS[index], value: day.checkIns }))}
+                                        />
+                                    </div>
+                                    <div className="bg-zinc-800 rounded-lg p-4">
+                                        <BarChart
+                                            label="Events by weekday"
+                                            bars={report.byWeekday.map((day, index) => ({ label: WEEKDAYS[index], value: day.events }))}
+                                        />
+                                    </div>
+                                </div>
+
+                                {/* Buildings */}
+                                <div className="bg-zinc-800 rounded-lg p-4 overflow-x-auto">
+                                    <h2 className="text-lg font-semibold mb-3">By building</h2>
+                                    <table className="w-full text-sm">
+                                        <thead className="text-left text-zinc-400">
+                                            <tr>
+                                                <th className="py-2 font-medium">Building</th>
+                                                <th className="py-2 font-medium text-right">Events</th>
+                                                <th className="py-2 font-medium text-right">Check-ins / RSVPs</th>
+                                                <th className="py-2 font-medium text-right">Portions claimed / posted</th>
+                                                <th className="py-2 font-medium text-right">Food saved</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-zinc-700">
+                                            {report.byBuilding.map(building => (
+                                                <tr key={building.building}>
+                                                    <td className="py-2">{building.building}</td>
+                                                    <td className="py-2 text-right">{building.events}</td>
+                                                    <td className="py-2 text-right">{building.checkIns} / {building.rsvps}</td>
+                                                    <td className="py-2 text-right">{building.portionsClaimed} / {building.portionsPosted}</td>
+                                                    <td className="py-2 text-right">{building.poundsSaved} lb</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+
+                                {/* Events */}
+                                <div className="bg-zinc-800 rounded-lg p-4 overflow-x-auto">
+                                    <h2 className="text-lg font-semibold mb-3">Events</h2>
+                                    <table className="w-full text-sm">
+                                        <thead className="text-left text-zinc-400">
+                                            <tr>
+                                                <th className="py-2 font-medium">Date</th>
+                                                <th className="py-2 font-medium">Event</th>
+                                                <th className="py-2 font-medium text-right">Check-ins / RSVPs</th>
+                                                <th className="py-2 font-medium text-right">Portions claimed / posted</th>
+                                                <th className="py-2 font-medium text-right">Time to empty</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-zinc-700">
+                                            {report.events.map(event => (
+                                                <tr key={event.id}>
+                                                    <td className="py-2 whitespace-nowrap">{event.startTime.toLocaleDateString()}</td>
+                                                    <td className="py-2">
+                                                        {event.title}
+                                                        <span className="block text-xs text-zinc-500">{event.building}</span>
+                                                    </td>
+                                                    <td className="py-2 text-right">{event.checkIns} / {event.rsvps}</td>
+                                                    <td className="py-2 text-right">
+                                                        {event.portionsPosted !== null ? `${event.portionsClaimed} / ${event.portionsPosted}` : 'Not counted'}
+                                                    </td>
+                                                    <td className="py-2 text-right">
+                                                        {event.minutesToEmpty !== null ? `${event.minutesToEmpty} min` : '—'}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
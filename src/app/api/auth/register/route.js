@@ -1,4 +1,5 @@
 import supabase from "@/lib/supabaseClient";
+import { createSupabaseRepository } from "@/lib/supabaseRepository";
 
 export async function POST(req) {
     try {
@@ -15,20 +16,12 @@ export async function POST(req) {
         }
         
         // Insert additional user data into the profiles table
-        const { data: profileData, error: profileError } = await supabase
-            .from("profiles")
-            .insert([
-                {
-                    auth_id: authData.user.id,
-                    email: email,
-                    full_name: username,
-                    role: "student", 
-                }
-            ]);
-        
-        if (profileError) {
-            return Response.json({ error: profileError.message }, { status: 500 });
-        }
+        await createSupabaseRepository(supabase).insertProfile({
+            auth_id: authData.user.id,
+            email: email,
+            full_name: username,
+            role: "student",
+        });
         
         return Response.json({ 
             message: "User registered", 
@@ -0,0 +1,48 @@
+import supabase from "@/lib/supabaseClient";
+import { jsonError, serviceError } from "@/lib/apiResponse";
+import { fetchCalendarFeed } from "@/lib/calendarService";
+import { buildCalendar } from "@/lib/icalendar";
+import { fetchBuildings } from "@/lib/locationService";
+
+interface RouteContext {
+    params: Promise<{ token: string }>;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+//iCalendar feed for calendar apps to subscribe to. The token in the URL stands in for a login.
+//Without ?buildings= it's the token owner's RSVPs, with ?buildings=gsu,cds it's the public events there.
+export async function GET(req: Request, { params }: RouteContext) {
+    try {
+        const { token } = await params;
+        if (!UUID_PATTERN.test(token)) {
+            return jsonError(404, "Calendar feed not found");
+        }
+
+        const buildingIds = new URL(req.url).searchParams.get("buildings")?.split(",").filter(Boolean) ?? [];
+        //retired buildings too, so feeds people already subscribed to keep working
+        const catalog = buildingIds.length > 0 ? await fetchBuildings({ includeInactive: true }, supabase) : [];
+        const buildings = buildingIds.map(id => catalog.find(building => building.id === id));
+        if (buildings.some(building => !building)) {
+            return jsonError(400, "Invalid query", {
+                buildings: `buildings must be a comma separated list of ${catalog.map(b => b.id).join(", ")}`,
+            });
+        }
+
+        const buildingNames = buildings.map(building => building!.name);
+        const events = await fetchCalendarFeed(token, buildingIds.length > 0 ? buildingIds : null, supabase);
+        const name = buildingNames.length > 0
+            ? `Spark!Bytes: ${buildingNames.join(", ")}`
+            : "Spark!Bytes: My RSVPs";
+
+        return new Response(buildCalendar(events, { name }), {
+            headers: {
+                "Content-Type": "text/calendar; charset=utf-8",
+                "Content-Disposition": 'inline; filename="sparkbytes.ics"',
+                "Cache-Control": "private, max-age=300",
+            },
+        });
+    } catch (error) {
+        return serviceError(error);
+    }
+}
@@ -0,0 +1,64 @@
+import { verifyCheckinToken } from "@/lib/checkinToken";
+import { getRequestProfile } from "@/lib/serverAuth";
+import { hasPermission } from "@/lib/permissions";
+import { jsonError, serviceError } from "@/lib/apiResponse";
+
+const CHECKIN_ERRORS: Record<string, { error: string; status: number }> = {
+    forbidden: { error: "Only the organizer can check people in to this event", status: 403 },
+    not_found: { error: "This RSVP no longer exists", status: 404 },
+    wrong_event: { error: "This code is for a different event", status: 409 },
+    duplicate: { error: "Already checked in", status: 409 },
+};
+
+//Checks in the attendee whose QR token was scanned or pasted on the check-in screen
+export async function POST(req: Request) {
+    try {
+        const auth = await getRequestProfile(req);
+        if (!auth) {
+            return jsonError(401, "You must be logged in");
+        }
+
+        if (!hasPermission(auth.profile.role, "edit_own_event")) {
+            return jsonError(403, CHECKIN_ERRORS.forbidden.error);
+        }
+
+        const body = await req.json().catch(() => undefined);
+        if (typeof body?.eventId !== "string" || typeof body?.token !== "string") {
+            return jsonError(400, "eventId and token are required");
+        }
+        const { eventId, token } = body;
+
+        const payload = verifyCheckinToken(token);
+        if (!payload) {
+            return jsonError(400, "Invalid check-in code");
+        }
+
+        if (payload.eventId !== eventId) {
+            return jsonError(409, CHECKIN_ERRORS.wrong_event.error);
+        }
+
+        const { data, error } = await auth.supabase
+            .rpc("check_in_attendee", { p_attendee_id: payload.attendeeId, p_event_id: eventId })
+            .single();
+
+        if (error) {
+            console.error("Unable to check in attendee:", error);
+            return jsonError(500, "Check-in failed");
+        }
+
+        const { result, attendee_name, checked_in_at } = data as {
+            result: string;
+            attendee_name: string | null;
+            checked_in_at: string | null;
+        };
+
+        if (result !== "ok") {
+            const { error: message, status } = CHECKIN_ERRORS[result] ?? { error: "Check-in failed", status: 500 };
+            return Response.json({ error: message, attendeeName: attendee_name, checkedInAt: checked_in_at }, { status });
+        }
+
+        return Response.json({ attendeeName: attendee_name, checkedInAt: checked_in_at });
+    } catch (error) {
+        return serviceError(error);
+    }
+}
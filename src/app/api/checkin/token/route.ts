@@ -0,0 +1,30 @@
+import { createCheckinToken } from "@/lib/checkinToken";
+import { getRequestProfile } from "@/lib/serverAuth";
+import { jsonError, serviceError } from "@/lib/apiResponse";
+
+//Issues the signed QR token for the caller's own RSVP to an event
+export async function GET(req: Request) {
+    try {
+        const auth = await getRequestProfile(req);
+        if (!auth) {
+            return jsonError(401, "You must be logged in");
+        }
+
+        const eventId = new URL(req.url).searchParams.get("eventId");
+        if (!eventId) {
+            return jsonError(400, "eventId is required");
+        }
+
+        const attendee = await auth.repository.findAttendee(eventId, auth.profile.id);
+        if (!attendee) {
+            return jsonError(404, "You haven't RSVP'd to this event");
+        }
+
+        return Response.json({
+            token: createCheckinToken({ attendeeId: attendee.id, eventId }),
+            checkedInAt: attendee.checked_in_at,
+        });
+    } catch (error) {
+        return serviceError(error);
+    }
+}
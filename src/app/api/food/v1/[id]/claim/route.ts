@@ -0,0 +1,25 @@
+import { fetchEvent, rsvpToEvent } from "@/lib/eventService";
+import { getRequestProfile } from "@/lib/serverAuth";
+import { jsonError, serviceError } from "@/lib/apiResponse";
+import { toFoodEventResource } from "@/lib/foodApi";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+//Claims a spot at a food event for the caller, the same as an RSVP in the app
+export async function POST(req: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const auth = await getRequestProfile(req);
+        if (!auth) {
+            return jsonError(401, "You must be logged in");
+        }
+
+        await rsvpToEvent(id, auth.profile.id, auth.repository);
+        const event = await fetchEvent(id, auth.repository);
+        return Response.json({ data: toFoodEventResource(event) }, { status: 201 });
+    } catch (error) {
+        return serviceError(error);
+    }
+}
@@ -0,0 +1,71 @@
+import { deleteEvent, fetchEvent, fetchEventFormData, updateEvent } from "@/lib/eventService";
+import { getRequestProfile } from "@/lib/serverAuth";
+import { hasPermission } from "@/lib/permissions";
+import { getEventRepository } from "@/lib/repository";
+import { jsonError, serviceError } from "@/lib/apiResponse";
+import { parseFoodEventBody, toFoodEventResource } from "@/lib/foodApi";
+import { fetchBuildings } from "@/lib/locationService";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+//Gets one food event, private events are only visible to their organizer and roles that can edit any event
+export async function GET(req: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const auth = await getRequestProfile(req);
+        const event = await fetchEvent(id, auth?.repository ?? getEventRepository());
+
+        const canSeePrivate = !!auth && (event.organizerId === auth.profile.id || hasPermission(auth.profile.role, "edit_any_event"));
+        if (!event.isPublic && !canSeePrivate) {
+            return jsonError(404, "Event not found");
+        }
+
+        return Response.json({ data: toFoodEventResource(event) });
+    } catch (error) {
+        return serviceError(error);
+    }
+}
+
+//Updates a food event, only the fields in the body change
+export async function PATCH(req: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const auth = await getRequestProfile(req);
+        if (!auth) {
+            return jsonError(401, "You must be logged in");
+        }
+
+        const body = await req.json().catch(() => undefined);
+        const existing = await fetchEventFormData(id, auth.repository);
+        const { data, errors } = parseFoodEventBody(body, {
+            name: auth.profile.full_name,
+            email: auth.profile.email,
+        }, await fetchBuildings({}, auth.supabase), existing);
+        if (!data) {
+            return jsonError(400, "Invalid request body", errors);
+        }
+
+        const event = await updateEvent(id, data, auth.profile.id, auth.repository);
+        return Response.json({ data: toFoodEventResource(event) });
+    } catch (error) {
+        return serviceError(error);
+    }
+}
+
+//Deletes a food event and everything attached to it
+export async function DELETE(req: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const auth = await getRequestProfile(req);
+        if (!auth) {
+            return jsonError(401, "You must be logged in");
+        }
+
+        await deleteEvent(id, auth.profile.id, auth.repository);
+        return new Response(null, { status: 204 });
+    } catch (error) {
+        return serviceError(error);
+    }
+}
@@ -0,0 +1,57 @@
+import { createEvent, fetchEvent, fetchPublicEventsPage } from "@/lib/eventService";
+import { getRequestProfile } from "@/lib/serverAuth";
+import { getEventRepository } from "@/lib/repository";
+import { hasPermission } from "@/lib/permissions";
+import { jsonError, paginated, parsePagination, serviceError } from "@/lib/apiResponse";
+import { FOOD_API_VERSION, parseFoodEventBody, toFoodEventResource } from "@/lib/foodApi";
+import { fetchBuildings } from "@/lib/locationService";
+import { API_ROUTES } from "@/constants/config";
+
+//Lists upcoming public food events, one page at a time
+export async function GET(req: Request) {
+    try {
+        const { pagination, errors } = parsePagination(new URL(req.url).searchParams);
+        if (!pagination) {
+            return jsonError(400, "Invalid pagination", errors);
+        }
+
+        const auth = await getRequestProfile(req);
+        const { events, total } = await fetchPublicEventsPage(pagination.page, pagination.pageSize, auth?.repository ?? getEventRepository());
+        return Response.json(paginated(events.map(toFoodEventResource), pagination, total));
+    } catch (error) {
+        return serviceError(error);
+    }
+}
+
+//Posts a new food event, needs the create_event permission
+export async function POST(req: Request) {
+    try {
+        const auth = await getRequestProfile(req);
+        if (!auth) {
+            return jsonError(401, "You must be logged in");
+        }
+
+        if (!hasPermission(auth.profile.role, "create_event")) {
+            return jsonError(403, "Only faculty can post food events");
+        }
+
+        const body = await req.json().catch(() => undefined);
+        const { data, errors } = parseFoodEventBody(body, {
+            name: auth.profile.full_name,
+            email: auth.profile.email,
+        }, await fetchBuildings({}, auth.supabase));
+        if (!data) {
+            return jsonError(400, "Invalid request body", errors);
+        }
+
+        const created = await createEvent(data, auth.profile.id, auth.repository);
+        const event = await fetchEvent(created.id, auth.repository);
+
+        return Response.json({ data: toFoodEventResource(event) }, {
+            status: 201,
+            headers: { Location: `${API_ROUTES.FOOD}/${FOOD_API_VERSION}/${event.id}` },
+        });
+    } catch (error) {
+        return serviceError(error);
+    }
+}
@@ -0,0 +1,63 @@
+import { getRequestProfile } from "@/lib/serverAuth";
+import { jsonError, paginated, parsePagination, serviceError } from "@/lib/apiResponse";
+import {
+    fetchNotifications,
+    getUnreadNotificationCount,
+    markAllNotificationsRead,
+    markNotificationsRead
+} from "@/lib/notificationService";
+
+//Lists the caller's notifications, newest first, with ?unread=true for unread only
+export async function GET(req: Request) {
+    try {
+        const auth = await getRequestProfile(req);
+        if (!auth) {
+            return jsonError(401, "You must be logged in");
+        }
+
+        const searchParams = new URL(req.url).searchParams;
+        const { pagination, errors } = parsePagination(searchParams);
+        if (!pagination) {
+            return jsonError(400, "Invalid pagination", errors);
+        }
+
+        const [{ notifications, total }, unreadCount] = await Promise.all([
+            fetchNotifications(auth.profile.id, {
+                ...pagination,
+                unreadOnly: searchParams.get("unread") === "true",
+            }, auth.supabase),
+            getUnreadNotificationCount(auth.profile.id, auth.supabase),
+        ]);
+
+        return Response.json({ ...paginated(notifications, pagination, total), unreadCount });
+    } catch (error) {
+        return serviceError(error);
+    }
+}
+
+//Marks notifications read, either { "ids": [...] } or { "all": true }
+export async function PATCH(req: Request) {
+    try {
+        const auth = await getRequestProfile(req);
+        if (!auth) {
+            return jsonError(401, "You must be logged in");
+        }
+
+        const body = await req.json().catch(() => undefined);
+        const hasIds = Array.isArray(body?.ids) && body.ids.every((id: unknown) => typeof id === "string");
+        if (body?.all !== true && !hasIds) {
+            return jsonError(400, "Invalid request body", {
+                body: 'Send { "ids": [...] } or { "all": true }',
+            });
+        }
+
+        const updated = body.all === true
+            ? await markAllNotificationsRead(auth.profile.id, auth.supabase)
+            : await markNotificationsRead(auth.profile.id, body.ids, auth.supabase);
+        const unreadCount = await getUnreadNotificationCount(auth.profile.id, auth.supabase);
+
+        return Response.json({ data: { updated, unreadCount } });
+    } catch (error) {
+        return serviceError(error);
+    }
+}
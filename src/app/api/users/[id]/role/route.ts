@@ -0,0 +1,38 @@
+import { getRequestProfile } from "@/lib/serverAuth";
+import { jsonError, serviceError } from "@/lib/apiResponse";
+import { hasPermission, setUserRole } from "@/lib/permissions";
+import { ROLES } from "@/constants/config";
+import { UserRole } from "@/types";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+//Changes a user's role, admins only. Approving a faculty request is { "role": "faculty" },
+//declining it is { "role": "student" }.
+export async function PATCH(req: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const auth = await getRequestProfile(req);
+        if (!auth) {
+            return jsonError(401, "You must be logged in");
+        }
+
+        if (!hasPermission(auth.profile.role, "manage_users")) {
+            return jsonError(403, "Only admins can change roles");
+        }
+
+        const body = await req.json().catch(() => undefined);
+        const roles: string[] = Object.values(ROLES);
+        if (!roles.includes(body?.role)) {
+            return jsonError(400, "Invalid request body", {
+                role: `role must be one of ${roles.join(", ")}`,
+            });
+        }
+
+        await setUserRole(id, body.role as UserRole, auth.supabase);
+        return Response.json({ data: { id, role: body.role } });
+    } catch (error) {
+        return serviceError(error);
+    }
+}
@@ -0,0 +1,41 @@
+import { getRequestProfile } from "@/lib/serverAuth";
+import { jsonError, serviceError } from "@/lib/apiResponse";
+import { hasPermission } from "@/lib/permissions";
+import { setUserSuspended } from "@/lib/adminService";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+//Suspends or reinstates a user, admins only. Suspending is { "suspended": true, "reason": "..." },
+//reinstating is { "suspended": false }.
+export async function PATCH(req: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const auth = await getRequestProfile(req);
+        if (!auth) {
+            return jsonError(401, "You must be logged in");
+        }
+
+        if (!hasPermission(auth.profile.role, "manage_users")) {
+            return jsonError(403, "Only admins can suspend accounts");
+        }
+
+        const body = await req.json().catch(() => undefined);
+        const errors: Record<string, string> = {};
+        if (typeof body?.suspended !== "boolean") {
+            errors.suspended = "suspended must be true or false";
+        }
+        if (body?.suspended === true && (typeof body.reason !== "string" || !body.reason.trim())) {
+            errors.reason = "reason is required when suspending";
+        }
+        if (Object.keys(errors).length > 0) {
+            return jsonError(400, "Invalid request body", errors);
+        }
+
+        await setUserSuspended(id, body.suspended, body.reason ?? "", auth.supabase);
+        return Response.json({ data: { id, suspended: body.suspended } });
+    } catch (error) {
+        return serviceError(error);
+    }
+}
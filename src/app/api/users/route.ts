@@ -0,0 +1,51 @@
+import { getRequestProfile } from "@/lib/serverAuth";
+import { jsonError, paginated, parsePagination, serviceError } from "@/lib/apiResponse";
+import { hasPermission } from "@/lib/permissions";
+import { AdminUserStatus, fetchUsers } from "@/lib/adminService";
+import { ROLES } from "@/constants/config";
+
+const STATUSES: AdminUserStatus[] = ["active", "suspended", "pending"];
+
+//Lists users for admins, by name. Filters: ?search= (name or email), ?role=, and
+//?status=active|suspended|pending (pending = waiting on faculty approval)
+export async function GET(req: Request) {
+    try {
+        const auth = await getRequestProfile(req);
+        if (!auth) {
+            return jsonError(401, "You must be logged in");
+        }
+
+        if (!hasPermission(auth.profile.role, "manage_users")) {
+            return jsonError(403, "Only admins can list users");
+        }
+
+        const searchParams = new URL(req.url).searchParams;
+        const { pagination, errors = {} } = parsePagination(searchParams);
+
+        const roles: string[] = Object.values(ROLES);
+        const role = searchParams.get("role") ?? undefined;
+        if (role && !roles.includes(role)) {
+            errors.role = `role must be one of ${roles.join(", ")}`;
+        }
+
+        const status = searchParams.get("status") ?? undefined;
+        if (status && !STATUSES.includes(status as AdminUserStatus)) {
+            errors.status = `status must be one of ${STATUSES.join(", ")}`;
+        }
+
+        if (!pagination || Object.keys(errors).length > 0) {
+            return jsonError(400, "Invalid query", errors);
+        }
+
+        const { users, total } = await fetchUsers({
+            ...pagination,
+            search: searchParams.get("search") ?? "",
+            role,
+            status: status as AdminUserStatus | undefined,
+        }, auth.supabase);
+
+        return Response.json(paginated(users, pagination, total));
+    } catch (error) {
+        return serviceError(error);
+    }
+}
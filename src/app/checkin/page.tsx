@@ -0,0 +1,232 @@
+"use client";
+
+/**
+ * Check-In Page Component
+ *
+ * Faculty-only screen for checking students in when they pick up food. The organizer
+ * picks one of their events, then scans each student's QR code (or pastes the code
+ * printed under it). The server checks the code's signature, rejects codes for other
+ * events and codes that were already used, and stamps the attendee's check-in time.
+ *
+ * The roster underneath shows everyone who RSVP'd and who has shown up, which is
+ * where organizers get their no-show numbers from.
+ *
+ * Opened from the event details modal as /checkin?eventId=<id>.
+ *
+ * @component
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { ArrowLeftIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { EVENT_STATUS } from '@/constants/map';
+import { getEventRepository } from '@/lib/repository';
+import { checkInAttendee, CheckinRosterEntry, fetchCheckinRoster } from '@/lib/checkinService';
+import { hasPermission } from '@/lib/permissions';
+import QrScanner from '@/components/common/QrScanner';
+
+interface OrganizerEvent {
+    id: string;
+    title: string;
+    start_time: string;
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+export default function CheckinPage() {
+    const router = useRouter();
+    const [isLoading, setIsLoading] = useState(true);
+    const [isFaculty, setIsFaculty] = useState(false);
+    const [events, setEvents] = useState<OrganizerEvent[]>([]);
+    const [eventId, setEventId] = useState<string>('');
+    const [roster, setRoster] = useState<CheckinRosterEntry[]>([]);
+    const [code, setCode] = useState('');
+    const [isScanning, setIsScanning] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Load the organizer's events, and preselect the one from the URL if there is one
+    useEffect(() => {
+        const loadOrganizer = async () => {
+            try {
+                const profile = await getEventRepository().findSignedInProfile();
+                if (!profile) {
+                    router.push('/login');
+                    return;
+                }
+
+                if (!hasPermission(profile.role, 'edit_own_event')) {
+                    setIsFaculty(false);
+                    return;
+                }
+                setIsFaculty(true);
+
+                const organizerEvents = await getEventRepository().findOrganizerEvents(profile.id, {
+                    excludedStatuses: [EVENT_STATUS.DRAFT, EVENT_STATUS.CANCELLED],
+                });
+
+                setEvents(organizerEvents);
+                const requestedId = new URLSearchParams(window.location.search).get('eventId');
+                const initial = organizerEvents.find(event => event.id === requestedId) ?? organizerEvents[0];
+                if (initial) {
+                    setEventId(initial.id);
+                }
+            } catch (error) {
+                console.error('Error loading check-in page:', error);
+                toast.error('Failed to load check-in. Please try again.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadOrganizer();
+    }, [router]);
+
+    const loadRoster = useCallback(async () => {
+        if (!eventId) return;
+        try {
+            setRoster(await fetchCheckinRoster(eventId));
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to load attendees');
+        }
+    }, [eventId]);
+
+    useEffect(() => {
+        loadRoster();
+    }, [loadRoster]);
+
+    const handleCheckIn = useCallback(async (token: string) => {
+        if (!eventId || !token.trim()) return;
+
+        setIsSubmitting(true);
+        try {
+            const result = await checkInAttendee(eventId, token.trim());
+            toast.success(`${result.attendeeName ?? 'Attendee'} checked in`);
+            setCode('');
+            await loadRoster();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Check-in failed');
+        } finally {
+            setIsSubmitting(false);
+        }
+    }, [eventId, loadRoster]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        handleCheckIn(code);
+    };
+
+    const checkedInCount = roster.filter(entry => entry.checkedInAt).length;
+
+    if (isLoading) {
+        return (
+            <div className="min-h-screen bg-zinc-900 flex items-center justify-center">
+                <p className="text-zinc-400">Loading...</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-zinc-900 text-white p-6">
+            <div className="max-w-2xl mx-auto space-y-6">
+                <Link href="/dashboard" className="inline-flex items-center text-zinc-400 hover:text-white transition-colors">
+                    <ArrowLeftIcon className="h-5 w-5 mr-2" />
+                    Back to Dashboard
+                </Link>
+
+                <h1 className="text-3xl font-bold">Food Pickup Check-In</h1>
+
+                {!isFaculty ? (
+                    <p className="text-zinc-400">Only faculty organizers can check attendees in.</p>
+                ) : events.length === 0 ? (
+                    <p className="text-zinc-400">You don&apos;t have any events to check people in to.</p>
+                ) : (
+                    <>
+                        <div>
+                            <label htmlFor="checkinEvent" className="block text-sm font-medium text-zinc-400 mb-2">
+                                Event
+                            </label>
+                            <select
+                                id="checkinEvent"
+                                value={eventId}
+                                onChange={(e) => setEventId(e.target.value)}
+                                className="w-full px-4 py-2 rounded-lg bg-zinc-800 border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-green-500"
+                            >
+                                {events.map(event => (
+                                    <option key={event.id} value={event.id}>
+                                        {event.title} ({new Date(event.start_time).toLocaleDateString()})
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="bg-zinc-800 rounded-lg p-4 space-y-4">
+                            <div className="flex justify-between items-center">
+                                <h2 className="text-lg font-semibold">Scan a code</h2>
+                                <button
+                                    type="button"
+                                    onClick={() => setIsScanning(!isScanning)}
+                                    className="px-4 py-2 rounded-lg bg-zinc-700 hover:bg-zinc-600 text-sm font-medium transition-colors"
+                                >
+                                    {isScanning ? 'Stop Camera' : 'Start Camera'}
+                                </button>
+                            </div>
+                            {isScanning && <QrScanner onScan={handleCheckIn} />}
+
+                            <form onSubmit={handleSubmit} className="flex space-x-2">
+                                <label htmlFor="checkinCode" className="sr-only">Check-in code</label>
+                                <input
+                                    id="checkinCode"
+                                    type="text"
+                                    value={code}
+                                    onChange={(e) => setCode(e.target.value)}
+                                    placeholder="Or paste a check-in code"
+                                    className="flex-1 px-4 py-2 rounded-lg bg-zinc-700 border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-green-500"
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={isSubmitting || !code.trim()}
+                                    className="px-4 py-2 rounded-lg bg-green-600 hover:bg-green-500 font-medium transition-colors disabled:opacity-50"
+                                >
+                                    {isSubmitting ? 'Checking...' : 'Check In'}
+                                </button>
+                            </form>
+                        </div>
+
+                        <div className="bg-zinc-800 rounded-lg p-4">
+                            <div className="flex justify-between items-center mb-4">
+                                <h2 className="text-lg font-semibold">Attendees</h2>
+                                <span className="text-sm text-zinc-400">
+                                    {checkedInCount} of {roster.length} checked in
+                                </span>
+                            </div>
+                            {roster.length === 0 ? (
+                                <p className="text-sm text-zinc-400">Nobody has RSVP&apos;d yet.</p>
+                            ) : (
+                                <ul className="divide-y divide-zinc-700">
+                                    {roster.map(entry => (
+                                        <li key={entry.id} className="flex justify-between items-center py-2">
+                                            <div>
+                                                <p className="font-medium">{entry.name}</p>
+                                                <p className="text-xs text-zinc-400">{entry.email}</p>
+                                            </div>
+                                            {entry.checkedInAt ? (
+                                                <span className="flex items-center text-sm text-green-300">
+                                                    <CheckCircleIcon className="h-4 w-4 mr-1" />
+                                                    {formatTime(entry.checkedInAt)}
+                                                </span>
+                                            ) : (
+                                                <span className="text-sm text-zinc-500">Not yet</span>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
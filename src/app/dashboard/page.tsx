@@ -9,6 +9,9 @@
  * - Interactive map display
  * - Real-time event listing
  * - Event creation functionality
+ * - Dietary profile that dims (or hides) events where nothing fits
+ * - Reporting events to moderators, and a link to the admin console for admins
+ * - Link to the impact analytics for faculty and admins
  * 
  * Recent Updates:
  * - Removed unused navigation items (Nearby Events, Upcoming Events)
@@ -19,22 +22,55 @@
  * @component
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import Map from '@/components/map/Map';
 import { useUserLocation } from '@/hooks/useUserLocation';
-import { DashboardEvent, EventFormData } from '@/types/event';
+import { useNow } from '@/hooks/useNow';
+import { Building, DashboardEvent, EventFormData, EventTemplate, SeriesScope } from '@/types/event';
 import NavBar from '@/components/navigation/NavBar';
 import AddEventModal from '@/components/common/AddEventModal';
-import { HomeIcon, CalendarIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { HomeIcon, CalendarIcon, PlusIcon, ShieldCheckIcon, WrenchScrewdriverIcon, ChartBarIcon, CalendarDaysIcon, DocumentDuplicateIcon, MapIcon, XMarkIcon } from '@heroicons/react/24/outline';
 import supabase from "@/lib/supabaseClient";
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import EventDetailsModal from '@/components/common/EventDetailsModal';
 import MyEventsModal from '@/components/common/MyEventsModal';
+import EventStatusBadge from '@/components/common/EventStatusBadge';
+import DietaryProfileModal from '@/components/common/DietaryProfileModal';
+import CalendarFeedsModal from '@/components/common/CalendarFeedsModal';
+import PostedEventsModal from '@/components/common/PostedEventsModal';
 import { DIETARY_TAGS } from '@/constants/eventData';
 import toast from 'react-hot-toast';
-import { cancelRsvp, createEvent, rsvpToEvent } from '@/lib/eventService';
-import {fetchPublicEvents} from '@/lib/eventService';
+import {
+    adjustFoodQuantity,
+    cancelEvent,
+    cancelRsvp,
+    createEvent,
+    fetchEvent,
+    fetchEventFormData,
+    fetchOrganizerEvents,
+    getUserRsvp,
+    getUserWaitlistPositions,
+    joinWaitlist,
+    leaveWaitlist,
+    rsvpToEvent,
+    updateEvent
+} from '@/lib/eventService';
+import { deriveEventStatus, displayStatus, isFoodGone, VISIBLE_STATUSES, withDerivedStatus, withDerivedStatuses } from '@/lib/eventLifecycle';
+import { FoodItemRow, withFoodItem, withFoodRemaining, withoutFoodItem } from '@/lib/foodInventory';
+import { DietaryFit, getEventDietaryFit, saveDietaryProfile } from '@/lib/dietaryProfile';
+import { hasPermission } from '@/lib/permissions';
+import { reportEvent } from '@/lib/adminService';
+import { getCalendarToken, rotateCalendarToken } from '@/lib/calendarService';
+import { duplicateEventFormData } from '@/lib/eventTemplates';
+import { DATA_SOURCE, EVENT_TIMING } from '@/constants/config';
+import {fetchEventsNear, fetchPublicEventsInBounds} from '@/lib/eventService';
+import { containsBounds, isInBounds, padBounds } from '@/lib/mapFeatures';
+import { getEventRepository, toDashboardEvent, withEventRow } from '@/lib/repository';
+import { isEventFull, RsvpCountRow, RsvpCounts, toRsvpCounts, withRsvpCounts } from '@/lib/rsvpCounts';
+import { MAP_VIEWPORT, NEARBY_EVENTS } from '@/constants/map';
+import { MapBounds, WalkingRoute } from '@/types/map';
+import { arrivalTime, campusWalkingRoute, canArriveBefore, formatWalk, getRoutingProvider } from '@/lib/routing';
 import { profile, time } from 'console';
 
 
@@ -50,49 +86,137 @@ export default function Dashboard() {
     const [isAddEventModalOpen, setIsAddEventModalOpen] = useState(false);
     const [isEventDetailsModalOpen, setIsEventDetailsModalOpen] = useState(false);
     const [isMyEventsModalOpen, setIsMyEventsModalOpen] = useState(false);
+    const [myEvents, setMyEvents] = useState<DashboardEvent[]>([]); // loaded from the user's RSVPs each time My Events opens
     const [selectedEvent, setSelectedEvent] = useState<DashboardEvent | null>(null);
     const [events, setEvents] = useState<DashboardEvent[]>([]);
     const [userRole, setUserRole] = useState("student"); //tracking user role (starts with student for security)
     const [userRsvps, setUserRsvps] = useState<Record<string, boolean>>({});
+    const [userWaitlist, setUserWaitlist] = useState<Record<string, number>>({}); // event id -> place in line
     const [isLoading, setIsLoading] = useState(true);
     const [userId, setUserId] = useState<string | null>(null);
+    const [editingEvent, setEditingEvent] = useState<{ id: string; formData: EventFormData } | null>(null);
+    const [isDietaryProfileOpen, setIsDietaryProfileOpen] = useState(false);
+    const [dietaryRestrictions, setDietaryRestrictions] = useState<string[]>([]); // restriction ids from the user's profile
+    const [hideConflictingEvents, setHideConflictingEvents] = useState(false);
+    const [sortBy, setSortBy] = useState<'soonest' | 'nearest'>('soonest');
+    const [nearbyEvents, setNearbyEvents] = useState<DashboardEvent[] | null>(null); // the Nearest list, null until it loads
+    const [directions, setDirections] = useState<{ eventId: string; route: WalkingRoute } | null>(null); // route drawn on the map
+    const [isCalendarFeedsOpen, setIsCalendarFeedsOpen] = useState(false);
+    const [calendarToken, setCalendarToken] = useState<string | null>(null); // loaded the first time the feeds are opened
+    const [isPostedEventsOpen, setIsPostedEventsOpen] = useState(false);
+    const [postedEvents, setPostedEvents] = useState<DashboardEvent[] | null>(null); // null while loading
+    const [templates, setTemplates] = useState<EventTemplate[]>([]);
+    const [buildings, setBuildings] = useState<Building[]>([]); // the campus building catalog
+    // Pre-fills the Add Event form for duplicates, the key re-initializes the form each time it opens
+    const [addEventInitialData, setAddEventInitialData] = useState<EventFormData | undefined>(undefined);
+    const [addEventFormKey, setAddEventFormKey] = useState(0);
+    // Ticks so statuses move from scheduled -> starting soon -> live -> ended without a reload
+    const now = useNow(EVENT_TIMING.STATUS_REFRESH_MS);
+    // Mirrors userRsvps so the realtime callbacks (registered once) can read the latest value
+    const userRsvpsRef = useRef<Record<string, boolean>>({});
+    const userWaitlistRef = useRef<Record<string, number>>({});
+    // The area around the map's viewport that events were last loaded for, and the latest load
+    const loadedBoundsRef = useRef<MapBounds | null>(null);
+    const boundsRequestRef = useRef(0);
+
+    useEffect(() => {
+        userRsvpsRef.current = userRsvps;
+    }, [userRsvps]);
+
+    useEffect(() => {
+        userWaitlistRef.current = userWaitlist;
+    }, [userWaitlist]);
+
+    useEffect(() => {
+        getEventRepository().findBuildings()
+            .then(setBuildings)
+            .catch(() => toast.error("Failed to load buildings"));
+    }, []);
+
+    // Applies a change to the map's events and the Nearest list, which is loaded separately
+    const updateEventLists = useCallback((update: (list: DashboardEvent[]) => DashboardEvent[]) => {
+        setEvents(update);
+        setNearbyEvents(prev => prev ? update(prev) : prev);
+    }, []);
+
+    // Shows an event's latest counts on the map, both lists and an open details modal
+    const applyRsvpCounts = useCallback((eventId: string, counts: RsvpCounts) => {
+        const apply = (event: DashboardEvent) => event.id === eventId ? withRsvpCounts(event, counts) : event;
+        updateEventLists(list => list.map(apply));
+        setSelectedEvent(prev => prev ? apply(prev) : prev);
+    }, [updateEventLists]);
+
+    // Reads the counts back after the user's own RSVP or waitlist change, realtime brings everyone else's
+    const refreshRsvpCounts = async (eventId: string) => {
+        try {
+            const event = await fetchEvent(eventId);
+            applyRsvpCounts(eventId, { attendees: event.attendees, waitlistCount: event.waitlistCount ?? 0 });
+        } catch (error) {
+            console.error("Unable to refresh RSVP counts", error);
+        }
+    };
+
+    // Live attendee and waitlist counts as anyone RSVPs, cancels or joins a waitlist
+    useEffect(() => {
+        // The memory store has no realtime, the dashboard reloads what this user changes instead
+        if (DATA_SOURCE === 'memory') return;
+
+        const countsNotification = supabase
+        .channel("public:event_rsvp_counts")
+        .on(
+            'postgres_changes',
+            { event: '*', schema: 'public', table: 'event_rsvp_counts' },
+            (payload: any) => {
+                // The counts row goes away with its event, the events channel drops that
+                if (payload.eventType === 'DELETE') return;
+
+                const row = payload.new as RsvpCountRow;
+                applyRsvpCounts(row.event_id, toRsvpCounts(row));
+            }
+        )
+        .subscribe();
+
+        return () => {
+            supabase.removeChannel(countsNotification);
+        };
+    }, [applyRsvpCounts]);
 
     // Load RSVPs from localStorage on component mount
 useEffect(() => {
     const fetchUserAndEvents = async () => {
         setIsLoading(true);
         try {
-            const {data: {user}} = await supabase.auth.getUser();
-            if (user) {
-                const {data: profile, error: profileError} = await supabase
-                    .from("profiles")
-                    .select("role, id")
-                    .eq("auth_id", user.id)
-                    .single();
-
-                if (profile && !profileError) {
-                    setUserRole(profile.role);
-                    setUserId(profile.id);
-
-                    const eventsData = await fetchPublicEvents();
-                    setEvents(eventsData);
-
-                    const {data: rsvps, error: rsvpError} = await supabase
-                        .from("event_attendees")
-                        .select("event_id")
-                        .eq("user_id", profile.id);
-
-                    if (!rsvpError && rsvps) {
-                        const rsvpMap: Record<string, boolean> = {};
-                        rsvps.forEach(rsvp => {
-                            rsvpMap[rsvp.event_id] = true;
-                        });
-                        setUserRsvps(rsvpMap);
-                    }
-                }
-            } else {
+            const profile = await getEventRepository().findSignedInProfile();
+            if (!profile) {
+                router.push('/login');
+                return;
+            }
+
+            // Suspended accounts are signed out until an admin reinstates them
+            if (profile.suspended_at) {
+                toast.error("Your account is suspended. Contact sparkbytesbu@gmail.com if you think this is a mistake.");
+                await supabase.auth.signOut();
                 router.push('/login');
+                return;
             }
+
+            setUserRole(profile.role);
+            setUserId(profile.id);
+            setDietaryRestrictions(profile.dietary_restrictions || []);
+
+            if (hasPermission(profile.role, "create_event")) {
+                getEventRepository().findTemplates(profile.id)
+                    .then(setTemplates)
+                    .catch(() => toast.error("Failed to load your event templates"));
+            }
+
+            const rsvpMap: Record<string, boolean> = {};
+            (await getEventRepository().findAttendingEventIds(profile.id)).forEach(eventId => {
+                rsvpMap[eventId] = true;
+            });
+            setUserRsvps(rsvpMap);
+
+            setUserWaitlist(await getUserWaitlistPositions(profile.id));
         } catch (error) {
             console.error("Unable to fetch the user's role", error);
             toast.error("Failed to load user data. Please try again.");
@@ -105,62 +229,7 @@ useEffect(() => {
     // using await directly in useEffect
     fetchUserAndEvents();
 
-    const checkForNewEvents = async () => {
-        try {
-          // Get the user's profile with last_login
-            // First, get the current user
-            const { data: { user } } = await supabase.auth.getUser();
-            if (!user) return;
-            
-            // Get the user's profile with last_login
-            const { data: profile, error: profileError } = await supabase
-                .from("profiles")
-                .select("last_login")
-                .eq("auth_id", user.id) // Use user.id directly from auth instead of userId state
-                .single();
-            
-            if (profileError || !profile) {
-                console.error("Error fetching profile:", profileError);
-                return;
-            }
-
-            const timeThreshold = profile.last_login
-                ? profile.last_login
-                : new Date (Date.now() -7 * 24 * 60 * 60 * 1000).toISOString(); // Default to 7 days ago if last_login is null    
-    
-            // Get events created since last login
-            const { data: newEvents, error: eventsError } = await supabase
-                .from("events")
-                .select("id, title, location")
-                .gt("created_at", timeThreshold)
-                .order("created_at", { ascending: false });
-
-            if (eventsError) {
-                console.error("Error fetching new events:", eventsError);
-                return;
-            }
-
-            if (newEvents && newEvents.length > 0) {
-                if (newEvents.length > 3) {
-                    toast(`${newEvents.length} new food events have been added since your last visit!`, {
-                        icon: '🍔',
-                        duration: 5000,
-                    });
-                } else{
-                    newEvents.forEach(event => {
-                        toast(`New event: ${event.title} at ${event.location}`, {
-                            icon: '🍔',
-                            duration: 5000,
-                        });
-                    });
-                }
-            }
-        } catch (error) {
-            console.error("Error checking for new events:", error);
-        }
-    };
-
-    checkForNewEvents();
+    if (DATA_SOURCE === 'memory') return;
 
     // Set up realtime subscription
     const eventsNotification = supabase
@@ -169,76 +238,236 @@ useEffect(() => {
         'postgres_changes',
         { event: 'INSERT', schema: 'public', table: 'events' },
         (payload: any) => {
-            setEvents(prev => [...prev, transformEventRecord(payload.new)]);
-            toast.success("New event added!");
+            // Events outside the loaded area show up when the map is moved there
+            const added = toDashboardEvent(payload.new);
+            if (loadedBoundsRef.current && isInBounds(added.coords, loadedBoundsRef.current)) {
+                setEvents(prev => [...prev, added]);
+            }
+            // A recurring event inserts every occurrence at once, one toast is enough
+            toast.success("New event added!", { id: "event-added" });
         }
     )
     .on(
         'postgres_changes',
         { event: 'UPDATE', schema: 'public', table: 'events' },
         (payload: any) => {
-        setEvents(prev => prev.map(event => 
-            event.id === payload.new.id ? transformEventRecord(payload.new) : event
-        ));
-        toast.success("Event updated!");
+        // Let attendees know when an event they RSVP'd to is cancelled
+        if (payload.new.status === "cancelled" && payload.old?.status !== "cancelled" && userRsvpsRef.current[payload.new.id]) {
+            toast.error(
+                `${payload.new.title} was cancelled${payload.new.cancellation_reason ? `: ${payload.new.cancellation_reason}` : ""}`,
+                { duration: 8000 }
+            );
+        }
+
+        // Events that left the visible lifecycle states drop off the map and both lists
+        updateEventLists(list => withEventRow(list, payload.new));
+        if (VISIBLE_STATUSES.includes(payload.new.status)) {
+            toast.success("Event updated!", { id: "event-updated" });
+        }
         }
     )
     .on(
         'postgres_changes',
         { event: 'DELETE', schema: 'public', table: 'events' },
         (payload: any) => {
-            setEvents(prev => prev.filter(event => event.id !== payload.old.id));
+            updateEventLists(list => list.filter(event => event.id !== payload.old.id));
             toast.success("Event deleted!");
         }
     )
     .subscribe();
+
+    // Live portion counts as organizers hand food out
+    const foodNotification = supabase
+    .channel("public:food_items")
+    .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'food_items' },
+        (payload: any) => {
+            if (payload.eventType === 'DELETE') {
+                const foodItemId = payload.old.id;
+                updateEventLists(list => list.map(event => withoutFoodItem(event, foodItemId)));
+                setSelectedEvent(prev => prev ? withoutFoodItem(prev, foodItemId) : prev);
+                return;
+            }
+
+            const row = payload.new as FoodItemRow;
+            updateEventLists(list => list.map(event => event.id === row.event_id ? withFoodItem(event, row) : event));
+            setSelectedEvent(prev => prev && prev.id === row.event_id ? withFoodItem(prev, row) : prev);
+        }
+    )
+    .subscribe();
+
     return () => {
         supabase.removeChannel(eventsNotification);
+        supabase.removeChannel(foodNotification);
     };
-}, [router]);
-
-
-    //Helper function to transform event records from database to Frontend format
-
-    const transformEventRecord = (record: any): DashboardEvent => {
-        let coords: [number, number] = [-71.1097, 42.3505]; //BU coordinates
-        if (record.location_coordinates) {
-            const coordString = record.location_coordinates.replace(/[()]/g, '');
-            const [x, y] = coordString.split(',').map(Number);
-            coords = [x, y];
-        }
-
-        //Formats the time range string
-        const startTime = new Date(record.start_time);
-        const endTime = new Date(record.end_time);
-        const timeRange = `${startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} - ${endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
-
-        return {
-            id: record.id,
-            title: record.title,
-            location: record.location,
-            time: timeRange,
-            attendees: 0,
-            status: record.status,
-            coords: coords,
-            description: record.description || "",
-            foodOfferings: record.food_offerings || [],
-            organizerName: "Loading...",  // Will be fetched separately
-            organizerEmail: "", //
-            maxAttendees: record.max_attendees,
-            isPublic: record.is_public,
+}, [router, updateEventLists]);
+
+
+    // Tell waitlisted users when a cancellation promotes them to attendee
+    useEffect(() => {
+        if (!userId || DATA_SOURCE === 'memory') return;
+
+        const promotionNotification = supabase
+        .channel(`event_attendees:user:${userId}`)
+        .on(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'event_attendees', filter: `user_id=eq.${userId}` },
+            (payload: any) => {
+                const eventId = payload.new.event_id;
+                // Only inserts for events we were waiting on are promotions, the rest are our own RSVPs
+                if (!userWaitlistRef.current[eventId]) return;
+
+                setUserWaitlist(prev => {
+                    const newState = {...prev};
+                    delete newState[eventId];
+                    return newState;
+                });
+                setUserRsvps(prev => ({ ...prev, [eventId]: true }));
+                toast.success("A spot opened up! You've been moved off the waitlist and are now attending.", {
+                    duration: 8000,
+                });
+            }
+        )
+        .subscribe();
+
+        return () => {
+            supabase.removeChannel(promotionNotification);
+        };
+    }, [userId]);
+
+    // Re-derive every event's status on each tick, only touching state when a status actually changed
+    useEffect(() => {
+        updateEventLists(list => withDerivedStatuses(list, now));
+        setSelectedEvent(prev => prev ? withDerivedStatus(prev, now) : prev);
+    }, [now, updateEventLists]);
+
+    // Events that have ended (or were cancelled) drop off the map and list
+    const visibleEvents = useMemo(
+        () => events.filter(event => VISIBLE_STATUSES.includes(event.status)),
+        [events]
+    );
+
+    // Nearest asks the database for the events around the user instead of sorting what the map loaded
+    useEffect(() => {
+        if (sortBy !== 'nearest' || !coords) {
+            setNearbyEvents(null);
+            return;
+        }
+
+        let isCurrent = true;
+        fetchEventsNear(coords, NEARBY_EVENTS.RADIUS_METERS)
+            .then(found => {
+                if (isCurrent) setNearbyEvents(found);
+            })
+            .catch(error => toast.error(error instanceof Error ? error.message : "Failed to load events nearby"));
+        return () => {
+            isCurrent = false;
         };
+    }, [sortBy, coords]);
+
+    // Events where every food item conflicts with the dietary profile are dimmed, or hidden on request
+    const dietaryFits = useMemo(() => {
+        const fits: Record<string, DietaryFit> = {};
+        visibleEvents.concat(nearbyEvents || []).forEach(event => {
+            fits[event.id] = getEventDietaryFit(event, dietaryRestrictions);
+        });
+        return fits;
+    }, [visibleEvents, nearbyEvents, dietaryRestrictions]);
+
+    const listedEvents = useMemo(
+        () => hideConflictingEvents
+            ? visibleEvents.filter(event => dietaryFits[event.id] !== 'conflicts')
+            : visibleEvents,
+        [visibleEvents, dietaryFits, hideConflictingEvents]
+    );
+
+    const dimmedEventIds = useMemo(
+        () => listedEvents.filter(event => dietaryFits[event.id] === 'conflicts').map(event => event.id),
+        [listedEvents, dietaryFits]
+    );
+
+    // Walking estimates from the offline footpath graph, instant so every listed event gets one
+    const walks = useMemo(() => {
+        const estimates: Record<string, WalkingRoute> = {};
+        if (coords) {
+            listedEvents.concat(nearbyEvents || []).forEach(event => {
+                estimates[event.id] = campusWalkingRoute(coords, event.coords);
+            });
+        }
+        return estimates;
+    }, [coords, listedEvents, nearbyEvents]);
+
+    // Nearest lists the events the database found around the user in its order, Soonest the map's events
+    const sortedEvents = useMemo(
+        () => sortBy === 'nearest' && nearbyEvents
+            ? nearbyEvents.filter(event => VISIBLE_STATUSES.includes(event.status)
+                && (!hideConflictingEvents || dietaryFits[event.id] !== 'conflicts'))
+            : [...listedEvents].sort((a, b) => a.startTime.getTime() - b.startTime.getTime()),
+        [listedEvents, nearbyEvents, sortBy, dietaryFits, hideConflictingEvents]
+    );
+
+    // The map shows the walk in its marker popups
+    const mapEvents = useMemo(
+        () => listedEvents.map(event => walks[event.id] ? { ...event, distance: formatWalk(walks[event.id]) } : event),
+        [listedEvents, walks]
+    );
+
+    const routingProvider = useMemo(() => getRoutingProvider(), []);
+    const directionsEvent = directions ? listedEvents.find(event => event.id === directions.eventId) : undefined;
+
+    const handleShowDirections = async (event: DashboardEvent) => {
+        if (!coords) {
+            toast.error(error || "Allow location access to get walking directions");
+            return;
+        }
+
+        try {
+            const route = await routingProvider.getWalkingRoute(coords, event.coords);
+            setDirections({ eventId: event.id, route });
+        } catch (routeError) {
+            toast.error(routeError instanceof Error ? routeError.message : "Couldn't find a walking route");
+        }
+    };
+
+    // Loads the events around the visible area, unless the last load already covers it
+    const handleBoundsChange = async (bounds: MapBounds) => {
+        if (loadedBoundsRef.current && containsBounds(loadedBoundsRef.current, bounds)) return;
+
+        const area = padBounds(bounds, MAP_VIEWPORT.PADDING);
+        const request = ++boundsRequestRef.current;
+        try {
+            const eventsData = await fetchPublicEventsInBounds(area);
+            // The map moved on while this area loaded
+            if (request !== boundsRequestRef.current) return;
+            loadedBoundsRef.current = area;
+            setEvents(eventsData);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to load events");
+        }
+    };
+
+    // Without realtime (the memory store) nothing else brings in the events this user adds or edits
+    const reloadLoadedEvents = async () => {
+        if (DATA_SOURCE !== 'memory' || !loadedBoundsRef.current) return;
+        try {
+            setEvents(await fetchPublicEventsInBounds(loadedBoundsRef.current));
+        } catch (error) {
+            console.error("Unable to reload events", error);
+        }
     };
 
-    const handleMarkerClick = (eventId: string) => {
+    const handleMarkerClick = async (eventId: string) => {
         const eventIdStr = String(eventId);
         
-        // Find the event using string comparison
-        const event = events.find(e => e.id === eventIdStr);
+        // Find the event using string comparison, in every list a marker can come from
+        const event = events.concat(nearbyEvents || [], myEvents).find(e => e.id === eventIdStr);
         
-        if (event) {
-            setSelectedEvent(event);
+        try {
+            setSelectedEvent(event || await fetchEvent(eventIdStr));
             setIsEventDetailsModalOpen(true);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to load this event");
         }
     };
 
@@ -252,9 +481,10 @@ useEffect(() => {
             await createEvent(eventData, userId);
             toast.success("Event created successfully!");
             setIsAddEventModalOpen(false);
+            reloadLoadedEvents();
         } catch(error) {
             console.error("Unable to create event", error);
-            toast.error("Unable to create event. Please try again.");
+            toast.error(error instanceof Error ? error.message : "Unable to create event. Please try again.");
         }
     };
 
@@ -291,18 +521,8 @@ useEffect(() => {
                     return newState;
                 });
                 
-                // Update attendee count in UI
-                setEvents(prev => 
-                    prev.map(event => {
-                        if (event.id === eventId) {
-                            return { 
-                                ...event, 
-                                attendees: Math.max(0, event.attendees - 1)
-                            };
-                        }
-                        return event;
-                    })
-                );
+                // A promoted waitlister may have taken the freed seat, so read the counts back
+                await refreshRsvpCounts(eventId);
                 
                 toast.success("Your RSVP has been canceled");
             } else {
@@ -310,17 +530,7 @@ useEffect(() => {
                 await rsvpToEvent(eventId, userId);
                 
                 //Update attendees on the front end
-                setEvents(prev =>
-                    prev.map(event => {
-                        if (event.id === eventId) {
-                            return { 
-                                ...event, 
-                                attendees: event.attendees + 1
-                            };
-                        }
-                        return event;
-                    })
-                );
+                await refreshRsvpCounts(eventId);
 
                 // Update local state for UI
                 setUserRsvps(prev => ({
@@ -328,19 +538,6 @@ useEffect(() => {
                     [eventId]: true
                 }));
                 
-                // Update attendee count in UI
-                setEvents(prev => 
-                    prev.map(event => {
-                        if (event.id === eventId) {
-                            return { 
-                                ...event, 
-                                attendees: Math.max(0, event.attendees - 1)
-                            };
-                        }
-                        return event;
-                    })
-                );
-                
                 toast.success("You have successfully RSVP'd to this event!");
             }
         } catch (error) {
@@ -350,7 +547,9 @@ useEffect(() => {
             if (error instanceof Error) {
                 switch(error.message) {
                     case "Event is full":
-                        toast.error("This event has reached its maximum capacity");
+                        // Someone else took the last spot, show the event as full
+                        refreshRsvpCounts(eventId);
+                        toast.error("This event has reached its maximum capacity. You can join the waitlist instead.");
                         break;
                     case "Event not found":
                         toast.error("This event no longer exists");
@@ -372,13 +571,219 @@ useEffect(() => {
         }
     };
 
-    const getUserRsvpdEvents = (): DashboardEvent[] => {
-        return events.filter(event => !!userRsvps[event.id]);
+    const handleToggleWaitlist = async (eventId: string) => {
+        if (!userId) {
+            toast.error("You must be logged in to join a waitlist");
+            return;
+        }
+
+        try {
+            if (userWaitlist[eventId]) {
+                await leaveWaitlist(eventId, userId);
+                setUserWaitlist(prev => {
+                    const newState = {...prev};
+                    delete newState[eventId];
+                    return newState;
+                });
+                await refreshRsvpCounts(eventId);
+                toast.success("You've left the waitlist");
+            } else {
+                const position = await joinWaitlist(eventId, userId);
+                setUserWaitlist(prev => ({ ...prev, [eventId]: position }));
+                await refreshRsvpCounts(eventId);
+                toast.success(`You're #${position} on the waitlist`);
+            }
+        } catch (error) {
+            console.error("Error toggling waitlist:", error);
+            toast.error(error instanceof Error ? error.message : "Failed to update waitlist. Please try again.");
+        }
+    };
+
+    // My Events loads the user's own RSVPs, the map only holds the events around the visible area
+    const handleOpenMyEvents = async () => {
+        if (!userId) return;
+
+        try {
+            const attending = await getUserRsvp(userId);
+            setMyEvents(attending
+                .filter(event => VISIBLE_STATUSES.includes(event.status))
+                .sort((a, b) => a.startTime.getTime() - b.startTime.getTime()));
+            setIsMyEventsModalOpen(true);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to load your events");
+        }
     };
 
-    const handleEditEvent = (event: DashboardEvent) => {
-        toast(`Editing event: ${event.title}`);
+    const handleEditEvent = async (event: DashboardEvent) => {
+        try {
+            const formData = await fetchEventFormData(event.id);
+            setEditingEvent({ id: event.id, formData });
+            setIsEventDetailsModalOpen(false);
+        } catch (error) {
+            console.error("Unable to load event for editing", error);
+            toast.error("Unable to load this event. Please try again.");
+        }
+    };
+
+    const handleCancelEvent = async (event: DashboardEvent, reason: string, scope: SeriesScope) => {
+        if (!userId) {
+            toast.error("Login to cancel events");
+            return;
+        }
+
+        // Errors are rethrown so the details modal can show them
+        const { cancelledEventIds, notifiedAttendees } = await cancelEvent(event.id, userId, reason, scope);
+        updateEventLists(list => list.filter(e => !cancelledEventIds.includes(e.id)));
         setIsEventDetailsModalOpen(false);
+        setSelectedEvent(null);
+        const cancelled = cancelledEventIds.length > 1 ? `${cancelledEventIds.length} events cancelled.` : "Event cancelled.";
+        toast.success(
+            notifiedAttendees > 0
+                ? `${cancelled} ${notifiedAttendees} attendee${notifiedAttendees === 1 ? " has" : "s have"} been notified.`
+                : cancelled
+        );
+    };
+
+    const handleReportEvent = async (event: DashboardEvent, reason: string) => {
+        if (!userId) {
+            toast.error("Login to report events");
+            return;
+        }
+
+        // Errors are rethrown so the details modal can show them
+        await reportEvent(event.id, userId, reason);
+        toast.success("Thanks, a moderator will take a look.");
+    };
+
+    const handleAdjustFood = async (foodItemId: string, delta: number) => {
+        // Errors are rethrown so the details modal can show them
+        const { remaining, eventStatus } = await adjustFoodQuantity(foodItemId, delta);
+        const applyCount = (event: DashboardEvent) => {
+            if (!event.foodOfferings.some(item => item.id === foodItemId)) return event;
+            const counted = withFoodRemaining(event, foodItemId, remaining);
+            return { ...counted, status: deriveEventStatus(eventStatus, counted.startTime, counted.endTime) };
+        };
+
+        updateEventLists(list => list.map(applyCount));
+        setSelectedEvent(prev => prev ? applyCount(prev) : prev);
+        if (remaining === 0) {
+            toast.success("That was the last portion, add some back if you restock.");
+        }
+    };
+
+    const handleSaveDietaryProfile = async (restrictionIds: string[]) => {
+        if (!userId) {
+            toast.error("Login to save your dietary profile");
+            throw new Error("Not logged in");
+        }
+
+        try {
+            setDietaryRestrictions(await saveDietaryProfile(userId, restrictionIds));
+            toast.success("Dietary profile saved");
+        } catch (error) {
+            console.error("Error saving dietary profile:", error);
+            toast.error(error instanceof Error ? error.message : "Failed to save your dietary profile");
+            throw error;
+        }
+    };
+
+    const handleOpenCalendarFeeds = async () => {
+        if (!userId) {
+            toast.error("Login to subscribe to calendar feeds");
+            return;
+        }
+
+        setIsCalendarFeedsOpen(true);
+        if (calendarToken) return;
+        try {
+            setCalendarToken(await getCalendarToken());
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to load your calendar feeds");
+            setIsCalendarFeedsOpen(false);
+        }
+    };
+
+    const handleResetCalendarToken = async () => {
+        try {
+            setCalendarToken(await rotateCalendarToken());
+            toast.success("Feed links reset. Subscribe again with the new links.");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to reset your calendar feeds");
+            throw error;
+        }
+    };
+
+    const openAddEventForm = (initialData?: EventFormData) => {
+        setAddEventInitialData(initialData);
+        setAddEventFormKey(key => key + 1);
+        setIsAddEventModalOpen(true);
+    };
+
+    const handleOpenPostedEvents = async () => {
+        if (!userId) return;
+
+        setIsPostedEventsOpen(true);
+        setPostedEvents(null);
+        try {
+            setPostedEvents(await fetchOrganizerEvents(userId));
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to load your events");
+            setIsPostedEventsOpen(false);
+        }
+    };
+
+    const handleDuplicateEvent = async (event: DashboardEvent, date: string) => {
+        try {
+            const formData = await fetchEventFormData(event.id);
+            setIsPostedEventsOpen(false);
+            openAddEventForm(duplicateEventFormData(formData, date));
+        } catch (error) {
+            console.error("Unable to load event to duplicate", error);
+            toast.error("Unable to load this event. Please try again.");
+            throw error;
+        }
+    };
+
+    // Saving under an existing name replaces that template
+    const handleSaveTemplate = async (name: string, data: EventFormData) => {
+        if (!userId) {
+            toast.error("Login to save templates");
+            throw new Error("Not logged in");
+        }
+
+        const template = await getEventRepository().saveTemplate(userId, name, data);
+        setTemplates(prev => [...prev.filter(t => t.id !== template.id), template].sort((a, b) => a.name.localeCompare(b.name)));
+        toast.success(`Saved template "${template.name}"`);
+    };
+
+    const handleSaveEventAsTemplate = async (event: DashboardEvent, name: string) => {
+        try {
+            await handleSaveTemplate(name, await fetchEventFormData(event.id));
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save template");
+            throw error;
+        }
+    };
+
+    const handleDeleteTemplate = async (templateId: string) => {
+        await getEventRepository().deleteTemplate(templateId);
+        setTemplates(prev => prev.filter(t => t.id !== templateId));
+        toast.success("Template deleted");
+    };
+
+    const handleUpdateEvent = async (eventData: EventFormData, scope: SeriesScope) => {
+        if (!userId || !editingEvent) {
+            toast.error("Login to edit events");
+            return;
+        }
+
+        // Errors are rethrown so the modal stays open and shows them
+        // The other occurrences an edit applies to come in through the realtime subscription
+        const updatedEvent = await updateEvent(editingEvent.id, eventData, userId, undefined, scope);
+        updateEventLists(list => list.map(event => event.id === updatedEvent.id ? updatedEvent : event));
+        setSelectedEvent(prev => prev && prev.id === updatedEvent.id ? updatedEvent : prev);
+        setEditingEvent(null);
+        if (scope !== 'this') reloadLoadedEvents();
     };
 
 
@@ -412,22 +817,68 @@ useEffect(() => {
                         </button>
 
                         <button 
-                            onClick={() => setIsMyEventsModalOpen(true)}
+                            onClick={handleOpenMyEvents}
                             className="flex items-center text-white hover:text-green-400 transition-colors w-full text-left"
                         >
                             <CalendarIcon className="w-5 h-5 mr-3" />
                             My Events
                         </button>
+
+                        <button 
+                            onClick={() => setIsDietaryProfileOpen(true)}
+                            className="flex items-center text-white hover:text-green-400 transition-colors w-full text-left"
+                        >
+                            <ShieldCheckIcon className="w-5 h-5 mr-3" />
+                            Dietary Profile
+                        </button>
+
+                        <button 
+                            onClick={handleOpenCalendarFeeds}
+                            className="flex items-center text-white hover:text-green-400 transition-colors w-full text-left"
+                        >
+                            <CalendarDaysIcon className="w-5 h-5 mr-3" />
+                            Calendar Feeds
+                        </button>
                     
-                    {userRole === "faculty" && (
+                    {hasPermission(userRole, "create_event") && (
                         <button
-                            onClick={() => setIsAddEventModalOpen(true)}
+                            onClick={() => openAddEventForm()}
                             className="flex items-center text-white hover:text-green-400 mt-8 transition-colors w-full text-left"
                         >
                             <PlusIcon className="w-5 h-5 mr-3" />
                             Add Event
                         </button>
                     )}
+
+                    {hasPermission(userRole, "create_event") && (
+                        <button
+                            onClick={handleOpenPostedEvents}
+                            className="flex items-center text-white hover:text-green-400 transition-colors w-full text-left"
+                        >
+                            <DocumentDuplicateIcon className="w-5 h-5 mr-3" />
+                            Posted Events
+                        </button>
+                    )}
+
+                    {hasPermission(userRole, "create_event") && (
+                        <Link
+                            href="/analytics"
+                            className="flex items-center text-white hover:text-green-400 transition-colors w-full text-left"
+                        >
+                            <ChartBarIcon className="w-5 h-5 mr-3" />
+                            Impact Analytics
+                        </Link>
+                    )}
+
+                    {(hasPermission(userRole, "manage_users") || hasPermission(userRole, "moderate")) && (
+                        <Link
+                            href="/admin"
+                            className="flex items-center text-white hover:text-green-400 transition-colors w-full text-left"
+                        >
+                            <WrenchScrewdriverIcon className="w-5 h-5 mr-3" />
+                            Admin Console
+                        </Link>
+                    )}
                     </nav>
                 </div>
 
@@ -436,38 +887,93 @@ useEffect(() => {
                     {/* Map Section */}
                     <div className="flex-1 relative">
                         <Map 
-                            events={events}
+                            events={mapEvents}
                             onMarkerClick={handleMarkerClick}
                             userPos={coords || undefined}
+                            dimmedEventIds={dimmedEventIds}
+                            onBoundsChange={handleBoundsChange}
+                            route={directionsEvent ? directions?.route.coordinates : undefined}
                         />
+
+                        {/* Walking directions summary */}
+                        {directions && directionsEvent && (
+                            <div className="absolute top-16 left-1/2 -translate-x-1/2 bg-zinc-800/90 text-white px-4 py-2 rounded-lg shadow-lg z-10 flex items-start gap-3">
+                                <div>
+                                    <p className="text-sm font-semibold">Walking to {directionsEvent.title}</p>
+                                    <p className="text-xs text-zinc-300">
+                                        {formatWalk(directions.route)} · arrive {arrivalTime(directions.route, now).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                                    </p>
+                                    {!canArriveBefore(directions.route, directionsEvent.endTime, now) && (
+                                        <p className="text-xs font-medium text-red-300">It ends before you&apos;d get there</p>
+                                    )}
+                                </div>
+                                <button
+                                    onClick={() => setDirections(null)}
+                                    className="text-zinc-400 hover:text-white transition-colors"
+                                    aria-label="Clear route"
+                                >
+                                    <XMarkIcon className="h-5 w-5" />
+                                </button>
+                            </div>
+                        )}
                     </div>
 
                     {/* Events List */}
                     <div className="w-96 bg-zinc-800 p-6 overflow-y-auto">
                         <div className="flex justify-between items-center mb-6">
                             <h2 className="text-xl font-semibold text-white">Available Events</h2>
-                            <span className="text-zinc-400 text-sm">{events.length} events found</span>
+                            <span className="text-zinc-400 text-sm">{sortedEvents.length} events found</span>
+                        </div>
+
+                        {dietaryRestrictions.length > 0 && (
+                            <label className="flex items-center text-sm text-zinc-300 mb-4 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={hideConflictingEvents}
+                                    onChange={(e) => setHideConflictingEvents(e.target.checked)}
+                                    className="mr-2 accent-green-500"
+                                />
+                                Hide events that don&apos;t fit my diet
+                            </label>
+                        )}
+
+                        <div className="flex items-center justify-between mb-4">
+                            <label htmlFor="sortEvents" className="text-sm text-zinc-300">Sort by</label>
+                            <select
+                                id="sortEvents"
+                                value={sortBy}
+                                onChange={(e) => setSortBy(e.target.value as 'soonest' | 'nearest')}
+                                className="bg-zinc-700 text-white text-sm rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-green-500"
+                            >
+                                <option value="soonest">Soonest</option>
+                                <option value="nearest" disabled={!coords}>Nearest{coords ? '' : ' (needs your location)'}</option>
+                            </select>
                         </div>
 
                         <div className="space-y-4">
-                            {events.map((event) => (
-                                <div key={event.id} className="bg-zinc-700 rounded-lg p-4">
+                            {sortedEvents.map((event) => (
+                                <div
+                                    key={event.id}
+                                    className={`bg-zinc-700 rounded-lg p-4 transition-opacity ${
+                                        dietaryFits[event.id] === 'conflicts' ? 'opacity-50' : ''
+                                    }`}
+                                >
                                     <div className="flex justify-between items-start mb-2">
                                         <h3 className="text-lg font-semibold text-white">{event.title}</h3>
-                                        <span className={`px-2 py-1 rounded text-xs font-medium ${
-                                            event.status === 'available' 
-                                                ? 'bg-green-500/20 text-green-300'
-                                                : 'bg-amber-500/20 text-amber-300'
-                                        }`}>
-                                            {event.status === 'available' ? 'Available Now' : 'Starting Soon'}
-                                        </span>
+                                        <EventStatusBadge status={displayStatus(event)} />
                                     </div>
+                                    {dietaryFits[event.id] === 'conflicts' && (
+                                        <p className="text-xs font-medium text-amber-300 mb-2">Nothing here fits your diet</p>
+                                    )}
+                                    {dietaryFits[event.id] === 'partial' && (
+                                        <p className="text-xs font-medium text-amber-300 mb-2">Some items don&apos;t fit your diet</p>
+                                    )}
                                     <div className="space-y-2 text-sm text-zinc-300">
                                         <div className="flex items-center">
                                             <svg className="w-4 h-4 mr-2 text-zinc-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
                                             </svg>
-                                            {event.location}
+                                            {event.location}{event.locationRoom && `, ${event.locationRoom}`}
                                         </div>
                                         <div className="flex items-center">
                                             <svg className="w-4 h-4 mr-2 text-zinc-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -480,17 +986,54 @@ useEffect(() => {
                                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
                                             </svg>
                                             {event.attendees} attending
+                                            {isEventFull(event) && (
+                                                <span className="ml-2 text-xs font-medium text-red-300">
+                                                    Full{event.waitlistCount ? `, ${event.waitlistCount} waiting` : ''}
+                                                </span>
+                                            )}
                                         </div>
+                                        {walks[event.id] && (
+                                            <div className="flex items-start">
+                                                <MapIcon className="w-4 h-4 mr-2 mt-0.5 text-zinc-400 flex-none" />
+                                                <div>
+                                                    <p>
+                                                        {formatWalk(walks[event.id])} · arrive {arrivalTime(walks[event.id], now).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                                                    </p>
+                                                    {!canArriveBefore(walks[event.id], event.endTime, now) ? (
+                                                        <p className="text-xs font-medium text-red-300">Ends before you&apos;d get there</p>
+                                                    ) : isFoodGone(event) ? (
+                                                        <p className="text-xs font-medium text-stone-300">All the food is gone</p>
+                                                    ) : event.portionsTotal !== undefined && (
+                                                        <p className={`text-xs font-medium ${event.status === 'running_low' ? 'text-amber-300' : 'text-green-300'}`}>
+                                                            {event.portionsRemaining} of {event.portionsTotal} portions left
+                                                        </p>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        )}
+                                    </div>
+                                    <div className="flex space-x-2 mt-4">
+                                        <button
+                                            onClick={() => {
+                                                setSelectedEvent(event);
+                                                setIsEventDetailsModalOpen(true);
+                                            }}
+                                            className="flex-1 bg-zinc-600 hover:bg-green-600 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+                                        >
+                                            View Details
+                                        </button>
+                                        <button
+                                            onClick={() => handleShowDirections(event)}
+                                            className={`flex items-center font-medium py-2 px-3 rounded-lg transition-colors duration-200 ${
+                                                directions?.eventId === event.id
+                                                    ? 'bg-blue-600 text-white hover:bg-blue-500'
+                                                    : 'bg-zinc-600 text-white hover:bg-blue-600'
+                                            }`}
+                                            aria-label={`Walking directions to ${event.title}`}
+                                        >
+                                            <MapIcon className="h-5 w-5" />
+                                        </button>
                                     </div>
-                                    <button
-                                        onClick={() => {
-                                            setSelectedEvent(event);
-                                            setIsEventDetailsModalOpen(true);
-                                        }}
-                                        className="mt-4 w-full bg-zinc-600 hover:bg-green-600 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
-                                    >
-                                        View Details
-                                    </button>
                                 </div>
                             ))}
                         </div>
@@ -500,11 +1043,31 @@ useEffect(() => {
 
             {/* Add Event Modal */}
             <AddEventModal
+                key={addEventFormKey}
                 isOpen={isAddEventModalOpen}
                 onClose={() => setIsAddEventModalOpen(false)}
                 onSubmit={handleAddEvent}
+                initialData={addEventInitialData}
+                templates={templates}
+                onSaveTemplate={handleSaveTemplate}
+                onDeleteTemplate={handleDeleteTemplate}
+                buildings={buildings}
             />
 
+            {/* Edit Event Modal - keyed by event so the form re-initializes for each event */}
+            {editingEvent && (
+                <AddEventModal
+                    key={editingEvent.id}
+                    mode="edit"
+                    isOpen={true}
+                    initialData={editingEvent.formData}
+                    onClose={() => setEditingEvent(null)}
+                    onSubmit={handleUpdateEvent}
+                    onSaveTemplate={handleSaveTemplate}
+                    buildings={buildings}
+                />
+            )}
+
             {/* Event Details Modal */}
             {selectedEvent && (
                 <EventDetailsModal
@@ -517,14 +1080,46 @@ useEffect(() => {
                     isRsvpd={hasUserRsvpd(selectedEvent.id)}
                     onToggleRsvp={handleToggleRsvp}
                     onEditEvent={handleEditEvent}
+                    onCancelEvent={handleCancelEvent}
+                    onReportEvent={handleReportEvent}
+                    waitlistPosition={userWaitlist[selectedEvent.id] ?? null}
+                    onToggleWaitlist={handleToggleWaitlist}
+                    onAdjustFood={handleAdjustFood}
+                    dietaryRestrictions={dietaryRestrictions}
                 />
             )}
 
+            {/* Dietary Profile Modal */}
+            <DietaryProfileModal
+                isOpen={isDietaryProfileOpen}
+                onClose={() => setIsDietaryProfileOpen(false)}
+                restrictionIds={dietaryRestrictions}
+                onSave={handleSaveDietaryProfile}
+            />
+
+            {/* Posted Events Modal */}
+            <PostedEventsModal
+                isOpen={isPostedEventsOpen}
+                onClose={() => setIsPostedEventsOpen(false)}
+                events={postedEvents}
+                onDuplicate={handleDuplicateEvent}
+                onSaveTemplate={handleSaveEventAsTemplate}
+            />
+
+            {/* Calendar Feeds Modal */}
+            <CalendarFeedsModal
+                isOpen={isCalendarFeedsOpen}
+                onClose={() => setIsCalendarFeedsOpen(false)}
+                token={calendarToken}
+                onResetToken={handleResetCalendarToken}
+                buildings={buildings}
+            />
+
             {/* My Events Modal */}
             <MyEventsModal
                 isOpen={isMyEventsModalOpen}
                 onClose={() => setIsMyEventsModalOpen(false)}
-                myEvents={getUserRsvpdEvents()}
+                myEvents={myEvents}
                 onViewDetails={(event) => {
                     setSelectedEvent(event);
                     setIsMyEventsModalOpen(false);
@@ -6,6 +6,7 @@
 import { useState, useEffect } from "react" // allows us to store input values
 import { useRouter } from "next/navigation" // this replaces useNavigate in next.js
 import supabase from "../../lib/supabaseClient" // this links the supabase database to work for our login page
+import { getEventRepository } from "../../lib/repository"
 import "../../Auth.css" // brings in all the styles from your auth.css file
 import { toast } from 'react-hot-toast'
 
@@ -105,38 +106,20 @@ const Login = () => {
         return;
       }
 
-      //Checks if the user exists in the custom profiles table
+      //Records the login on the user's profile, people who signed up with Google may not have one yet
       if(data?.user) {
-        const { error: updateError } = await supabase
-        .from("profiles")
-        .update({ last_login: new Date().toISOString() })
-        .eq("auth_id", data.user.id);
-        
-        if (updateError) {
-          console.error("Failed to update last login time:", updateError);
+        try {
+          const repository = getEventRepository();
+          const profile = await repository.findProfileByAuthId(data.user.id);
+          if (profile) {
+            await repository.updateProfile(profile.id, { last_login: new Date().toISOString() });
+          }
+        } catch (profileError) {
+          console.error("Failed to update last login time:", profileError);
         }
-          
+
         router.push("/dashboard");
       }
-
-      const {data:profile, error:profileError} = await supabase
-        .from("profiles")
-        .select("*")
-        .eq("auth_id", data.user.id)
-        .single();
-
-        //PGRST116 is an error code from PostgREST used by Supabase that essentially means no results found
-        if (profileError && profileError.code !== 'PGRST116') {
-          console.error("Error fetching profile:", profileError)
-        }
-
-        //for the case in which the user has an account but does not have other necessary data stores 
-        //this occurs when user signs up with google authenticate 
-        if (!profile) {
-          router.push("/dashboard")
-        } else {
-          router.push("/dashboard")
-        }
       }
     catch (error) {
       console.error("Login failed:", error)
@@ -1,22 +1,15 @@
 "use client";
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
 import Map from '@/components/map/Map';
 import LocationPrompt from '@/components/common/LocationPrompt';
 import { useUserLocation } from '@/hooks/useUserLocation';
 import { Event } from '@/types/map';
 import { useRouter } from 'next/navigation';
-import { createBrowserClient } from '@supabase/ssr';
-
-/**
- * Initialize Supabase client for authentication and database operations
- * Uses environment variables for secure configuration
- */
-const supabase = createBrowserClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { fetchPublicEvents } from '@/lib/eventService';
+import { createMemoryRepository } from '@/lib/memoryRepository';
+import { createDemoData } from '@/lib/demoData';
 
 /**
  * Team member information for the About section
@@ -53,38 +46,6 @@ const teamMembers = [
     }
 ];
 
-/**
- * Mock events data for the map visualization
- * Each event includes:
- * - id: Unique identifier
- * - title: Event name
- * - location: Building name
- * - time: Event time
- * - attendees: Number of attendees
- * - status: Current status (available/starting_soon)
- * - coords: [longitude, latitude] coordinates
- */
-const mockEvents: Event[] = [
-    {
-        id: "1",
-        title: "Computer Science Seminar",
-        location: "CAS Building",
-        time: "2:00 PM",
-        attendees: 30,
-        status: "available",
-        coords: [-71.1097, 42.3505]
-    },
-    {
-        id: "2",
-        title: "Engineering Workshop",
-        location: "Photonics Center",
-        time: "3:30 PM",
-        attendees: 25,
-        status: "starting_soon",
-        coords: [-71.1080, 42.3490]
-    }
-];
-
 /**
  * LandingPage Component
  * Main landing page of the Spark!Bytes application
@@ -98,6 +59,17 @@ const mockEvents: Event[] = [
 export default function LandingPage() {
     const { coords, error, loading } = useUserLocation();
     const router = useRouter();
+    const [demoEvents, setDemoEvents] = useState<Event[]>([]);
+
+    /**
+     * Loads the seeded demo events behind the hero section
+     * They come from an in-memory repository, so the map fills in without a network or an account
+     */
+    useEffect(() => {
+        fetchPublicEvents(createMemoryRepository(createDemoData(new Date())))
+            .then(setDemoEvents)
+            .catch(() => setDemoEvents([]));
+    }, []);
 
     /**
      * Handles marker click events on the map
@@ -134,7 +106,7 @@ export default function LandingPage() {
                 {/* Map Background */}
                 <div className="absolute inset-0 z-0">
                     <Map 
-                        events={mockEvents}
+                        events={demoEvents}
                         onMarkerClick={handleMarkerClick}
                         userPos={coords || undefined}
                     />
@@ -268,7 +240,7 @@ export default function LandingPage() {
                                 Are you a faculty member interested in posting events?
                             </p>
                             <p className="text-xl">
-                                Please contact{' '}
+                                Sign up as faculty and an admin will approve your account, or contact{' '}
                                 <a 
                                     href="mailto:sparkbytesbu@gmail.com"
                                     className="text-green-400 hover:text-green-300 transition-colors duration-200 font-semibold"
@@ -276,7 +248,7 @@ export default function LandingPage() {
                                 >
                                     sparkbytesbu@gmail.com
                                 </a>
-                                {' '}to request a faculty access code.
+                                {' '}with any questions.
                             </p>
                         </div>
                     </div>
@@ -1,9 +1,9 @@
 "use client" // enables client-side logic and hooks like useState
 import supabase from "../../lib/supabaseClient";
+import { createSupabaseRepository } from "../../lib/supabaseRepository";
 import { useState } from "react" // allows us to save what the user types
 import { useRouter } from "next/navigation" // replaces useNavigate in next.js
 import "../../Auth.css" // custom styling for layout, inputs, buttons, etc
-import FacultyCodeModal from "@/components/common/FacultyCodeModal"
 import { toast } from 'react-hot-toast'
 
 /**
@@ -16,7 +16,7 @@ import { toast } from 'react-hot-toast'
  * - Full name collection (first and last name)
  * - BU email validation (@bu.edu)
  * - Password with confirmation
- * - User type selection (student/faculty)
+ * - User type selection (student/faculty), faculty accounts start as students until an admin approves them
  * 
  * Styling:
  * - Dark theme with zinc color palette
@@ -41,8 +41,6 @@ const Signup = () => {
   const [email, setEmail] = useState("")
   const [emailError, setEmailError] = useState("") // shows error if not @bu.edu
   const [userType, setUserType] = useState("student") // default radio button
-  const [isFacultyCodeModalOpen, setIsFacultyCodeModalOpen] = useState(false)
-  const [isFacultyVerified, setIsFacultyVerified] = useState(false)
 
   /* Google Login Handler - Temporarily disabled
   // this is what happens if someone tries to sign in with google instead of the normal form
@@ -61,22 +59,6 @@ const Signup = () => {
   };
   */
 
-  const handleUserTypeChange = (type) => {
-    if (type === "faculty") {
-      setIsFacultyCodeModalOpen(true)
-    } else {
-      setUserType(type)
-      setIsFacultyVerified(false)
-    }
-  }
-
-  const handleFacultyCodeSuccess = () => {
-    setUserType("faculty")
-    setIsFacultyVerified(true)
-    setIsFacultyCodeModalOpen(false)
-    toast.success("Faculty code verified. Please continue with sign-up.")
-  }
-
   /**
    * Handles form submission for signup
    * Validates the email domain and redirects based on user type
@@ -92,12 +74,6 @@ const Signup = () => {
       return
     }
 
-    // If user type is faculty, check if they've been verified
-    if (userType === "faculty" && !isFacultyVerified) {
-      toast.error("Please verify your faculty status before continuing")
-      return
-    }
-
     // if email is fine, clear any error
     setEmailError("")
 
@@ -120,7 +96,7 @@ const Signup = () => {
         emailRedirectTo: `${window.location.origin}/auth/callback`,
         data: {
           full_name: `${firstName} ${lastName}`,
-          role: userType
+          requested_role: userType === "faculty" ? "faculty" : null
         }
       }
     });
@@ -138,23 +114,28 @@ const Signup = () => {
       auth_id: user.id,
       email: user.email,
       full_name: `${firstName} ${lastName}`,
-      role: userType,
+      // everyone starts as a student, faculty access waits for an admin to approve the request
+      role: "student",
+      requested_role: userType === "faculty" ? "faculty" : null,
     }
 
     localStorage.setItem('userProfile', JSON.stringify(profileData));
     
     console.log("Inserting profile data:", profileData);
     
-    const { error: insertError } = await supabase.from("profiles").insert([ profileData ]);
-    
-    if (insertError) {
-      console.error("Error inserting profile:", insertError.message)
+    try {
+      await createSupabaseRepository(supabase).insertProfile(profileData)
+    } catch {
       toast.error("There was an error saving your profile data.")
       return
     }
     
     console.log("Profile inserted successfully!");
-    toast.success("Signup successful! Please check your email to confirm your account before logging in.");
+    toast.success(
+      userType === "faculty"
+        ? "Signup successful! Please confirm your email. An admin will review your faculty access request."
+        : "Signup successful! Please check your email to confirm your account before logging in."
+    );
     router.push("/login")
   }
 
@@ -257,7 +238,7 @@ const Signup = () => {
             <div className="grid grid-cols-2 gap-4">
               <button
                 type="button"
-                onClick={() => handleUserTypeChange("student")}
+                onClick={() => setUserType("student")}
                 className={`p-4 rounded-lg border-2 transition-all duration-200 ${
                   userType === "student"
                     ? "border-green-500 bg-green-500/10 text-green-500"
@@ -273,7 +254,7 @@ const Signup = () => {
               </button>
               <button
                 type="button"
-                onClick={() => handleUserTypeChange("faculty")}
+                onClick={() => setUserType("faculty")}
                 className={`p-4 rounded-lg border-2 transition-all duration-200 ${
                   userType === "faculty"
                     ? "border-green-500 bg-green-500/10 text-green-500"
@@ -288,9 +269,9 @@ const Signup = () => {
                 </div>
               </button>
             </div>
-            {userType === "faculty" && !isFacultyVerified && (
+            {userType === "faculty" && (
               <p className="text-sm text-amber-400 mt-2">
-                Please verify your faculty status to continue
+                An admin will review your faculty request. Until then you can use SparkBytes as a student.
               </p>
             )}
           </div>
@@ -322,13 +303,6 @@ const Signup = () => {
           </p>
         </form>
       </div>
-
-      {/* Faculty Code Modal */}
-      <FacultyCodeModal
-        isOpen={isFacultyCodeModalOpen}
-        onClose={() => setIsFacultyCodeModalOpen(false)}
-        onSuccess={handleFacultyCodeSuccess}
-      />
     </div>
   )
 }
@@ -0,0 +1,77 @@
+/**
+ * AuditLogPanel Component
+ *
+ * The Audit Log tab of the admin console, a read-only, newest-first list of every role
+ * change, suspension, event edit or cancellation by someone other than the organizer, and
+ * report decision. Entries are written by the database, so actions taken outside the
+ * console show up here too ("System" for changes made directly in the database).
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <AuditLogPanel />
+ * ```
+ */
+
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { AuditLogEntry } from '@/types';
+import { describeAuditEntry, fetchAuditLog } from '@/lib/adminService';
+import PageControls from './PageControls';
+
+const PAGE_SIZE = 50;
+
+export default function AuditLogPanel() {
+    const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        const loadEntries = async () => {
+            setIsLoading(true);
+            try {
+                const result = await fetchAuditLog({ page, pageSize: PAGE_SIZE });
+                setEntries(result.entries);
+                setTotal(result.total);
+            } catch (error) {
+                toast.error(error instanceof Error ? error.message : 'Failed to load the audit log');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadEntries();
+    }, [page]);
+
+    if (isLoading) {
+        return <p className="text-sm text-zinc-400">Loading audit log...</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            {entries.length === 0 ? (
+                <p className="text-sm text-zinc-400">Nothing has been logged yet.</p>
+            ) : (
+                <ul className="divide-y divide-zinc-700">
+                    {entries.map(entry => (
+                        <li key={entry.id} className="flex justify-between items-start gap-4 py-2">
+                            <div>
+                                <p className="text-sm">{describeAuditEntry(entry)}</p>
+                                <p className="text-xs text-zinc-400">{entry.actorName ?? 'System'}</p>
+                            </div>
+                            <time
+                                dateTime={entry.createdAt.toISOString()}
+                                className="text-xs text-zinc-500 whitespace-nowrap"
+                            >
+                                {entry.createdAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                            </time>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <PageControls page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </div>
+    );
+}
@@ -0,0 +1,220 @@
+/**
+ * BuildingsPanel Component
+ *
+ * The Buildings tab of the admin console, for the campus building catalog organizers pick
+ * event locations from. Admins can:
+ * - Add a building, with a short code, its name, address and a pin on the map
+ * - Edit one, upcoming events there move along with it
+ * - Retire one so it's no longer offered, or restore it. Buildings are never deleted since
+ *   past events still point at them.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <BuildingsPanel />
+ * ```
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import toast from 'react-hot-toast';
+import { Building } from '@/types/event';
+import { fetchBuildings, saveBuilding, setBuildingActive } from '@/lib/locationService';
+import { validateBuilding } from '@/lib/eventLocations';
+
+// Mapbox needs the browser, so the map only loads there
+const LocationPicker = dynamic(() => import('@/components/map/LocationPicker'), {
+    ssr: false,
+    loading: () => <div className="h-48 w-full rounded-lg bg-zinc-700 animate-pulse" />,
+});
+
+const NEW_BUILDING: Building = { id: '', name: '', address: '', coordinates: [NaN, NaN] };
+
+const inputClassName = 'w-full px-3 py-1.5 rounded-lg bg-zinc-700 border border-zinc-600 text-sm focus:outline-none focus:ring-2 focus:ring-green-500';
+
+export default function BuildingsPanel() {
+    const [buildings, setBuildings] = useState<Building[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [savingId, setSavingId] = useState<string | null>(null);
+    // The add or edit form, null while closed
+    const [draft, setDraft] = useState<{ building: Building; isNew: boolean } | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadBuildings = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setBuildings(await fetchBuildings({ includeInactive: true }));
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to load buildings');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadBuildings();
+    }, [loadBuildings]);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft) return;
+
+        const problem = validateBuilding(draft.building);
+        if (problem) {
+            toast.error(problem);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const saved = await saveBuilding(draft.building, draft.isNew);
+            toast.success(draft.isNew ? `${saved.name} was added` : `${saved.name} was saved`);
+            setDraft(null);
+            await loadBuildings();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to save building');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleToggleActive = async (building: Building) => {
+        const isActive = !building.isActive;
+        setSavingId(building.id);
+        try {
+            await setBuildingActive(building.id, isActive);
+            toast.success(isActive ? `${building.name} was restored` : `${building.name} was retired`);
+            await loadBuildings();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Something went wrong');
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    if (isLoading) {
+        return <p className="text-sm text-zinc-400">Loading buildings...</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            {draft ? (
+                <form onSubmit={handleSave} className="space-y-3 rounded-lg bg-zinc-900/40 p-4">
+                    <h3 className="font-medium">{draft.isNew ? 'Add a building' : `Edit ${draft.building.id}`}</h3>
+                    {draft.isNew && (
+                        <div>
+                            <label htmlFor="buildingId" className="block text-sm text-zinc-400 mb-1">
+                                Code, used in calendar feed links and can&apos;t change later
+                            </label>
+                            <input
+                                id="buildingId"
+                                type="text"
+                                value={draft.building.id}
+                                onChange={(e) => setDraft({ ...draft, building: { ...draft.building, id: e.target.value.toLowerCase() } })}
+                                placeholder="e.g. cds"
+                                className={inputClassName}
+                            />
+                        </div>
+                    )}
+                    <div>
+                        <label htmlFor="buildingName" className="block text-sm text-zinc-400 mb-1">Name</label>
+                        <input
+                            id="buildingName"
+                            type="text"
+                            value={draft.building.name}
+                            onChange={(e) => setDraft({ ...draft, building: { ...draft.building, name: e.target.value } })}
+                            placeholder="e.g. Duan Family Center for Computing & Data Science (CDS)"
+                            className={inputClassName}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="buildingAddress" className="block text-sm text-zinc-400 mb-1">Address</label>
+                        <input
+                            id="buildingAddress"
+                            type="text"
+                            value={draft.building.address}
+                            onChange={(e) => setDraft({ ...draft, building: { ...draft.building, address: e.target.value } })}
+                            placeholder="e.g. 665 Commonwealth Avenue"
+                            className={inputClassName}
+                        />
+                    </div>
+                    <div>
+                        <p className="text-sm text-zinc-400 mb-1">Click the map to place the building, then drag the pin to its entrance</p>
+                        <LocationPicker
+                            value={draft.building.coordinates}
+                            onChange={(coordinates) => setDraft({ ...draft, building: { ...draft.building, coordinates } })}
+                            label={`Map, click to place ${draft.building.name || 'the building'}`}
+                        />
+                    </div>
+                    <div className="flex justify-end space-x-2">
+                        <button
+                            type="button"
+                            onClick={() => setDraft(null)}
+                            disabled={isSaving}
+                            className="px-3 py-1.5 text-sm text-zinc-300 hover:text-white transition-colors disabled:opacity-50"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isSaving}
+                            className="px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-700 text-sm font-medium transition-colors disabled:opacity-50"
+                        >
+                            {isSaving ? 'Saving...' : 'Save Building'}
+                        </button>
+                    </div>
+                </form>
+            ) : (
+                <div className="flex justify-end">
+                    <button
+                        type="button"
+                        onClick={() => setDraft({ building: NEW_BUILDING, isNew: true })}
+                        className="px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-700 text-sm font-medium transition-colors"
+                    >
+                        Add Building
+                    </button>
+                </div>
+            )}
+
+            {buildings.length === 0 ? (
+                <p className="text-sm text-zinc-400">No buildings yet.</p>
+            ) : (
+                <ul className="divide-y divide-zinc-700">
+                    {buildings.map(building => (
+                        <li key={building.id} className="py-3 flex flex-wrap justify-between items-start gap-2">
+                            <div className={building.isActive ? '' : 'opacity-60'}>
+                                <p className="font-medium">
+                                    {building.name}
+                                    {!building.isActive && <span className="ml-2 text-xs text-zinc-400">Retired</span>}
+                                </p>
+                                <p className="text-xs text-zinc-400 mt-1">
+                                    {building.id}{building.address && ` · ${building.address}`}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <button
+                                    type="button"
+                                    onClick={() => setDraft({ building, isNew: false })}
+                                    disabled={savingId === building.id}
+                                    className="px-3 py-1.5 rounded-lg bg-zinc-700 hover:bg-zinc-600 text-sm font-medium transition-colors disabled:opacity-50"
+                                >
+                                    Edit
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => handleToggleActive(building)}
+                                    disabled={savingId === building.id}
+                                    className={`px-3 py-1.5 rounded-lg bg-zinc-700 text-sm font-medium transition-colors disabled:opacity-50 ${
+                                        building.isActive ? 'text-red-300 hover:bg-red-500/20' : 'hover:bg-zinc-600'
+                                    }`}
+                                >
+                                    {building.isActive ? 'Retire' : 'Restore'}
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,223 @@
+/**
+ * EventsPanel Component
+ *
+ * The Events tab of the admin console. Lists every event (public or not, in any status)
+ * with search, and lets admins edit any event in the usual event form or force-cancel it
+ * with a reason. Attendees are notified of cancellations the same way as when an
+ * organizer cancels.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <EventsPanel currentUserId={profileId} />
+ * ```
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Building, EventFormData, SeriesScope } from '@/types/event';
+import { AdminEvent, fetchAdminEvents } from '@/lib/adminService';
+import { cancelEvent, fetchEventFormData, updateEvent } from '@/lib/eventService';
+import { isTerminalStatus } from '@/lib/eventLifecycle';
+import { fetchBuildings } from '@/lib/locationService';
+import AddEventModal from '@/components/common/AddEventModal';
+import EventStatusBadge from '@/components/common/EventStatusBadge';
+import PageControls from './PageControls';
+
+interface EventsPanelProps {
+    currentUserId: string;
+}
+
+const PAGE_SIZE = 20;
+
+export default function EventsPanel({ currentUserId }: EventsPanelProps) {
+    const [events, setEvents] = useState<AdminEvent[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [searchInput, setSearchInput] = useState('');
+    const [search, setSearch] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [editingEvent, setEditingEvent] = useState<{ id: string; formData: EventFormData } | null>(null);
+    const [buildings, setBuildings] = useState<Building[]>([]);
+    // Inline cancel form
+    const [cancellingId, setCancellingId] = useState<string | null>(null);
+    const [cancelReason, setCancelReason] = useState('');
+    const [isCancelling, setIsCancelling] = useState(false);
+
+    const loadEvents = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const result = await fetchAdminEvents({ page, pageSize: PAGE_SIZE, search });
+            setEvents(result.events);
+            setTotal(result.total);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to load events');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [page, search]);
+
+    useEffect(() => {
+        loadEvents();
+    }, [loadEvents]);
+
+    useEffect(() => {
+        fetchBuildings()
+            .then(setBuildings)
+            .catch(() => toast.error('Failed to load buildings'));
+    }, []);
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        setPage(1);
+        setSearch(searchInput);
+    };
+
+    const handleEditClick = async (eventId: string) => {
+        try {
+            setEditingEvent({ id: eventId, formData: await fetchEventFormData(eventId) });
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to load event');
+        }
+    };
+
+    // Errors are rethrown so the modal stays open and shows them
+    const handleUpdateEvent = async (eventData: EventFormData, scope: SeriesScope) => {
+        if (!editingEvent) return;
+        await updateEvent(editingEvent.id, eventData, currentUserId, undefined, scope);
+        toast.success('Event updated');
+        setEditingEvent(null);
+        await loadEvents();
+    };
+
+    const handleCancel = async (event: AdminEvent) => {
+        if (!cancelReason.trim()) {
+            toast.error('Please give attendees a reason for the cancellation.');
+            return;
+        }
+
+        setIsCancelling(true);
+        try {
+            const { notifiedAttendees } = await cancelEvent(event.id, currentUserId, cancelReason);
+            toast.success(`"${event.title}" was cancelled, ${notifiedAttendees} attendee${notifiedAttendees === 1 ? '' : 's'} notified`);
+            setCancellingId(null);
+            setCancelReason('');
+            await loadEvents();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to cancel event');
+        } finally {
+            setIsCancelling(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <form onSubmit={handleSearch} className="flex space-x-2">
+                <label htmlFor="eventSearch" className="sr-only">Search events</label>
+                <input
+                    id="eventSearch"
+                    type="search"
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    placeholder="Search by title or location"
+                    className="flex-1 px-4 py-2 rounded-lg bg-zinc-700 border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <button
+                    type="submit"
+                    className="px-4 py-2 rounded-lg bg-green-600 hover:bg-green-500 font-medium transition-colors"
+                >
+                    Search
+                </button>
+            </form>
+
+            {isLoading ? (
+                <p className="text-sm text-zinc-400">Loading events...</p>
+            ) : events.length === 0 ? (
+                <p className="text-sm text-zinc-400">No events match this search.</p>
+            ) : (
+                <ul className="divide-y divide-zinc-700">
+                    {events.map(event => (
+                        <li key={event.id} className="py-3 space-y-2">
+                            <div className="flex flex-wrap justify-between items-center gap-2">
+                                <div>
+                                    <p className="font-medium">
+                                        {event.title}
+                                        {!event.isPublic && <span className="ml-2 text-xs text-zinc-400">(private)</span>}
+                                    </p>
+                                    <p className="text-xs text-zinc-400">
+                                        {event.organizerName} · {event.location} · {event.startTime.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <EventStatusBadge status={event.status} />
+                                    <button
+                                        type="button"
+                                        onClick={() => handleEditClick(event.id)}
+                                        className="px-3 py-1.5 rounded-lg bg-zinc-700 hover:bg-zinc-600 text-sm font-medium transition-colors"
+                                    >
+                                        Edit
+                                    </button>
+                                    {!isTerminalStatus(event.status) && cancellingId !== event.id && (
+                                        <button
+                                            type="button"
+                                            onClick={() => { setCancellingId(event.id); setCancelReason(''); }}
+                                            className="px-3 py-1.5 rounded-lg bg-zinc-700 text-red-300 hover:bg-red-500/20 text-sm font-medium transition-colors"
+                                        >
+                                            Cancel Event
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+
+                            {/* Cancel form */}
+                            {cancellingId === event.id && (
+                                <div className="flex space-x-2">
+                                    <label htmlFor={`cancelReason-${event.id}`} className="sr-only">Reason for cancelling {event.title}</label>
+                                    <input
+                                        id={`cancelReason-${event.id}`}
+                                        type="text"
+                                        value={cancelReason}
+                                        onChange={(e) => setCancelReason(e.target.value)}
+                                        placeholder="Reason, shown to attendees"
+                                        className="flex-1 px-3 py-1.5 rounded-lg bg-zinc-700 border border-zinc-600 text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => setCancellingId(null)}
+                                        disabled={isCancelling}
+                                        className="px-3 py-1.5 text-sm text-zinc-300 hover:text-white transition-colors disabled:opacity-50"
+                                    >
+                                        Keep Event
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => handleCancel(event)}
+                                        disabled={isCancelling}
+                                        className="px-3 py-1.5 rounded-lg bg-red-500 hover:bg-red-600 text-sm font-medium transition-colors disabled:opacity-50"
+                                    >
+                                        {isCancelling ? 'Cancelling...' : 'Confirm Cancellation'}
+                                    </button>
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <PageControls page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+
+            {/* Edit Event Modal - keyed by event so the form re-initializes for each event */}
+            {editingEvent && (
+                <AddEventModal
+                    key={editingEvent.id}
+                    mode="edit"
+                    isOpen={true}
+                    initialData={editingEvent.formData}
+                    onClose={() => setEditingEvent(null)}
+                    onSubmit={handleUpdateEvent}
+                    buildings={buildings}
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,50 @@
+/**
+ * PageControls Component
+ *
+ * Previous / next buttons and a "Page X of Y" label for the admin console lists.
+ * Hidden when everything fits on one page.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <PageControls page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+ * ```
+ */
+
+import React from 'react';
+
+interface PageControlsProps {
+    page: number;
+    pageSize: number;
+    total: number;
+    onPageChange: (page: number) => void;
+}
+
+export default function PageControls({ page, pageSize, total, onPageChange }: PageControlsProps) {
+    const totalPages = Math.ceil(total / pageSize);
+    if (totalPages <= 1) {
+        return null;
+    }
+
+    return (
+        <div className="flex justify-between items-center pt-4 text-sm">
+            <button
+                type="button"
+                onClick={() => onPageChange(page - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1.5 rounded-lg bg-zinc-700 hover:bg-zinc-600 transition-colors disabled:opacity-50"
+            >
+                Previous
+            </button>
+            <span className="text-zinc-400">Page {page} of {totalPages}</span>
+            <button
+                type="button"
+                onClick={() => onPageChange(page + 1)}
+                disabled={page >= totalPages}
+                className="px-3 py-1.5 rounded-lg bg-zinc-700 hover:bg-zinc-600 transition-colors disabled:opacity-50"
+            >
+                Next
+            </button>
+        </div>
+    );
+}
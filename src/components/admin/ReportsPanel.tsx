@@ -0,0 +1,175 @@
+/**
+ * ReportsPanel Component
+ *
+ * The Reports tab of the admin console, where moderators review events users flagged
+ * from the event details. Oldest open reports come first. For each report a moderator can:
+ * - Dismiss it when nothing is wrong
+ * - Cancel the event with a reason, which also resolves the report
+ * - Mark it resolved after dealing with it some other way (e.g. editing the event)
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ReportsPanel currentUserId={profileId} />
+ * ```
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { EventReport } from '@/types';
+import { fetchReports, resolveReport } from '@/lib/adminService';
+import { cancelEvent } from '@/lib/eventService';
+import PageControls from './PageControls';
+
+interface ReportsPanelProps {
+    currentUserId: string;
+}
+
+const PAGE_SIZE = 20;
+
+export default function ReportsPanel({ currentUserId }: ReportsPanelProps) {
+    const [reports, setReports] = useState<EventReport[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [isLoading, setIsLoading] = useState(true);
+    const [savingId, setSavingId] = useState<string | null>(null);
+    // Inline cancel form
+    const [cancellingId, setCancellingId] = useState<string | null>(null);
+    const [cancelReason, setCancelReason] = useState('');
+
+    const loadReports = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const result = await fetchReports({ page, pageSize: PAGE_SIZE });
+            setReports(result.reports);
+            setTotal(result.total);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to load reports');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [page]);
+
+    useEffect(() => {
+        loadReports();
+    }, [loadReports]);
+
+    const runForReport = async (reportId: string, action: () => Promise<void>, successMessage: string) => {
+        setSavingId(reportId);
+        try {
+            await action();
+            toast.success(successMessage);
+            setCancellingId(null);
+            setCancelReason('');
+            await loadReports();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Something went wrong');
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    const handleCancelEvent = (report: EventReport) => {
+        if (!cancelReason.trim()) {
+            toast.error('Please give attendees a reason for the cancellation.');
+            return;
+        }
+
+        runForReport(report.id, async () => {
+            await cancelEvent(report.eventId, currentUserId, cancelReason);
+            await resolveReport(report.id, 'resolved');
+        }, `"${report.eventTitle}" was cancelled`);
+    };
+
+    if (isLoading) {
+        return <p className="text-sm text-zinc-400">Loading reports...</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            {reports.length === 0 ? (
+                <p className="text-sm text-zinc-400">No open reports, nothing to review.</p>
+            ) : (
+                <ul className="divide-y divide-zinc-700">
+                    {reports.map(report => {
+                        const isSaving = savingId === report.id;
+                        return (
+                            <li key={report.id} className="py-3 space-y-2">
+                                <div className="flex flex-wrap justify-between items-start gap-2">
+                                    <div>
+                                        <p className="font-medium">{report.eventTitle}</p>
+                                        <p className="text-sm text-zinc-300 mt-1">&ldquo;{report.reason}&rdquo;</p>
+                                        <p className="text-xs text-zinc-400 mt-1">
+                                            Reported by {report.reporterName} on {report.createdAt.toLocaleDateString()}
+                                        </p>
+                                    </div>
+                                    {cancellingId !== report.id && (
+                                        <div className="flex items-center gap-2">
+                                            <button
+                                                type="button"
+                                                onClick={() => runForReport(report.id, () => resolveReport(report.id, 'dismissed'), 'Report dismissed')}
+                                                disabled={isSaving}
+                                                className="px-3 py-1.5 rounded-lg bg-zinc-700 hover:bg-zinc-600 text-sm font-medium transition-colors disabled:opacity-50"
+                                            >
+                                                Dismiss
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => runForReport(report.id, () => resolveReport(report.id, 'resolved'), 'Report resolved')}
+                                                disabled={isSaving}
+                                                className="px-3 py-1.5 rounded-lg bg-zinc-700 hover:bg-zinc-600 text-sm font-medium transition-colors disabled:opacity-50"
+                                            >
+                                                Mark Resolved
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => { setCancellingId(report.id); setCancelReason(''); }}
+                                                disabled={isSaving}
+                                                className="px-3 py-1.5 rounded-lg bg-zinc-700 text-red-300 hover:bg-red-500/20 text-sm font-medium transition-colors disabled:opacity-50"
+                                            >
+                                                Cancel Event
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+
+                                {/* Cancel form */}
+                                {cancellingId === report.id && (
+                                    <div className="flex space-x-2">
+                                        <label htmlFor={`reportCancelReason-${report.id}`} className="sr-only">Reason for cancelling {report.eventTitle}</label>
+                                        <input
+                                            id={`reportCancelReason-${report.id}`}
+                                            type="text"
+                                            value={cancelReason}
+                                            onChange={(e) => setCancelReason(e.target.value)}
+                                            placeholder="Reason, shown to attendees"
+                                            className="flex-1 px-3 py-1.5 rounded-lg bg-zinc-700 border border-zinc-600 text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => setCancellingId(null)}
+                                            disabled={isSaving}
+                                            className="px-3 py-1.5 text-sm text-zinc-300 hover:text-white transition-colors disabled:opacity-50"
+                                        >
+                                            Keep Event
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleCancelEvent(report)}
+                                            disabled={isSaving}
+                                            className="px-3 py-1.5 rounded-lg bg-red-500 hover:bg-red-600 text-sm font-medium transition-colors disabled:opacity-50"
+                                        >
+                                            {isSaving ? 'Cancelling...' : 'Confirm Cancellation'}
+                                        </button>
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            <PageControls page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </div>
+    );
+}
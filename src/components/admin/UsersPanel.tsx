@@ -0,0 +1,283 @@
+/**
+ * UsersPanel Component
+ *
+ * The Users tab of the admin console. Lists every account with search, role and status
+ * filters, and lets admins:
+ * - Approve or decline faculty requests from signup
+ * - Change anyone's role (except their own)
+ * - Suspend an account with a reason, or reinstate it
+ *
+ * Every change is recorded in the audit log by the database.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <UsersPanel currentUserId={profileId} />
+ * ```
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { User, UserRole } from '@/types';
+import { ROLES } from '@/constants/config';
+import { AdminUserStatus, fetchUsers, setUserSuspended } from '@/lib/adminService';
+import { setUserRole } from '@/lib/permissions';
+import PageControls from './PageControls';
+
+interface UsersPanelProps {
+    currentUserId: string;
+}
+
+const PAGE_SIZE = 20;
+
+const ROLE_LABELS: Record<UserRole, string> = {
+    student: 'Student',
+    faculty: 'Faculty',
+    admin: 'Admin',
+};
+
+export default function UsersPanel({ currentUserId }: UsersPanelProps) {
+    const [users, setUsers] = useState<User[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [searchInput, setSearchInput] = useState('');
+    const [search, setSearch] = useState('');
+    const [role, setRole] = useState<UserRole | ''>('');
+    const [status, setStatus] = useState<AdminUserStatus | ''>('');
+    const [isLoading, setIsLoading] = useState(true);
+    // The user whose row is saving, so its buttons can't be pressed twice
+    const [savingId, setSavingId] = useState<string | null>(null);
+    // Inline suspend form
+    const [suspendingId, setSuspendingId] = useState<string | null>(null);
+    const [suspendReason, setSuspendReason] = useState('');
+
+    const loadUsers = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const result = await fetchUsers({
+                page,
+                pageSize: PAGE_SIZE,
+                search,
+                role: role || undefined,
+                status: status || undefined,
+            });
+            setUsers(result.users);
+            setTotal(result.total);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to load users');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [page, search, role, status]);
+
+    useEffect(() => {
+        loadUsers();
+    }, [loadUsers]);
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        setPage(1);
+        setSearch(searchInput);
+    };
+
+    // Runs one change for a row and reloads the list, which picks up cleared requests and new statuses
+    const runForUser = async (userId: string, action: () => Promise<void>, successMessage: string) => {
+        setSavingId(userId);
+        try {
+            await action();
+            toast.success(successMessage);
+            await loadUsers();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Something went wrong');
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    const handleRoleChange = (user: User, nextRole: UserRole) => {
+        runForUser(user.id, () => setUserRole(user.id, nextRole), `${user.name} is now ${ROLE_LABELS[nextRole].toLowerCase()}`);
+    };
+
+    const handleSuspend = async (user: User) => {
+        if (!suspendReason.trim()) {
+            toast.error('Please give a reason for the suspension.');
+            return;
+        }
+        await runForUser(user.id, () => setUserSuspended(user.id, true, suspendReason), `${user.name} was suspended`);
+        setSuspendingId(null);
+        setSuspendReason('');
+    };
+
+    return (
+        <div className="space-y-4">
+            {/* Filters */}
+            <div className="flex flex-wrap gap-2">
+                <form onSubmit={handleSearch} className="flex flex-1 min-w-[16rem] space-x-2">
+                    <label htmlFor="userSearch" className="sr-only">Search users</label>
+                    <input
+                        id="userSearch"
+                        type="search"
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
+                        placeholder="Search by name or email"
+                        className="flex-1 px-4 py-2 rounded-lg bg-zinc-700 border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-green-500"
+                    />
+                    <button
+                        type="submit"
+                        className="px-4 py-2 rounded-lg bg-green-600 hover:bg-green-500 font-medium transition-colors"
+                    >
+                        Search
+                    </button>
+                </form>
+                <label htmlFor="userRoleFilter" className="sr-only">Role</label>
+                <select
+                    id="userRoleFilter"
+                    value={role}
+                    onChange={(e) => { setPage(1); setRole(e.target.value as UserRole | ''); }}
+                    className="px-4 py-2 rounded-lg bg-zinc-700 border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                    <option value="">All roles</option>
+                    {Object.values(ROLES).map(value => (
+                        <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+                    ))}
+                </select>
+                <label htmlFor="userStatusFilter" className="sr-only">Status</label>
+                <select
+                    id="userStatusFilter"
+                    value={status}
+                    onChange={(e) => { setPage(1); setStatus(e.target.value as AdminUserStatus | ''); }}
+                    className="px-4 py-2 rounded-lg bg-zinc-700 border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                    <option value="">Everyone</option>
+                    <option value="pending">Waiting on faculty approval</option>
+                    <option value="active">Active</option>
+                    <option value="suspended">Suspended</option>
+                </select>
+            </div>
+
+            {/* User list */}
+            {isLoading ? (
+                <p className="text-sm text-zinc-400">Loading users...</p>
+            ) : users.length === 0 ? (
+                <p className="text-sm text-zinc-400">No users match these filters.</p>
+            ) : (
+                <ul className="divide-y divide-zinc-700">
+                    {users.map(user => {
+                        const isSelf = user.id === currentUserId;
+                        const isSaving = savingId === user.id;
+                        return (
+                            <li key={user.id} className="py-3 space-y-2">
+                                <div className="flex flex-wrap justify-between items-center gap-2">
+                                    <div>
+                                        <p className="font-medium">
+                                            {user.name}
+                                            {isSelf && <span className="ml-2 text-xs text-zinc-400">(you)</span>}
+                                        </p>
+                                        <p className="text-xs text-zinc-400">{user.email}</p>
+                                        {user.suspendedAt && (
+                                            <p className="text-xs text-red-300 mt-1">
+                                                Suspended {user.suspendedAt.toLocaleDateString()}: {user.suspensionReason}
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        {user.requestedRole && (
+                                            <>
+                                                <span className="text-xs px-2 py-1 rounded bg-amber-500/20 text-amber-200">
+                                                    Requested {ROLE_LABELS[user.requestedRole].toLowerCase()}
+                                                </span>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => handleRoleChange(user, user.requestedRole!)}
+                                                    disabled={isSaving}
+                                                    className="px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-500 text-sm font-medium transition-colors disabled:opacity-50"
+                                                >
+                                                    Approve
+                                                </button>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => handleRoleChange(user, ROLES.STUDENT)}
+                                                    disabled={isSaving}
+                                                    className="px-3 py-1.5 rounded-lg bg-zinc-700 hover:bg-zinc-600 text-sm font-medium transition-colors disabled:opacity-50"
+                                                >
+                                                    Decline
+                                                </button>
+                                            </>
+                                        )}
+
+                                        <label htmlFor={`role-${user.id}`} className="sr-only">Role for {user.name}</label>
+                                        <select
+                                            id={`role-${user.id}`}
+                                            value={user.role}
+                                            onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                                            disabled={isSelf || isSaving}
+                                            className="px-3 py-1.5 rounded-lg bg-zinc-700 border border-zinc-600 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50"
+                                        >
+                                            {Object.values(ROLES).map(value => (
+                                                <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+                                            ))}
+                                        </select>
+
+                                        {user.suspendedAt ? (
+                                            <button
+                                                type="button"
+                                                onClick={() => runForUser(user.id, () => setUserSuspended(user.id, false), `${user.name} was reinstated`)}
+                                                disabled={isSelf || isSaving}
+                                                className="px-3 py-1.5 rounded-lg bg-zinc-700 hover:bg-zinc-600 text-sm font-medium transition-colors disabled:opacity-50"
+                                            >
+                                                Reinstate
+                                            </button>
+                                        ) : suspendingId !== user.id && (
+                                            <button
+                                                type="button"
+                                                onClick={() => { setSuspendingId(user.id); setSuspendReason(''); }}
+                                                disabled={isSelf || isSaving}
+                                                className="px-3 py-1.5 rounded-lg bg-zinc-700 text-red-300 hover:bg-red-500/20 text-sm font-medium transition-colors disabled:opacity-50"
+                                            >
+                                                Suspend
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+
+                                {/* Suspend form */}
+                                {suspendingId === user.id && (
+                                    <div className="flex space-x-2">
+                                        <label htmlFor={`suspendReason-${user.id}`} className="sr-only">Reason for suspending {user.name}</label>
+                                        <input
+                                            id={`suspendReason-${user.id}`}
+                                            type="text"
+                                            value={suspendReason}
+                                            onChange={(e) => setSuspendReason(e.target.value)}
+                                            placeholder="Reason, e.g. posting fake events"
+                                            className="flex-1 px-3 py-1.5 rounded-lg bg-zinc-700 border border-zinc-600 text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => setSuspendingId(null)}
+                                            disabled={isSaving}
+                                            className="px-3 py-1.5 text-sm text-zinc-300 hover:text-white transition-colors disabled:opacity-50"
+                                        >
+                                            Keep Active
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleSuspend(user)}
+                                            disabled={isSaving}
+                                            className="px-3 py-1.5 rounded-lg bg-red-500 hover:bg-red-600 text-sm font-medium transition-colors disabled:opacity-50"
+                                        >
+                                            {isSaving ? 'Suspending...' : 'Confirm Suspension'}
+                                        </button>
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            <PageControls page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </div>
+    );
+}
@@ -0,0 +1,56 @@
+/**
+ * BarChart Component
+ *
+ * A small bar chart for the analytics page, drawn with plain divs so it needs no chart
+ * library. Bars are scaled against the largest value, and each bar's value is in its
+ * title and screen reader label.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <BarChart
+ *   label="Check-ins by hour"
+ *   bars={hours.map((count, hour) => ({ label: `${hour}`, value: count }))}
+ * />
+ * ```
+ */
+
+import React from 'react';
+
+interface BarChartProps {
+    label: string;
+    bars: { label: string; value: number }[];
+}
+
+export default function BarChart({ label, bars }: BarChartProps) {
+    const max = Math.max(1, ...bars.map(bar => bar.value));
+
+    return (
+        <figure>
+            <figcaption className="text-sm font-medium text-zinc-400 mb-3">{label}</figcaption>
+            <div className="flex items-end gap-1 h-32" role="list">
+                {bars.map(bar => (
+                    <div
+                        key={bar.label}
+                        role="listitem"
+                        aria-label={`${bar.label}: ${bar.value}`}
+                        title={`${bar.label}: ${bar.value}`}
+                        className="flex-1 flex flex-col justify-end h-full"
+                    >
+                        <div
+                            className="bg-green-500 rounded-t"
+                            style={{ height: `${(bar.value / max) * 100}%` }}
+                        />
+                    </div>
+                ))}
+            </div>
+            <div className="flex gap-1 mt-1">
+                {bars.map(bar => (
+                    <span key={bar.label} className="flex-1 text-center text-[10px] text-zinc-500 truncate">
+                        {bar.label}
+                    </span>
+                ))}
+            </div>
+        </figure>
+    );
+}
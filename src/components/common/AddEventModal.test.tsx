@@ -2,17 +2,25 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import AddEventModal from './AddEventModal';
-import { BUILDINGS, DIETARY_TAGS } from '@/constants/eventData';
-import { EventFormData } from '@/types/event';
+import { DIETARY_TAGS } from '@/constants/eventData';
+import { Building, EventFormData } from '@/types/event';
 
 describe('AddEventModal', () => {
     const mockOnClose = jest.fn();
     const mockOnSubmit = jest.fn().mockImplementation(() => Promise.resolve());
 
+    const gsu: Building = {
+        id: 'gsu',
+        name: 'George Sherman Union (GSU)',
+        coordinates: [-71.10877, 42.35119],
+        address: '775 Commonwealth Avenue',
+    };
+
     const defaultProps = {
         isOpen: true,
         onClose: mockOnClose,
         onSubmit: mockOnSubmit,
+        buildings: [gsu],
     };
 
     beforeEach(() => {
@@ -79,6 +87,11 @@ describe('AddEventModal', () => {
             target: { value: 'Pizza' }
         });
 
+        // Pick the building
+        fireEvent.change(screen.getByLabelText('Building'), {
+            target: { value: 'gsu' }
+        });
+
         // Submit form
         fireEvent.click(screen.getByText('Create Event'));
 
@@ -91,9 +104,9 @@ describe('AddEventModal', () => {
                     name: 'Pizza',
                     dietaryTags: []
                 })],
-                location: BUILDINGS[0],
+                location: expect.objectContaining({ id: 'gsu', name: gsu.name }),
                 isPublic: true
-            }));
+            }), 'this');
         });
 
         expect(mockOnClose).toHaveBeenCalled();
@@ -123,6 +136,32 @@ describe('AddEventModal', () => {
         expect(screen.getAllByPlaceholderText('Food item name')).toHaveLength(1);
     });
 
+    it('adds implied dietary tags and refuses contradicting ones', () => {
+        render(<AddEventModal {...defaultProps} />);
+
+        const dietarySelect = screen.getAllByText('Add dietary tags')[0].closest('select')!;
+        fireEvent.change(dietarySelect, { target: { value: 'vegan' } });
+
+        // Vegan brings Dairy-Free along, as a removable chip next to the select option
+        expect(screen.getAllByText('Dairy-Free')).toHaveLength(2);
+
+        fireEvent.change(dietarySelect, { target: { value: 'contains_dairy' } });
+
+        expect(screen.getByText("Vegan (Dairy-Free) and Contains Dairy can't both apply")).toBeInTheDocument();
+        expect(screen.getAllByText('Contains Dairy')).toHaveLength(1);
+    });
+
+    it('asks for a location until one is picked', async () => {
+        render(<AddEventModal {...defaultProps} />);
+
+        fireEvent.click(screen.getByText('Create Event'));
+
+        await waitFor(() => {
+            expect(screen.getByText('Pick a building or somewhere else')).toBeInTheDocument();
+        });
+        expect(mockOnSubmit).not.toHaveBeenCalled();
+    });
+
     it('initializes with provided data', () => {
         const now = new Date();
         const later = new Date(now.getTime() + 2 * 60 * 60 * 1000); // 2 hours later
@@ -131,7 +170,7 @@ describe('AddEventModal', () => {
             title: 'Initial Event',
             startDateTime: now,
             endDateTime: later,
-            location: BUILDINGS[0],
+            location: gsu,
             foodOfferings: [{ name: '', dietaryTags: [] }],
             description: '',
             organizerName: 'Initial Organizer',
@@ -149,6 +188,41 @@ describe('AddEventModal', () => {
         expect(screen.getByLabelText('Make this event public')).not.toBeChecked();
     });
 
+    it('asks which occurrences an edit to a series applies to', async () => {
+        const start = new Date(Date.now() + 24 * 60 * 60 * 1000);
+        const initialData = {
+            title: 'Weekly Bagels',
+            startDateTime: start,
+            endDateTime: new Date(start.getTime() + 60 * 60 * 1000),
+            location: gsu,
+            foodOfferings: [{ name: 'Bagels', dietaryTags: [] }],
+            description: '',
+            organizerName: 'Initial Organizer',
+            organizerEmail: 'initial@example.com',
+            organizerPhone: '',
+            maxAttendees: undefined,
+            isPublic: true,
+            recurrence: { frequency: 'weekly', weekdays: [], count: 4, exceptDates: [] }
+        } as EventFormData;
+
+        render(<AddEventModal {...defaultProps} mode="edit" initialData={initialData} />);
+
+        const scope = screen.getByLabelText('Apply changes to');
+        expect(scope).toHaveValue('this');
+        fireEvent.change(scope, { target: { value: 'following' } });
+        fireEvent.click(screen.getByText('Save Changes'));
+
+        await waitFor(() => {
+            expect(mockOnSubmit).toHaveBeenCalledWith(expect.objectContaining({ title: 'Weekly Bagels' }), 'following');
+        });
+    });
+
+    it('only asks for a scope when editing a series', () => {
+        render(<AddEventModal {...defaultProps} />);
+
+        expect(screen.queryByLabelText('Apply changes to')).not.toBeInTheDocument();
+    });
+
     it('validates email format', async () => {
         render(<AddEventModal {...defaultProps} />);
         
@@ -1,8 +1,12 @@
 /**
  * AddEventModal Component
  * 
- * A reusable modal component for creating new food events. It provides a form interface
+ * A reusable modal component for creating and editing food events. It provides a form interface
  * for users to input event details including title, time, food offerings, and location.
+ * Passing `mode="edit"` together with `initialData` opens the form pre-filled for an existing event.
+ * New events can repeat (see RecurrenceFields). Editing an occurrence of a recurring event asks
+ * whether the changes apply to this occurrence, this and the following ones, or all of them.
+ * New events can start from a saved template, and the form can be saved as a template.
  * 
  * Recent Updates:
  * - Added loading state management for form submission
@@ -23,24 +27,41 @@
 
 import React, { useState } from 'react';
 import { Dialog } from '@headlessui/react';
-import { XMarkIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
-import { BUILDINGS, DIETARY_TAGS } from '@/constants/eventData';
-import { EventFormData, EventFormErrors, EventFormProps, FoodOffering } from '@/types/event';
+import { XMarkIcon, PlusIcon, TrashIcon, BookmarkIcon } from '@heroicons/react/24/outline';
+import { DIETARY_TAGS } from '@/constants/eventData';
+import { Building, EventFormData, EventFormErrors, EventFormProps, EventTemplate, FoodOffering, SeriesScope } from '@/types/event';
 import { toast } from 'react-hot-toast';
 import { toLocalDateTimeValue } from '@/utils/date';
+import { applyImpliedTags, findTagContradiction } from '@/lib/dietaryRules';
+import { describeRecurrence, validateRecurrence } from '@/lib/recurrence';
+import { templateToFormData } from '@/lib/eventTemplates';
+import { EMPTY_LOCATION, validateEventLocation, withCurrentBuilding } from '@/lib/eventLocations';
+import RecurrenceFields from './RecurrenceFields';
+import LocationFields from './LocationFields';
 
 /**
  * Props for the AddEventModal component
  * @interface AddEventModalProps
  * @property {boolean} isOpen - Controls the visibility of the modal
  * @property {() => void} onClose - Callback function to close the modal
- * @property {(event: any) => void} onSubmit - Callback function to handle form submission
+ * @property {(event: any, scope: SeriesScope) => void} onSubmit - Callback function to handle form submission, scope is which occurrences an edit applies to
+ * @property {EventFormData} [initialData] - Optional values used to pre-fill the form
+ * @property {'create' | 'edit'} [mode] - Whether the form creates a new event or edits an existing one
+ * @property {EventTemplate[]} [templates] - The organizer's templates to start a new event from
+ * @property {(name: string, data: EventFormData) => Promise<void>} [onSaveTemplate] - Saves the form as a template
+ * @property {(templateId: string) => Promise<void>} [onDeleteTemplate] - Deletes one of the templates
+ * @property {Building[]} [buildings] - The campus buildings organizers can pick from
  */
 interface AddEventModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSubmit: (event: any) => void;
+    onSubmit: (event: any, scope: SeriesScope) => void;
     initialData?: EventFormData;
+    mode?: 'create' | 'edit';
+    templates?: EventTemplate[];
+    onSaveTemplate?: (name: string, data: EventFormData) => Promise<void>;
+    onDeleteTemplate?: (templateId: string) => Promise<void>;
+    buildings?: Building[];
 }
 
 /**
@@ -76,13 +97,25 @@ interface FormErrors {
     location: string;
 }
 
-export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }: AddEventModalProps) {
+export default function AddEventModal({
+    isOpen,
+    onClose,
+    onSubmit,
+    initialData,
+    mode = 'create',
+    templates = [],
+    onSaveTemplate,
+    onDeleteTemplate,
+    buildings = []
+}: AddEventModalProps) {
+    const isEditing = mode === 'edit';
+
     // State management for form data and validation errors
     const [formData, setFormData] = useState<EventFormData>({
         title: initialData?.title || '',
         startDateTime: initialData?.startDateTime || new Date(),
         endDateTime: initialData?.endDateTime || new Date(),
-        location: initialData?.location || BUILDINGS[0],
+        location: initialData?.location || EMPTY_LOCATION,
         foodOfferings: initialData?.foodOfferings || [{ name: '', dietaryTags: [] }],
         description: initialData?.description || '',
         organizerName: initialData?.organizerName || '',
@@ -90,7 +123,14 @@ export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }
         organizerPhone: initialData?.organizerPhone || '',
         maxAttendees: initialData?.maxAttendees,
         isPublic: initialData?.isPublic ?? true,
+        recurrence: initialData?.recurrence,
     });
+    // Only asked when editing an occurrence of a recurring event
+    const [scope, setScope] = useState<SeriesScope>('this');
+    // Template the form was last filled from, and the name typed to save one (null while that form is closed)
+    const [templateId, setTemplateId] = useState<string>('');
+    const [templateName, setTemplateName] = useState<string | null>(null);
+    const [isSavingTemplate, setIsSavingTemplate] = useState(false);
 
     const [errors, setErrors] = useState<EventFormErrors>({});
 
@@ -116,8 +156,20 @@ export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }
             newErrors.endDateTime = 'End time must be after start time';
         }
 
-        if (!formData.location) {
-            newErrors.location = 'Location is required';
+        if (!formData.location.id) {
+            newErrors.location = 'Pick a building or somewhere else';
+        } else {
+            const locationProblem = validateEventLocation(formData.location);
+            if (locationProblem) {
+                newErrors.location = locationProblem;
+            }
+        }
+
+        if (!isEditing && formData.recurrence) {
+            const problem = validateRecurrence(formData.startDateTime, formData.endDateTime, formData.recurrence);
+            if (problem) {
+                newErrors.recurrence = problem;
+            }
         }
 
         if (!formData.organizerName?.trim()) {
@@ -136,8 +188,13 @@ export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }
 
         const foodOfferingErrors: string[] = [];
         formData.foodOfferings.forEach((offering, index) => {
+            const contradiction = findTagContradiction(offering.dietaryTags);
             if (!offering.name.trim()) {
                 foodOfferingErrors[index] = 'Food item name is required';
+            } else if (offering.quantity !== undefined && (!Number.isInteger(offering.quantity) || offering.quantity < 1)) {
+                foodOfferingErrors[index] = 'Portions must be a whole number';
+            } else if (contradiction) {
+                foodOfferingErrors[index] = contradiction;
             }
         });
 
@@ -158,13 +215,13 @@ export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }
         if (validateForm()) {
             setIsSubmitting(true);
             try {
-                await onSubmit(formData);
+                await onSubmit(formData, scope);
                 // Reset form to initial state
                 setFormData({
                     title: '',
                     startDateTime: new Date(),
                     endDateTime: new Date(),
-                    location: BUILDINGS[0],
+                    location: EMPTY_LOCATION,
                     foodOfferings: [{ name: '', dietaryTags: [] }],
                     description: '',
                     organizerName: '',
@@ -172,13 +229,16 @@ export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }
                     organizerPhone: '',
                     maxAttendees: undefined,
                     isPublic: true,
+                    recurrence: undefined,
                 });
+                setScope('this');
+                setTemplateId('');
                 // Show success notification
-                toast.success('Event created successfully!');
+                toast.success(isEditing ? 'Event updated successfully!' : 'Event created successfully!');
                 onClose();
             } catch (error) {
                 // Show error notification and update error state
-                toast.error(error instanceof Error ? error.message : 'Failed to create event');
+                toast.error(error instanceof Error ? error.message : `Failed to ${isEditing ? 'update' : 'create'} event`);
                 setErrors(prev => ({
                     ...prev,
                     general: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -189,6 +249,44 @@ export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }
         }
     };
 
+    const handleTemplateChange = (id: string) => {
+        setTemplateId(id);
+        const template = templates.find(t => t.id === id);
+        if (template) {
+            const data = templateToFormData(template, formData);
+            setFormData({ ...data, location: withCurrentBuilding(data.location, buildings) });
+            setErrors({});
+        }
+    };
+
+    const handleDeleteTemplate = async () => {
+        if (!onDeleteTemplate || !templateId) return;
+        try {
+            await onDeleteTemplate(templateId);
+            setTemplateId('');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to delete template');
+        }
+    };
+
+    const handleSaveTemplate = async () => {
+        if (!onSaveTemplate || templateName === null) return;
+        if (!templateName.trim()) {
+            toast.error('Give the template a name');
+            return;
+        }
+
+        setIsSavingTemplate(true);
+        try {
+            await onSaveTemplate(templateName, formData);
+            setTemplateName(null);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to save template');
+        } finally {
+            setIsSavingTemplate(false);
+        }
+    };
+
     const handleFoodOfferingChange = (index: number, field: keyof FoodOffering, value: any) => {
         const newFoodOfferings = [...formData.foodOfferings];
         newFoodOfferings[index] = {
@@ -214,20 +312,39 @@ export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }
         }
     };
 
+    // Sets or clears the error shown under one food item
+    const setFoodOfferingError = (offeringIndex: number, message?: string) => {
+        setErrors(prev => {
+            const foodOfferingErrors = Array.isArray(prev.foodOfferings) ? [...prev.foodOfferings] : [];
+            if (message) {
+                foodOfferingErrors[offeringIndex] = message;
+            } else {
+                delete foodOfferingErrors[offeringIndex];
+            }
+            return { ...prev, foodOfferings: foodOfferingErrors };
+        });
+    };
+
     const toggleDietaryTag = (offeringIndex: number, tagId: string) => {
         const tag = DIETARY_TAGS.find(t => t.id === tagId);
         if (!tag) return;
 
         const newFoodOfferings = [...formData.foodOfferings];
         const offering = newFoodOfferings[offeringIndex];
-        const tagIndex = offering.dietaryTags.findIndex(t => t.id === tag.id);
-
-        if (tagIndex === -1) {
-            offering.dietaryTags.push(tag);
-        } else {
-            offering.dietaryTags.splice(tagIndex, 1);
+        let dietaryTags = offering.dietaryTags.filter(t => t.id !== tag.id);
+
+        if (dietaryTags.length === offering.dietaryTags.length) {
+            // Mislabeled allergens are a safety problem, so contradicting tags are refused outright
+            const contradiction = findTagContradiction([...offering.dietaryTags, tag]);
+            if (contradiction) {
+                setFoodOfferingError(offeringIndex, contradiction);
+                return;
+            }
+            dietaryTags = applyImpliedTags([...offering.dietaryTags, tag]);
         }
 
+        newFoodOfferings[offeringIndex] = { ...offering, dietaryTags };
+        setFoodOfferingError(offeringIndex, findTagContradiction(dietaryTags));
         setFormData({ ...formData, foodOfferings: newFoodOfferings });
     };
 
@@ -246,7 +363,7 @@ export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }
                     {/* Modal header */}
                     <div className="flex justify-between items-center mb-6">
                         <Dialog.Title className="text-2xl font-bold text-white">
-                            Add New Event
+                            {isEditing ? 'Edit Event' : 'Add New Event'}
                         </Dialog.Title>
                         <button
                             onClick={onClose}
@@ -259,6 +376,41 @@ export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }
 
                     {/* Form */}
                     <form onSubmit={handleSubmit} className="space-y-6">
+                        {/* Templates - new events only */}
+                        {!isEditing && templates.length > 0 && (
+                            <div>
+                                <label htmlFor="template" className="block text-sm font-medium text-zinc-300 mb-2">
+                                    Start from template
+                                </label>
+                                <div className="flex items-center gap-2">
+                                    <select
+                                        id="template"
+                                        value={templateId}
+                                        onChange={(e) => handleTemplateChange(e.target.value)}
+                                        className="flex-1 px-4 py-2 rounded-lg border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    >
+                                        <option value="">No template</option>
+                                        {templates.map((template) => (
+                                            <option key={template.id} value={template.id}>
+                                                {template.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    {templateId && onDeleteTemplate && (
+                                        <button
+                                            type="button"
+                                            onClick={handleDeleteTemplate}
+                                            className="text-zinc-400 hover:text-red-400"
+                                            aria-label="Delete template"
+                                            title="Delete template"
+                                        >
+                                            <TrashIcon className="h-5 w-5" />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+
                         {/* Event Title */}
                         <div>
                             <label htmlFor="title" className="block text-sm font-medium text-zinc-300 mb-2">
@@ -329,34 +481,44 @@ export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }
                             </div>
                         </div>
 
+                        {/* Repeat - new events pick a rule, occurrences pick what the edit applies to */}
+                        {!isEditing && (
+                            <RecurrenceFields
+                                value={formData.recurrence}
+                                onChange={(recurrence) => setFormData({ ...formData, recurrence })}
+                                startDateTime={formData.startDateTime}
+                                endDateTime={formData.endDateTime}
+                                error={errors.recurrence}
+                            />
+                        )}
+                        {isEditing && initialData?.recurrence && (
+                            <div>
+                                <label htmlFor="scope" className="block text-sm font-medium text-zinc-300 mb-2">
+                                    Apply changes to
+                                </label>
+                                <select
+                                    id="scope"
+                                    value={scope}
+                                    onChange={(e) => setScope(e.target.value as SeriesScope)}
+                                    className="w-full px-4 py-2 rounded-lg border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    <option value="this">This occurrence</option>
+                                    <option value="following">This and following occurrences</option>
+                                    <option value="all">All upcoming occurrences</option>
+                                </select>
+                                <p className="mt-1 text-sm text-zinc-400">
+                                    {describeRecurrence(initialData.startDateTime, initialData.recurrence)}
+                                </p>
+                            </div>
+                        )}
+
                         {/* Location */}
-                        <div>
-                            <label htmlFor="location" className="block text-sm font-medium text-zinc-300 mb-2">
-                                Location
-                            </label>
-                            <select
-                                id="location"
-                                value={formData.location.id}
-                                onChange={(e) => {
-                                    const building = BUILDINGS.find(b => b.id === e.target.value);
-                                    if (building) {
-                                        setFormData({ ...formData, location: building });
-                                    }
-                                }}
-                                className={`w-full px-4 py-2 rounded-lg border ${
-                                    errors.location ? 'border-red-500' : 'border-zinc-600'
-                                } focus:outline-none focus:ring-2 focus:ring-blue-500`}
-                            >
-                                {BUILDINGS.map((building) => (
-                                    <option key={building.id} value={building.id}>
-                                        {building.name}
-                                    </option>
-                                ))}
-                            </select>
-                            {errors.location && (
-                                <p className="mt-1 text-sm text-red-500">{errors.location}</p>
-                            )}
-                        </div>
+                        <LocationFields
+                            value={formData.location}
+                            onChange={(location) => setFormData({ ...formData, location })}
+                            buildings={buildings}
+                            error={errors.location}
+                        />
 
                         {/* Description */}
                         <div>
@@ -411,6 +573,9 @@ export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }
                                                 <TrashIcon className="h-5 w-5" />
                                             </button>
                                         </div>
+                                        {errors.foodOfferings?.[index] && (
+                                            <p className="-mt-2 mb-4 text-sm text-red-500">{errors.foodOfferings[index]}</p>
+                                        )}
 
                                         <div className="space-y-4">
                                             <input
@@ -423,10 +588,14 @@ export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }
 
                                             <div className="grid grid-cols-2 gap-4">
                                                 <input
-                                                    type="text"
-                                                    value={offering.quantity || ''}
-                                                    onChange={(e) => handleFoodOfferingChange(index, 'quantity', e.target.value)}
-                                                    placeholder="Quantity (optional)"
+                                                    type="number"
+                                                    min={1}
+                                                    step={1}
+                                                    inputMode="numeric"
+                                                    value={offering.quantity ?? ''}
+                                                    onChange={(e) => handleFoodOfferingChange(index, 'quantity', e.target.value === '' ? undefined : Number(e.target.value))}
+                                                    placeholder="Portions (optional)"
+                                                    aria-label="Portions"
                                                     className="w-full px-4 py-2 rounded-lg border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
                                                 />
                                                 <input
@@ -588,8 +757,49 @@ export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }
                             <p className="text-sm text-red-500">{errors.general}</p>
                         )}
 
+                        {/* Save as Template */}
+                        {onSaveTemplate && templateName !== null && (
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={templateName}
+                                    maxLength={60}
+                                    onChange={(e) => setTemplateName(e.target.value)}
+                                    aria-label="Template name"
+                                    placeholder="Template name"
+                                    className="flex-1 px-4 py-2 rounded-lg border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => setTemplateName(null)}
+                                    disabled={isSavingTemplate}
+                                    className="px-3 py-2 text-zinc-300 hover:text-white transition-colors disabled:opacity-50"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={handleSaveTemplate}
+                                    disabled={isSavingTemplate}
+                                    className="px-4 py-2 rounded-lg bg-zinc-600 text-white font-medium hover:bg-zinc-500 transition-colors disabled:opacity-50"
+                                >
+                                    {isSavingTemplate ? 'Saving...' : 'Save Template'}
+                                </button>
+                            </div>
+                        )}
+
                         {/* Form Actions */}
                         <div className="flex justify-end space-x-4 pt-4">
+                            {onSaveTemplate && templateName === null && (
+                                <button
+                                    type="button"
+                                    onClick={() => setTemplateName(formData.title)}
+                                    className="mr-auto flex items-center text-sm text-blue-400 hover:text-blue-300"
+                                >
+                                    <BookmarkIcon className="h-4 w-4 mr-1" />
+                                    Save as Template
+                                </button>
+                            )}
                             {/* Cancel button - disabled during submission */}
                             <button
                                 type="button"
@@ -630,10 +840,10 @@ export default function AddEventModal({ isOpen, onClose, onSubmit, initialData }
                                                 d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                                             />
                                         </svg>
-                                        Creating...
+                                        {isEditing ? 'Saving...' : 'Creating...'}
                                     </>
                                 ) : (
-                                    'Create Event'
+                                    isEditing ? 'Save Changes' : 'Create Event'
                                 )}
                             </button>
                         </div>
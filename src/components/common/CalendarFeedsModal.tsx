@@ -0,0 +1,235 @@
+/**
+ * CalendarFeedsModal Component
+ *
+ * Gives users feed URLs they can subscribe to from Google Calendar, Apple Calendar or
+ * Outlook. Subscribed calendars refresh on their own, so edits and cancellations show up
+ * without downloading anything again.
+ *
+ * Features:
+ * - A feed of every event the user RSVP'd to
+ * - A feed of all public events at the buildings picked as chips
+ * - Copy and "open in calendar app" (webcal://) for each feed
+ * - Resetting the link, which stops every feed URL shared so far
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <CalendarFeedsModal
+ *   isOpen={isCalendarFeedsOpen}
+ *   onClose={() => setIsCalendarFeedsOpen(false)}
+ *   token={calendarToken}
+ *   onResetToken={handleResetCalendarToken}
+ *   buildings={buildings}
+ * />
+ * ```
+ */
+
+import React, { useState } from 'react';
+import { Dialog } from '@headlessui/react';
+import { XMarkIcon, ClipboardDocumentIcon, CalendarDaysIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { Building } from '@/types/event';
+import { calendarFeedUrl } from '@/lib/calendarService';
+
+/**
+ * Props for the CalendarFeedsModal component
+ * @interface CalendarFeedsModalProps
+ * @property {boolean} isOpen - Controls the visibility of the modal
+ * @property {() => void} onClose - Callback function to close the modal
+ * @property {string | null} token - The user's feed token, null while it loads
+ * @property {() => Promise<void>} onResetToken - Replaces the token with a new one
+ * @property {Building[]} buildings - The campus buildings to offer feeds for
+ */
+interface CalendarFeedsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    token: string | null;
+    onResetToken: () => Promise<void>;
+    buildings: Building[];
+}
+
+interface FeedRowProps {
+    label: string;
+    url: string;
+}
+
+function FeedRow({ label, url }: FeedRowProps) {
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(url);
+            toast.success("Feed link copied");
+        } catch {
+            toast.error("Couldn't copy the link, select it and copy it instead");
+        }
+    };
+
+    return (
+        <div>
+            <h4 className="text-sm font-medium text-zinc-400 mb-2">{label}</h4>
+            <div className="flex items-center gap-2">
+                <input
+                    type="text"
+                    readOnly
+                    value={url}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 min-w-0 rounded-lg bg-zinc-700 px-3 py-2 text-sm text-zinc-200"
+                    aria-label={`${label} URL`}
+                />
+                <button
+                    type="button"
+                    onClick={handleCopy}
+                    className="p-2 rounded-lg bg-zinc-700 text-zinc-300 hover:bg-zinc-600 hover:text-white transition-colors"
+                    aria-label={`Copy ${label} URL`}
+                >
+                    <ClipboardDocumentIcon className="h-5 w-5" />
+                </button>
+                <a
+                    href={url.replace(/^https?:/, 'webcal:')}
+                    className="p-2 rounded-lg bg-green-600 text-white hover:bg-green-500 transition-colors"
+                    aria-label={`Subscribe to ${label}`}
+                >
+                    <CalendarDaysIcon className="h-5 w-5" />
+                </a>
+            </div>
+        </div>
+    );
+}
+
+export default function CalendarFeedsModal({
+    isOpen,
+    onClose,
+    token,
+    onResetToken,
+    buildings
+}: CalendarFeedsModalProps) {
+    const [buildingIds, setBuildingIds] = useState<string[]>([]);
+    const [isConfirmingReset, setIsConfirmingReset] = useState<boolean>(false);
+    const [isResetting, setIsResetting] = useState<boolean>(false);
+
+    const origin = typeof window !== 'undefined' ? window.location.origin : '';
+
+    const toggleBuilding = (buildingId: string) => {
+        setBuildingIds(prev => prev.includes(buildingId)
+            ? prev.filter(id => id !== buildingId)
+            : [...prev, buildingId]
+        );
+    };
+
+    const handleReset = async () => {
+        setIsResetting(true);
+        try {
+            await onResetToken();
+            setIsConfirmingReset(false);
+        } catch {
+            // The dashboard shows the error
+        } finally {
+            setIsResetting(false);
+        }
+    };
+
+    return (
+        <Dialog
+            open={isOpen}
+            onClose={onClose}
+            className="relative z-50"
+        >
+            {/* Backdrop */}
+            <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" aria-hidden="true" />
+
+            {/* Modal container */}
+            <div className="fixed inset-0 flex items-center justify-center p-4">
+                <Dialog.Panel className="w-full max-w-lg rounded-lg bg-zinc-800 p-6 shadow-xl max-h-[80vh] flex flex-col">
+                    {/* Header */}
+                    <div className="flex justify-between items-center mb-2">
+                        <Dialog.Title className="text-2xl font-bold text-white">
+                            Calendar Feeds
+                        </Dialog.Title>
+                        <button
+                            onClick={onClose}
+                            className="text-zinc-400 hover:text-white transition-colors"
+                            aria-label="Close modal"
+                        >
+                            <XMarkIcon className="h-6 w-6" />
+                        </button>
+                    </div>
+                    <p className="text-sm text-zinc-400 mb-6">
+                        Subscribe from your calendar app to keep events up to date. Anyone with these links can see the events in them.
+                    </p>
+
+                    {/* Content */}
+                    {!token ? (
+                        <p className="text-zinc-400 text-center py-8">Loading...</p>
+                    ) : (
+                        <div className="flex-1 overflow-y-auto space-y-6">
+                            <FeedRow label="My RSVPs" url={calendarFeedUrl(origin, token)} />
+
+                            <div>
+                                <h4 className="text-sm font-medium text-zinc-400 mb-2">Buildings</h4>
+                                <div className="flex flex-wrap gap-2 mb-4">
+                                    {buildings.map(building => {
+                                        const isSelected = buildingIds.includes(building.id);
+                                        return (
+                                            <button
+                                                key={building.id}
+                                                type="button"
+                                                onClick={() => toggleBuilding(building.id)}
+                                                aria-pressed={isSelected}
+                                                className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                                                    isSelected
+                                                        ? 'bg-green-600 text-white'
+                                                        : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                                                }`}
+                                            >
+                                                {building.name}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                                {buildingIds.length > 0 ? (
+                                    <FeedRow label="Events at these buildings" url={calendarFeedUrl(origin, token, buildingIds)} />
+                                ) : (
+                                    <p className="text-sm text-zinc-500">Pick buildings to get a feed of every public event there.</p>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Footer */}
+                    <div className="mt-6 border-t border-zinc-700 pt-4">
+                        {isConfirmingReset ? (
+                            <div className="flex items-center justify-between gap-3">
+                                <p className="text-sm text-zinc-300">Every calendar subscribed with the old links will stop updating.</p>
+                                <div className="flex shrink-0 space-x-2">
+                                    <button
+                                        type="button"
+                                        onClick={() => setIsConfirmingReset(false)}
+                                        className="px-3 py-1.5 rounded-lg text-zinc-300 hover:text-white transition-colors"
+                                    >
+                                        Keep
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={handleReset}
+                                        disabled={isResetting}
+                                        className="px-3 py-1.5 rounded-lg bg-red-600 text-white font-medium hover:bg-red-500 transition-colors disabled:opacity-50"
+                                    >
+                                        {isResetting ? 'Resetting...' : 'Reset Links'}
+                                    </button>
+                                </div>
+                            </div>
+                        ) : (
+                            <button
+                                type="button"
+                                onClick={() => setIsConfirmingReset(true)}
+                                disabled={!token}
+                                className="text-sm text-zinc-400 hover:text-white transition-colors disabled:opacity-50"
+                            >
+                                Shared a link by mistake? Reset your feed links
+                            </button>
+                        )}
+                    </div>
+                </Dialog.Panel>
+            </div>
+        </Dialog>
+    );
+}
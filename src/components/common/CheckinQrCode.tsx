@@ -0,0 +1,99 @@
+/**
+ * CheckinQrCode Component
+ *
+ * Shows the signed check-in QR code for the current user's RSVP. The organizer scans
+ * it (or pastes the code printed under it) on the check-in screen when the student
+ * picks up their food.
+ *
+ * Features:
+ * - Fetches the token from /api/checkin/token when mounted
+ * - Renders the token as a QR code with the code text underneath as a fallback
+ * - Shows when the user was checked in instead of the code once they have been
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <CheckinQrCode eventId={event.id} />
+ * ```
+ */
+
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import QRCode from 'qrcode';
+import { CheckCircleIcon } from '@heroicons/react/24/outline';
+import { fetchCheckinTicket } from '@/lib/checkinService';
+
+/**
+ * Props for the CheckinQrCode component
+ * @interface CheckinQrCodeProps
+ * @property {string} eventId - The event the user RSVP'd to
+ */
+interface CheckinQrCodeProps {
+    eventId: string;
+}
+
+const QR_SIZE = 200;
+
+export default function CheckinQrCode({ eventId }: CheckinQrCodeProps) {
+    const [token, setToken] = useState<string | null>(null);
+    const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+    const [checkedInAt, setCheckedInAt] = useState<Date | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCurrent = true;
+
+        const loadTicket = async () => {
+            try {
+                const ticket = await fetchCheckinTicket(eventId);
+                const dataUrl = await QRCode.toDataURL(ticket.token, { width: QR_SIZE, margin: 1 });
+                if (!isCurrent) return;
+
+                setToken(ticket.token);
+                setQrDataUrl(dataUrl);
+                setCheckedInAt(ticket.checkedInAt ? new Date(ticket.checkedInAt) : null);
+            } catch (err) {
+                if (isCurrent) {
+                    setError(err instanceof Error ? err.message : 'Could not load your check-in code');
+                }
+            }
+        };
+
+        loadTicket();
+        return () => {
+            isCurrent = false;
+        };
+    }, [eventId]);
+
+    if (error) {
+        return <p className="text-sm text-red-400 text-center">{error}</p>;
+    }
+
+    if (checkedInAt) {
+        return (
+            <p className="flex items-center justify-center text-sm text-green-300">
+                <CheckCircleIcon className="h-5 w-5 mr-2" />
+                Checked in at {checkedInAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+            </p>
+        );
+    }
+
+    if (!qrDataUrl || !token) {
+        return <p className="text-sm text-zinc-400 text-center">Loading your check-in code...</p>;
+    }
+
+    return (
+        <div className="flex flex-col items-center space-y-2">
+            <Image
+                src={qrDataUrl}
+                alt="Check-in QR code"
+                width={QR_SIZE}
+                height={QR_SIZE}
+                unoptimized
+                className="rounded-lg bg-white p-2"
+            />
+            <p className="text-xs text-zinc-400">Show this to the organizer when you pick up your food</p>
+            <code className="w-full break-all text-[10px] text-zinc-500 select-all text-center">{token}</code>
+        </div>
+    );
+}
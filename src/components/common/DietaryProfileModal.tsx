@@ -0,0 +1,167 @@
+/**
+ * DietaryProfileModal Component
+ *
+ * Lets users pick the dietary restrictions they eat by (allergies, diets, religious
+ * requirements). The saved profile is used to dim or hide events that don't fit and to
+ * warn about individual food items in the event details.
+ *
+ * Features:
+ * - Restrictions grouped by category, toggled as chips
+ * - Changes only apply when saved, closing discards them
+ * - The save button is disabled while saving
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <DietaryProfileModal
+ *   isOpen={isDietaryProfileOpen}
+ *   onClose={() => setIsDietaryProfileOpen(false)}
+ *   restrictionIds={dietaryRestrictions}
+ *   onSave={handleSaveDietaryProfile}
+ * />
+ * ```
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog } from '@headlessui/react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { DIETARY_RESTRICTIONS, DietaryRestrictionCategory } from '@/constants/eventData';
+
+/**
+ * Props for the DietaryProfileModal component
+ * @interface DietaryProfileModalProps
+ * @property {boolean} isOpen - Controls the visibility of the modal
+ * @property {() => void} onClose - Callback function to close the modal
+ * @property {string[]} restrictionIds - The restrictions currently saved on the profile
+ * @property {(restrictionIds: string[]) => Promise<void>} onSave - Saves the selection, rejects to keep the modal open
+ */
+interface DietaryProfileModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    restrictionIds: string[];
+    onSave: (restrictionIds: string[]) => Promise<void>;
+}
+
+const CATEGORY_LABELS: Record<DietaryRestrictionCategory, string> = {
+    allergies: 'Allergies & Intolerances',
+    diets: 'Diets',
+    religious: 'Religious',
+    other: 'Other',
+};
+
+export default function DietaryProfileModal({
+    isOpen,
+    onClose,
+    restrictionIds,
+    onSave
+}: DietaryProfileModalProps) {
+    const [selected, setSelected] = useState<string[]>(restrictionIds);
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+
+    // Start from the saved profile every time the modal opens
+    useEffect(() => {
+        if (isOpen) {
+            setSelected(restrictionIds);
+        }
+    }, [isOpen, restrictionIds]);
+
+    const toggleRestriction = (restrictionId: string) => {
+        setSelected(prev => prev.includes(restrictionId)
+            ? prev.filter(id => id !== restrictionId)
+            : [...prev, restrictionId]
+        );
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await onSave(selected);
+            onClose();
+        } catch {
+            // The dashboard shows the error, keep the selection so it can be retried
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog
+            open={isOpen}
+            onClose={onClose}
+            className="relative z-50"
+        >
+            {/* Backdrop */}
+            <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" aria-hidden="true" />
+
+            {/* Modal container */}
+            <div className="fixed inset-0 flex items-center justify-center p-4">
+                <Dialog.Panel className="w-full max-w-lg rounded-lg bg-zinc-800 p-6 shadow-xl max-h-[80vh] flex flex-col">
+                    {/* Header */}
+                    <div className="flex justify-between items-center mb-2">
+                        <Dialog.Title className="text-2xl font-bold text-white">
+                            Dietary Profile
+                        </Dialog.Title>
+                        <button
+                            onClick={onClose}
+                            className="text-zinc-400 hover:text-white transition-colors"
+                            aria-label="Close modal"
+                        >
+                            <XMarkIcon className="h-6 w-6" />
+                        </button>
+                    </div>
+                    <p className="text-sm text-zinc-400 mb-6">
+                        Events where nothing fits your profile are dimmed, and food you should avoid is flagged.
+                    </p>
+
+                    {/* Content */}
+                    <div className="flex-1 overflow-y-auto space-y-6">
+                        {(Object.keys(CATEGORY_LABELS) as DietaryRestrictionCategory[]).map(category => (
+                            <div key={category}>
+                                <h4 className="text-sm font-medium text-zinc-400 mb-2">{CATEGORY_LABELS[category]}</h4>
+                                <div className="flex flex-wrap gap-2">
+                                    {DIETARY_RESTRICTIONS.filter(restriction => restriction.category === category).map(restriction => {
+                                        const isSelected = selected.includes(restriction.id);
+                                        return (
+                                            <button
+                                                key={restriction.id}
+                                                type="button"
+                                                onClick={() => toggleRestriction(restriction.id)}
+                                                aria-pressed={isSelected}
+                                                className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                                                    isSelected
+                                                        ? 'bg-green-600 text-white'
+                                                        : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                                                }`}
+                                            >
+                                                {restriction.name}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Footer */}
+                    <div className="flex justify-end space-x-3 mt-6">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="px-4 py-2 rounded-lg text-zinc-300 hover:text-white transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            className="px-4 py-2 rounded-lg bg-green-600 text-white font-medium hover:bg-green-500 transition-colors disabled:opacity-50"
+                        >
+                            {isSaving ? 'Saving...' : 'Save Profile'}
+                        </button>
+                    </div>
+                </Dialog.Panel>
+            </div>
+        </Dialog>
+    );
+}
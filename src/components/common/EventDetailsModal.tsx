@@ -3,11 +3,17 @@
  * 
  * A modal component for displaying detailed event information and managing event RSVPs.
  * This component provides a comprehensive view of an event's details including:
- * - Basic event information (title, time, location, status)
+ * - Basic event information (title, time, location with room and directions, status)
  * - Food offerings with dietary tags
  * - Organizer information
  * - Attendance details
  * - RSVP functionality
+ * - Cancellation (with a reason) for the event organizer, for one or more occurrences of a recurring event
+ * - Link to the QR check-in screen for the event organizer
+ * - Live portions left per food item, with -1/+1 controls for the organizer
+ * - Per-item warnings when food contradicts the user's dietary profile
+ * - Reporting the event to moderators (with a reason) for everyone but the organizer
+ * - "Add to Calendar", which downloads the event as an .ics file
  * 
  * The component follows the application's design system with:
  * - Consistent modal layout and backdrop
@@ -29,10 +35,19 @@
 
 import React, { useState, useEffect } from 'react';
 import { Dialog } from '@headlessui/react';
-import { XMarkIcon } from '@heroicons/react/24/outline';
-import { DashboardEvent } from '@/types/event';
+import Link from 'next/link';
+import { XMarkIcon, QrCodeIcon, MinusIcon, PlusIcon, ExclamationTriangleIcon, FlagIcon, CalendarDaysIcon } from '@heroicons/react/24/outline';
+import { DashboardEvent, SeriesScope } from '@/types/event';
 import RsvpButton from './RsvpButton';
-import supabase from '@/lib/supabaseClient';
+import EventStatusBadge from './EventStatusBadge';
+import { displayStatus, isAcceptingRsvps, isTerminalStatus } from '@/lib/eventLifecycle';
+import { EVENT_STATUS } from '@/constants/map';
+import { isRunningLow } from '@/lib/foodInventory';
+import { getOfferingConflicts, getUnlabeledRestrictions } from '@/lib/dietaryProfile';
+import { canEditEvent } from '@/lib/permissions';
+import { buildCalendar, calendarFileName, toCalendarEvent } from '@/lib/icalendar';
+import { getEventRepository } from '@/lib/repository';
+import { isEventFull } from '@/lib/rsvpCounts';
 import toast from 'react-hot-toast';
 
 
@@ -43,6 +58,12 @@ interface EventDetailsModalProps {
     isRsvpd: boolean;
     onToggleRsvp: (eventId: string) => void;
     onEditEvent?: (event: DashboardEvent) => void;
+    onCancelEvent?: (event: DashboardEvent, reason: string, scope: SeriesScope) => Promise<void>;
+    onReportEvent?: (event: DashboardEvent, reason: string) => Promise<void>;
+    waitlistPosition?: number | null;
+    onToggleWaitlist?: (eventId: string) => void;
+    onAdjustFood?: (foodItemId: string, delta: number) => Promise<void>;
+    dietaryRestrictions?: string[];
 }
 
 export default function EventDetailsModal({
@@ -51,48 +72,48 @@ export default function EventDetailsModal({
     event,
     isRsvpd,
     onToggleRsvp,
-    onEditEvent
+    onEditEvent,
+    onCancelEvent,
+    onReportEvent,
+    waitlistPosition = null,
+    onToggleWaitlist,
+    onAdjustFood,
+    dietaryRestrictions = []
 }: EventDetailsModalProps) {
-    // Check if event has a maximum capacity and if it's reached
-    const isAtCapacity = event.maxAttendees !== undefined && 
-        event.attendees >= event.maxAttendees && 
-        !isRsvpd;
+    // Check if event has a maximum capacity and if it's reached (no max means unlimited)
+    const isAtCapacity = isEventFull(event) && !isRsvpd;
+    // Cancelled, ended and draft events don't take new RSVPs
+    const isClosed = !isAcceptingRsvps(event.status) && !isRsvpd;
     
-    // State to track if current user is the organizer and is faculty
+    // State for the organizer's cancel form
+    const [isCancelFormOpen, setIsCancelFormOpen] = useState<boolean>(false);
+    const [cancelReason, setCancelReason] = useState<string>('');
+    const [cancelScope, setCancelScope] = useState<SeriesScope>('this');
+    const [isCancelling, setIsCancelling] = useState<boolean>(false);
+
+    // State for the report form
+    const [isReportFormOpen, setIsReportFormOpen] = useState<boolean>(false);
+    const [reportReason, setReportReason] = useState<string>('');
+    const [isReporting, setIsReporting] = useState<boolean>(false);
+    
+    // Food item whose portion count is being saved, so its buttons can't be double tapped
+    const [adjustingFoodId, setAdjustingFoodId] = useState<string | null>(null);
+    
+    // State to track if current user may edit the event (its organizer, or an admin)
     const [isAuthorized, setIsAuthorized] = useState<boolean>(false);
     const [isLoading, setIsLoading] = useState<boolean>(true);
 
-    // Check if current user is the event organizer and has faculty role
+    // Check if current user's role lets them edit this event
     useEffect(() => {
         const checkAuthorization = async () => {
             try {
                 setIsLoading(true);
                 
-                // Get current user
-                const { data: { user } } = await supabase.auth.getUser();
-                
-                if (!user) {
-                    setIsAuthorized(false);
-                    return;
-                }
+                // Get the signed in user's profile to check role
+                const profile = await getEventRepository().findSignedInProfile();
                 
-                // Get user profile to check role
-                const { data: profile, error: profileError } = await supabase
-                    .from("profiles")
-                    .select("role, email")
-                    .eq("auth_id", user.id)
-                    .single();
-                
-                if (profileError) {
-                    console.error("Error fetching profile:", profileError);
-                    setIsAuthorized(false);
-                    return;
-                }
-                
-                // Check if user is faculty AND is the event organizer
-                if (profile && 
-                    profile.role === "faculty" && 
-                    (profile.email === event.organizerEmail)) {
+                // Organizers can edit their own events, admins can edit any event
+                if (profile && canEditEvent(profile.role, profile.email === event.organizerEmail)) {
                     setIsAuthorized(true);
                 } else {
                     setIsAuthorized(false);
@@ -113,7 +134,7 @@ export default function EventDetailsModal({
     // Handle edit button click
     const handleEditClick = () => {
         if (!isAuthorized) {
-            toast.error("Only the faculty member who created this event can edit it.");
+            toast.error("Only the organizer can edit this event.");
             return;
         }
         
@@ -124,6 +145,74 @@ export default function EventDetailsModal({
         }
     };
 
+    // Handle cancel event submission
+    const handleCancelSubmit = async () => {
+        if (!onCancelEvent) return;
+        if (!cancelReason.trim()) {
+            toast.error("Please give attendees a reason for the cancellation.");
+            return;
+        }
+
+        setIsCancelling(true);
+        try {
+            await onCancelEvent(event, cancelReason, cancelScope);
+            setIsCancelFormOpen(false);
+            setCancelReason('');
+            setCancelScope('this');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to cancel event");
+        } finally {
+            setIsCancelling(false);
+        }
+    };
+
+    // Handle report submission
+    const handleReportSubmit = async () => {
+        if (!onReportEvent) return;
+        if (!reportReason.trim()) {
+            toast.error("Please tell the moderators what's wrong with this event.");
+            return;
+        }
+
+        setIsReporting(true);
+        try {
+            await onReportEvent(event, reportReason);
+            setIsReportFormOpen(false);
+            setReportReason('');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to report event");
+        } finally {
+            setIsReporting(false);
+        }
+    };
+
+    // Download the event as an .ics file the calendar app opens
+    const handleAddToCalendar = () => {
+        const url = URL.createObjectURL(new Blob([buildCalendar([toCalendarEvent(event)])], { type: 'text/calendar;charset=utf-8' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = calendarFileName(event.title);
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    // Handle the organizer handing out (or putting back) a portion
+    const handleAdjustFood = async (foodItemId: string, delta: number) => {
+        if (!onAdjustFood) return;
+
+        setAdjustingFoodId(foodItemId);
+        try {
+            await onAdjustFood(foodItemId, delta);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to update portions");
+        } finally {
+            setAdjustingFoodId(null);
+        }
+    };
+
+    // Organizers can count portions while the event is serving food
+    const canAdjustFood = isAuthorized && !!onAdjustFood && isAcceptingRsvps(event.status);
+
     return (
         <Dialog
             open={isOpen}
@@ -159,6 +248,10 @@ export default function EventDetailsModal({
                                 <div>
                                     <p className="text-sm font-medium text-zinc-400">Location</p>
                                     <p>{event.location}</p>
+                                    {event.locationRoom && <p>{event.locationRoom}</p>}
+                                    {event.locationAddress && (
+                                        <p className="text-sm text-zinc-400">{event.locationAddress}</p>
+                                    )}
                                 </div>
                                 <div>
                                     <p className="text-sm font-medium text-zinc-400">Time</p>
@@ -166,13 +259,7 @@ export default function EventDetailsModal({
                                 </div>
                                 <div>
                                     <p className="text-sm font-medium text-zinc-400">Status</p>
-                                    <p className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                                        event.status === 'available' 
-                                            ? 'bg-green-500/20 text-green-300'
-                                            : 'bg-amber-500/20 text-amber-300'
-                                    }`}>
-                                        {event.status === 'available' ? 'Available Now' : 'Starting Soon'}
-                                    </p>
+                                    <EventStatusBadge status={displayStatus(event)} className="inline-flex items-center px-2.5 py-0.5 rounded-full" />
                                 </div>
                                 {/* RSVP Button Component - replaces static attendee count */}
                                 <div>
@@ -182,12 +269,35 @@ export default function EventDetailsModal({
                                         count={event.attendees}
                                         isRsvpd={isRsvpd}
                                         onToggle={onToggleRsvp}
-                                        disabled={isAtCapacity}
+                                        disabled={(isAtCapacity && !onToggleWaitlist) || isClosed}
+                                        disabledMessage={isClosed ? 'This event is no longer accepting RSVPs' : undefined}
+                                        isFull={isAtCapacity && !isClosed}
+                                        waitlistCount={event.waitlistCount}
+                                        waitlistPosition={waitlistPosition}
+                                        onToggleWaitlist={onToggleWaitlist}
                                     />
                                 </div>
                             </div>
                         </div>
 
+                        {/* Directions for finding the food once there */}
+                        {event.locationInstructions && (
+                            <div>
+                                <p className="text-sm font-medium text-zinc-400">Where exactly</p>
+                                <p className="text-zinc-300 whitespace-pre-line">{event.locationInstructions}</p>
+                            </div>
+                        )}
+
+                        {/* Cancellation notice */}
+                        {event.status === 'cancelled' && (
+                            <div className="rounded-lg border border-red-500/40 bg-red-500/10 p-4">
+                                <p className="text-sm font-medium text-red-300">This event has been cancelled</p>
+                                {event.cancellationReason && (
+                                    <p className="text-sm text-red-200 mt-1">{event.cancellationReason}</p>
+                                )}
+                            </div>
+                        )}
+
                         {/* Description */}
                         {event.description && (
                             <div>
@@ -198,45 +308,120 @@ export default function EventDetailsModal({
 
                         {/* Food Offerings */}
                         <div>
-                            <h4 className="text-sm font-medium text-zinc-400 mb-2">Food Offerings</h4>
+                            <div className="flex justify-between items-baseline mb-2">
+                                <h4 className="text-sm font-medium text-zinc-400">Food Offerings</h4>
+                                {event.portionsTotal !== undefined && (
+                                    <span className="text-sm text-zinc-300">
+                                        {event.portionsRemaining} of {event.portionsTotal} portions left
+                                    </span>
+                                )}
+                            </div>
                             <div className="space-y-4">
-                                {event.foodOfferings.map((food, index) => (
-                                    <div key={index} className="bg-zinc-700/50 rounded-lg p-4">
-                                        <div className="flex justify-between items-start mb-2">
-                                            <h5 className="font-medium text-white">{food.name}</h5>
-                                            {food.temperature && (
-                                                <span className="text-xs font-medium px-2 py-1 rounded bg-zinc-600 text-zinc-300">
-                                                    {food.temperature.charAt(0).toUpperCase() + food.temperature.slice(1)}
-                                                </span>
-                                            )}
-                                        </div>
-                                        {food.description && (
-                                            <p className="text-sm text-zinc-300 mb-2">{food.description}</p>
-                                        )}
-                                        <div className="flex flex-wrap gap-2 mt-2">
-                                            {food.dietaryTags.map((tag, tagIndex) => (
-                                                <span 
-                                                    key={tagIndex}
-                                                    className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-green-500/10 text-green-400"
-                                                >
-                                                    {tag.name}
-                                                </span>
-                                            ))}
-                                        </div>
-                                        <div className="grid grid-cols-2 gap-2 mt-3 text-xs text-zinc-400">
-                                            {food.quantity && (
-                                                <div>
-                                                    <span className="font-medium">Quantity:</span> {food.quantity}
+                                {event.foodOfferings.map((food, index) => {
+                                    const conflicts = getOfferingConflicts(food, dietaryRestrictions);
+                                    const unlabeled = getUnlabeledRestrictions(food, dietaryRestrictions);
+                                    const conflictingTagIds = conflicts.flatMap(conflict => conflict.tags.map(tag => tag.id));
+
+                                    return (
+                                        <div
+                                            key={index}
+                                            className={`bg-zinc-700/50 rounded-lg p-4 ${conflicts.length > 0 ? 'ring-2 ring-red-500/70' : ''}`}
+                                        >
+                                            <div className="flex justify-between items-start mb-2">
+                                                <h5 className="font-medium text-white">{food.name}</h5>
+                                                {food.temperature && (
+                                                    <span className="text-xs font-medium px-2 py-1 rounded bg-zinc-600 text-zinc-300">
+                                                        {food.temperature.charAt(0).toUpperCase() + food.temperature.slice(1)}
+                                                    </span>
+                                                )}
+                                            </div>
+                                            {conflicts.length > 0 && (
+                                                <div role="alert" className="flex items-start gap-2 rounded-lg bg-red-500/15 border border-red-500/40 p-3 mb-2">
+                                                    <ExclamationTriangleIcon className="h-5 w-5 flex-none text-red-400" />
+                                                    <ul className="text-sm font-medium text-red-300 space-y-1">
+                                                        {conflicts.map(conflict => (
+                                                            <li key={conflict.restriction.id}>
+                                                                {conflict.tags.map(tag => tag.name).join(', ')} conflicts with your {conflict.restriction.name.toLowerCase()}
+                                                            </li>
+                                                        ))}
+                                                    </ul>
                                                 </div>
                                             )}
-                                            {food.servingSize && (
-                                                <div>
-                                                    <span className="font-medium">Serving Size:</span> {food.servingSize}
+                                            {unlabeled.length > 0 && (
+                                                <p className="text-xs text-amber-300 mb-2">
+                                                    Not labeled {unlabeled.map(restriction => restriction.name.toLowerCase()).join(' or ')}, check with the organizer
+                                                </p>
+                                            )}
+                                            {food.description && (
+                                                <p className="text-sm text-zinc-300 mb-2">{food.description}</p>
+                                            )}
+                                            <div className="flex flex-wrap gap-2 mt-2">
+                                                {food.dietaryTags.map((tag, tagIndex) => (
+                                                    <span 
+                                                        key={tagIndex}
+                                                        className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${
+                                                            conflictingTagIds.includes(tag.id)
+                                                                ? 'bg-red-500/20 text-red-300'
+                                                                : 'bg-green-500/10 text-green-400'
+                                                        }`}
+                                                    >
+                                                        {tag.name}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                            {food.quantity !== undefined && food.remaining !== undefined && (
+                                                <div className="mt-3">
+                                                    <div className="flex justify-between items-center text-xs text-zinc-300 mb-1">
+                                                        <span>
+                                                            {food.remaining === 0 ? 'All gone' : `${food.remaining} of ${food.quantity} left`}
+                                                        </span>
+                                                        {food.remaining > 0 && isRunningLow(food.remaining, food.quantity) && (
+                                                            <span className="text-amber-300">Running low</span>
+                                                        )}
+                                                    </div>
+                                                    <div className="h-2 rounded-full bg-zinc-600 overflow-hidden">
+                                                        <div
+                                                            className={`h-full rounded-full transition-all ${
+                                                                isRunningLow(food.remaining, food.quantity) ? 'bg-amber-400' : 'bg-green-500'
+                                                            }`}
+                                                            style={{ width: `${food.quantity > 0 ? (food.remaining / food.quantity) * 100 : 0}%` }}
+                                                        />
+                                                    </div>
+                                                    {canAdjustFood && food.id && (
+                                                        <div className="flex justify-end space-x-2 mt-3">
+                                                            <button
+                                                                type="button"
+                                                                onClick={() => handleAdjustFood(food.id!, 1)}
+                                                                disabled={adjustingFoodId === food.id || food.remaining >= food.quantity}
+                                                                className="flex items-center justify-center h-11 w-11 rounded-lg bg-zinc-600 text-white hover:bg-zinc-500 transition-colors disabled:opacity-50"
+                                                                aria-label={`Put back one ${food.name}`}
+                                                            >
+                                                                <PlusIcon className="h-5 w-5" />
+                                                            </button>
+                                                            <button
+                                                                type="button"
+                                                                onClick={() => handleAdjustFood(food.id!, -1)}
+                                                                disabled={adjustingFoodId === food.id || food.remaining === 0}
+                                                                className="flex items-center justify-center h-11 px-4 rounded-lg bg-green-600 text-white font-medium hover:bg-green-500 transition-colors disabled:opacity-50"
+                                                                aria-label={`Hand out one ${food.name}`}
+                                                            >
+                                                                <MinusIcon className="h-5 w-5 mr-1" />
+                                                                Hand Out
+                                                            </button>
+                                                        </div>
+                                                    )}
                                                 </div>
                                             )}
+                                            <div className="grid grid-cols-2 gap-2 mt-3 text-xs text-zinc-400">
+                                                {food.servingSize && (
+                                                    <div>
+                                                        <span className="font-medium">Serving Size:</span> {food.servingSize}
+                                                    </div>
+                                                )}
+                                            </div>
                                         </div>
-                                    </div>
-                                ))}
+                                    );
+                                })}
                             </div>
                         </div>
 
@@ -272,6 +457,88 @@ export default function EventDetailsModal({
                             </div>
                         </div>
 
+                        {/* Cancel Event Form - organizer only */}
+                        {isCancelFormOpen && (
+                            <div className="rounded-lg border border-zinc-600 p-4 space-y-3">
+                                <label htmlFor="cancelReason" className="block text-sm font-medium text-zinc-300">
+                                    Reason for cancelling
+                                </label>
+                                <textarea
+                                    id="cancelReason"
+                                    value={cancelReason}
+                                    onChange={(e) => setCancelReason(e.target.value)}
+                                    className="w-full px-4 py-2 rounded-lg border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-red-500"
+                                    rows={2}
+                                    placeholder="Attendees who RSVP'd will see this message"
+                                />
+                                {event.seriesId && (
+                                    <select
+                                        value={cancelScope}
+                                        onChange={(e) => setCancelScope(e.target.value as SeriesScope)}
+                                        aria-label="Occurrences to cancel"
+                                        className="w-full px-4 py-2 rounded-lg border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-red-500"
+                                    >
+                                        <option value="this">Only this occurrence</option>
+                                        <option value="following">This and following occurrences</option>
+                                        <option value="all">All upcoming occurrences</option>
+                                    </select>
+                                )}
+                                <div className="flex justify-end space-x-3">
+                                    <button
+                                        type="button"
+                                        onClick={() => setIsCancelFormOpen(false)}
+                                        disabled={isCancelling}
+                                        className="px-4 py-2 text-zinc-300 hover:text-white transition-colors disabled:opacity-50"
+                                    >
+                                        Keep Event
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={handleCancelSubmit}
+                                        disabled={isCancelling}
+                                        className="px-4 py-2 rounded-lg bg-red-500 hover:bg-red-600 text-white font-medium transition-colors disabled:opacity-50"
+                                    >
+                                        {isCancelling ? 'Cancelling...' : 'Confirm Cancellation'}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Report Event Form - everyone but the organizer */}
+                        {isReportFormOpen && (
+                            <div className="rounded-lg border border-zinc-600 p-4 space-y-3">
+                                <label htmlFor="reportReason" className="block text-sm font-medium text-zinc-300">
+                                    What&apos;s wrong with this event?
+                                </label>
+                                <textarea
+                                    id="reportReason"
+                                    value={reportReason}
+                                    onChange={(e) => setReportReason(e.target.value)}
+                                    className="w-full px-4 py-2 rounded-lg border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-red-500"
+                                    rows={2}
+                                    placeholder="Only moderators will see this"
+                                />
+                                <div className="flex justify-end space-x-3">
+                                    <button
+                                        type="button"
+                                        onClick={() => setIsReportFormOpen(false)}
+                                        disabled={isReporting}
+                                        className="px-4 py-2 text-zinc-300 hover:text-white transition-colors disabled:opacity-50"
+                                    >
+                                        Never Mind
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={handleReportSubmit}
+                                        disabled={isReporting}
+                                        className="px-4 py-2 rounded-lg bg-red-500 hover:bg-red-600 text-white font-medium transition-colors disabled:opacity-50"
+                                    >
+                                        {isReporting ? 'Sending...' : 'Send Report'}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
                         {/* Action Buttons */}
                         <div className="flex justify-end space-x-4 pt-6">
                             <button
@@ -281,6 +548,44 @@ export default function EventDetailsModal({
                             >
                                 Close
                             </button>
+                            {event.status !== EVENT_STATUS.CANCELLED && event.status !== EVENT_STATUS.DRAFT && (
+                                <button
+                                    type="button"
+                                    onClick={handleAddToCalendar}
+                                    className="flex items-center px-4 py-2 rounded-lg font-medium bg-zinc-700 text-zinc-200 hover:bg-zinc-600 transition-colors duration-200"
+                                >
+                                    <CalendarDaysIcon className="h-5 w-5 mr-2" />
+                                    Add to Calendar
+                                </button>
+                            )}
+                            {!isLoading && !isAuthorized && onReportEvent && !isReportFormOpen && (
+                                <button
+                                    type="button"
+                                    onClick={() => setIsReportFormOpen(true)}
+                                    className="flex items-center px-4 py-2 rounded-lg font-medium bg-zinc-700 text-zinc-300 hover:bg-zinc-600 transition-colors duration-200"
+                                >
+                                    <FlagIcon className="h-5 w-5 mr-2" />
+                                    Report
+                                </button>
+                            )}
+                            {isAuthorized && event.status !== EVENT_STATUS.DRAFT && event.status !== EVENT_STATUS.CANCELLED && (
+                                <Link
+                                    href={`/checkin?eventId=${event.id}`}
+                                    className="flex items-center px-4 py-2 rounded-lg font-medium bg-zinc-700 text-zinc-200 hover:bg-zinc-600 transition-colors duration-200"
+                                >
+                                    <QrCodeIcon className="h-5 w-5 mr-2" />
+                                    Check-In
+                                </Link>
+                            )}
+                            {isAuthorized && onCancelEvent && !isTerminalStatus(event.status) && !isCancelFormOpen && (
+                                <button
+                                    type="button"
+                                    onClick={() => setIsCancelFormOpen(true)}
+                                    className="px-4 py-2 rounded-lg font-medium bg-zinc-700 text-red-300 hover:bg-red-500/20 transition-colors duration-200"
+                                >
+                                    Cancel Event
+                                </button>
+                            )}
                             <button
                                 type="button"
                                 onClick={handleEditClick}
@@ -290,7 +595,7 @@ export default function EventDetailsModal({
                                         : 'bg-zinc-600 text-zinc-300 hover:bg-zinc-500 cursor-not-allowed'
                                 }`}
                                 aria-label={isAuthorized ? "Edit event" : "Only the organizer can edit this event"}
-                                title={isAuthorized ? "Edit event" : "Only the faculty member who created this event can edit it"}
+                                title={isAuthorized ? "Edit event" : "Only the organizer can edit this event"}
                             >
                                 {isLoading ? 'Checking...' : 'Edit'}
                             </button>
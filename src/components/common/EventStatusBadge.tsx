@@ -0,0 +1,34 @@
+/**
+ * EventStatusBadge Component
+ *
+ * A small pill that shows an event's lifecycle status using the shared
+ * EVENT_STATUS_COLORS and EVENT_STATUS_LABELS so every list and modal
+ * renders statuses the same way as the map markers. Pass displayStatus(event)
+ * to show food gone like the markers do.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <EventStatusBadge status={displayStatus(event)} />
+ * ```
+ */
+
+import React from 'react';
+import { EVENT_STATUS_COLORS, EVENT_STATUS_LABELS } from '@/constants/map';
+import { DisplayStatus } from '@/types/event';
+
+interface EventStatusBadgeProps {
+    status: DisplayStatus;
+    className?: string;
+}
+
+export default function EventStatusBadge({ status, className = 'px-2 py-1 rounded' }: EventStatusBadgeProps) {
+    const colors = EVENT_STATUS_COLORS[status] ?? EVENT_STATUS_COLORS.scheduled;
+    const label = EVENT_STATUS_LABELS[status] ?? status;
+
+    return (
+        <span className={`${className} text-xs font-medium ${colors.badge}`}>
+            {label}
+        </span>
+    );
+}
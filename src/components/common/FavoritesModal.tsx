@@ -33,6 +33,8 @@ import React from 'react';
 import { Dialog } from '@headlessui/react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 import { DashboardEvent } from '@/types/event';
+import EventStatusBadge from './EventStatusBadge';
+import { displayStatus } from '@/lib/eventLifecycle';
 
 /**
  * Props for the FavoritesModal component
@@ -101,13 +103,7 @@ export default function FavoritesModal({
                                             <h3 className="text-lg font-semibold text-white">
                                                 {event.title}
                                             </h3>
-                                            <span className={`px-2 py-1 rounded text-xs font-medium ${
-                                                event.status === 'available'
-                                                    ? 'bg-green-500/20 text-green-300'
-                                                    : 'bg-amber-500/20 text-amber-300'
-                                            }`}>
-                                                {event.status === 'available' ? 'Available Now' : 'Starting Soon'}
-                                            </span>
+                                            <EventStatusBadge status={displayStatus(event)} />
                                         </div>
                                         <div className="space-y-2 text-sm text-zinc-300 mb-4">
                                             <div className="flex items-center">
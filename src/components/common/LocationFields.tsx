@@ -0,0 +1,264 @@
+/**
+ * LocationFields Component
+ *
+ * The "Location" section of the AddEventModal form. Events are either at a building from the
+ * campus catalog or somewhere else, like the BU Beach or a lab off the list:
+ * - Campus building: picked from the catalog admins keep up to date
+ * - Somewhere else: a name, plus a pin dropped on a small map or found by searching an address
+ * - Either way, the room or floor and directions for finding the food once there
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <LocationFields
+ *   value={formData.location}
+ *   onChange={(location) => setFormData({ ...formData, location })}
+ *   buildings={buildings}
+ *   error={errors.location}
+ * />
+ * ```
+ */
+
+import React, { useState } from 'react';
+import dynamic from 'next/dynamic';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { Building, EventLocation } from '@/types/event';
+import { CUSTOM_LOCATION_ID, LOCATION_LIMITS } from '@/constants/eventData';
+import { EMPTY_LOCATION } from '@/lib/eventLocations';
+import { PlaceResult, searchPlaces } from '@/lib/geocoding';
+
+// Mapbox needs the browser, so the map only loads there
+const LocationPicker = dynamic(() => import('../map/LocationPicker'), {
+    ssr: false,
+    loading: () => <div className="h-48 w-full rounded-lg bg-zinc-700 animate-pulse" />,
+});
+
+/**
+ * Props for the LocationFields component
+ * @interface LocationFieldsProps
+ * @property {EventLocation} value - Where the event is
+ * @property {(value: EventLocation) => void} onChange - Called with the new location
+ * @property {Building[]} buildings - The active buildings from the campus catalog
+ * @property {string} [error] - Validation message from the form
+ */
+interface LocationFieldsProps {
+    value: EventLocation;
+    onChange: (value: EventLocation) => void;
+    buildings: Building[];
+    error?: string;
+}
+
+const inputClassName = 'w-full px-4 py-2 rounded-lg border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function LocationFields({ value, onChange, buildings, error }: LocationFieldsProps) {
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<PlaceResult[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    const [searchError, setSearchError] = useState<string | null>(null);
+
+    const isCustom = value.id === CUSTOM_LOCATION_ID;
+    // An event at a building that was retired since keeps showing it
+    const buildingOptions = value.id && !isCustom && !buildings.some(b => b.id === value.id)
+        ? [...buildings, value]
+        : buildings;
+    const details = { room: value.room, instructions: value.instructions };
+
+    const switchToCustom = () => {
+        onChange({ ...details, id: CUSTOM_LOCATION_ID, name: '', coordinates: value.coordinates, address: '' });
+    };
+
+    const switchToBuilding = () => {
+        onChange({ ...EMPTY_LOCATION, ...details });
+        setResults([]);
+    };
+
+    const handleSearch = async () => {
+        setIsSearching(true);
+        setSearchError(null);
+        try {
+            const places = await searchPlaces(query);
+            setResults(places);
+            if (places.length === 0) {
+                setSearchError('Nothing found, try another address or drop a pin');
+            }
+        } catch (searchFailure) {
+            setSearchError(searchFailure instanceof Error ? searchFailure.message : 'Address search failed');
+        } finally {
+            setIsSearching(false);
+        }
+    };
+
+    const handlePickPlace = (place: PlaceResult) => {
+        onChange({ ...value, name: value.name || place.name, address: place.address, coordinates: place.coordinates });
+        setResults([]);
+        setQuery('');
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <span className="block text-sm font-medium text-zinc-300">Location</span>
+                <div className="flex gap-2" role="group" aria-label="Location type">
+                    <button
+                        type="button"
+                        onClick={switchToBuilding}
+                        aria-pressed={!isCustom}
+                        className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                            !isCustom ? 'bg-green-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                        }`}
+                    >
+                        Campus building
+                    </button>
+                    <button
+                        type="button"
+                        onClick={switchToCustom}
+                        aria-pressed={isCustom}
+                        className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                            isCustom ? 'bg-green-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                        }`}
+                    >
+                        Somewhere else
+                    </button>
+                </div>
+            </div>
+
+            {!isCustom ? (
+                <div>
+                    <label htmlFor="location" className="block text-sm text-zinc-400 mb-1">
+                        Building
+                    </label>
+                    <select
+                        id="location"
+                        value={value.id}
+                        onChange={(e) => {
+                            const building = buildingOptions.find(b => b.id === e.target.value);
+                            onChange(building ? { ...building, ...details } : { ...EMPTY_LOCATION, ...details });
+                        }}
+                        className={`${inputClassName} ${error ? 'border-red-500' : ''}`}
+                    >
+                        <option value="">Pick a building</option>
+                        {buildingOptions.map((building) => (
+                            <option key={building.id} value={building.id}>
+                                {building.name}
+                            </option>
+                        ))}
+                    </select>
+                    {value.address && (
+                        <p className="mt-1 text-sm text-zinc-400">{value.address}</p>
+                    )}
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    <div>
+                        <label htmlFor="locationName" className="block text-sm text-zinc-400 mb-1">
+                            Place name
+                        </label>
+                        <input
+                            type="text"
+                            id="locationName"
+                            value={value.name}
+                            onChange={(e) => onChange({ ...value, name: e.target.value })}
+                            className={`${inputClassName} ${error ? 'border-red-500' : ''}`}
+                            placeholder="e.g. BU Beach"
+                        />
+                    </div>
+
+                    <div>
+                        <label htmlFor="locationSearch" className="block text-sm text-zinc-400 mb-1">
+                            Search an address
+                        </label>
+                        <div className="flex gap-2">
+                            <input
+                                type="search"
+                                id="locationSearch"
+                                value={query}
+                                onChange={(e) => setQuery(e.target.value)}
+                                onKeyDown={(e) => {
+                                    // Enter searches instead of submitting the event form
+                                    if (e.key === 'Enter') {
+                                        e.preventDefault();
+                                        handleSearch();
+                                    }
+                                }}
+                                className={inputClassName}
+                                placeholder="e.g. 700 Commonwealth Ave"
+                            />
+                            <button
+                                type="button"
+                                onClick={handleSearch}
+                                disabled={isSearching}
+                                className="px-3 rounded-lg bg-zinc-700 text-zinc-300 hover:bg-zinc-600 hover:text-white transition-colors disabled:opacity-50"
+                                aria-label="Search address"
+                            >
+                                <MagnifyingGlassIcon className="h-5 w-5" />
+                            </button>
+                        </div>
+                        {searchError && (
+                            <p className="mt-1 text-sm text-amber-400">{searchError}</p>
+                        )}
+                        {results.length > 0 && (
+                            <ul className="mt-2 rounded-lg border border-zinc-600 divide-y divide-zinc-700">
+                                {results.map((place) => (
+                                    <li key={`${place.coordinates.join(',')}-${place.address}`}>
+                                        <button
+                                            type="button"
+                                            onClick={() => handlePickPlace(place)}
+                                            className="w-full text-left px-3 py-2 text-sm text-zinc-200 hover:bg-zinc-700"
+                                        >
+                                            {place.address}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    <div>
+                        <p className="text-sm text-zinc-400 mb-1">Or click the map to drop a pin, then drag it into place</p>
+                        <LocationPicker
+                            value={value.coordinates}
+                            onChange={(coordinates) => onChange({ ...value, coordinates })}
+                        />
+                        {value.address && (
+                            <p className="mt-1 text-sm text-zinc-400">{value.address}</p>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            <div>
+                <label htmlFor="locationRoom" className="block text-sm text-zinc-400 mb-1">
+                    Room or floor (optional)
+                </label>
+                <input
+                    type="text"
+                    id="locationRoom"
+                    value={value.room || ''}
+                    onChange={(e) => onChange({ ...value, room: e.target.value })}
+                    maxLength={LOCATION_LIMITS.ROOM}
+                    className={inputClassName}
+                    placeholder="e.g. Room 440, 3rd floor lounge"
+                />
+            </div>
+
+            <div>
+                <label htmlFor="locationInstructions" className="block text-sm text-zinc-400 mb-1">
+                    Where exactly (optional)
+                </label>
+                <textarea
+                    id="locationInstructions"
+                    value={value.instructions || ''}
+                    onChange={(e) => onChange({ ...value, instructions: e.target.value })}
+                    maxLength={LOCATION_LIMITS.INSTRUCTIONS}
+                    rows={2}
+                    className={inputClassName}
+                    placeholder="e.g. Table by the east doors, look for the green balloons"
+                />
+            </div>
+
+            {error && (
+                <p className="text-sm text-red-500">{error}</p>
+            )}
+        </div>
+    );
+}
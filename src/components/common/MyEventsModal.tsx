@@ -7,6 +7,7 @@
  * Features:
  * - Displays a list of RSVP'd events with key information
  * - Provides quick access to view full event details
+ * - Shows each event's check-in QR code for food pickup
  * - Shows empty state when no RSVP'd events exist
  * - Maintains consistent styling with other modals
  * 
@@ -29,10 +30,11 @@
  * ```
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Dialog } from '@headlessui/react';
-import { XMarkIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { XMarkIcon, CheckIcon, QrCodeIcon } from '@heroicons/react/24/outline';
 import { DashboardEvent } from '@/types/event';
+import CheckinQrCode from './CheckinQrCode';
 
 /**
  * Props for the MyEventsModal component
@@ -55,6 +57,9 @@ export default function MyEventsModal({
     myEvents,
     onViewDetails
 }: MyEventsModalProps) {
+    // Event whose check-in code is expanded, only one at a time
+    const [ticketEventId, setTicketEventId] = useState<string | null>(null);
+
     return (
         <Dialog
             open={isOpen}
@@ -126,12 +131,27 @@ export default function MyEventsModal({
                                                 {event.attendees} attending
                                             </div>
                                         </div>
-                                        <button
-                                            onClick={() => onViewDetails(event)}
-                                            className="w-full bg-zinc-600 hover:bg-green-600 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
-                                        >
-                                            View Details
-                                        </button>
+                                        {ticketEventId === event.id && (
+                                            <div className="mb-4">
+                                                <CheckinQrCode eventId={event.id} />
+                                            </div>
+                                        )}
+                                        <div className="flex space-x-2">
+                                            <button
+                                                onClick={() => onViewDetails(event)}
+                                                className="flex-1 bg-zinc-600 hover:bg-green-600 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+                                            >
+                                                View Details
+                                            </button>
+                                            <button
+                                                onClick={() => setTicketEventId(ticketEventId === event.id ? null : event.id)}
+                                                className="flex items-center bg-zinc-600 hover:bg-zinc-500 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+                                                aria-expanded={ticketEventId === event.id}
+                                            >
+                                                <QrCodeIcon className="h-5 w-5 mr-2" />
+                                                {ticketEventId === event.id ? 'Hide Code' : 'Check-In Code'}
+                                            </button>
+                                        </div>
                                     </div>
                                 ))}
                             </div>
@@ -0,0 +1,89 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import NotificationsModal from './NotificationsModal';
+import { Notification } from '@/types';
+
+describe('NotificationsModal', () => {
+    const mockClose = jest.fn();
+    const mockMarkRead = jest.fn();
+    const mockMarkAllRead = jest.fn();
+
+    const notifications: Notification[] = [
+        {
+            id: 'n1',
+            userId: 'user-1',
+            title: "You're off the waitlist",
+            message: 'A spot opened up at Pizza Night and you are now attending',
+            type: 'food_available',
+            eventId: 'event-1',
+            read: false,
+            createdAt: new Date(),
+        },
+        {
+            id: 'n2',
+            userId: 'user-1',
+            title: 'Event cancelled',
+            message: 'Bagel Breakfast was cancelled: room unavailable',
+            type: 'system',
+            eventId: 'event-2',
+            read: true,
+            createdAt: new Date(),
+        },
+    ];
+
+    beforeEach(() => {
+        mockClose.mockClear();
+        mockMarkRead.mockClear();
+        mockMarkAllRead.mockClear();
+    });
+
+    it('lists notifications and marks unread ones read when clicked', () => {
+        render(
+            <NotificationsModal
+                isOpen={true}
+                onClose={mockClose}
+                notifications={notifications}
+                onMarkRead={mockMarkRead}
+                onMarkAllRead={mockMarkAllRead}
+            />
+        );
+
+        expect(screen.getByText('Event cancelled')).toBeInTheDocument();
+
+        fireEvent.click(screen.getByText("You're off the waitlist"));
+        expect(mockMarkRead).toHaveBeenCalledWith('n1');
+
+        fireEvent.click(screen.getByText('Event cancelled'));
+        expect(mockMarkRead).toHaveBeenCalledTimes(1);
+    });
+
+    it('marks everything read from the header button', () => {
+        render(
+            <NotificationsModal
+                isOpen={true}
+                onClose={mockClose}
+                notifications={notifications}
+                onMarkRead={mockMarkRead}
+                onMarkAllRead={mockMarkAllRead}
+            />
+        );
+
+        fireEvent.click(screen.getByRole('button', { name: 'Mark all as read' }));
+        expect(mockMarkAllRead).toHaveBeenCalled();
+    });
+
+    it('shows the empty state when there is nothing to show', () => {
+        render(
+            <NotificationsModal
+                isOpen={true}
+                onClose={mockClose}
+                notifications={[]}
+                onMarkRead={mockMarkRead}
+                onMarkAllRead={mockMarkAllRead}
+            />
+        );
+
+        expect(screen.getByText("You're all caught up")).toBeInTheDocument();
+        expect(screen.queryByRole('button', { name: 'Mark all as read' })).not.toBeInTheDocument();
+    });
+});
@@ -0,0 +1,152 @@
+/**
+ * NotificationsModal Component
+ *
+ * The notification inbox opened from the bell in the NavBar. Lists the user's
+ * notifications newest first, including the ones that arrived while they were offline.
+ *
+ * Features:
+ * - Unread notifications are highlighted with a green dot
+ * - Clicking a notification marks it read
+ * - "Mark all as read" clears the unread badge in one go
+ * - Shows empty state when there are no notifications
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <NotificationsModal
+ *   isOpen={isInboxOpen}
+ *   onClose={() => setIsInboxOpen(false)}
+ *   notifications={notifications}
+ *   onMarkRead={(id) => handleMarkRead(id)}
+ *   onMarkAllRead={handleMarkAllRead}
+ * />
+ * ```
+ */
+
+import React from 'react';
+import { Dialog } from '@headlessui/react';
+import { XMarkIcon, BellIcon } from '@heroicons/react/24/outline';
+import { Notification } from '@/types';
+
+/**
+ * Props for the NotificationsModal component
+ * @interface NotificationsModalProps
+ * @property {boolean} isOpen - Controls the visibility of the modal
+ * @property {() => void} onClose - Callback function to close the modal
+ * @property {Notification[]} notifications - The user's notifications, newest first
+ * @property {boolean} [isLoading] - Whether notifications are still loading
+ * @property {(notificationId: string) => void} onMarkRead - Callback when a notification is opened
+ * @property {() => void} onMarkAllRead - Callback for the "Mark all as read" button
+ */
+interface NotificationsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    notifications: Notification[];
+    isLoading?: boolean;
+    onMarkRead: (notificationId: string) => void;
+    onMarkAllRead: () => void;
+}
+
+// Short relative time like "5m ago", falling back to the date after a week
+const formatAge = (date: Date) => {
+    const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+    if (minutes < 1) return 'Just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+    if (minutes < 7 * 24 * 60) return `${Math.floor(minutes / (24 * 60))}d ago`;
+    return date.toLocaleDateString();
+};
+
+export default function NotificationsModal({
+    isOpen,
+    onClose,
+    notifications,
+    isLoading = false,
+    onMarkRead,
+    onMarkAllRead
+}: NotificationsModalProps) {
+    const hasUnread = notifications.some(notification => !notification.read);
+
+    return (
+        <Dialog
+            open={isOpen}
+            onClose={onClose}
+            className="relative z-50"
+        >
+            {/* Backdrop */}
+            <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" aria-hidden="true" />
+
+            {/* Modal container */}
+            <div className="fixed inset-0 flex items-center justify-center p-4">
+                <Dialog.Panel className="w-full max-w-lg rounded-lg bg-zinc-800 p-6 shadow-xl max-h-[80vh] flex flex-col">
+                    {/* Header */}
+                    <div className="flex justify-between items-center mb-6">
+                        <Dialog.Title className="text-2xl font-bold text-white">
+                            Notifications
+                        </Dialog.Title>
+                        <div className="flex items-center gap-4">
+                            {hasUnread && (
+                                <button
+                                    onClick={onMarkAllRead}
+                                    className="text-sm text-green-400 hover:text-green-300 transition-colors"
+                                >
+                                    Mark all as read
+                                </button>
+                            )}
+                            <button
+                                onClick={onClose}
+                                className="text-zinc-400 hover:text-white transition-colors"
+                                aria-label="Close modal"
+                            >
+                                <XMarkIcon className="h-6 w-6" />
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Content */}
+                    <div className="flex-1 overflow-y-auto">
+                        {isLoading ? (
+                            <p className="text-center py-8 text-zinc-400">Loading...</p>
+                        ) : notifications.length === 0 ? (
+                            <div className="text-center py-8">
+                                <BellIcon className="h-10 w-10 mx-auto text-zinc-600" />
+                                <p className="text-zinc-400 mt-2">You&apos;re all caught up</p>
+                                <p className="text-sm text-zinc-500 mt-2">
+                                    New events, waitlist spots and cancellations will show up here
+                                </p>
+                            </div>
+                        ) : (
+                            <ul className="space-y-2">
+                                {notifications.map((notification) => (
+                                    <li key={notification.id}>
+                                        <button
+                                            onClick={() => !notification.read && onMarkRead(notification.id)}
+                                            className={`w-full text-left rounded-lg p-4 transition-colors ${
+                                                notification.read
+                                                    ? 'bg-zinc-700/30 hover:bg-zinc-700/50'
+                                                    : 'bg-zinc-700/70 hover:bg-zinc-700'
+                                            }`}
+                                        >
+                                            <div className="flex justify-between items-start gap-2">
+                                                <div className="flex items-center gap-2">
+                                                    {!notification.read && (
+                                                        <span className="h-2 w-2 rounded-full bg-green-400" aria-label="Unread" />
+                                                    )}
+                                                    <span className="font-semibold text-white">{notification.title}</span>
+                                                </div>
+                                                <span className="text-xs text-zinc-400 whitespace-nowrap">
+                                                    {formatAge(notification.createdAt)}
+                                                </span>
+                                            </div>
+                                            <p className="text-sm text-zinc-300 mt-1">{notification.message}</p>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </Dialog.Panel>
+            </div>
+        </Dialog>
+    );
+}
@@ -0,0 +1,196 @@
+/**
+ * PostedEventsModal Component
+ *
+ * Lists the events the organizer posted, past ones included, so the ones that worked can
+ * be reused without typing the menu in again.
+ *
+ * Features:
+ * - Newest events first with their status
+ * - "Duplicate" opens the Add Event form pre-filled with the event, moved to a picked date
+ * - "Save as Template" stores the event under a name for the Add Event form's template list
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <PostedEventsModal
+ *   isOpen={isPostedEventsOpen}
+ *   onClose={() => setIsPostedEventsOpen(false)}
+ *   events={postedEvents}
+ *   onDuplicate={handleDuplicateEvent}
+ *   onSaveTemplate={handleSaveEventAsTemplate}
+ * />
+ * ```
+ */
+
+import React, { useState } from 'react';
+import { Dialog } from '@headlessui/react';
+import { XMarkIcon, DocumentDuplicateIcon, BookmarkIcon } from '@heroicons/react/24/outline';
+import { DashboardEvent } from '@/types/event';
+import EventStatusBadge from './EventStatusBadge';
+import { displayStatus } from '@/lib/eventLifecycle';
+import { toDateKey } from '@/lib/recurrence';
+
+/**
+ * Props for the PostedEventsModal component
+ * @interface PostedEventsModalProps
+ * @property {boolean} isOpen - Controls the visibility of the modal
+ * @property {() => void} onClose - Callback function to close the modal
+ * @property {DashboardEvent[] | null} events - The organizer's events, null while they load
+ * @property {(event: DashboardEvent, date: string) => Promise<void>} onDuplicate - Opens the form for a copy on date ("YYYY-MM-DD")
+ * @property {(event: DashboardEvent, name: string) => Promise<void>} onSaveTemplate - Saves the event as a template
+ */
+interface PostedEventsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    events: DashboardEvent[] | null;
+    onDuplicate: (event: DashboardEvent, date: string) => Promise<void>;
+    onSaveTemplate: (event: DashboardEvent, name: string) => Promise<void>;
+}
+
+// The row with an open form, and which form it is
+interface OpenForm {
+    eventId: string;
+    action: 'duplicate' | 'template';
+    value: string;
+}
+
+export default function PostedEventsModal({
+    isOpen,
+    onClose,
+    events,
+    onDuplicate,
+    onSaveTemplate
+}: PostedEventsModalProps) {
+    const [openForm, setOpenForm] = useState<OpenForm | null>(null);
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+
+    const handleSubmit = async (event: DashboardEvent) => {
+        if (!openForm || !openForm.value.trim()) return;
+
+        setIsSaving(true);
+        try {
+            if (openForm.action === 'duplicate') {
+                await onDuplicate(event, openForm.value);
+            } else {
+                await onSaveTemplate(event, openForm.value);
+            }
+            setOpenForm(null);
+        } catch {
+            // The dashboard shows the error, keep the form so it can be retried
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog
+            open={isOpen}
+            onClose={onClose}
+            className="relative z-50"
+        >
+            {/* Backdrop */}
+            <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" aria-hidden="true" />
+
+            {/* Modal container */}
+            <div className="fixed inset-0 flex items-center justify-center p-4">
+                <Dialog.Panel className="w-full max-w-2xl rounded-lg bg-zinc-800 p-6 shadow-xl max-h-[80vh] flex flex-col">
+                    {/* Header */}
+                    <div className="flex justify-between items-center mb-6">
+                        <Dialog.Title className="text-2xl font-bold text-white">
+                            Posted Events
+                        </Dialog.Title>
+                        <button
+                            onClick={onClose}
+                            className="text-zinc-400 hover:text-white transition-colors"
+                            aria-label="Close modal"
+                        >
+                            <XMarkIcon className="h-6 w-6" />
+                        </button>
+                    </div>
+
+                    {/* Content */}
+                    <div className="flex-1 overflow-y-auto">
+                        {events === null ? (
+                            <p className="text-zinc-400 text-center py-8">Loading...</p>
+                        ) : events.length === 0 ? (
+                            <div className="text-center py-8">
+                                <p className="text-zinc-400">You haven&apos;t posted any events</p>
+                                <p className="text-sm text-zinc-500 mt-2">
+                                    Events you post will appear here so you can reuse them
+                                </p>
+                            </div>
+                        ) : (
+                            <div className="space-y-3">
+                                {events.map((event) => {
+                                    const form = openForm?.eventId === event.id ? openForm : null;
+                                    return (
+                                        <div key={event.id} className="bg-zinc-700/50 rounded-lg p-4">
+                                            <div className="flex justify-between items-start gap-3">
+                                                <div className="min-w-0">
+                                                    <h3 className="font-semibold text-white truncate">{event.title}</h3>
+                                                    <p className="text-sm text-zinc-400">
+                                                        {event.startTime.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })} · {event.time} · {event.location}
+                                                    </p>
+                                                </div>
+                                                <EventStatusBadge status={displayStatus(event)} className="px-2 py-1 rounded-full text-xs shrink-0" />
+                                            </div>
+
+                                            {form ? (
+                                                <div className="flex items-center gap-2 mt-3">
+                                                    <input
+                                                        type={form.action === 'duplicate' ? 'date' : 'text'}
+                                                        value={form.value}
+                                                        min={form.action === 'duplicate' ? toDateKey(new Date()) : undefined}
+                                                        maxLength={form.action === 'template' ? 60 : undefined}
+                                                        onChange={(e) => setOpenForm({ ...form, value: e.target.value })}
+                                                        aria-label={form.action === 'duplicate' ? 'Date for the copy' : 'Template name'}
+                                                        className="flex-1 px-3 py-2 rounded-lg border border-zinc-600 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                                    />
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => setOpenForm(null)}
+                                                        disabled={isSaving}
+                                                        className="px-3 py-2 text-sm text-zinc-300 hover:text-white transition-colors disabled:opacity-50"
+                                                    >
+                                                        Cancel
+                                                    </button>
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => handleSubmit(event)}
+                                                        disabled={isSaving || !form.value.trim()}
+                                                        className="px-3 py-2 rounded-lg bg-green-600 text-white text-sm font-medium hover:bg-green-500 transition-colors disabled:opacity-50"
+                                                    >
+                                                        {form.action === 'duplicate' ? 'Open Form' : (isSaving ? 'Saving...' : 'Save Template')}
+                                                    </button>
+                                                </div>
+                                            ) : (
+                                                <div className="flex space-x-2 mt-3">
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => setOpenForm({ eventId: event.id, action: 'duplicate', value: toDateKey(new Date()) })}
+                                                        className="flex items-center px-3 py-1.5 rounded-lg bg-zinc-600 hover:bg-zinc-500 text-sm text-white transition-colors"
+                                                    >
+                                                        <DocumentDuplicateIcon className="h-4 w-4 mr-1.5" />
+                                                        Duplicate
+                                                    </button>
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => setOpenForm({ eventId: event.id, action: 'template', value: event.title })}
+                                                        className="flex items-center px-3 py-1.5 rounded-lg bg-zinc-600 hover:bg-zinc-500 text-sm text-white transition-colors"
+                                                    >
+                                                        <BookmarkIcon className="h-4 w-4 mr-1.5" />
+                                                        Save as Template
+                                                    </button>
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                </Dialog.Panel>
+            </div>
+        </Dialog>
+    );
+}
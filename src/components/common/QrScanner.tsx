@@ -0,0 +1,120 @@
+/**
+ * QrScanner Component
+ *
+ * Reads QR codes from the device camera using the browser's BarcodeDetector API and
+ * passes each decoded value to onScan. Browsers without BarcodeDetector (or without a
+ * camera) get a short message instead, the check-in screen always has a paste box as
+ * a fallback.
+ *
+ * The same code is not reported twice in a row within a few seconds, so holding a
+ * phone in front of the camera doesn't fire repeated check-ins.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <QrScanner onScan={(value) => handleCheckIn(value)} />
+ * ```
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+
+/**
+ * Props for the QrScanner component
+ * @interface QrScannerProps
+ * @property {(value: string) => void} onScan - Called with the text of each QR code read
+ */
+interface QrScannerProps {
+    onScan: (value: string) => void;
+}
+
+// BarcodeDetector isn't in the TypeScript DOM types yet
+interface DetectedBarcode {
+    rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+    detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const SCAN_INTERVAL_MS = 500;
+const REPEAT_COOLDOWN_MS = 3000;
+
+export default function QrScanner({ onScan }: QrScannerProps) {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const onScanRef = useRef(onScan);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        onScanRef.current = onScan;
+    }, [onScan]);
+
+    useEffect(() => {
+        const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+        if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+            setError("This browser can't scan QR codes, paste the code below instead.");
+            return;
+        }
+
+        const detector = new Detector({ formats: ['qr_code'] });
+        let stream: MediaStream | null = null;
+        let timer: ReturnType<typeof setInterval> | undefined;
+        let lastValue = '';
+        let lastScannedAt = 0;
+        let isStopped = false;
+
+        const start = async () => {
+            try {
+                stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+                if (isStopped || !videoRef.current) {
+                    stream.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                videoRef.current.srcObject = stream;
+                await videoRef.current.play();
+
+                timer = setInterval(async () => {
+                    if (!videoRef.current || videoRef.current.readyState < 2) return;
+                    try {
+                        const [barcode] = await detector.detect(videoRef.current);
+                        if (!barcode) return;
+
+                        const scannedAt = Date.now();
+                        if (barcode.rawValue === lastValue && scannedAt - lastScannedAt < REPEAT_COOLDOWN_MS) return;
+                        lastValue = barcode.rawValue;
+                        lastScannedAt = scannedAt;
+                        onScanRef.current(barcode.rawValue);
+                    } catch (err) {
+                        console.error("Error reading QR code:", err);
+                    }
+                }, SCAN_INTERVAL_MS);
+            } catch (err) {
+                console.error("Error starting camera:", err);
+                setError("Couldn't open the camera, paste the code below instead.");
+            }
+        };
+
+        start();
+
+        return () => {
+            isStopped = true;
+            clearInterval(timer);
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    if (error) {
+        return <p className="text-sm text-zinc-400">{error}</p>;
+    }
+
+    return (
+        <video
+            ref={videoRef}
+            className="w-full max-w-sm rounded-lg bg-black aspect-square object-cover"
+            muted
+            playsInline
+            aria-label="Camera preview for scanning check-in codes"
+        />
+    );
+}
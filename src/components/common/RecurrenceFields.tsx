@@ -0,0 +1,238 @@
+/**
+ * RecurrenceFields Component
+ *
+ * The "Repeat" section of the AddEventModal form. Lets organizers repeat an event weekly or
+ * every other week on chosen weekdays, until a date or for a number of times, and skip
+ * dates like holidays. Shows how many events will be created before anything is saved.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <RecurrenceFields
+ *   value={formData.recurrence}
+ *   onChange={(recurrence) => setFormData({ ...formData, recurrence })}
+ *   startDateTime={formData.startDateTime}
+ *   endDateTime={formData.endDateTime}
+ *   error={errors.recurrence}
+ * />
+ * ```
+ */
+
+import React, { useState } from 'react';
+import { RecurrenceRule } from '@/types/event';
+import { describeRecurrence, expandRecurrence, toDateKey, validateRecurrence } from '@/lib/recurrence';
+
+/**
+ * Props for the RecurrenceFields component
+ * @interface RecurrenceFieldsProps
+ * @property {RecurrenceRule} [value] - The rule, undefined when the event doesn't repeat
+ * @property {(value?: RecurrenceRule) => void} onChange - Called with the new rule, or undefined to stop repeating
+ * @property {Date} startDateTime - Start of the first event, sets the default weekday and time
+ * @property {Date} endDateTime - End of the first event
+ * @property {string} [error] - Validation message from the form
+ */
+interface RecurrenceFieldsProps {
+    value?: RecurrenceRule;
+    onChange: (value?: RecurrenceRule) => void;
+    startDateTime: Date;
+    endDateTime: Date;
+    error?: string;
+}
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DEFAULT_COUNT = 10;
+
+const inputClassName = 'px-4 py-2 rounded-lg border border-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function RecurrenceFields({ value, onChange, startDateTime, endDateTime, error }: RecurrenceFieldsProps) {
+    const [skipDate, setSkipDate] = useState('');
+
+    const handleFrequencyChange = (frequency: string) => {
+        if (frequency !== 'weekly' && frequency !== 'biweekly') {
+            onChange(undefined);
+            return;
+        }
+        onChange(value
+            ? { ...value, frequency }
+            : { frequency, weekdays: [startDateTime.getDay()], count: DEFAULT_COUNT, exceptDates: [] }
+        );
+    };
+
+    if (!value) {
+        return (
+            <div>
+                <label htmlFor="repeat" className="block text-sm font-medium text-zinc-300 mb-2">
+                    Repeat
+                </label>
+                <select
+                    id="repeat"
+                    value="none"
+                    onChange={(e) => handleFrequencyChange(e.target.value)}
+                    className={`w-full ${inputClassName}`}
+                >
+                    <option value="none">Does not repeat</option>
+                    <option value="weekly">Weekly</option>
+                    <option value="biweekly">Every 2 weeks</option>
+                </select>
+            </div>
+        );
+    }
+
+    // The last weekday can't be turned off, an empty list would fall back to the start's weekday anyway
+    const toggleWeekday = (day: number) => {
+        const weekdays = value.weekdays.includes(day)
+            ? value.weekdays.filter(d => d !== day)
+            : [...value.weekdays, day].sort();
+        if (weekdays.length > 0) {
+            onChange({ ...value, weekdays });
+        }
+    };
+
+    const handleEndTypeChange = (endType: string) => {
+        onChange(endType === 'until'
+            ? { ...value, count: undefined, until: toDateKey(new Date(startDateTime.getTime() + 10 * 7 * 24 * 60 * 60 * 1000)) }
+            : { ...value, until: undefined, count: DEFAULT_COUNT }
+        );
+    };
+
+    const addSkipDate = () => {
+        if (skipDate && !value.exceptDates.includes(skipDate)) {
+            onChange({ ...value, exceptDates: [...value.exceptDates, skipDate].sort() });
+        }
+        setSkipDate('');
+    };
+
+    const problem = validateRecurrence(startDateTime, endDateTime, value);
+    const occurrenceCount = problem ? 0 : expandRecurrence(startDateTime, endDateTime, value).length;
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label htmlFor="repeat" className="block text-sm font-medium text-zinc-300 mb-2">
+                    Repeat
+                </label>
+                <select
+                    id="repeat"
+                    value={value.frequency}
+                    onChange={(e) => handleFrequencyChange(e.target.value)}
+                    className={`w-full ${inputClassName}`}
+                >
+                    <option value="none">Does not repeat</option>
+                    <option value="weekly">Weekly</option>
+                    <option value="biweekly">Every 2 weeks</option>
+                </select>
+            </div>
+
+            {/* Weekdays */}
+            <div className="flex gap-2">
+                {WEEKDAYS.map((letter, day) => {
+                    const isSelected = value.weekdays.includes(day);
+                    return (
+                        <button
+                            key={day}
+                            type="button"
+                            onClick={() => toggleWeekday(day)}
+                            aria-pressed={isSelected}
+                            aria-label={WEEKDAY_LABELS[day]}
+                            className={`h-9 w-9 rounded-full text-sm font-medium transition-colors ${
+                                isSelected
+                                    ? 'bg-green-600 text-white'
+                                    : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                            }`}
+                        >
+                            {letter}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {/* End */}
+            <div className="flex items-center gap-3">
+                <label htmlFor="repeatEnd" className="text-sm text-zinc-300">Ends</label>
+                <select
+                    id="repeatEnd"
+                    value={value.until !== undefined ? 'until' : 'count'}
+                    onChange={(e) => handleEndTypeChange(e.target.value)}
+                    className={inputClassName}
+                >
+                    <option value="count">After</option>
+                    <option value="until">On</option>
+                </select>
+                {value.until !== undefined ? (
+                    <input
+                        type="date"
+                        value={value.until}
+                        min={toDateKey(startDateTime)}
+                        onChange={(e) => onChange({ ...value, until: e.target.value })}
+                        aria-label="Last date"
+                        className={inputClassName}
+                    />
+                ) : (
+                    <>
+                        <input
+                            type="number"
+                            min={1}
+                            step={1}
+                            value={value.count ?? ''}
+                            onChange={(e) => onChange({ ...value, count: e.target.value === '' ? undefined : Number(e.target.value) })}
+                            aria-label="Number of occurrences"
+                            className={`w-24 ${inputClassName}`}
+                        />
+                        <span className="text-sm text-zinc-300">times</span>
+                    </>
+                )}
+            </div>
+
+            {/* Skipped dates */}
+            <div>
+                <div className="flex items-center gap-3">
+                    <input
+                        type="date"
+                        value={skipDate}
+                        min={toDateKey(startDateTime)}
+                        onChange={(e) => setSkipDate(e.target.value)}
+                        aria-label="Date to skip"
+                        className={inputClassName}
+                    />
+                    <button
+                        type="button"
+                        onClick={addSkipDate}
+                        disabled={!skipDate}
+                        className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                    >
+                        Skip date
+                    </button>
+                </div>
+                {value.exceptDates.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                        {value.exceptDates.map(date => (
+                            <span
+                                key={date}
+                                className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-zinc-700 text-zinc-300"
+                            >
+                                {date}
+                                <button
+                                    type="button"
+                                    onClick={() => onChange({ ...value, exceptDates: value.exceptDates.filter(d => d !== date) })}
+                                    className="ml-1 text-zinc-400 hover:text-white"
+                                    aria-label={`Don't skip ${date}`}
+                                >
+                                    ×
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {error || problem ? (
+                <p className="text-sm text-red-500">{error || problem}</p>
+            ) : (
+                <p className="text-sm text-zinc-400">
+                    {describeRecurrence(startDateTime, value)}. Creates {occurrenceCount} event{occurrenceCount === 1 ? '' : 's'}.
+                </p>
+            )}
+        </div>
+    );
+}
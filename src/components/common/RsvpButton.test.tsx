@@ -106,4 +106,43 @@ describe('RsvpButton', () => {
         expect(screen.getByRole('button')).toBeDisabled();
         expect(screen.queryByText('This event has reached maximum capacity')).not.toBeInTheDocument();
     });
-}); 
\ No newline at end of file
+
+    it('offers the waitlist with the next place in line when the event is full', () => {
+        const mockToggleWaitlist = jest.fn();
+        render(
+            <RsvpButton 
+                eventId="1"
+                count={10}
+                isRsvpd={false}
+                onToggle={mockToggle}
+                isFull={true}
+                waitlistCount={2}
+                onToggleWaitlist={mockToggleWaitlist}
+            />
+        );
+        
+        expect(screen.getByText('Join waitlist (#3 in line)')).toBeInTheDocument();
+        
+        fireEvent.click(screen.getByRole('button', { name: /join waitlist/i }));
+        expect(mockToggleWaitlist).toHaveBeenCalledWith('1');
+        expect(mockToggle).not.toHaveBeenCalled();
+    });
+    
+    it('shows the user\'s place in line once waitlisted', () => {
+        render(
+            <RsvpButton 
+                eventId="1"
+                count={10}
+                isRsvpd={false}
+                onToggle={mockToggle}
+                isFull={true}
+                waitlistCount={4}
+                waitlistPosition={2}
+                onToggleWaitlist={jest.fn()}
+            />
+        );
+        
+        expect(screen.getByRole('button', { name: /leave waitlist/i })).toBeInTheDocument();
+        expect(screen.getByText('On waitlist (#2 in line)')).toBeInTheDocument();
+    });
+});
@@ -8,7 +8,8 @@
  * Features:
  * - Toggle RSVP status with a single click
  * - Visual feedback for current RSVP state
- * - Display of total RSVP/attendee count
+ * - Display of total RSVP/attendee count, kept live by the parent from the realtime RSVP counts
+ * - Waitlist join/leave with the user's place in line once the event is full
  * - Accessible button with appropriate ARIA attributes
  * - Smooth transitions between states
  * 
@@ -20,14 +21,26 @@
  *   count={event.attendees}
  *   isRsvpd={hasUserRsvpd(event.id)}
  *   onToggle={handleToggleRsvp}
- *   disabled={event.attendees >= (event.maxAttendees || Infinity)}
+ *   disabled={isEventFull(event)}
+ * />
+ *
+ * // Full event with a waitlist
+ * <RsvpButton
+ *   eventId={event.id}
+ *   count={event.attendees}
+ *   isRsvpd={false}
+ *   onToggle={handleToggleRsvp}
+ *   isFull={true}
+ *   waitlistCount={event.waitlistCount}
+ *   waitlistPosition={userWaitlist[event.id] ?? null}
+ *   onToggleWaitlist={handleToggleWaitlist}
  * />
  * ```
  */
 
 
 import React from 'react';
-import { CheckIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { CheckIcon, ClockIcon, PlusIcon } from '@heroicons/react/24/outline';
 
 interface RsvpButtonProps {
     eventId: string; // Accept either string or number
@@ -35,6 +48,11 @@ interface RsvpButtonProps {
     isRsvpd: boolean;
     onToggle: (eventId: string) => void; // Change to accept string
     disabled?: boolean;
+    disabledMessage?: string; // Shown under the button while disabled
+    isFull?: boolean; // Event is at capacity, offer the waitlist instead of RSVP
+    waitlistCount?: number; // Number of people already waiting
+    waitlistPosition?: number | null; // The user's place in line, null when not waitlisted
+    onToggleWaitlist?: (eventId: string) => void;
 }
 
 export default function RsvpButton({ 
@@ -42,8 +60,17 @@ export default function RsvpButton({
     count, 
     isRsvpd, 
     onToggle,
-    disabled = false
+    disabled = false,
+    disabledMessage = 'This event has reached maximum capacity',
+    isFull = false,
+    waitlistCount = 0,
+    waitlistPosition = null,
+    onToggleWaitlist
 }: RsvpButtonProps) {
+    // Full events switch to the waitlist when a waitlist handler is provided
+    const showWaitlist = isFull && !isRsvpd && !!onToggleWaitlist;
+    const isWaitlisted = waitlistPosition !== null;
+
     // Ensure eventId is a string and not NaN
     const handleClick = () => {
         const eventIdStr = String(eventId);
@@ -54,9 +81,47 @@ export default function RsvpButton({
             return;
         }
         
+        if (showWaitlist) {
+            onToggleWaitlist!(eventIdStr);
+            return;
+        }
+
         onToggle(eventIdStr);
     };
 
+    if (showWaitlist) {
+        return (
+            <div className="flex flex-col">
+                <button
+                    onClick={handleClick}
+                    disabled={disabled}
+                    className={`flex items-center justify-center space-x-2 px-4 py-2 rounded-lg transition-all duration-200 
+                        ${isWaitlisted 
+                            ? 'bg-amber-600 text-white hover:bg-amber-700' 
+                            : 'bg-zinc-700 text-white hover:bg-zinc-600'}
+                        ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                    aria-pressed={isWaitlisted}
+                    aria-label={isWaitlisted ? "Leave waitlist" : "Join waitlist"}
+                >
+                    <ClockIcon className="h-5 w-5 mr-2" />
+                    {isWaitlisted ? (
+                        <span>On waitlist (#{waitlistPosition} in line)</span>
+                    ) : (
+                        <span>Join waitlist (#{waitlistCount + 1} in line)</span>
+                    )}
+                </button>
+                <p className="text-sm text-zinc-400 mt-2">
+                    {count} {count === 1 ? 'person' : 'people'} attending
+                </p>
+                <p className="text-xs text-amber-400 mt-1">
+                    {isWaitlisted
+                        ? "You'll get a spot automatically if someone cancels"
+                        : `This event is full, ${waitlistCount} ${waitlistCount === 1 ? 'person is' : 'people are'} waiting`}
+                </p>
+            </div>
+        );
+    }
+
     return (
         <div className="flex flex-col">
             <button
@@ -87,7 +152,7 @@ export default function RsvpButton({
             </p>
             {disabled && !isRsvpd && (
                 <p className="text-xs text-amber-400 mt-1">
-                    This event has reached maximum capacity
+                    {disabledMessage}
                 </p>
             )}
         </div>
@@ -20,7 +20,7 @@
 import React, { useState, useEffect } from 'react';
 import { Dialog } from '@headlessui/react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
-import { supabase } from '../../lib/supabase';
+import { getEventRepository } from '@/lib/repository';
 
 /**
  * Props for the SettingsModal component
@@ -46,20 +46,12 @@ export default function SettingsModal({ isOpen, onClose, userData, onSignOut }:
     useEffect(() => {
         const fetchUserRole = async () => {
             try {
-                const { data: { user } } = await supabase.auth.getUser();
-                if (user) {
-                    const { data, error } = await supabase
-                        .from("profiles")
-                        .select("role, full_name")
-                        .eq("auth_id", user.id)
-                        .single();
-
-                    if (data && !error) {
-                        // Capitalize first letter of role
-                        setUserRole(data.role.charAt(0).toUpperCase() + data.role.slice(1));
-                    } else {
-                        setUserRole("Not specified");
-                    }
+                const profile = await getEventRepository().findSignedInProfile();
+                if (profile) {
+                    // Capitalize first letter of role
+                    setUserRole(profile.role.charAt(0).toUpperCase() + profile.role.slice(1));
+                } else {
+                    setUserRole("Not specified");
                 }
             } catch (error) {
                 console.error("Error fetching user role:", error);
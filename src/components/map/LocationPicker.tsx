@@ -0,0 +1,103 @@
+"use client";
+import React, { useEffect, useRef } from "react";
+import mapboxgl from "mapbox-gl";
+import "mapbox-gl/dist/mapbox-gl.css";
+import { BU_CENTER, MAP_STYLE } from "@/constants/map";
+
+/**
+ * Props for the LocationPicker component
+ * @interface LocationPickerProps
+ * @property {[number, number]} [value] - Where the pin is, [longitude, latitude], undefined before one is dropped
+ * @property {(coordinates: [number, number]) => void} onChange - Called when the pin is dropped or dragged
+ * @property {string} [label] - Accessible name for the map
+ */
+interface LocationPickerProps {
+    value?: [number, number];
+    onChange: (coordinates: [number, number]) => void;
+    label?: string;
+}
+
+const PICKER_ZOOM = 16;
+
+/**
+ * LocationPicker Component
+ *
+ * A small flat map for saying exactly where something is. Clicking the map drops the pin
+ * there and the pin can be dragged. When value changes from outside (an address search, a
+ * building picked) the map follows it.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <LocationPicker
+ *   value={location.coordinates}
+ *   onChange={(coordinates) => setLocation({ ...location, coordinates })}
+ * />
+ * ```
+ */
+export default function LocationPicker({ value, onChange, label = "Map, click to drop a pin" }: LocationPickerProps) {
+    const containerRef = useRef<HTMLDivElement | null>(null);
+    const mapRef = useRef<mapboxgl.Map | null>(null);
+    const markerRef = useRef<mapboxgl.Marker | null>(null);
+    // The map's handlers are set up once, so they read the latest callback from here
+    const onChangeRef = useRef(onChange);
+
+    useEffect(() => {
+        onChangeRef.current = onChange;
+    }, [onChange]);
+
+    useEffect(() => {
+        if (!containerRef.current) return;
+
+        mapboxgl.accessToken = process.env.NEXT_PUBLIC_MAPBOX_TOKEN || "";
+        const map = new mapboxgl.Map({
+            container: containerRef.current,
+            style: MAP_STYLE,
+            center: BU_CENTER,
+            zoom: PICKER_ZOOM,
+        });
+        map.addControl(new mapboxgl.NavigationControl({ showCompass: false }), "top-right");
+
+        const marker = new mapboxgl.Marker({ color: "#16a34a", draggable: true });
+        marker.on("dragend", () => {
+            const { lng, lat } = marker.getLngLat();
+            onChangeRef.current([lng, lat]);
+        });
+        map.on("click", (e) => {
+            marker.setLngLat(e.lngLat).addTo(map);
+            onChangeRef.current([e.lngLat.lng, e.lngLat.lat]);
+        });
+
+        mapRef.current = map;
+        markerRef.current = marker;
+
+        return () => {
+            marker.remove();
+            map.remove();
+            mapRef.current = null;
+            markerRef.current = null;
+        };
+    }, []);
+
+    // Follow the pin when it's moved from outside the map
+    useEffect(() => {
+        const map = mapRef.current;
+        const marker = markerRef.current;
+        if (!map || !marker || !value || !value.every(Number.isFinite)) return;
+
+        const current = marker.getLngLat();
+        if (current && current.lng === value[0] && current.lat === value[1]) return;
+
+        marker.setLngLat(value).addTo(map);
+        map.easeTo({ center: value });
+    }, [value]);
+
+    return (
+        <div
+            ref={containerRef}
+            role="application"
+            aria-label={label}
+            className="h-48 w-full rounded-lg overflow-hidden border border-zinc-600"
+        />
+    );
+}
@@ -3,7 +3,48 @@ import React from "react";
 import { useRef, useEffect, useState, useCallback } from "react";
 import mapboxgl from "mapbox-gl";
 import "mapbox-gl/dist/mapbox-gl.css";
-import { Event, MapProps } from "@/types/map";
+import type { Feature, FeatureCollection, LineString, Point } from "geojson";
+import { MapBounds, MapProps } from "@/types/map";
+import { DisplayStatus } from "@/types/event";
+import { EVENT_STATUS, EVENT_STATUS_COLORS, EVENT_STATUS_LABELS, FOOD_GONE, MAP_CLUSTER, MAP_VIEWPORT } from "@/constants/map";
+import { EventFeatureProperties, EventLocationGroup, eventPopupHtml, groupEventsByLocation, toEventFeatureCollection } from "@/lib/mapFeatures";
+
+// Statuses shown in the map legend, in lifecycle order
+const LEGEND_STATUSES: DisplayStatus[] = [
+    EVENT_STATUS.SCHEDULED,
+    EVENT_STATUS.STARTING_SOON,
+    EVENT_STATUS.LIVE,
+    EVENT_STATUS.RUNNING_LOW,
+    FOOD_GONE,
+    EVENT_STATUS.ENDED,
+    EVENT_STATUS.CANCELLED,
+];
+
+// Source and layer ids for the clustered event markers
+const EVENTS_SOURCE = "events";
+const CLUSTER_LAYER = "event-clusters";
+const CLUSTER_COUNT_LAYER = "event-cluster-count";
+const EVENT_LAYER = "event-points";
+const EVENT_COUNT_LAYER = "event-point-count";
+const ROUTE_SOURCE = "walking-route";
+const ROUTE_LAYER = "walking-route-line";
+
+// The route as a line, or nothing to draw
+function routeToFeature(route?: [number, number][]): Feature<LineString> | FeatureCollection {
+    if (!route || route.length < 2) {
+        return { type: "FeatureCollection", features: [] };
+    }
+    return { type: "Feature", properties: {}, geometry: { type: "LineString", coordinates: route } };
+}
+
+// Groups by key, the features only carry the key
+function indexGroups(groups: EventLocationGroup[]): Record<string, EventLocationGroup> {
+    const byKey: Record<string, EventLocationGroup> = {};
+    groups.forEach(group => {
+        byKey[group.key] = group;
+    });
+    return byKey;
+}
 
 // Light presets based on time of day
 type LightPreset = "dawn" | "day" | "dusk" | "night";
@@ -15,6 +56,13 @@ type LightPreset = "dawn" | "day" | "dusk" | "night";
  * food events and building statuses with custom markers. It includes features like
  * dynamic lighting based on time of day, user location tracking, and interactive markers.
  * 
+ * Events are drawn from a clustered GeoJSON source rather than one DOM marker each, so
+ * hundreds of events stay smooth. Nearby events merge into a circle with a count that zooms
+ * in on click, and the visible area is reported through onBoundsChange so the parent can
+ * load just the events in it. Events in the same building share one marker with a count,
+ * colored by the event most worth going to, and clicking it lists them all to pick from.
+ * A walking route passed in as route is drawn under the markers.
+ * 
  * @component
  * @example
  * ```tsx
@@ -22,10 +70,11 @@ type LightPreset = "dawn" | "day" | "dusk" | "night";
  *   events={events}
  *   onMarkerClick={(eventId) => handleMarkerClick(eventId)}
  *   userPos={[42.3505, -71.1097]}
+ *   onBoundsChange={(bounds) => loadEventsIn(bounds)}
  * />
  * ```
  */
-export default function Map({ events, onMarkerClick, userPos }: MapProps) {
+export default function Map({ events, onMarkerClick, userPos, dimmedEventIds, onBoundsChange, route }: MapProps) {
     // Define default map position constants at the top of the component
     const DEFAULT_CENTER: [number, number] = [-71.1097, 42.3505]; // BU's coordinates
     const DEFAULT_ZOOM = 15.3;
@@ -34,7 +83,15 @@ export default function Map({ events, onMarkerClick, userPos }: MapProps) {
 
     const mapRef = useRef<mapboxgl.Map | null>(null);
     const mapContainerRef = useRef<HTMLDivElement | null>(null);
-    const markersRef = useRef<mapboxgl.Marker[]>([]);
+    const userMarkerRef = useRef<mapboxgl.Marker | null>(null);
+    // The layers' handlers are registered once per map, these refs keep them reading the latest props
+    const groupsRef = useRef<Record<string, EventLocationGroup>>({});
+    const featuresRef = useRef(toEventFeatureCollection([]));
+    const routeRef = useRef(route);
+    // The open list of events at one location, and which location it's for
+    const pickerRef = useRef<{ key: string; popup: mapboxgl.Popup } | null>(null);
+    const onMarkerClickRef = useRef(onMarkerClick);
+    const onBoundsChangeRef = useRef(onBoundsChange);
     
     // Update mapStateRef to use our default values
     const mapStateRef = useRef({
@@ -46,23 +103,206 @@ export default function Map({ events, onMarkerClick, userPos }: MapProps) {
 
     const [currentLightPreset, setCurrentLightPreset] = useState<LightPreset>("day");
 
+    useEffect(() => {
+        onMarkerClickRef.current = onMarkerClick;
+        onBoundsChangeRef.current = onBoundsChange;
+    }, [onMarkerClick, onBoundsChange]);
+
     /**
-     * Determines the appropriate color class for a marker based on its status
-     * @param status - The current status of the event/building
-     * @returns Tailwind CSS classes for marker styling
+     * Adds the walking route line, empty until a route is passed in
+     * @param map - The loaded map
      */
-    function getColorByStatus(status: string) {
-        switch (status) {
-            case "available":
-                return "h-2 w-2 rounded-full bg-green-400 shadow-[0px_0px_4px_2px_rgba(34,197,94,0.7)]";
-            case "unavailable":
-                return "h-2 w-2 rounded-full bg-red-400 shadow-[0px_0px_4px_2px_rgba(239,68,68,0.9)]";
-            case "upcoming":
-                return "h-2 w-2 rounded-full bg-amber-400 shadow-[0px_0px_4px_2px_rgba(245,158,11,0.9)]";
-            default:
-                return "gray";
-        }
-    }
+    const addRouteLayer = useCallback((map: mapboxgl.Map) => {
+        map.addSource(ROUTE_SOURCE, {
+            type: "geojson",
+            data: routeToFeature(routeRef.current),
+        });
+
+        map.addLayer({
+            id: ROUTE_LAYER,
+            type: "line",
+            source: ROUTE_SOURCE,
+            layout: {
+                "line-join": "round",
+                "line-cap": "round",
+            },
+            paint: {
+                "line-color": "#60a5fa",
+                "line-width": 4,
+                "line-dasharray": [1, 1.5],
+                "line-emissive-strength": 1,
+            },
+        });
+    }, []);
+
+    /**
+     * Adds the clustered event source, its layers and their click and hover handlers
+     * @param map - The loaded map
+     */
+    const addEventLayers = useCallback((map: mapboxgl.Map) => {
+        map.addSource(EVENTS_SOURCE, {
+            type: "geojson",
+            data: featuresRef.current,
+            cluster: true,
+            clusterRadius: MAP_CLUSTER.RADIUS,
+            clusterMaxZoom: MAP_CLUSTER.MAX_ZOOM,
+            // Clusters count events, not locations
+            clusterProperties: {
+                count: ["+", ["get", "count"]],
+            },
+        });
+
+        map.addLayer({
+            id: CLUSTER_LAYER,
+            type: "circle",
+            source: EVENTS_SOURCE,
+            filter: ["has", "point_count"],
+            paint: {
+                "circle-color": MAP_CLUSTER.COLOR,
+                "circle-radius": ["step", ["get", "count"], 14, 10, 18, 50, 24],
+                "circle-stroke-width": 2,
+                "circle-stroke-color": "#fafafa",
+                "circle-emissive-strength": 1,
+            },
+        });
+
+        map.addLayer({
+            id: CLUSTER_COUNT_LAYER,
+            type: "symbol",
+            source: EVENTS_SOURCE,
+            filter: ["has", "point_count"],
+            layout: {
+                "text-field": ["to-string", ["get", "count"]],
+                "text-font": ["DIN Offc Pro Medium", "Arial Unicode MS Bold"],
+                "text-size": 12,
+                "text-allow-overlap": true,
+            },
+            paint: {
+                "text-color": "#ffffff",
+            },
+        });
+
+        map.addLayer({
+            id: EVENT_LAYER,
+            type: "circle",
+            source: EVENTS_SOURCE,
+            filter: ["!", ["has", "point_count"]],
+            paint: {
+                "circle-color": ["get", "color"],
+                "circle-radius": ["case", [">", ["get", "count"], 1], 9, 5],
+                "circle-opacity": ["case", ["get", "dimmed"], 0.4, 1],
+                "circle-blur": 0.2,
+                "circle-emissive-strength": 1,
+            },
+        });
+
+        // Zoom in far enough for the cluster to split up
+        map.on("click", CLUSTER_LAYER, (e) => {
+            const feature = e.features?.[0];
+            const source = map.getSource(EVENTS_SOURCE) as mapboxgl.GeoJSONSource | undefined;
+            if (!feature || !source) return;
+
+            source.getClusterExpansionZoom(feature.properties?.cluster_id, (err, zoom) => {
+                if (err || zoom === null || zoom === undefined) return;
+                map.easeTo({
+                    center: (feature.geometry as Point).coordinates as [number, number],
+                    zoom,
+                });
+            });
+        });
+
+        // Count badge for locations with more than one event
+        map.addLayer({
+            id: EVENT_COUNT_LAYER,
+            type: "symbol",
+            source: EVENTS_SOURCE,
+            filter: ["all", ["!", ["has", "point_count"]], [">", ["get", "count"], 1]],
+            layout: {
+                "text-field": ["to-string", ["get", "count"]],
+                "text-font": ["DIN Offc Pro Medium", "Arial Unicode MS Bold"],
+                "text-size": 10,
+                "text-allow-overlap": true,
+            },
+            paint: {
+                "text-color": "#ffffff",
+            },
+        });
+
+        // Hover tooltip for locations
+        const tooltip = new mapboxgl.Popup({
+            offset: 15,
+            closeButton: false,
+            closeOnClick: false,
+            className: "bg-zinc-800/90 px-3 py-2 rounded-lg shadow-lg"
+        });
+
+        const groupAt = (e: mapboxgl.MapMouseEvent) => {
+            const properties = e.features?.[0]?.properties as EventFeatureProperties | undefined;
+            return properties ? groupsRef.current[properties.key] : undefined;
+        };
+
+        // A single event opens straight away, several open a list to pick from
+        map.on("click", EVENT_LAYER, (e) => {
+            const group = groupAt(e);
+            if (!group) return;
+
+            if (group.events.length === 1) {
+                onMarkerClickRef.current(group.events[0].id);
+                return;
+            }
+
+            tooltip.remove();
+            pickerRef.current?.popup.remove();
+
+            const popup = new mapboxgl.Popup({
+                offset: 15,
+                maxWidth: "280px",
+                className: "bg-zinc-800/90 px-3 py-2 rounded-lg shadow-lg"
+            })
+                .setLngLat(group.coords)
+                .setHTML(eventPopupHtml(group))
+                .addTo(map);
+
+            popup.getElement()?.addEventListener("click", (clickEvent) => {
+                const item = (clickEvent.target as HTMLElement).closest("[data-event-id]");
+                const eventId = item?.getAttribute("data-event-id");
+                if (eventId) {
+                    onMarkerClickRef.current(eventId);
+                    popup.remove();
+                }
+            });
+            popup.on("close", () => {
+                if (pickerRef.current?.popup === popup) {
+                    pickerRef.current = null;
+                }
+            });
+
+            pickerRef.current = { key: group.key, popup };
+        });
+
+        map.on("mouseenter", EVENT_LAYER, (e) => {
+            const group = groupAt(e);
+            map.getCanvas().style.cursor = "pointer";
+            if (!group || pickerRef.current?.key === group.key) return;
+            tooltip
+                .setLngLat(group.coords)
+                .setHTML(eventPopupHtml(group))
+                .addTo(map);
+        });
+
+        map.on("mouseleave", EVENT_LAYER, () => {
+            map.getCanvas().style.cursor = "";
+            tooltip.remove();
+        });
+
+        map.on("mouseenter", CLUSTER_LAYER, () => {
+            map.getCanvas().style.cursor = "pointer";
+        });
+
+        map.on("mouseleave", CLUSTER_LAYER, () => {
+            map.getCanvas().style.cursor = "";
+        });
+    }, []);
 
     /**
      * Determines the appropriate light preset based on the current time of day
@@ -150,8 +390,14 @@ export default function Map({ events, onMarkerClick, userPos }: MapProps) {
         const initialLightPreset = getLightPresetByTime();
         setCurrentLightPreset(initialLightPreset);
 
-        // Wait for map to load before setting initial lighting
+        // Wait for map to load before setting initial lighting and adding the event layers
         mapRef.current.on('load', () => {
+            if (mapRef.current) {
+                addRouteLayer(mapRef.current);
+                addEventLayers(mapRef.current);
+                reportBounds();
+            }
+
             mapRef.current?.setConfigProperty('basemap', 'lightPreset', initialLightPreset);
             
             // Set initial light intensity
@@ -171,6 +417,25 @@ export default function Map({ events, onMarkerClick, userPos }: MapProps) {
         // Update lighting every minute
         const lightingInterval = setInterval(updateMapLighting, 60000);
 
+        // Report the visible area once the map settles, not on every frame of a pan
+        let boundsTimeout: ReturnType<typeof setTimeout> | undefined;
+        function reportBounds() {
+            const bounds = mapRef.current?.getBounds();
+            if (!bounds) return;
+            const visible: MapBounds = {
+                west: bounds.getWest(),
+                south: bounds.getSouth(),
+                east: bounds.getEast(),
+                north: bounds.getNorth(),
+            };
+            onBoundsChangeRef.current?.(visible);
+        }
+
+        mapRef.current.on("moveend", () => {
+            clearTimeout(boundsTimeout);
+            boundsTimeout = setTimeout(reportBounds, MAP_VIEWPORT.DEBOUNCE_MS);
+        });
+
         // Handle map movement
         mapRef.current.on("move", () => {
             if (mapRef.current) {
@@ -186,92 +451,88 @@ export default function Map({ events, onMarkerClick, userPos }: MapProps) {
 
         return () => {
             clearInterval(lightingInterval);
+            clearTimeout(boundsTimeout);
             if (mapRef.current) {
                 mapRef.current.remove();
             }
         };
-    }, [updateMapLighting, getLightPresetByTime]);
+    }, [updateMapLighting, getLightPresetByTime, addEventLayers, addRouteLayer]);
 
-    // Handle markers and user position updates
+    // Swap the event data in place, the source re-clusters without rebuilding any markers
     useEffect(() => {
-        if (!mapRef.current) return;
-
-        // Clear existing markers
-        markersRef.current.forEach(marker => marker.remove());
-        markersRef.current = [];
-
-        // Add markers for each event
-        events.forEach((event) => {
-            const el = document.createElement("div");
-            el.className = getColorByStatus(event.status);
-
-            // Add tooltip on hover
-            const tooltip = new mapboxgl.Popup({
-                offset: 15,
-                closeButton: false,
-                className: "bg-zinc-800/90 px-3 py-2 rounded-lg shadow-lg"
-            }).setHTML(`
-                <div class="text-white">
-                    <h3 class="font-semibold">${event.title}</h3>
-                    <p class="text-sm text-zinc-300">${event.location}</p>
-                    <p class="text-sm text-zinc-300">${event.time}</p>
-                </div>
-            `);
-
-            el.addEventListener("click", () => {
-                onMarkerClick(event.id);
-            });
-
-            if (event.coords) {
-                const marker = new mapboxgl.Marker(el)
-                    .setLngLat(event.coords)
-                    .setPopup(tooltip)
-                    .addTo(mapRef.current!);
-                
-                markersRef.current.push(marker);
+        const groups = groupEventsByLocation(events, dimmedEventIds);
+        groupsRef.current = indexGroups(groups);
+        featuresRef.current = toEventFeatureCollection(groups);
+        const source = mapRef.current?.getSource(EVENTS_SOURCE) as mapboxgl.GeoJSONSource | undefined;
+        source?.setData(featuresRef.current);
+
+        // Keep an open list current, closing it once fewer than two events are left there
+        const picker = pickerRef.current;
+        if (picker) {
+            const group = groupsRef.current[picker.key];
+            if (group && group.events.length > 1) {
+                picker.popup.setHTML(eventPopupHtml(group));
+            } else {
+                picker.popup.remove();
             }
-        });
+        }
+    }, [events, dimmedEventIds]);
 
-        // Add user position marker if available
-        if (userPos) {
-            const userMarkerEl = document.createElement("div");
-            userMarkerEl.className = "h-3 w-3 border-[1.5px] border-zinc-50 rounded-full bg-blue-400 shadow-[0px_0px_4px_2px_rgba(14,165,233,1)]";
+    // Draw the walking route and zoom to fit it
+    useEffect(() => {
+        routeRef.current = route;
+        const map = mapRef.current;
+        const source = map?.getSource(ROUTE_SOURCE) as mapboxgl.GeoJSONSource | undefined;
+        source?.setData(routeToFeature(route));
+
+        if (map && route && route.length > 1) {
+            const bounds = route.reduce(
+                (box, point) => box.extend(point),
+                new mapboxgl.LngLatBounds(route[0], route[0])
+            );
+            map.fitBounds(bounds, { padding: 80, maxZoom: 17, duration: 1000 });
+        }
+    }, [route]);
 
-            // Add user location popup
-            const userPopup = new mapboxgl.Popup({
-                offset: 15,
-                closeButton: false,
-                className: "bg-zinc-800/90 px-3 py-2 rounded-lg shadow-lg"
-            }).setHTML(`
-                <div class="text-white">
-                    <p class="font-semibold">Your Location</p>
-                </div>
-            `);
-
-            const userMarker = new mapboxgl.Marker(userMarkerEl)
-                .setLngLat(userPos)
-                .setPopup(userPopup)
-                .addTo(mapRef.current);
-            
-            markersRef.current.push(userMarker);
-
-            // Fly to user location if it's the first time we're getting it
-            const currentCenter = mapRef.current.getCenter();
-            if (currentCenter.lng !== userPos[0] || currentCenter.lat !== userPos[1]) {
-                mapRef.current.flyTo({
-                    center: userPos,
-                    zoom: 15.3,
-                    essential: true,
-                    duration: 1000
-                });
-            }
+    // Handle user position updates
+    useEffect(() => {
+        if (!mapRef.current || !userPos) return;
+
+        const userMarkerEl = document.createElement("div");
+        userMarkerEl.className = "h-3 w-3 border-[1.5px] border-zinc-50 rounded-full bg-blue-400 shadow-[0px_0px_4px_2px_rgba(14,165,233,1)]";
+
+        // Add user location popup
+        const userPopup = new mapboxgl.Popup({
+            offset: 15,
+            closeButton: false,
+            className: "bg-zinc-800/90 px-3 py-2 rounded-lg shadow-lg"
+        }).setHTML(`
+            <div class="text-white">
+                <p class="font-semibold">Your Location</p>
+            </div>
+        `);
+
+        userMarkerRef.current = new mapboxgl.Marker(userMarkerEl)
+            .setLngLat(userPos)
+            .setPopup(userPopup)
+            .addTo(mapRef.current);
+
+        // Fly to user location if it's the first time we're getting it
+        const currentCenter = mapRef.current.getCenter();
+        if (currentCenter.lng !== userPos[0] || currentCenter.lat !== userPos[1]) {
+            mapRef.current.flyTo({
+                center: userPos,
+                zoom: 15.3,
+                essential: true,
+                duration: 1000
+            });
         }
 
         return () => {
-            markersRef.current.forEach(marker => marker.remove());
-            markersRef.current = [];
+            userMarkerRef.current?.remove();
+            userMarkerRef.current = null;
         };
-    }, [events, onMarkerClick, userPos]);
+    }, [userPos]);
 
     return (
         <div className="h-[60vh] sm:w-full sm:h-full relative bg-red-500/0 rounded-[20px] p-2 sm:p-0">
@@ -312,24 +573,14 @@ export default function Map({ events, onMarkerClick, userPos }: MapProps) {
             
             {/* Legend */}
             <div className="bg-[#18181b]/90 absolute bottom-10 left-2 sm:bottom-8 sm:left-0 flex flex-col gap-2 m-1 py-2.5 p-2 rounded-[16px] z-10">
-                <div className="flex items-center gap-0">
-                    <div className="h-2 w-2 rounded-full bg-red-400 flex-none"></div>
-                    <div className="ml-2 rounded-lg px-2 py-1 text-sm w-full bg-red-700/30 text-red-300/90">
-                        unavailable
-                    </div>
-                </div>
-                <div className="flex items-center gap-0">
-                    <div className="h-2 w-2 rounded-full bg-amber-400 flex-none"></div>
-                    <div className="ml-2 rounded-lg px-2 py-1 text-sm w-full bg-amber-800/30 text-amber-300/90">
-                        opening soon
-                    </div>
-                </div>
-                <div className="flex items-center gap-0">
-                    <div className="h-2 w-2 rounded-full bg-green-400 flex-none"></div>
-                    <div className="ml-2 rounded-lg px-2 py-1 text-sm w-full bg-green-800/30 text-green-300/90">
-                        open now
+                {LEGEND_STATUSES.map((status) => (
+                    <div key={status} className="flex items-center gap-0">
+                        <div className={`h-2 w-2 rounded-full flex-none ${EVENT_STATUS_COLORS[status].bg}`}></div>
+                        <div className={`ml-2 rounded-lg px-2 py-1 text-sm w-full ${EVENT_STATUS_COLORS[status].badge}`}>
+                            {EVENT_STATUS_LABELS[status].toLowerCase()}
+                        </div>
                     </div>
-                </div>
+                ))}
             </div>
         </div>
     );
@@ -6,8 +6,13 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 // import supabase client
 import supabase from "@/lib/supabaseClient";
+import { getEventRepository } from "@/lib/repository";
 import SettingsModal from "@/components/common/SettingsModal";
-import { Cog6ToothIcon } from "@heroicons/react/24/outline";
+import NotificationsModal from "@/components/common/NotificationsModal";
+import { BellIcon, Cog6ToothIcon } from "@heroicons/react/24/outline";
+import toast from "react-hot-toast";
+import { toNotification } from "@/lib/notificationService";
+import { DATA_SOURCE } from "@/constants/config";
 
 /**
  * NavBar Component
@@ -15,6 +20,7 @@ import { Cog6ToothIcon } from "@heroicons/react/24/outline";
  * This component shows a horizontal navigation bar at the top of the dashboard with:
  * - User profile section (left): Displays user initials in a green circle and full name
  * - Spark!Bytes logo (center): Displayed in green to match the application's theme
+ * - Notification bell (right): Shows the unread count and opens the notification inbox
  * - Settings button (right): Opens a settings modal with user account options
  * 
  * Styling Notes:
@@ -34,6 +40,12 @@ const NavBar = () => {
   const [userName, setUserName] = useState("Loading");
   const [userInitials, setUserInitials] = useState("U");
   const [userEmail, setUserEmail] = useState("");
+  // profile id is needed to load this user's notifications
+  const [profileId, setProfileId] = useState(null);
+  const [notifications, setNotifications] = useState([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isInboxOpen, setIsInboxOpen] = useState(false);
+  const [isInboxLoading, setIsInboxLoading] = useState(true);
 
   //utlizing useEffect to fetch the user name
   useEffect(() => {
@@ -57,42 +69,33 @@ const NavBar = () => {
           setUserInitials(initials);
         }
         
-        const { data: { user } } = await supabase.auth.getUser();
-  
-        if (user) {
-          const { data, error } = await supabase
-            .from("profiles")
-            .select("full_name")  
-            .eq("auth_id", user.id)
-            .single();
-  
-          if (data && !error) {
-            setUserName(data.full_name);
-            setUserEmail(user.email);
-            // Generate initials from full name
-            const initials = data.full_name
-              .split(' ')
-              .map(name => name[0])
-              .join('')
-              .toUpperCase()
-              .slice(0, 2);
-            setUserInitials(initials);
-            
-            // Clear cached profile data
-            localStorage.removeItem('userProfile');
-          } else {
-            const { data: userData } = await supabase.auth.getUser();
-            if (userData && userData.user) {
-              const displayName = userData.user.user_metadata?.full_name || 
-                userData.user.email?.split('@')[0] || 
-                "User";
-              setUserName(displayName);
-              setUserEmail(userData.user.email);
-              setUserInitials(displayName[0].toUpperCase());
-            } else {
-              setUserName("User");
-              setUserInitials("U");
-            }
+        // the repository knows who is signed in, with or without a Supabase session (the memory store)
+        const data = await getEventRepository().findSignedInProfile().catch(() => null);
+
+        if (data) {
+          setProfileId(data.id);
+          setUserName(data.full_name);
+          setUserEmail(data.email);
+          // Generate initials from full name
+          const initials = data.full_name
+            .split(' ')
+            .map(name => name[0])
+            .join('')
+            .toUpperCase()
+            .slice(0, 2);
+          setUserInitials(initials);
+          
+          // Clear cached profile data
+          localStorage.removeItem('userProfile');
+        } else {
+          const { data: userData } = await supabase.auth.getUser();
+          if (userData && userData.user) {
+            const displayName = userData.user.user_metadata?.full_name || 
+              userData.user.email?.split('@')[0] || 
+              "User";
+            setUserName(displayName);
+            setUserEmail(userData.user.email);
+            setUserInitials(displayName[0].toUpperCase());
           }
         }
       } catch (error) {
@@ -105,6 +108,81 @@ const NavBar = () => {
     fetchUserData();
   }, []);
 
+  // load the inbox once we know who the user is, and keep the badge live after that
+  useEffect(() => {
+    if (!profileId) return;
+
+    const loadNotifications = async () => {
+      try {
+        const [{ notifications: latest }, unread] = await Promise.all([
+          getEventRepository().findNotifications(profileId),
+          getEventRepository().countUnreadNotifications(profileId)
+        ]);
+        setNotifications(latest);
+        setUnreadCount(unread);
+
+        // let people who were away know there is something waiting for them
+        if (unread > 0) {
+          toast(`You have ${unread} unread notification${unread === 1 ? "" : "s"}`, {
+            icon: "🔔",
+            duration: 5000,
+          });
+        }
+      } catch (error) {
+        console.error("Error loading notifications:", error);
+      } finally {
+        setIsInboxLoading(false);
+      }
+    };
+
+    loadNotifications();
+
+    // the memory store has no realtime, its notifications show up on the next load
+    if (DATA_SOURCE === "memory") return;
+
+    const notificationChannel = supabase
+      .channel(`notifications:user:${profileId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${profileId}` },
+        (payload) => {
+          setNotifications(prev => [toNotification(payload.new), ...prev]);
+          setUnreadCount(prev => prev + 1);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(notificationChannel);
+    };
+  }, [profileId]);
+
+  // mark one notification read, the badge updates right away and rolls back if saving fails
+  const handleMarkRead = async (notificationId) => {
+    setNotifications(prev => prev.map(n => n.id === notificationId ? { ...n, read: true } : n));
+    setUnreadCount(prev => Math.max(0, prev - 1));
+    try {
+      await getEventRepository().markNotificationsRead(profileId, [notificationId]);
+    } catch (error) {
+      setNotifications(prev => prev.map(n => n.id === notificationId ? { ...n, read: false } : n));
+      setUnreadCount(prev => prev + 1);
+      toast.error(error.message);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    const previous = { notifications, unreadCount };
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    setUnreadCount(0);
+    try {
+      await getEventRepository().markNotificationsRead(profileId, "all");
+    } catch (error) {
+      setNotifications(previous.notifications);
+      setUnreadCount(previous.unreadCount);
+      toast.error(error.message);
+    }
+  };
+
   // this function toggles the settings dropdown between open and closed
   const toggleSettings = () => {
     // if isSettingsOpen is true, it will become false and vice versa
@@ -156,16 +234,42 @@ const NavBar = () => {
           Spark!Bytes
         </div>
 
-        {/* Settings Button */}
-        <button
-          onClick={() => setIsSettingsOpen(true)}
-          className="bg-zinc-800 px-4 py-2 rounded hover:bg-zinc-700 focus:outline-none transition-colors flex items-center gap-2"
-        >
-          <Cog6ToothIcon className="h-5 w-5" />
-          Settings
-        </button>
+        <div className="flex items-center gap-3">
+          {/* Notification Bell - the badge counts unread notifications */}
+          <button
+            onClick={() => setIsInboxOpen(true)}
+            className="relative bg-zinc-800 p-2 rounded hover:bg-zinc-700 focus:outline-none transition-colors"
+            aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : "Notifications"}
+          >
+            <BellIcon className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-green-500 text-xs font-semibold flex items-center justify-center">
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </span>
+            )}
+          </button>
+
+          {/* Settings Button */}
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="bg-zinc-800 px-4 py-2 rounded hover:bg-zinc-700 focus:outline-none transition-colors flex items-center gap-2"
+          >
+            <Cog6ToothIcon className="h-5 w-5" />
+            Settings
+          </button>
+        </div>
       </nav>
 
+      {/* Notification Inbox */}
+      <NotificationsModal
+        isOpen={isInboxOpen}
+        onClose={() => setIsInboxOpen(false)}
+        notifications={notifications}
+        isLoading={isInboxLoading}
+        onMarkRead={handleMarkRead}
+        onMarkAllRead={handleMarkAllRead}
+      />
+
       {/* Settings Modal */}
       <SettingsModal
         isOpen={isSettingsOpen}
@@ -1,3 +1,5 @@
+import { Permission, UserRole } from '@/types';
+
 /**
  * Application Configuration
  * This file contains all the constant values used throughout the application
@@ -16,16 +18,44 @@ export const APP_CONFIG = {
 /**
  * User role definitions
  * Used to determine user permissions and access levels
+ * - STUDENT: Can view events and RSVP (everyone starts here)
+ * - FACULTY: Can post and manage their own events, granted by an admin
  * - ADMIN: Full system access
- * - DONOR: Can post and manage food items
- * - RECIPIENT: Can view and claim available food
  */
 export const ROLES = {
+  STUDENT: 'student',
+  FACULTY: 'faculty',
   ADMIN: 'admin',
-  DONOR: 'donor',
-  RECIPIENT: 'recipient',
 } as const;
 
+/**
+ * Permission definitions
+ * - CREATE_EVENT: Post new food events
+ * - EDIT_OWN_EVENT: Edit, cancel and run check-in for events you organize
+ * - EDIT_ANY_EVENT: Edit or delete anyone's event
+ * - MODERATE: Cancel anyone's event and review reported events
+ * - MANAGE_USERS: Change roles, review faculty requests and suspend accounts
+ * - MANAGE_BUILDINGS: Add, edit and retire buildings in the campus building catalog
+ */
+export const PERMISSIONS = {
+  CREATE_EVENT: 'create_event',
+  EDIT_OWN_EVENT: 'edit_own_event',
+  EDIT_ANY_EVENT: 'edit_any_event',
+  MODERATE: 'moderate',
+  MANAGE_USERS: 'manage_users',
+  MANAGE_BUILDINGS: 'manage_buildings',
+} as const;
+
+/**
+ * Permission matrix, which role may do what
+ * (the role_permissions table in the database holds the same rows and is what's enforced)
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  student: [],
+  faculty: ['create_event', 'edit_own_event'],
+  admin: ['create_event', 'edit_own_event', 'edit_any_event', 'moderate', 'manage_users', 'manage_buildings'],
+};
+
 /**
  * Food item status definitions
  * Used to track the current state of food items in the system
@@ -54,6 +84,64 @@ export const NOTIFICATION_TYPES = {
   SYSTEM: 'system',
 } as const;
 
+/**
+ * Event timing settings
+ * Used to derive an event's status from its start and end time
+ * - STARTING_SOON_MINUTES: How long before the start an event counts as "starting soon"
+ * - STATUS_REFRESH_MS: How often the dashboard re-derives statuses
+ */
+export const EVENT_TIMING = {
+  STARTING_SOON_MINUTES: 30,
+  STATUS_REFRESH_MS: 30 * 1000,
+} as const;
+
+/**
+ * Food inventory settings
+ * - RUNNING_LOW_RATIO: Share of portions left at which an event counts as running low
+ *   (the refresh_event_food_status database function uses the same value)
+ */
+export const FOOD_INVENTORY = {
+  RUNNING_LOW_RATIO: 0.25,
+} as const;
+
+/**
+ * Impact analytics settings
+ * - POUNDS_PER_PORTION: Estimated weight of one portion of food, Feeding America's
+ *   1.2 lb per meal figure, used for the "pounds of food saved" estimate
+ */
+export const ANALYTICS = {
+  POUNDS_PER_PORTION: 1.2,
+} as const;
+
+/**
+ * Recurring event settings
+ * - MAX_OCCURRENCES: Most occurrences one series can create, about a year of weekly events
+ */
+export const RECURRENCE = {
+  MAX_OCCURRENCES: 52,
+} as const;
+
+/**
+ * Walking directions settings
+ * - PROVIDER: Which routing provider draws routes, 'campus' (offline footpath graph, the
+ *   default) or 'mapbox' (Mapbox Directions, needs NEXT_PUBLIC_MAPBOX_TOKEN)
+ * - WALKING_SPEED_MPS: Average walking pace in meters per second, about 3 mph
+ * - DETOUR_FACTOR: How much longer than a straight line a walk is assumed to be off campus
+ * - MAX_SNAP_METERS: Furthest a point can be from the campus footpaths and still be routed along them
+ */
+export const ROUTING = {
+  PROVIDER: process.env.NEXT_PUBLIC_ROUTING_PROVIDER === 'mapbox' ? 'mapbox' : 'campus',
+  WALKING_SPEED_MPS: 1.4,
+  DETOUR_FACTOR: 1.3,
+  MAX_SNAP_METERS: 400,
+} as const;
+
+/**
+ * Where events, RSVPs, waitlists and profiles come from, 'supabase' (the default) or 'memory'
+ * (seeded demo data kept in the browser, for running without a network)
+ */
+export const DATA_SOURCE = process.env.NEXT_PUBLIC_DATA_SOURCE === 'memory' ? 'memory' : 'supabase';
+
 /**
  * API route definitions
  * Centralized location for all API endpoint paths
@@ -62,5 +150,7 @@ export const NOTIFICATION_TYPES = {
 export const API_ROUTES = {
   FOOD: '/api/food',
   NOTIFICATIONS: '/api/notifications',
+  USERS: '/api/users',
+  CALENDAR: '/api/calendar',
   AUTH: '/api/auth',
 } as const; 
\ No newline at end of file
@@ -2,135 +2,19 @@
  * Constants and types for event-related data
  */
 
-export interface Building {
-    id: string;
-    name: string;
-    coordinates: [number, number];
-    address: string;
-}
+/**
+ * Location id for events that aren't at a catalog building (a pin on the map or an address)
+ * Campus buildings themselves live in the campus_buildings table, see locationService
+ */
+export const CUSTOM_LOCATION_ID = 'custom';
 
-export const BUILDINGS: Building[] = [
-    {
-        id: 'gsu',
-        name: 'George Sherman Union (GSU)',
-        coordinates: [-71.10877, 42.35119],
-        address: '775 Commonwealth Avenue'
-    },
-    {
-        id: 'pho',
-        name: 'Photonics Center (PHO)',
-        coordinates: [-71.10600, 42.34922],
-        address: '8 St Mary\'s St'
-    },
-    {
-        id: 'qsb',
-        name: 'Questrom School of Business (QSB)',
-        coordinates: [-71.09957, 42.34969],
-        address: '595 Commonwealth Avenue'
-    },
-    {
-        id: 'kch',
-        name: 'Kilachand Hall Study Lounge (KCH)',
-        coordinates: [-71.09653, 42.35033],
-        address: '91 Bay State Road'
-    },
-    {
-        id: 'cas',
-        name: 'College of Arts & Sciences (CAS)',
-        coordinates: [-71.10480, 42.35023],
-        address: '725 Commonwealth Avenue'
-    },
-    {
-        id: 'yaw',
-        name: 'Yawkey Center for Student Services (YAW)',
-        coordinates: [-71.09787, 42.34979],
-        address: '100 Bay State Road'
-    },
-    {
-        id: 'ing',
-        name: 'Ingalls Engineering Resource Center (ING)',
-        coordinates: [-71.10288, 42.34862],
-        address: '44 Cummington Mall'
-    },
-    {
-        id: 'sv2',
-        name: 'StuVi II Study Lounge (SV2)',
-        coordinates: [-71.11781, 42.35339],
-        address: '33 Harry Agganis Way'
-    },
-    {
-        id: 'whl',
-        name: 'Wheelock College (WHL)',
-        coordinates: [-71.10088, 42.34973],
-        address: '2 Silber Way'
-    },
-    {
-        id: 'sel',
-        name: 'Science & Engineering Library (SEL)',
-        coordinates: [-71.10080, 42.34860],
-        address: '38 Cummington Mall'
-    },
-    {
-        id: 'htc',
-        name: 'Howard Thurman Center (HTC)',
-        coordinates: [-71.11140, 42.35000],
-        address: '808 Commonwealth Avenue'
-    },
-    {
-        id: 'hjo',
-        name: 'HoJo (HJO)',
-        coordinates: [-71.09853, 42.34955],
-        address: '575 Commonwealth Avenue'
-    },
-    {
-        id: 'cds',
-        name: 'Duan Family Center for Computing & Data Science (CDS)',
-        coordinates: [-71.10311, 42.34991],
-        address: '665 Commonwealth Avenue'
-    },
-    {
-        id: 'sto',
-        name: 'Stone Science Library (STO)',
-        coordinates: [-71.10362, 42.35013],
-        address: '725 Commonwealth Avenue, Room 440'
-    },
-    {
-        id: 'sth',
-        name: 'School of Theology Library (STH)',
-        coordinates: [-71.10706, 42.35051],
-        address: '745 Commonwealth Avenue, 2nd Floor'
-    },
-    {
-        id: 'cgs',
-        name: 'College of General Studies (CGS)',
-        coordinates: [-71.11464, 42.35150],
-        address: '871 Commonwealth Avenue'
-    },
-    {
-        id: 'bsm',
-        name: 'Buick Street Market & Cafe (BSM)',
-        coordinates: [-71.11559, 42.35211],
-        address: '10 Buick Street'
-    },
-    {
-        id: 'sar',
-        name: 'Sargent College (SAR)',
-        coordinates: [-71.10194, 42.34977],
-        address: '635 Commonwealth Avenue'
-    },
-    {
-        id: 'wcs',
-        name: 'West Campus Study Spaces (WCS)',
-        coordinates: [-71.1203468, 42.3531346],
-        address: '275 Babcock Street'
-    },
-    {
-        id: 'fcc',
-        name: 'Fenway Campus Center (FCC)',
-        coordinates: [-71.10517, 42.34299],
-        address: '150 Riverway'
-    }
-];
+/**
+ * Longest room and "where exactly" text an event can have (same limits as the events table)
+ */
+export const LOCATION_LIMITS = {
+    ROOM: 100,
+    INSTRUCTIONS: 500,
+} as const;
 
 export interface DietaryTag {
     id: string;
@@ -228,4 +112,101 @@ export const DIETARY_TAGS: DietaryTag[] = [
     { id: 'alcohol_free', name: 'Alcohol-Free', category: 'general' },
     { id: 'caffeine_free', name: 'Caffeine-Free', category: 'general' },
     { id: 'contains_caffeine', name: 'Contains Caffeine', category: 'general' }
-]; 
\ No newline at end of file
+];
+
+/**
+ * Tags that can't both apply to one food item. Checked after implications are applied,
+ * so a vegan item tagged "Contains Dairy" is caught through Vegan => Dairy-Free.
+ */
+export const DIETARY_TAG_EXCLUSIONS: Array<[string, string]> = [
+    ['nut_free', 'contains_nuts'],
+    ['peanut_free', 'contains_peanuts'],
+    ['tree_nut_free', 'contains_tree_nuts'],
+    ['gluten_free', 'contains_gluten'],
+    ['dairy_free', 'contains_dairy'],
+    ['egg_free', 'contains_eggs'],
+    ['soy_free', 'contains_soy'],
+    ['fish_free', 'contains_fish'],
+    ['shellfish_free', 'contains_shellfish'],
+    ['sesame_free', 'contains_sesame'],
+    ['wheat_free', 'contains_wheat'],
+    ['mustard_free', 'contains_mustard'],
+    ['sulfite_free', 'contains_sulfites'],
+    ['corn_free', 'contains_corn'],
+    ['coconut_free', 'contains_coconut'],
+    ['lactose_free', 'contains_lactose'],
+    ['alcohol_free', 'contains_alcohol'],
+    ['caffeine_free', 'contains_caffeine'],
+    ['halal', 'non_halal'],
+    ['halal', 'contains_alcohol'],
+    ['kosher', 'non_kosher'],
+    ['kosher', 'contains_shellfish'],
+    ['spicy', 'mild']
+];
+
+/**
+ * Tags that follow from another tag, e.g. anything vegan is also dairy-free and egg-free.
+ * Implications chain, so Vegan => Vegetarian => Fish-Free.
+ */
+export const DIETARY_TAG_IMPLICATIONS: Record<string, string[]> = {
+    vegan: ['vegetarian', 'dairy_free', 'egg_free'],
+    plant_based: ['vegan'],
+    vegetarian: ['fish_free', 'shellfish_free'],
+    nut_free: ['peanut_free', 'tree_nut_free'],
+    gluten_free: ['wheat_free'],
+    dairy_free: ['lactose_free'],
+    contains_wheat: ['contains_gluten'],
+    contains_lactose: ['contains_dairy']
+};
+
+/**
+ * A restriction someone can add to their dietary profile
+ * @property avoidTags - Tags that contradict the restriction, an offering with any of them is flagged
+ * @property labelTags - Tags that confirm the restriction is met, an offering with none of them
+ *   gets a softer "not labeled" warning
+ */
+export interface DietaryRestriction {
+    id: string;
+    name: string;
+    category: DietaryRestrictionCategory;
+    avoidTags: string[];
+    labelTags?: string[];
+}
+
+export type DietaryRestrictionCategory =
+    | 'allergies'
+    | 'diets'
+    | 'religious'
+    | 'other';
+
+export const DIETARY_RESTRICTIONS: DietaryRestriction[] = [
+    // Allergies
+    { id: 'peanut_allergy', name: 'Peanut allergy', category: 'allergies', avoidTags: ['contains_peanuts', 'contains_nuts'] },
+    { id: 'tree_nut_allergy', name: 'Tree nut allergy', category: 'allergies', avoidTags: ['contains_tree_nuts', 'contains_nuts'] },
+    { id: 'gluten_intolerance', name: 'Gluten intolerance / celiac', category: 'allergies', avoidTags: ['contains_gluten', 'contains_wheat'] },
+    { id: 'wheat_allergy', name: 'Wheat allergy', category: 'allergies', avoidTags: ['contains_wheat'] },
+    { id: 'dairy_allergy', name: 'Dairy allergy', category: 'allergies', avoidTags: ['contains_dairy', 'contains_lactose'] },
+    { id: 'lactose_intolerance', name: 'Lactose intolerance', category: 'allergies', avoidTags: ['contains_lactose', 'contains_dairy'] },
+    { id: 'egg_allergy', name: 'Egg allergy', category: 'allergies', avoidTags: ['contains_eggs'] },
+    { id: 'soy_allergy', name: 'Soy allergy', category: 'allergies', avoidTags: ['contains_soy'] },
+    { id: 'fish_allergy', name: 'Fish allergy', category: 'allergies', avoidTags: ['contains_fish'] },
+    { id: 'shellfish_allergy', name: 'Shellfish allergy', category: 'allergies', avoidTags: ['contains_shellfish'] },
+    { id: 'sesame_allergy', name: 'Sesame allergy', category: 'allergies', avoidTags: ['contains_sesame'] },
+    { id: 'mustard_allergy', name: 'Mustard allergy', category: 'allergies', avoidTags: ['contains_mustard'] },
+    { id: 'sulfite_sensitivity', name: 'Sulfite sensitivity', category: 'allergies', avoidTags: ['contains_sulfites'] },
+    { id: 'corn_allergy', name: 'Corn allergy', category: 'allergies', avoidTags: ['contains_corn'] },
+    { id: 'coconut_allergy', name: 'Coconut allergy', category: 'allergies', avoidTags: ['contains_coconut'] },
+
+    // Diets
+    { id: 'vegetarian', name: 'Vegetarian', category: 'diets', avoidTags: ['contains_fish', 'contains_shellfish'], labelTags: ['vegetarian', 'vegan', 'plant_based'] },
+    { id: 'vegan', name: 'Vegan', category: 'diets', avoidTags: ['contains_dairy', 'contains_eggs', 'contains_lactose', 'contains_fish', 'contains_shellfish'], labelTags: ['vegan', 'plant_based'] },
+    { id: 'pescatarian', name: 'Pescatarian', category: 'diets', avoidTags: [], labelTags: ['pescatarian', 'vegetarian', 'vegan', 'plant_based'] },
+
+    // Religious
+    { id: 'halal', name: 'Halal', category: 'religious', avoidTags: ['non_halal', 'contains_alcohol'], labelTags: ['halal'] },
+    { id: 'kosher', name: 'Kosher', category: 'religious', avoidTags: ['non_kosher', 'contains_shellfish'], labelTags: ['kosher'] },
+
+    // Other
+    { id: 'no_alcohol', name: 'No alcohol', category: 'other', avoidTags: ['contains_alcohol'] },
+    { id: 'no_caffeine', name: 'No caffeine', category: 'other', avoidTags: ['contains_caffeine'] }
+];
@@ -0,0 +1,81 @@
+/**
+ * Campus footpath graph for the offline walking router
+ * Intersections along Commonwealth Avenue, Bay State Road and Cummington Mall and the cross
+ * streets joining them. Routes start and end at the node nearest to each point, so buildings
+ * don't need nodes of their own.
+ * Format: [longitude, latitude]
+ */
+
+export interface FootpathNode {
+    id: string;
+    coordinates: [number, number];
+}
+
+export const FOOTPATH_NODES: FootpathNode[] = [
+    // Commonwealth Avenue, east to west
+    { id: 'comm-kenmore', coordinates: [-71.09560, 42.34895] },
+    { id: 'comm-hjo', coordinates: [-71.09850, 42.34935] },
+    { id: 'comm-silber', coordinates: [-71.10080, 42.34950] },
+    { id: 'comm-cds', coordinates: [-71.10300, 42.34970] },
+    { id: 'comm-cas', coordinates: [-71.10480, 42.34990] },
+    { id: 'comm-stmarys', coordinates: [-71.10620, 42.35005] },
+    { id: 'comm-sth', coordinates: [-71.10700, 42.35020] },
+    { id: 'comm-gsu', coordinates: [-71.10880, 42.35050] },
+    { id: 'comm-bu-bridge', coordinates: [-71.11150, 42.35085] },
+    { id: 'comm-cgs', coordinates: [-71.11460, 42.35125] },
+    { id: 'comm-buick', coordinates: [-71.11560, 42.35150] },
+    { id: 'comm-agganis', coordinates: [-71.11760, 42.35190] },
+
+    // Bay State Road, east to west
+    { id: 'bsr-kenmore', coordinates: [-71.09600, 42.34990] },
+    { id: 'bsr-kilachand', coordinates: [-71.09650, 42.35020] },
+    { id: 'bsr-yawkey', coordinates: [-71.09790, 42.35000] },
+    { id: 'bsr-silber', coordinates: [-71.10070, 42.35030] },
+    { id: 'bsr-granby', coordinates: [-71.10440, 42.35060] },
+
+    // Cummington Mall, east to west
+    { id: 'cum-silber', coordinates: [-71.10080, 42.34860] },
+    { id: 'cum-ing', coordinates: [-71.10290, 42.34870] },
+    { id: 'cum-stmarys', coordinates: [-71.10600, 42.34900] },
+
+    // West campus
+    { id: 'buick-st', coordinates: [-71.11560, 42.35210] },
+    { id: 'agganis-stuvi', coordinates: [-71.11780, 42.35330] },
+];
+
+/**
+ * Walkable segments between nodes, both ways
+ */
+export const FOOTPATH_EDGES: [string, string][] = [
+    // Commonwealth Avenue
+    ['comm-kenmore', 'comm-hjo'],
+    ['comm-hjo', 'comm-silber'],
+    ['comm-silber', 'comm-cds'],
+    ['comm-cds', 'comm-cas'],
+    ['comm-cas', 'comm-stmarys'],
+    ['comm-stmarys', 'comm-sth'],
+    ['comm-sth', 'comm-gsu'],
+    ['comm-gsu', 'comm-bu-bridge'],
+    ['comm-bu-bridge', 'comm-cgs'],
+    ['comm-cgs', 'comm-buick'],
+    ['comm-buick', 'comm-agganis'],
+
+    // Bay State Road
+    ['bsr-kenmore', 'bsr-kilachand'],
+    ['bsr-kilachand', 'bsr-yawkey'],
+    ['bsr-yawkey', 'bsr-silber'],
+    ['bsr-silber', 'bsr-granby'],
+
+    // Cummington Mall
+    ['cum-silber', 'cum-ing'],
+    ['cum-ing', 'cum-stmarys'],
+
+    // Cross streets
+    ['comm-kenmore', 'bsr-kenmore'],
+    ['comm-silber', 'bsr-silber'],
+    ['comm-silber', 'cum-silber'],
+    ['comm-cas', 'bsr-granby'],
+    ['comm-stmarys', 'cum-stmarys'],
+    ['comm-buick', 'buick-st'],
+    ['comm-agganis', 'agganis-stuvi'],
+];
@@ -25,26 +25,135 @@ export const DEFAULT_BEARING = -17.6;
 export const MAP_STYLE = 'mapbox://styles/mapbox/standard';
 
 /**
- * Possible status values for events on the map
+ * Lifecycle states an event moves through
+ * draft -> scheduled -> starting_soon -> live -> running_low -> ended, with cancelled reachable
+ * from any state before ended. Allowed transitions live in lib/eventLifecycle.ts
  */
 export const EVENT_STATUS = {
-  AVAILABLE: 'available',
+  DRAFT: 'draft',
+  SCHEDULED: 'scheduled',
   STARTING_SOON: 'starting_soon',
+  LIVE: 'live',
+  RUNNING_LOW: 'running_low',
+  ENDED: 'ended',
+  CANCELLED: 'cancelled',
+} as const;
+
+/**
+ * Shown in place of live or running low once every counted portion is handed out.
+ * It's never stored, the event stays running low so counting portions back in brings it back
+ */
+export const FOOD_GONE = 'food_gone';
+
+/**
+ * Human readable labels for each event status, and for food gone
+ */
+export const EVENT_STATUS_LABELS = {
+  [EVENT_STATUS.DRAFT]: 'Draft',
+  [EVENT_STATUS.SCHEDULED]: 'Scheduled',
+  [EVENT_STATUS.STARTING_SOON]: 'Starting Soon',
+  [EVENT_STATUS.LIVE]: 'Available Now',
+  [EVENT_STATUS.RUNNING_LOW]: 'Running Low',
+  [FOOD_GONE]: 'Food Gone',
+  [EVENT_STATUS.ENDED]: 'Ended',
+  [EVENT_STATUS.CANCELLED]: 'Cancelled',
 } as const;
 
 /**
  * Color schemes for different event statuses
- * Each status has associated background, text, and shadow colors
+ * Each status has associated background, text, and shadow colors for map markers,
+ * a badge style used in event lists and modals, and the hex value the map's circle layers paint with
  */
 export const EVENT_STATUS_COLORS = {
-  [EVENT_STATUS.AVAILABLE]: {
-    bg: 'bg-green-500',
-    text: 'text-green-800',
-    shadow: 'shadow-[0_0_12px_rgba(34,197,94,0.6)]'
+  [EVENT_STATUS.DRAFT]: {
+    bg: 'bg-zinc-400',
+    text: 'text-zinc-800',
+    shadow: 'shadow-[0_0_12px_rgba(161,161,170,0.6)]',
+    badge: 'bg-zinc-500/20 text-zinc-300',
+    hex: '#a1a1aa'
+  },
+  [EVENT_STATUS.SCHEDULED]: {
+    bg: 'bg-sky-500',
+    text: 'text-sky-800',
+    shadow: 'shadow-[0_0_12px_rgba(14,165,233,0.6)]',
+    badge: 'bg-sky-500/20 text-sky-300',
+    hex: '#0ea5e9'
   },
   [EVENT_STATUS.STARTING_SOON]: {
     bg: 'bg-amber-500',
     text: 'text-amber-800',
-    shadow: 'shadow-[0_0_12px_rgba(245,158,11,0.6)]'
+    shadow: 'shadow-[0_0_12px_rgba(245,158,11,0.6)]',
+    badge: 'bg-amber-500/20 text-amber-300',
+    hex: '#f59e0b'
+  },
+  [EVENT_STATUS.LIVE]: {
+    bg: 'bg-green-500',
+    text: 'text-green-800',
+    shadow: 'shadow-[0_0_12px_rgba(34,197,94,0.6)]',
+    badge: 'bg-green-500/20 text-green-300',
+    hex: '#22c55e'
+  },
+  [EVENT_STATUS.RUNNING_LOW]: {
+    bg: 'bg-orange-500',
+    text: 'text-orange-800',
+    shadow: 'shadow-[0_0_12px_rgba(249,115,22,0.6)]',
+    badge: 'bg-orange-500/20 text-orange-300',
+    hex: '#f97316'
+  },
+  [FOOD_GONE]: {
+    bg: 'bg-stone-500',
+    text: 'text-stone-200',
+    shadow: 'shadow-[0_0_12px_rgba(120,113,108,0.6)]',
+    badge: 'bg-stone-500/30 text-stone-300',
+    hex: '#78716c'
   },
-} as const; 
\ No newline at end of file
+  [EVENT_STATUS.ENDED]: {
+    bg: 'bg-zinc-600',
+    text: 'text-zinc-300',
+    shadow: 'shadow-[0_0_12px_rgba(82,82,91,0.6)]',
+    badge: 'bg-zinc-600/40 text-zinc-400',
+    hex: '#52525b'
+  },
+  [EVENT_STATUS.CANCELLED]: {
+    bg: 'bg-red-500',
+    text: 'text-red-800',
+    shadow: 'shadow-[0_0_12px_rgba(239,68,68,0.6)]',
+    badge: 'bg-red-500/20 text-red-300',
+    hex: '#ef4444'
+  },
+} as const;
+
+/**
+ * Marker clustering on the map
+ * - RADIUS: How close markers (in pixels) have to be to merge into a cluster
+ * - MAX_ZOOM: Zoom level from which markers are never clustered
+ * - COLOR: Fill color of cluster circles
+ */
+export const MAP_CLUSTER = {
+  RADIUS: 40,
+  MAX_ZOOM: 17,
+  COLOR: '#16a34a',
+} as const;
+
+/**
+ * Loading events for the area on screen
+ * - PADDING: How much of the visible width and height to load beyond each edge, so small pans
+ *   don't refetch
+ * - MAX_EVENTS: Most events loaded for one area
+ * - DEBOUNCE_MS: Quiet time after the map stops moving before the area is loaded
+ */
+export const MAP_VIEWPORT = {
+  PADDING: 0.5,
+  MAX_EVENTS: 500,
+  DEBOUNCE_MS: 300,
+} as const;
+
+/**
+ * The "Near me" list, which the database picks by distance from the user
+ * - RADIUS_METERS: How far away events can be, about a 10 minute walk
+ * - MAX_EVENTS: Most events listed
+ */
+export const NEARBY_EVENTS = {
+  RADIUS_METERS: 800,
+  MAX_EVENTS: 100,
+} as const;
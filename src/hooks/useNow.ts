@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Custom hook that returns the current time and refreshes it on an interval
+ * Used to re-derive time based state (like event status) without a page reload
+ * @param intervalMs - How often to tick, in milliseconds
+ * @returns The current Date, updated every intervalMs
+ */
+export function useNow(intervalMs: number) {
+    const [now, setNow] = useState<Date>(() => new Date());
+
+    useEffect(() => {
+        const ticker = setInterval(() => setNow(new Date()), intervalMs);
+
+        // Cleanup
+        return () => {
+            clearInterval(ticker);
+        };
+    }, [intervalMs]);
+
+    return now;
+}
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+
+import { describeAuditEntry, toAdminUser, toSearchFilter } from './adminService';
+import { AuditLogEntry } from '@/types';
+
+jest.mock('./supabaseClient', () => ({ __esModule: true, default: {} }));
+
+const entry = (overrides: Partial<AuditLogEntry>): AuditLogEntry => ({
+    id: 'log-1',
+    actorName: 'Admin',
+    action: 'user.role_changed',
+    targetType: 'user',
+    targetId: 'user-1',
+    targetLabel: 'Jordan Lee',
+    details: {},
+    createdAt: new Date('2026-10-18T12:00:00Z'),
+    ...overrides,
+});
+
+describe('toSearchFilter', () => {
+    it('matches the term in every column', () => {
+        expect(toSearchFilter(' jordan ', ['full_name', 'email']))
+            .toBe('full_name.ilike."%jordan%",email.ilike."%jordan%"');
+    });
+
+    it('keeps emails intact and drops characters that would break the filter', () => {
+        expect(toSearchFilter('j.lee@bu.edu', ['email'])).toBe('email.ilike."%j.lee@bu.edu%"');
+        expect(toSearchFilter('a"b%c*', ['email'])).toBe('email.ilike."%abc%"');
+    });
+
+    it('returns nothing for an empty search', () => {
+        expect(toSearchFilter('  %  ', ['email'])).toBeUndefined();
+    });
+});
+
+describe('toAdminUser', () => {
+    it('maps only the console columns and treats unknown roles as students', () => {
+        expect(toAdminUser({
+            id: 'user-1',
+            full_name: 'Jordan Lee',
+            email: 'jlee@bu.edu',
+            role: 'donor',
+            requested_role: 'faculty',
+            suspended_at: '2026-10-18T12:00:00Z',
+            suspension_reason: 'Spam',
+        })).toEqual({
+            id: 'user-1',
+            name: 'Jordan Lee',
+            email: 'jlee@bu.edu',
+            role: 'student',
+            requestedRole: 'faculty',
+            suspendedAt: new Date('2026-10-18T12:00:00Z'),
+            suspensionReason: 'Spam',
+        });
+    });
+});
+
+describe('describeAuditEntry', () => {
+    it.each([
+        [{ action: 'user.role_changed', details: { from: 'student', to: 'faculty' } }, "Changed Jordan Lee's role from student to faculty"],
+        [{ action: 'user.suspended', details: { reason: 'Spam' } }, 'Suspended Jordan Lee: Spam'],
+        [{ action: 'event.edited', targetLabel: 'Pizza', details: { fields: ['location', 'title'] } }, 'Edited "Pizza" (location, title)'],
+        [{ action: 'event.cancelled', targetLabel: 'Pizza', details: { reason: 'Not real' } }, 'Cancelled "Pizza": Not real'],
+        [{ action: 'report.dismissed', targetLabel: 'Pizza' }, 'Dismissed a report on "Pizza"'],
+    ] as Array<[Partial<AuditLogEntry>, string]>)('describes %o', (overrides, expected) => {
+        expect(describeAuditEntry(entry(overrides))).toBe(expected);
+    });
+
+    it('still reads when the target is gone', () => {
+        expect(describeAuditEntry(entry({ action: 'event.deleted', targetLabel: null }))).toBe('Deleted "a deleted record"');
+    });
+});
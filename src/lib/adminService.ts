@@ -0,0 +1,326 @@
+import supabase, { DbClient } from "./supabaseClient";
+import { AuditLogEntry, EventReport, User } from "@/types";
+import { EventStatus } from "@/types/event";
+import { deriveEventStatus } from "./eventLifecycle";
+import { toUserRole } from "./permissions";
+
+//Data for the /admin console. Permissions are enforced by the database (see the admin console
+//migration), which also writes the audit log, so these only read and call its functions.
+
+export interface AdminUserRow {
+    id: string;
+    full_name: string;
+    email: string;
+    role: string;
+    requested_role: string | null;
+    suspended_at: string | null;
+    suspension_reason: string | null;
+}
+
+//Only what the console shows, so the users list doesn't hand out whole profile rows
+const ADMIN_USER_COLUMNS = "id, full_name, email, role, requested_role, suspended_at, suspension_reason";
+
+export function toAdminUser(row: AdminUserRow): User {
+    return {
+        id: row.id,
+        name: row.full_name,
+        email: row.email,
+        role: toUserRole(row.role),
+        requestedRole: row.requested_role ? toUserRole(row.requested_role) : null,
+        suspendedAt: row.suspended_at ? new Date(row.suspended_at) : null,
+        suspensionReason: row.suspension_reason,
+    };
+}
+
+//A PostgREST or() filter matching the search anywhere in any of the columns.
+//Values are quoted so commas and dots (emails) don't break the filter, quotes and wildcards are dropped.
+export function toSearchFilter(search: string, columns: string[]): string | undefined {
+    const term = search.replace(/["\\%*]/g, "").trim();
+    if (!term) {
+        return undefined;
+    }
+    return columns.map(column => `${column}.ilike."%${term}%"`).join(",");
+}
+
+export type AdminUserStatus = "active" | "suspended" | "pending";
+
+export interface AdminUserFilters {
+    page?: number;
+    pageSize?: number;
+    search?: string;
+    role?: string;
+    status?: AdminUserStatus;
+}
+
+//One page of users for the console, by name, with optional search, role and status filters.
+//"pending" means waiting on an admin to approve a faculty request.
+export async function fetchUsers(
+    { page = 1, pageSize = 20, search = "", role, status }: AdminUserFilters = {},
+    client: DbClient = supabase
+) {
+    const from = (page - 1) * pageSize;
+    let query = client
+        .from("profiles")
+        .select(ADMIN_USER_COLUMNS, { count: "exact" })
+        .order("full_name", { ascending: true })
+        .range(from, from + pageSize - 1);
+
+    const searchFilter = toSearchFilter(search, ["full_name", "email"]);
+    if (searchFilter) {
+        query = query.or(searchFilter);
+    }
+    if (role) {
+        query = query.eq("role", role);
+    }
+    if (status === "active") {
+        query = query.is("suspended_at", null);
+    } else if (status === "suspended") {
+        query = query.not("suspended_at", "is", null);
+    } else if (status === "pending") {
+        query = query.not("requested_role", "is", null);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+        console.error("Unable to fetch users:", error);
+        throw new Error("Failed to load users");
+    }
+
+    return {
+        users: (data as AdminUserRow[] || []).map(toAdminUser),
+        total: count || 0,
+    };
+}
+
+//Result codes returned by the set_user_suspended database function
+type SuspendResult = "ok" | "not_found" | "forbidden" | "reason_required" | "self";
+
+const SUSPEND_ERRORS: Record<Exclude<SuspendResult, "ok">, string> = {
+    not_found: "User not found",
+    forbidden: "Only admins can suspend accounts",
+    reason_required: "A suspension reason is required",
+    self: "You cannot suspend your own account",
+};
+
+//Suspends an account (a reason is required) or reinstates it
+export async function setUserSuspended(profileId: string, suspended: boolean, reason: string = "", client: DbClient = supabase) {
+    const { data: result, error } = await client
+        .rpc("set_user_suspended", { p_profile_id: profileId, p_suspended: suspended, p_reason: reason });
+
+    if (error) {
+        console.error("Unable to change suspension:", error);
+        throw new Error(suspended ? "Failed to suspend account" : "Failed to reinstate account");
+    }
+
+    if (result !== "ok") {
+        throw new Error(SUSPEND_ERRORS[result as Exclude<SuspendResult, "ok">] || "Failed to change suspension");
+    }
+}
+
+export interface AdminEvent {
+    id: string;
+    title: string;
+    location: string;
+    startTime: Date;
+    status: EventStatus;
+    isPublic: boolean;
+    organizerId: string;
+    organizerName: string;
+}
+
+//Every event, public or not and in any status, newest first
+export async function fetchAdminEvents(
+    { page = 1, pageSize = 20, search = "" }: { page?: number; pageSize?: number; search?: string } = {},
+    client: DbClient = supabase
+) {
+    const from = (page - 1) * pageSize;
+    let query = client
+        .from("events")
+        .select(`
+            id, title, location, start_time, end_time, status, is_public, organizer_id,
+            profiles:organizer_id (full_name)
+        `, { count: "exact" })
+        .order("start_time", { ascending: false })
+        .range(from, from + pageSize - 1);
+
+    const searchFilter = toSearchFilter(search, ["title", "location"]);
+    if (searchFilter) {
+        query = query.or(searchFilter);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+        console.error("Unable to fetch events for admin:", error);
+        throw new Error("Failed to load events");
+    }
+
+    const events: AdminEvent[] = (data || []).map((row) => ({
+        id: row.id,
+        title: row.title,
+        location: row.location,
+        startTime: new Date(row.start_time),
+        status: deriveEventStatus(row.status as EventStatus, new Date(row.start_time), new Date(row.end_time)),
+        isPublic: row.is_public,
+        organizerId: row.organizer_id,
+        organizerName: row.profiles?.full_name ?? "Unknown",
+    }));
+
+    return { events, total: count || 0 };
+}
+
+//Flags an event for moderators, one open report per person per event
+export async function reportEvent(eventId: string, reporterId: string, reason: string, client: DbClient = supabase) {
+    if (!reason.trim()) {
+        throw new Error("A reason is required");
+    }
+
+    const { error } = await client
+        .from("event_reports")
+        .insert({ event_id: eventId, reporter_id: reporterId, reason: reason.trim() });
+
+    if (error?.code === "23505") {
+        throw new Error("You already reported this event");
+    }
+    if (error) {
+        console.error("Unable to report event:", error);
+        throw new Error("Failed to report event");
+    }
+}
+
+//One page of reports, oldest first so nothing waits forever
+export async function fetchReports(
+    { page = 1, pageSize = 20, status = "open" }: { page?: number; pageSize?: number; status?: EventReport["status"] } = {},
+    client: DbClient = supabase
+) {
+    const from = (page - 1) * pageSize;
+    const { data, error, count } = await client
+        .from("event_reports")
+        .select(`
+            id, event_id, reason, status, created_at,
+            events:event_id (title),
+            profiles!reporter_id (full_name)
+        `, { count: "exact" })
+        .eq("status", status)
+        .order("created_at", { ascending: true })
+        .range(from, from + pageSize - 1);
+
+    if (error) {
+        console.error("Unable to fetch reports:", error);
+        throw new Error("Failed to load reports");
+    }
+
+    const reports: EventReport[] = (data || []).map((row) => ({
+        id: row.id,
+        eventId: row.event_id,
+        eventTitle: row.events?.title ?? "Deleted event",
+        reporterName: row.profiles?.full_name ?? "Unknown",
+        reason: row.reason,
+        status: row.status as EventReport["status"],
+        createdAt: new Date(row.created_at),
+    }));
+
+    return { reports, total: count || 0 };
+}
+
+//Result codes returned by the resolve_event_report database function
+type ResolveResult = "ok" | "not_found" | "forbidden" | "invalid_status" | "already_closed";
+
+const RESOLVE_ERRORS: Record<Exclude<ResolveResult, "ok">, string> = {
+    not_found: "Report not found",
+    forbidden: "Only moderators can review reports",
+    invalid_status: "Status must be dismissed or resolved",
+    already_closed: "This report was already closed",
+};
+
+//Closes a report, dismissed when nothing was wrong and resolved when the moderator acted on it
+export async function resolveReport(reportId: string, status: "dismissed" | "resolved", client: DbClient = supabase) {
+    const { data: result, error } = await client
+        .rpc("resolve_event_report", { p_report_id: reportId, p_status: status });
+
+    if (error) {
+        console.error("Unable to resolve report:", error);
+        throw new Error("Failed to update report");
+    }
+
+    if (result !== "ok") {
+        throw new Error(RESOLVE_ERRORS[result as Exclude<ResolveResult, "ok">] || "Failed to update report");
+    }
+}
+
+export interface AuditLogRow {
+    id: string;
+    action: AuditLogEntry["action"];
+    target_type: AuditLogEntry["targetType"];
+    target_id: string;
+    target_label: string | null;
+    details: Record<string, unknown> | null;
+    created_at: string;
+    profiles: { full_name: string } | null;
+}
+
+export function toAuditLogEntry(row: AuditLogRow): AuditLogEntry {
+    return {
+        id: row.id,
+        actorName: row.profiles?.full_name ?? null,
+        action: row.action,
+        targetType: row.target_type,
+        targetId: row.target_id,
+        targetLabel: row.target_label,
+        details: row.details ?? {},
+        createdAt: new Date(row.created_at),
+    };
+}
+
+//One page of the audit log, newest first
+export async function fetchAuditLog(
+    { page = 1, pageSize = 20 }: { page?: number; pageSize?: number } = {},
+    client: DbClient = supabase
+) {
+    const from = (page - 1) * pageSize;
+    const { data, error, count } = await client
+        .from("admin_audit_log")
+        .select("*, profiles:actor_id (full_name)", { count: "exact" })
+        .order("created_at", { ascending: false })
+        .range(from, from + pageSize - 1);
+
+    if (error) {
+        console.error("Unable to fetch audit log:", error);
+        throw new Error("Failed to load the audit log");
+    }
+
+    return {
+        entries: (data as AuditLogRow[] || []).map(toAuditLogEntry),
+        total: count || 0,
+    };
+}
+
+//One line describing what happened, the console shows who did it next to it
+export function describeAuditEntry(entry: AuditLogEntry): string {
+    const target = entry.targetLabel ?? "a deleted record";
+    const { details } = entry;
+
+    switch (entry.action) {
+        case "user.role_changed":
+            return `Changed ${target}'s role from ${details.from} to ${details.to}`;
+        case "user.suspended":
+            return `Suspended ${target}: ${details.reason}`;
+        case "user.unsuspended":
+            return `Reinstated ${target}`;
+        case "event.edited":
+            return Array.isArray(details.fields) && details.fields.length > 0
+                ? `Edited "${target}" (${details.fields.join(", ")})`
+                : `Edited "${target}"`;
+        case "event.cancelled":
+            return `Cancelled "${target}": ${details.reason}`;
+        case "event.deleted":
+            return `Deleted "${target}"`;
+        case "report.dismissed":
+            return `Dismissed a report on "${target}"`;
+        case "report.resolved":
+            return `Resolved a report on "${target}"`;
+        default:
+            return entry.action;
+    }
+}
@@ -0,0 +1,153 @@
+/**
+ * @jest-environment node
+ */
+
+import { AnalyticsEventRow, buildImpactReport, getSemesterRange, toCsv, toEventImpact } from './analytics';
+
+jest.mock('./supabaseClient', () => ({ __esModule: true, default: {} }));
+
+const gsu = 'George Sherman Union (GSU)';
+
+// Local times, so hours and weekdays don't depend on the machine's time zone
+const at = (day: number, hour: number, minute: number = 0) => new Date(2026, 9, day, hour, minute).toISOString();
+
+const row = (overrides: Partial<AnalyticsEventRow>): AnalyticsEventRow => ({
+    id: 'event-1',
+    title: 'Pizza',
+    location: gsu,
+    campus_buildings: { name: gsu },
+    start_time: at(19, 12),
+    end_time: at(19, 13),
+    status: 'ended',
+    event_attendees: [],
+    food_items: [],
+    ...overrides,
+});
+
+describe('toEventImpact', () => {
+    it('counts claimed portions and how long the food lasted', () => {
+        const impact = toEventImpact(row({
+            event_attendees: [
+                { rsvp_time: at(18, 9), checked_in_at: at(19, 12, 5) },
+                { rsvp_time: at(18, 10), checked_in_at: null },
+            ],
+            food_items: [
+                { quantity: 0, initial_quantity: 10, updated_at: at(19, 12, 30) },
+                { quantity: 0, initial_quantity: 5, updated_at: at(19, 12, 45) },
+            ],
+        }));
+
+        expect(impact).toMatchObject({
+            building: gsu,
+            rsvps: 2,
+            checkIns: 1,
+            portionsPosted: 15,
+            portionsClaimed: 15,
+            minutesToEmpty: 45,
+            poundsSaved: 18,
+        });
+    });
+
+    it('falls back to check-ins when portions were not counted', () => {
+        const impact = toEventImpact(row({
+            location: 'Somewhere off campus',
+            campus_buildings: null,
+            event_attendees: [{ rsvp_time: null, checked_in_at: at(19, 12) }],
+            food_items: [{ quantity: null, initial_quantity: null, updated_at: at(19, 12) }],
+        }));
+
+        expect(impact).toMatchObject({
+            building: 'Other',
+            portionsPosted: null,
+            portionsClaimed: null,
+            minutesToEmpty: null,
+            poundsSaved: 1.2,
+        });
+    });
+
+    it('has no time to empty while food is left', () => {
+        const impact = toEventImpact(row({
+            food_items: [{ quantity: 3, initial_quantity: 10, updated_at: at(19, 12, 30) }],
+        }));
+        expect(impact.portionsClaimed).toBe(7);
+        expect(impact.minutesToEmpty).toBeNull();
+    });
+});
+
+describe('buildImpactReport', () => {
+    it('adds events up by building, hour and weekday', () => {
+        const report = buildImpactReport([
+            row({
+                id: 'a',
+                food_items: [{ quantity: 0, initial_quantity: 10, updated_at: at(19, 12, 20) }],
+                event_attendees: [
+                    { rsvp_time: null, checked_in_at: at(19, 12, 5) },
+                    { rsvp_time: null, checked_in_at: at(19, 12, 50) },
+                ],
+            }),
+            row({
+                id: 'b',
+                start_time: at(21, 17),
+                food_items: [{ quantity: 0, initial_quantity: 4, updated_at: at(21, 18) }],
+                event_attendees: [{ rsvp_time: null, checked_in_at: null }],
+            }),
+        ]);
+
+        expect(report.totals).toMatchObject({
+            events: 2,
+            rsvps: 3,
+            checkIns: 2,
+            portionsPosted: 14,
+            portionsClaimed: 14,
+            poundsSaved: 16.8,
+            medianMinutesToEmpty: 40,
+        });
+        expect(report.totals.checkInRate).toBeCloseTo(2 / 3);
+        expect(report.byBuilding).toEqual([expect.objectContaining({ building: gsu, events: 2 })]);
+        expect(report.checkInsByHour[12]).toBe(2);
+        expect(report.byWeekday[1]).toEqual({ events: 1, checkIns: 2 }); // Monday the 19th
+        expect(report.byWeekday[3]).toEqual({ events: 1, checkIns: 0 }); // Wednesday the 21st
+    });
+
+    it('lists buildings by name with custom locations last', () => {
+        const report = buildImpactReport([
+            row({ id: 'a', location: 'BU Beach', campus_buildings: null }),
+            row({ id: 'b' }),
+            row({ id: 'c', location: 'CDS', campus_buildings: { name: 'Duan Family Center for Computing & Data Science (CDS)' } }),
+        ]);
+
+        expect(report.byBuilding.map(building => building.building)).toEqual([
+            'Duan Family Center for Computing & Data Science (CDS)',
+            gsu,
+            'Other',
+        ]);
+    });
+
+    it('handles a range with no events', () => {
+        const report = buildImpactReport([]);
+        expect(report.totals.checkInRate).toBeNull();
+        expect(report.totals.medianMinutesToEmpty).toBeNull();
+        expect(report.byBuilding).toEqual([]);
+    });
+});
+
+describe('getSemesterRange', () => {
+    it('finds the semester a date falls in', () => {
+        const fall = getSemesterRange(new Date(2026, 9, 19));
+        expect(fall.label).toBe('Fall 2026');
+        expect(fall.start).toEqual(new Date(2026, 8, 1));
+        expect(fall.end).toEqual(new Date(2027, 0, 1));
+    });
+
+    it('steps back across years', () => {
+        expect(getSemesterRange(new Date(2026, 1, 10), -1).label).toBe('Fall 2025');
+        expect(getSemesterRange(new Date(2026, 9, 19), -1).label).toBe('Summer 2026');
+    });
+});
+
+describe('toCsv', () => {
+    it('quotes fields with commas, quotes or line breaks', () => {
+        expect(toCsv(['Event', 'RSVPs'], [['Pizza, "free"', 3], ['Tacos', null]]))
+            .toBe('Event,RSVPs\r\n"Pizza, ""free""",3\r\nTacos,');
+    });
+});
@@ -0,0 +1,281 @@
+import supabase, { DbClient } from "./supabaseClient";
+import { EventStatus } from "@/types/event";
+import { ANALYTICS } from "@/constants/config";
+
+//Food waste impact numbers for the analytics page, computed in the browser from the events,
+//their RSVPs and check-ins, and their food items
+
+export interface AnalyticsEventRow {
+    id: string;
+    title: string;
+    location: string;
+    start_time: string;
+    end_time: string;
+    status: EventStatus;
+    campus_buildings: { name: string } | null; //the catalog building, null for custom locations
+    event_attendees: { rsvp_time: string | null; checked_in_at: string | null }[];
+    food_items: { quantity: number | null; initial_quantity: number | null; updated_at: string }[];
+}
+
+export interface EventImpact {
+    id: string;
+    title: string;
+    building: string;
+    startTime: Date;
+    status: EventStatus;
+    rsvps: number;
+    checkIns: number;
+    portionsPosted: number | null; //null when the organizer didn't count portions
+    portionsClaimed: number | null;
+    minutesToEmpty: number | null; //null unless every counted item ran out
+    poundsSaved: number;
+}
+
+export interface BuildingImpact {
+    building: string;
+    events: number;
+    rsvps: number;
+    checkIns: number;
+    portionsPosted: number;
+    portionsClaimed: number;
+    poundsSaved: number;
+}
+
+export interface ImpactReport {
+    totals: {
+        events: number;
+        rsvps: number;
+        checkIns: number;
+        checkInRate: number | null;
+        portionsPosted: number;
+        portionsClaimed: number;
+        poundsSaved: number;
+        medianMinutesToEmpty: number | null;
+    };
+    byBuilding: BuildingImpact[];
+    checkInsByHour: number[]; //24 entries, local time
+    byWeekday: { events: number; checkIns: number }[]; //7 entries, Sunday first
+    events: EventImpact[];
+}
+
+export const OTHER_BUILDING = "Other";
+
+const roundTenth = (value: number) => Math.round(value * 10) / 10;
+
+//Events at a catalog building count under its current name, custom locations are grouped as "Other"
+function toBuildingName(row: AnalyticsEventRow): string {
+    return row.campus_buildings?.name ?? OTHER_BUILDING;
+}
+
+//Portions handed out count as food saved. Without portion counts, each check-in counts as one portion.
+export function toEventImpact(row: AnalyticsEventRow): EventImpact {
+    const checkIns = row.event_attendees.filter(attendee => attendee.checked_in_at).length;
+    const counted = row.food_items.filter(item => item.initial_quantity !== null && item.quantity !== null);
+
+    let portionsPosted: number | null = null;
+    let portionsClaimed: number | null = null;
+    let minutesToEmpty: number | null = null;
+
+    if (counted.length > 0) {
+        portionsPosted = counted.reduce((sum, item) => sum + item.initial_quantity!, 0);
+        portionsClaimed = counted.reduce((sum, item) => sum + (item.initial_quantity! - item.quantity!), 0);
+
+        //the last item to hit zero is when the event ran out
+        if (portionsPosted > 0 && counted.every(item => item.quantity === 0)) {
+            const emptiedAt = Math.max(...counted.map(item => new Date(item.updated_at).getTime()));
+            minutesToEmpty = Math.max(0, Math.round((emptiedAt - new Date(row.start_time).getTime()) / 60000));
+        }
+    }
+
+    return {
+        id: row.id,
+        title: row.title,
+        building: toBuildingName(row),
+        startTime: new Date(row.start_time),
+        status: row.status,
+        rsvps: row.event_attendees.length,
+        checkIns,
+        portionsPosted,
+        portionsClaimed,
+        minutesToEmpty,
+        poundsSaved: roundTenth((portionsClaimed ?? checkIns) * ANALYTICS.POUNDS_PER_PORTION),
+    };
+}
+
+function median(values: number[]): number | null {
+    if (values.length === 0) {
+        return null;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+//Adds everything up per building, hour and weekday. Buildings come out by name, "Other" last.
+export function buildImpactReport(rows: AnalyticsEventRow[]): ImpactReport {
+    const events = rows.map(toEventImpact).sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    const buildings = new Map<string, BuildingImpact>();
+    events.forEach(({ building }) => {
+        if (!buildings.has(building)) {
+            buildings.set(building, { building, events: 0, rsvps: 0, checkIns: 0, portionsPosted: 0, portionsClaimed: 0, poundsSaved: 0 });
+        }
+    });
+
+    const checkInsByHour: number[] = Array(24).fill(0);
+    const byWeekday = Array.from({ length: 7 }, () => ({ events: 0, checkIns: 0 }));
+
+    events.forEach(event => {
+        const totals = buildings.get(event.building)!;
+        totals.events += 1;
+        totals.rsvps += event.rsvps;
+        totals.checkIns += event.checkIns;
+        totals.portionsPosted += event.portionsPosted ?? 0;
+        totals.portionsClaimed += event.portionsClaimed ?? 0;
+        totals.poundsSaved = roundTenth(totals.poundsSaved + event.poundsSaved);
+        byWeekday[event.startTime.getDay()].events += 1;
+    });
+
+    rows.forEach(row => {
+        row.event_attendees.forEach(attendee => {
+            if (!attendee.checked_in_at) return;
+            const checkedInAt = new Date(attendee.checked_in_at);
+            checkInsByHour[checkedInAt.getHours()] += 1;
+            byWeekday[checkedInAt.getDay()].checkIns += 1;
+        });
+    });
+
+    const byBuilding = Array.from(buildings.values()).sort((a, b) => {
+        if (a.building === OTHER_BUILDING || b.building === OTHER_BUILDING) {
+            return Number(a.building === OTHER_BUILDING) - Number(b.building === OTHER_BUILDING);
+        }
+        return a.building.localeCompare(b.building);
+    });
+    const rsvps = events.reduce((sum, event) => sum + event.rsvps, 0);
+    const checkIns = events.reduce((sum, event) => sum + event.checkIns, 0);
+
+    return {
+        totals: {
+            events: events.length,
+            rsvps,
+            checkIns,
+            checkInRate: rsvps > 0 ? checkIns / rsvps : null,
+            portionsPosted: events.reduce((sum, event) => sum + (event.portionsPosted ?? 0), 0),
+            portionsClaimed: events.reduce((sum, event) => sum + (event.portionsClaimed ?? 0), 0),
+            poundsSaved: roundTenth(events.reduce((sum, event) => sum + event.poundsSaved, 0)),
+            medianMinutesToEmpty: median(events
+                .map(event => event.minutesToEmpty)
+                .filter((minutes): minutes is number => minutes !== null)),
+        },
+        byBuilding,
+        checkInsByHour,
+        byWeekday,
+        events,
+    };
+}
+
+export interface DateRange {
+    label: string;
+    start: Date;
+    end: Date; //exclusive
+}
+
+const TERMS = [
+    { name: "Spring", startMonth: 0 },
+    { name: "Summer", startMonth: 5 },
+    { name: "Fall", startMonth: 8 },
+];
+
+//The semester a date falls in (Spring Jan-May, Summer Jun-Aug, Fall Sep-Dec),
+//offset -1 for the one before it and so on
+export function getSemesterRange(date: Date, offset: number = 0): DateRange {
+    const current = TERMS.filter(term => term.startMonth <= date.getMonth()).length - 1;
+    const index = date.getFullYear() * TERMS.length + current + offset;
+    const year = Math.floor(index / TERMS.length);
+    const term = index % TERMS.length;
+    const next = term + 1 < TERMS.length
+        ? new Date(year, TERMS[term + 1].startMonth, 1)
+        : new Date(year + 1, TERMS[0].startMonth, 1);
+
+    return {
+        label: `${TERMS[term].name} ${year}`,
+        start: new Date(year, TERMS[term].startMonth, 1),
+        end: next,
+    };
+}
+
+//Quotes fields that need it, so titles with commas or quotes survive
+export function toCsv(headers: string[], rows: Array<Array<string | number | null>>): string {
+    const escape = (value: string | number | null) => {
+        const text = value === null ? "" : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [headers, ...rows].map(row => row.map(escape).join(",")).join("\r\n");
+}
+
+export function eventImpactCsv(events: EventImpact[]): string {
+    return toCsv(
+        ["Date", "Event", "Building", "Status", "RSVPs", "Check-ins", "Portions posted", "Portions claimed", "Minutes to empty", "Pounds saved"],
+        events.map(event => [
+            event.startTime.toISOString(),
+            event.title,
+            event.building,
+            event.status,
+            event.rsvps,
+            event.checkIns,
+            event.portionsPosted,
+            event.portionsClaimed,
+            event.minutesToEmpty,
+            event.poundsSaved,
+        ])
+    );
+}
+
+export function buildingImpactCsv(buildings: BuildingImpact[]): string {
+    return toCsv(
+        ["Building", "Events", "RSVPs", "Check-ins", "Portions posted", "Portions claimed", "Pounds saved"],
+        buildings.map(building => [
+            building.building,
+            building.events,
+            building.rsvps,
+            building.checkIns,
+            building.portionsPosted,
+            building.portionsClaimed,
+            building.poundsSaved,
+        ])
+    );
+}
+
+//Events that started in the range with their RSVPs and food, organizerId limits it to one organizer's events.
+//Drafts and cancelled events never served food, so they're left out.
+export async function fetchImpactEvents(
+    { start, end, organizerId }: { start: Date; end: Date; organizerId?: string },
+    client: DbClient = supabase
+): Promise<AnalyticsEventRow[]> {
+    let query = client
+        .from("events")
+        .select(`
+            id, title, location, start_time, end_time, status,
+            campus_buildings:building_id (name),
+            event_attendees!event_id (rsvp_time, checked_in_at),
+            food_items!event_id (quantity, initial_quantity, updated_at)
+        `)
+        .gte("start_time", start.toISOString())
+        .lt("start_time", end.toISOString())
+        .not("status", "in", "(draft,cancelled)")
+        .order("start_time", { ascending: true });
+
+    if (organizerId) {
+        query = query.eq("organizer_id", organizerId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        console.error("Unable to fetch analytics events:", error);
+        throw new Error("Failed to load analytics");
+    }
+
+    //status is text in the database, one of EventStatus
+    return (data || []) as AnalyticsEventRow[];
+}
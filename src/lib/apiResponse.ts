@@ -0,0 +1,63 @@
+/**
+ * Shared helpers for API route responses
+ *
+ * Every error body has the same shape, `{ error: string, details?: object }`, matching
+ * the older routes that return `{ error: message }`. details carries per-field
+ * validation messages.
+ */
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface Pagination {
+    page: number;
+    pageSize: number;
+}
+
+export function jsonError(status: number, message: string, details?: Record<string, string>) {
+    return Response.json(details ? { error: message, details } : { error: message }, { status });
+}
+
+//Reads ?page= and ?pageSize= (1-based), returning field errors for bad values
+export function parsePagination(searchParams: URLSearchParams): { pagination?: Pagination; errors?: Record<string, string> } {
+    const errors: Record<string, string> = {};
+    const page = Number(searchParams.get("page") ?? 1);
+    const pageSize = Number(searchParams.get("pageSize") ?? DEFAULT_PAGE_SIZE);
+
+    if (!Number.isInteger(page) || page < 1) {
+        errors.page = "page must be a whole number of at least 1";
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+        errors.pageSize = `pageSize must be a whole number between 1 and ${MAX_PAGE_SIZE}`;
+    }
+
+    return Object.keys(errors).length > 0 ? { errors } : { pagination: { page, pageSize } };
+}
+
+//Body for a page of results
+export function paginated<T>(data: T[], { page, pageSize }: Pagination, total: number) {
+    return {
+        data,
+        pagination: {
+            page,
+            pageSize,
+            total,
+            totalPages: Math.ceil(total / pageSize),
+        },
+    };
+}
+
+//Status codes for the error messages thrown by the services in src/lib
+const ERROR_STATUSES: Array<[RegExp, number]> = [
+    [/not found|no longer exists/i, 404],
+    [/^only |can only|must be logged in|is suspended/i, 403],
+    [/already|is full|no longer accepting|cannot change|cannot suspend|changed by someone else/i, 409],
+    [/is required|must be/i, 400],
+];
+
+//Turns an error thrown by a service into a response, unknown errors become a 500
+export function serviceError(error: unknown) {
+    const message = error instanceof Error ? error.message : "Something went wrong";
+    const status = ERROR_STATUSES.find(([pattern]) => pattern.test(message))?.[1] ?? 500;
+    return jsonError(status, message);
+}
@@ -0,0 +1,57 @@
+/**
+ * @jest-environment node
+ */
+
+import { calendarFeedUrl, CalendarFeedRow, toFeedEvent } from './calendarService';
+
+jest.mock('./supabaseClient', () => ({ __esModule: true, default: {} }));
+
+const row = (overrides: Partial<CalendarFeedRow> = {}): CalendarFeedRow => ({
+    id: 'event-1',
+    title: 'Pizza',
+    description: null,
+    location: 'Photonics Center (PHO)',
+    location_point: '0101000020E6100000D044D8F0F4C651C0BE9F1A2FDD2C4540',
+    location_address: null,
+    location_room: 'Room 101',
+    location_instructions: null,
+    start_time: '2026-10-19T16:00:00+00:00',
+    end_time: '2026-10-19T17:00:00+00:00',
+    status: 'cancelled',
+    cancellation_reason: 'Room closed',
+    sequence: 2,
+    updated_at: '2026-10-18T12:00:00+00:00',
+    ...overrides,
+});
+
+describe('toFeedEvent', () => {
+    it('maps a feed row to a calendar event', () => {
+        expect(toFeedEvent(row())).toEqual({
+            id: 'event-1',
+            title: 'Pizza',
+            description: undefined,
+            location: 'Photonics Center (PHO)',
+            address: undefined,
+            room: 'Room 101',
+            instructions: undefined,
+            coords: [-71.1087, 42.3505],
+            startTime: new Date('2026-10-19T16:00:00Z'),
+            endTime: new Date('2026-10-19T17:00:00Z'),
+            status: 'cancelled',
+            sequence: 2,
+            updatedAt: new Date('2026-10-18T12:00:00Z'),
+            cancellationReason: 'Room closed',
+        });
+    });
+
+    it('leaves coordinates out when there are none', () => {
+        expect(toFeedEvent(row({ location_point: null })).coords).toBeUndefined();
+    });
+});
+
+describe('calendarFeedUrl', () => {
+    it('adds the buildings for building feeds', () => {
+        expect(calendarFeedUrl('https://sparkbytes.app', 'abc')).toBe('https://sparkbytes.app/api/calendar/abc');
+        expect(calendarFeedUrl('https://sparkbytes.app', 'abc', ['gsu', 'cds'])).toBe('https://sparkbytes.app/api/calendar/abc?buildings=gsu,cds');
+    });
+});
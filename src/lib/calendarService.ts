@@ -0,0 +1,91 @@
+import supabase, { DbClient } from "./supabaseClient";
+import { EventStatus } from "@/types/event";
+import { API_ROUTES } from "@/constants/config";
+import { CalendarEvent } from "./icalendar";
+import { parsePoint } from "./geo";
+
+//Subscribable calendar feeds. Calendar apps can't log in, so a feed URL carries the user's
+//secret token instead (see the calendar feeds migration).
+
+export interface CalendarFeedRow {
+    id: string;
+    title: string;
+    description: string | null;
+    location: string;
+    location_point: string | null; //hex EWKB
+    location_address: string | null;
+    location_room: string | null;
+    location_instructions: string | null;
+    start_time: string;
+    end_time: string;
+    status: EventStatus;
+    cancellation_reason: string | null;
+    sequence: number;
+    updated_at: string;
+}
+
+export function toFeedEvent(row: CalendarFeedRow): CalendarEvent {
+    return {
+        id: row.id,
+        title: row.title,
+        description: row.description || undefined,
+        location: row.location,
+        address: row.location_address || undefined,
+        room: row.location_room || undefined,
+        instructions: row.location_instructions || undefined,
+        coords: parsePoint(row.location_point),
+        startTime: new Date(row.start_time),
+        endTime: new Date(row.end_time),
+        status: row.status,
+        sequence: row.sequence,
+        updatedAt: new Date(row.updated_at),
+        cancellationReason: row.cancellation_reason || undefined,
+    };
+}
+
+//The feed of a user's RSVPs, or with buildingIds the public events at those buildings
+export function calendarFeedUrl(origin: string, token: string, buildingIds: string[] = []): string {
+    const url = `${origin}${API_ROUTES.CALENDAR}/${token}`;
+    return buildingIds.length > 0 ? `${url}?buildings=${buildingIds.join(",")}` : url;
+}
+
+//The signed in user's feed token, created the first time
+export async function getCalendarToken(client: DbClient = supabase): Promise<string> {
+    const { data: token, error } = await client.rpc("get_calendar_token");
+
+    if (error || !token) {
+        console.error("Unable to get calendar token:", error);
+        throw new Error("Failed to load your calendar feeds");
+    }
+
+    return token;
+}
+
+//Swaps the token for a new one, every feed URL shared so far stops working
+export async function rotateCalendarToken(client: DbClient = supabase): Promise<string> {
+    const { data: token, error } = await client.rpc("rotate_calendar_token");
+
+    if (error || !token) {
+        console.error("Unable to rotate calendar token:", error);
+        throw new Error("Failed to reset your calendar feeds");
+    }
+
+    return token;
+}
+
+//Events for a feed, the public events at buildingIds or null for the token owner's RSVPs
+export async function fetchCalendarFeed(token: string, buildingIds: string[] | null, client: DbClient = supabase) {
+    const { data, error } = await client
+        .rpc("calendar_feed", { p_token: token, p_building_ids: buildingIds ?? undefined });
+
+    //no_data_found, raised for unknown tokens
+    if (error?.code === "P0002") {
+        throw new Error("Calendar feed not found");
+    }
+    if (error) {
+        console.error("Unable to load calendar feed:", error);
+        throw new Error("Failed to load calendar feed");
+    }
+
+    return (data as CalendarFeedRow[] || []).map(toFeedEvent);
+}
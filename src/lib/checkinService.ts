@@ -0,0 +1,82 @@
+import supabase from "./supabaseClient";
+
+//Client side helpers for QR check-in, the signing itself happens in /api/checkin
+
+export interface CheckinTicket {
+    token: string;
+    checkedInAt: string | null;
+}
+
+export interface CheckinResult {
+    attendeeName: string | null;
+    checkedInAt: string;
+}
+
+export interface CheckinRosterEntry {
+    id: string;
+    name: string;
+    email: string;
+    checkedInAt: Date | null;
+}
+
+//Calls one of our API routes as the logged in user and throws the route's error message
+async function authorizedFetch<T>(url: string, init: RequestInit = {}): Promise<T> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("You must be logged in");
+    }
+
+    const response = await fetch(url, {
+        ...init,
+        headers: {
+            ...init.headers,
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${session.access_token}`,
+        },
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+        console.error(`Request to ${url} failed:`, body);
+        throw new Error(body.error ?? "Something went wrong");
+    }
+    return body as T;
+}
+
+//Gets the signed QR token for the current user's RSVP
+export async function fetchCheckinTicket(eventId: string): Promise<CheckinTicket> {
+    return authorizedFetch<CheckinTicket>(`/api/checkin/token?eventId=${encodeURIComponent(eventId)}`);
+}
+
+//Organizer side, checks in whoever the scanned token belongs to
+export async function checkInAttendee(eventId: string, token: string): Promise<CheckinResult> {
+    return authorizedFetch<CheckinResult>("/api/checkin", {
+        method: "POST",
+        body: JSON.stringify({ eventId, token }),
+    });
+}
+
+//Everyone who RSVP'd to an event and whether they showed up
+export async function fetchCheckinRoster(eventId: string): Promise<CheckinRosterEntry[]> {
+    const { data, error } = await supabase
+        .from("event_attendees")
+        .select(`
+            id,
+            checked_in_at,
+            profiles!user_id (full_name, email)
+        `)
+        .eq("event_id", eventId)
+        .order("rsvp_time", { ascending: true });
+
+    if (error) {
+        console.error("Error fetching check-in roster:", error);
+        throw new Error("Failed to load attendees");
+    }
+
+    return (data ?? []).map((row) => ({
+        id: row.id,
+        name: row.profiles?.full_name ?? "Unknown",
+        email: row.profiles?.email ?? "",
+        checkedInAt: row.checked_in_at ? new Date(row.checked_in_at) : null,
+    }));
+}
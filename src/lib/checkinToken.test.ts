@@ -0,0 +1,48 @@
+/**
+ * @jest-environment node
+ */
+
+import { createCheckinToken, verifyCheckinToken } from './checkinToken';
+
+const SECRET = 'test-secret';
+const payload = { attendeeId: 'attendee-1', eventId: 'event-1' };
+
+describe('checkin tokens', () => {
+    it('round trips the attendee and event', () => {
+        const token = createCheckinToken(payload, SECRET);
+        expect(verifyCheckinToken(token, SECRET)).toEqual(payload);
+    });
+
+    it('ignores whitespace around a pasted token', () => {
+        const token = createCheckinToken(payload, SECRET);
+        expect(verifyCheckinToken(`  ${token}\n`, SECRET)).toEqual(payload);
+    });
+
+    it('rejects a token signed with another secret', () => {
+        const token = createCheckinToken(payload, 'other-secret');
+        expect(verifyCheckinToken(token, SECRET)).toBeNull();
+    });
+
+    it('rejects a token whose payload was swapped', () => {
+        const token = createCheckinToken(payload, SECRET);
+        const other = createCheckinToken({ attendeeId: 'attendee-2', eventId: 'event-1' }, SECRET);
+        const [version, , signature] = token.split('.');
+        const [, otherPayload] = other.split('.');
+        expect(verifyCheckinToken(`${version}.${otherPayload}.${signature}`, SECRET)).toBeNull();
+    });
+
+    it('rejects garbage', () => {
+        expect(verifyCheckinToken('', SECRET)).toBeNull();
+        expect(verifyCheckinToken('not-a-token', SECRET)).toBeNull();
+        expect(verifyCheckinToken('v2.abc.def', SECRET)).toBeNull();
+    });
+
+    it('throws when no secret is configured', () => {
+        const original = process.env.CHECKIN_TOKEN_SECRET;
+        delete process.env.CHECKIN_TOKEN_SECRET;
+        expect(() => createCheckinToken(payload)).toThrow('CHECKIN_TOKEN_SECRET is not set');
+        if (original !== undefined) {
+            process.env.CHECKIN_TOKEN_SECRET = original;
+        }
+    });
+});
@@ -0,0 +1,59 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Signed check-in tokens
+ *
+ * A token is `v1.<payload>.<signature>` where payload is the base64url JSON
+ * `{ a: attendeeId, e: eventId }` and signature is an HMAC-SHA256 of the payload
+ * using CHECKIN_TOKEN_SECRET. Only the server can issue them, so a student can't
+ * make a code for a friend who never RSVP'd. Server-side only, never import this
+ * from a client component.
+ */
+
+const TOKEN_VERSION = "v1";
+
+export interface CheckinTokenPayload {
+    attendeeId: string;
+    eventId: string;
+}
+
+function getSecret(secret?: string): string {
+    const value = secret ?? process.env.CHECKIN_TOKEN_SECRET;
+    if (!value) {
+        throw new Error("CHECKIN_TOKEN_SECRET is not set");
+    }
+    return value;
+}
+
+function sign(payload: string, secret: string): string {
+    return createHmac("sha256", secret).update(`${TOKEN_VERSION}.${payload}`).digest("base64url");
+}
+
+export function createCheckinToken({ attendeeId, eventId }: CheckinTokenPayload, secret?: string): string {
+    const payload = Buffer.from(JSON.stringify({ a: attendeeId, e: eventId })).toString("base64url");
+    return `${TOKEN_VERSION}.${payload}.${sign(payload, getSecret(secret))}`;
+}
+
+//Returns the payload if the token is well formed and the signature matches, null otherwise
+export function verifyCheckinToken(token: string, secret?: string): CheckinTokenPayload | null {
+    const [version, payload, signature, ...rest] = token.trim().split(".");
+    if (version !== TOKEN_VERSION || !payload || !signature || rest.length > 0) {
+        return null;
+    }
+
+    const expected = Buffer.from(sign(payload, getSecret(secret)));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    try {
+        const { a, e } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+        if (typeof a !== "string" || typeof e !== "string") {
+            return null;
+        }
+        return { attendeeId: a, eventId: e };
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,220 @@
+import { DIETARY_TAGS } from "@/constants/eventData";
+import { EVENT_STATUS } from "@/constants/map";
+import { Json } from "@/types/database";
+import { toBuilding } from "./eventLocations";
+import { EventTemplateData } from "./eventTemplates";
+import { FoodItemRow } from "./foodInventory";
+import { MemoryData } from "./memoryRepository";
+import { EventRow } from "./repository";
+
+//Seeded fixtures for the memory repository: a handful of events around campus, timed relative to
+//now so there's always something live, something starting soon and something full, plus the
+//buildings they're in and a template for the organizer.
+
+const MINUTE = 60 * 1000;
+
+const tags = (...ids: string[]) => DIETARY_TAGS.filter(tag => ids.includes(tag.id));
+
+const point = (lng: number, lat: number) => ({ type: "Point", coordinates: [lng, lat] });
+
+export const DEMO_STUDENT_ID = "demo-student";
+export const DEMO_ORGANIZER_ID = "demo-organizer";
+
+export function createDemoData(now: Date): MemoryData {
+    const at = (minutes: number) => new Date(now.getTime() + minutes * MINUTE).toISOString();
+    const created = at(-7 * 24 * 60);
+
+    const event = (row: Pick<EventRow, "id" | "title" | "location" | "location_point" | "start_time" | "end_time"> & Partial<EventRow>): EventRow => ({
+        building_id: null,
+        location_address: null,
+        location_room: null,
+        location_instructions: null,
+        description: null,
+        organizer_id: DEMO_ORGANIZER_ID,
+        max_attendees: null,
+        status: EVENT_STATUS.SCHEDULED,
+        is_public: true,
+        food_offerings: null,
+        cancellation_reason: null,
+        cancelled_at: null,
+        sequence: 0,
+        series_id: null,
+        created_at: created,
+        updated_at: created,
+        ...row,
+    });
+
+    const food = (row: Pick<FoodItemRow, "id" | "event_id" | "name"> & Partial<FoodItemRow>): FoodItemRow => ({
+        description: null,
+        dietary_tags: [],
+        serving_size: null,
+        temperature: null,
+        quantity: null,
+        initial_quantity: null,
+        status: "available",
+        sort_order: 0,
+        created_at: created,
+        updated_at: created,
+        ...row,
+    });
+
+    const building = (id: string, name: string, address: string, lng: number, lat: number) => ({
+        id, name, address, lng, lat, is_active: true, created_at: created, updated_at: created,
+    });
+
+    //the buildings the events are in, a few of the ones the campus locations migration seeds
+    const buildings = [
+        building("cas", "College of Arts & Sciences (CAS)", "725 Commonwealth Avenue", -71.1048, 42.35023),
+        building("pho", "Photonics Center (PHO)", "8 St Mary's St", -71.106, 42.34922),
+        building("gsu", "George Sherman Union (GSU)", "775 Commonwealth Avenue", -71.10877, 42.35119),
+        building("qsb", "Questrom School of Business (QSB)", "595 Commonwealth Avenue", -71.09957, 42.34969),
+    ];
+    const location = (buildingId: string) => toBuilding(buildings.find(row => row.id === buildingId)!);
+
+    const seminarTemplate: EventTemplateData = {
+        title: "Computer Science Seminar",
+        description: "Talks from this semester's research groups, with lunch afterwards.",
+        location: { ...location("cas"), room: "Room 116" },
+        foodOfferings: [{ name: "Sandwiches", dietaryTags: tags("vegetarian", "contains_gluten") }],
+        maxAttendees: 40,
+        isPublic: true,
+        durationMinutes: 120,
+    };
+
+    //people who RSVP'd, without profiles of their own
+    const attendees = (eventId: string, count: number) => Array.from({ length: count }, (_, index) => ({
+        id: `${eventId}-attendee-${index + 1}`,
+        event_id: eventId,
+        user_id: `${eventId}-guest-${index + 1}`,
+        rsvp_time: created,
+        checked_in_at: null,
+        checked_in_by: null,
+    }));
+
+    return {
+        profiles: [
+            {
+                id: DEMO_STUDENT_ID,
+                auth_id: "demo-student-auth",
+                email: "student@bu.edu",
+                full_name: "Terrier Student",
+                role: "student",
+                last_login: null,
+                requested_role: null,
+                dietary_restrictions: ["vegetarian"],
+                suspended_at: null,
+                suspension_reason: null,
+            },
+            {
+                id: DEMO_ORGANIZER_ID,
+                auth_id: "demo-organizer-auth",
+                email: "organizer@bu.edu",
+                full_name: "Spark Organizer",
+                role: "faculty",
+                last_login: null,
+                requested_role: null,
+                dietary_restrictions: [],
+                suspended_at: null,
+                suspension_reason: null,
+            },
+        ],
+        events: [
+            event({
+                id: "demo-seminar",
+                title: "Computer Science Seminar",
+                location: "College of Arts & Sciences (CAS)",
+                location_point: point(-71.1048, 42.35023),
+                building_id: "cas",
+                location_address: "725 Commonwealth Avenue",
+                location_room: "Room 116",
+                description: "Talks from this semester's research groups, with lunch afterwards.",
+                start_time: at(-30),
+                end_time: at(90),
+                max_attendees: 40,
+            }),
+            event({
+                id: "demo-workshop",
+                title: "Engineering Workshop",
+                location: "Photonics Center (PHO)",
+                location_point: point(-71.106, 42.34922),
+                building_id: "pho",
+                location_address: "8 St Mary's St",
+                description: "Hands-on soldering workshop, snacks provided.",
+                start_time: at(20),
+                end_time: at(140),
+                max_attendees: 25,
+            }),
+            event({
+                id: "demo-pizza",
+                title: "Pizza Night",
+                location: "George Sherman Union (GSU)",
+                location_point: point(-71.10877, 42.35119),
+                building_id: "gsu",
+                location_address: "775 Commonwealth Avenue",
+                location_instructions: "Second floor, by the windows",
+                start_time: at(180),
+                end_time: at(270),
+                max_attendees: 5,
+            }),
+            event({
+                id: "demo-breakfast",
+                title: "Bagel Breakfast",
+                location: "Questrom School of Business (QSB)",
+                location_point: point(-71.09957, 42.34969),
+                building_id: "qsb",
+                location_address: "595 Commonwealth Avenue",
+                start_time: at(24 * 60),
+                end_time: at(24 * 60 + 90),
+            }),
+        ],
+        attendees: [
+            ...attendees("demo-seminar", 30),
+            ...attendees("demo-workshop", 12),
+            ...attendees("demo-pizza", 5),
+        ],
+        waitlist: [
+            {
+                id: "demo-pizza-waitlist-1",
+                event_id: "demo-pizza",
+                user_id: "demo-pizza-guest-6",
+                position: 1,
+                joined_at: created,
+            },
+        ],
+        foodItems: [
+            food({
+                id: "demo-seminar-sandwiches",
+                event_id: "demo-seminar",
+                name: "Sandwiches",
+                dietary_tags: tags("vegetarian", "contains_gluten"),
+                quantity: 18,
+                initial_quantity: 40,
+            }),
+            food({ id: "demo-workshop-cookies", event_id: "demo-workshop", name: "Cookies", dietary_tags: tags("contains_gluten", "contains_dairy") }),
+            food({
+                id: "demo-pizza-cheese",
+                event_id: "demo-pizza",
+                name: "Cheese Pizza",
+                dietary_tags: tags("vegetarian"),
+                temperature: "hot",
+                quantity: 12,
+                initial_quantity: 12,
+            }),
+            food({ id: "demo-breakfast-bagels", event_id: "demo-breakfast", name: "Bagels", dietary_tags: tags("vegan") }),
+        ],
+        series: [],
+        buildings,
+        templates: [
+            {
+                id: "demo-template-seminar",
+                organizer_id: DEMO_ORGANIZER_ID,
+                name: "Seminar lunch",
+                data: seminarTemplate as unknown as Json,
+                created_at: created,
+                updated_at: created,
+            },
+        ],
+        notifications: [],
+        signedInProfileId: DEMO_STUDENT_ID,
+    };
+}
@@ -0,0 +1,57 @@
+/**
+ * @jest-environment node
+ */
+
+import { getEventDietaryFit, getOfferingConflicts, getUnlabeledRestrictions } from './dietaryProfile';
+import { DIETARY_TAGS } from '@/constants/eventData';
+import { FoodOffering } from '@/types/event';
+
+jest.mock('./supabaseClient', () => ({ __esModule: true, default: {} }));
+
+const offering = (name: string, tagIds: string[]): FoodOffering => ({
+    name,
+    dietaryTags: DIETARY_TAGS.filter(tag => tagIds.includes(tag.id)),
+});
+
+const satay = offering('Chicken Satay', ['contains_peanuts', 'halal']);
+const salad = offering('Garden Salad', ['vegan', 'peanut_free']);
+const burger = offering('Burger', ['non_halal']);
+
+describe('getOfferingConflicts', () => {
+    it('flags the tags that contradict a restriction', () => {
+        const conflicts = getOfferingConflicts(satay, ['peanut_allergy', 'halal']);
+
+        expect(conflicts).toHaveLength(1);
+        expect(conflicts[0].restriction.id).toBe('peanut_allergy');
+        expect(conflicts[0].tags.map(tag => tag.id)).toEqual(['contains_peanuts']);
+    });
+
+    it('ignores restrictions that are not in the catalog', () => {
+        expect(getOfferingConflicts(satay, ['not_a_restriction'])).toEqual([]);
+    });
+});
+
+describe('getUnlabeledRestrictions', () => {
+    it('lists restrictions that need a label the item does not have', () => {
+        expect(getUnlabeledRestrictions(satay, ['halal', 'vegetarian']).map(r => r.id)).toEqual(['vegetarian']);
+        expect(getUnlabeledRestrictions(salad, ['vegetarian'])).toEqual([]);
+    });
+
+    it('does not repeat restrictions the item already conflicts with', () => {
+        expect(getUnlabeledRestrictions(burger, ['halal'])).toEqual([]);
+    });
+});
+
+describe('getEventDietaryFit', () => {
+    it('fits when there is no profile', () => {
+        expect(getEventDietaryFit({ foodOfferings: [satay, burger] }, [])).toBe('fits');
+    });
+
+    it('is partial when only some items conflict', () => {
+        expect(getEventDietaryFit({ foodOfferings: [satay, salad] }, ['peanut_allergy'])).toBe('partial');
+    });
+
+    it('conflicts when nothing at the event is safe', () => {
+        expect(getEventDietaryFit({ foodOfferings: [satay, burger] }, ['peanut_allergy', 'halal'])).toBe('conflicts');
+    });
+});
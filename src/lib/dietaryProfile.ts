@@ -0,0 +1,89 @@
+import supabase, { DbClient } from "./supabaseClient";
+import { DashboardEvent, FoodOffering } from "@/types/event";
+import { DIETARY_RESTRICTIONS, DietaryRestriction, DietaryTag } from "@/constants/eventData";
+
+//A restriction an offering contradicts, with the tags that contradict it
+export interface DietaryConflict {
+    restriction: DietaryRestriction;
+    tags: DietaryTag[];
+}
+
+//How an event fits a profile: every item conflicts, only some do, or nothing conflicts
+export type DietaryFit = "conflicts" | "partial" | "fits";
+
+//Looks up the restrictions in a profile, unknown ids (e.g. removed restrictions) are skipped
+export function getRestrictions(restrictionIds: string[]): DietaryRestriction[] {
+    return DIETARY_RESTRICTIONS.filter(restriction => restrictionIds.includes(restriction.id));
+}
+
+//Restrictions the offering's tags contradict, e.g. "Contains Peanuts" against a peanut allergy
+export function getOfferingConflicts(offering: FoodOffering, restrictionIds: string[]): DietaryConflict[] {
+    return getRestrictions(restrictionIds)
+        .map(restriction => ({
+            restriction,
+            tags: offering.dietaryTags.filter(tag => restriction.avoidTags.includes(tag.id)),
+        }))
+        .filter(conflict => conflict.tags.length > 0);
+}
+
+//Restrictions that need a label (halal, vegetarian, ...) the offering doesn't carry.
+//Restrictions the offering already conflicts with aren't repeated here.
+export function getUnlabeledRestrictions(offering: FoodOffering, restrictionIds: string[]): DietaryRestriction[] {
+    const tagIds = offering.dietaryTags.map(tag => tag.id);
+    return getRestrictions(restrictionIds).filter(restriction =>
+        restriction.labelTags !== undefined &&
+        !restriction.labelTags.some(tagId => tagIds.includes(tagId)) &&
+        !restriction.avoidTags.some(tagId => tagIds.includes(tagId))
+    );
+}
+
+//Whether anything at the event is safe for the profile, only tagged conflicts count
+export function getEventDietaryFit(event: Pick<DashboardEvent, "foodOfferings">, restrictionIds: string[]): DietaryFit {
+    if (restrictionIds.length === 0 || event.foodOfferings.length === 0) {
+        return "fits";
+    }
+    const conflicting = event.foodOfferings.filter(
+        offering => getOfferingConflicts(offering, restrictionIds).length > 0
+    ).length;
+    if (conflicting === 0) {
+        return "fits";
+    }
+    return conflicting === event.foodOfferings.length ? "conflicts" : "partial";
+}
+
+//Loads the restriction ids saved on the user's profile
+export async function fetchDietaryProfile(profileId: string, client: DbClient = supabase): Promise<string[]> {
+    const { data, error } = await client
+        .from("profiles")
+        .select("dietary_restrictions")
+        .eq("id", profileId)
+        .single();
+
+    if (error) {
+        console.error("Error fetching dietary profile:", error);
+        throw new Error("Failed to load your dietary profile");
+    }
+
+    return data?.dietary_restrictions || [];
+}
+
+//Replaces the restrictions saved on the user's profile
+export async function saveDietaryProfile(
+    profileId: string,
+    restrictionIds: string[],
+    client: DbClient = supabase
+): Promise<string[]> {
+    const known = getRestrictions(restrictionIds).map(restriction => restriction.id);
+
+    const { error } = await client
+        .from("profiles")
+        .update({ dietary_restrictions: known })
+        .eq("id", profileId);
+
+    if (error) {
+        console.error("Error saving dietary profile:", error);
+        throw new Error("Failed to save your dietary profile");
+    }
+
+    return known;
+}
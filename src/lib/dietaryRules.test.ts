@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+
+import { applyImpliedTags, findTagContradiction, normalizeOfferingTags } from './dietaryRules';
+import { DIETARY_TAGS } from '@/constants/eventData';
+
+const tags = (...ids: string[]) => ids.map(id => DIETARY_TAGS.find(tag => tag.id === id)!);
+const ids = (list: { id: string }[]) => list.map(tag => tag.id);
+
+describe('applyImpliedTags', () => {
+    it('follows implications through to the end', () => {
+        expect(ids(applyImpliedTags(tags('vegan')))).toEqual(
+            ['vegan', 'vegetarian', 'dairy_free', 'egg_free', 'fish_free', 'shellfish_free', 'lactose_free']
+        );
+        expect(ids(applyImpliedTags(tags('contains_wheat')))).toEqual(['contains_wheat', 'contains_gluten']);
+    });
+
+    it('does not duplicate tags that are already there', () => {
+        expect(ids(applyImpliedTags(tags('dairy_free', 'vegan')))).toEqual(
+            ['dairy_free', 'vegan', 'lactose_free', 'vegetarian', 'egg_free', 'fish_free', 'shellfish_free']
+        );
+    });
+});
+
+describe('findTagContradiction', () => {
+    it('catches mutually exclusive pairs', () => {
+        expect(findTagContradiction(tags('peanut_free', 'contains_peanuts')))
+            .toBe("Peanut-Free and Contains Peanuts can't both apply");
+    });
+
+    it('catches contradictions that come from an implication', () => {
+        expect(findTagContradiction(tags('vegan', 'contains_dairy')))
+            .toBe("Vegan (Dairy-Free) and Contains Dairy can't both apply");
+        expect(findTagContradiction(tags('gluten_free', 'contains_wheat')))
+            .toBe("Gluten-Free and Contains Wheat (Contains Gluten) can't both apply");
+    });
+
+    it('names the pick when the implied tag was already filled in', () => {
+        expect(findTagContradiction(applyImpliedTags(tags('vegan')).concat(tags('contains_dairy'))))
+            .toBe("Vegan (Dairy-Free) and Contains Dairy can't both apply");
+    });
+
+    it('accepts consistent tags', () => {
+        expect(findTagContradiction(tags('vegan', 'gluten_free', 'contains_soy'))).toBeUndefined();
+    });
+});
+
+describe('normalizeOfferingTags', () => {
+    it('fills in implied tags', () => {
+        const [offering] = normalizeOfferingTags([{ name: 'Bagels', dietaryTags: tags('contains_wheat') }]);
+        expect(ids(offering.dietaryTags)).toEqual(['contains_wheat', 'contains_gluten']);
+    });
+
+    it('rejects an item with contradicting tags', () => {
+        expect(() => normalizeOfferingTags([{ name: 'Cheese Pizza', dietaryTags: tags('vegan', 'contains_dairy') }]))
+            .toThrow('Dietary tags on "Cheese Pizza" must be consistent');
+    });
+});
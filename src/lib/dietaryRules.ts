@@ -0,0 +1,74 @@
+import { DIETARY_TAGS, DIETARY_TAG_EXCLUSIONS, DIETARY_TAG_IMPLICATIONS, DietaryTag } from "@/constants/eventData";
+import { FoodOffering } from "@/types/event";
+
+const tagName = (tagId: string) => DIETARY_TAGS.find(tag => tag.id === tagId)?.name || tagId;
+
+//Every tag reachable from the given one through implications, not counting itself
+function impliedTagIds(tagId: string): Set<string> {
+    const implied = new Set<string>();
+    const queue = [...(DIETARY_TAG_IMPLICATIONS[tagId] || [])];
+    while (queue.length > 0) {
+        const next = queue.shift()!;
+        if (implied.has(next)) continue;
+        implied.add(next);
+        queue.push(...(DIETARY_TAG_IMPLICATIONS[next] || []));
+    }
+    return implied;
+}
+
+//Every tag that follows from the given ones, mapped to the given tag it came from. A given tag that
+//another given tag implies (Dairy-Free next to Vegan) is credited to that one, so messages name the pick
+function expandTagIds(tagIds: string[]): Map<string, string> {
+    const impliedByOthers = new Set<string>();
+    tagIds.forEach(tagId => impliedTagIds(tagId).forEach(implied => {
+        if (implied !== tagId) impliedByOthers.add(implied);
+    }));
+    const roots = tagIds.filter(tagId => !impliedByOthers.has(tagId));
+
+    const sources = new Map<string, string>();
+    roots.forEach(tagId => sources.set(tagId, tagId));
+
+    roots.forEach(source => impliedTagIds(source).forEach(tagId => {
+        if (!sources.has(tagId)) sources.set(tagId, source);
+    }));
+    //tags that only imply each other have no root, they stand for themselves
+    tagIds.forEach(tagId => {
+        if (!sources.has(tagId)) sources.set(tagId, tagId);
+    });
+
+    return sources;
+}
+
+//Adds the tags implied by the ones already picked, e.g. Vegan adds Vegetarian, Dairy-Free and Egg-Free
+export function applyImpliedTags(tags: DietaryTag[]): DietaryTag[] {
+    const implied = Array.from(new Set(tags.reduce<string[]>((all, tag) => all.concat(Array.from(impliedTagIds(tag.id))), [])))
+        .filter(tagId => !tags.some(tag => tag.id === tagId))
+        .map(tagId => DIETARY_TAGS.find(tag => tag.id === tagId))
+        .filter((tag): tag is DietaryTag => tag !== undefined);
+    return [...tags, ...implied];
+}
+
+//Describes the first pair of tags that can't both apply, implications included
+export function findTagContradiction(tags: DietaryTag[]): string | undefined {
+    const sources = expandTagIds(tags.map(tag => tag.id));
+
+    //names the tag that was picked, and the implied tag when that's what actually clashes
+    const describe = (tagId: string) => {
+        const source = sources.get(tagId)!;
+        return source === tagId ? tagName(tagId) : `${tagName(source)} (${tagName(tagId)})`;
+    };
+
+    const clash = DIETARY_TAG_EXCLUSIONS.find(([a, b]) => sources.has(a) && sources.has(b));
+    return clash ? `${describe(clash[0])} and ${describe(clash[1])} can't both apply` : undefined;
+}
+
+//Fills in implied tags on every offering and rejects contradictory ones, the server side of the form checks
+export function normalizeOfferingTags(offerings: FoodOffering[]): FoodOffering[] {
+    offerings.forEach(offering => {
+        const contradiction = findTagContradiction(offering.dietaryTags);
+        if (contradiction) {
+            throw new Error(`Dietary tags on "${offering.name}" must be consistent: ${contradiction}`);
+        }
+    });
+    return offerings.map(offering => ({ ...offering, dietaryTags: applyImpliedTags(offering.dietaryTags) }));
+}
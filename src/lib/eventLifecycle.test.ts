@@ -0,0 +1,112 @@
+import { assertTransition, canTransition, deriveEventStatus, displayStatus, isAcceptingRsvps, isTerminalStatus, withDerivedStatuses } from './eventLifecycle';
+
+describe('eventLifecycle', () => {
+    it('allows the forward lifecycle path', () => {
+        expect(canTransition('draft', 'scheduled')).toBe(true);
+        expect(canTransition('scheduled', 'starting_soon')).toBe(true);
+        expect(canTransition('starting_soon', 'live')).toBe(true);
+        expect(canTransition('live', 'running_low')).toBe(true);
+        expect(canTransition('running_low', 'ended')).toBe(true);
+    });
+
+    it('lets a running low event be restocked', () => {
+        expect(canTransition('running_low', 'live')).toBe(true);
+    });
+
+    it('allows cancelling any event that has not ended', () => {
+        expect(canTransition('draft', 'cancelled')).toBe(true);
+        expect(canTransition('scheduled', 'cancelled')).toBe(true);
+        expect(canTransition('live', 'cancelled')).toBe(true);
+        expect(canTransition('ended', 'cancelled')).toBe(false);
+    });
+
+    it('rejects skipping backwards out of terminal states', () => {
+        expect(isTerminalStatus('ended')).toBe(true);
+        expect(isTerminalStatus('cancelled')).toBe(true);
+        expect(() => assertTransition('cancelled', 'live')).toThrow('Cannot change event from cancelled to live');
+    });
+
+    it('only accepts RSVPs for published events that are not over', () => {
+        expect(isAcceptingRsvps('live')).toBe(true);
+        expect(isAcceptingRsvps('scheduled')).toBe(true);
+        expect(isAcceptingRsvps('draft')).toBe(false);
+        expect(isAcceptingRsvps('cancelled')).toBe(false);
+    });
+
+    describe('deriveEventStatus', () => {
+        const start = new Date('2026-10-18T12:00:00Z');
+        const end = new Date('2026-10-18T14:00:00Z');
+        const at = (iso: string) => new Date(iso);
+
+        it('is scheduled well before the start', () => {
+            expect(deriveEventStatus('scheduled', start, end, at('2026-10-18T10:00:00Z'))).toBe('scheduled');
+        });
+
+        it('is starting soon inside the window before the start', () => {
+            expect(deriveEventStatus('scheduled', start, end, at('2026-10-18T11:45:00Z'))).toBe('starting_soon');
+        });
+
+        it('is live between start and end', () => {
+            expect(deriveEventStatus('starting_soon', start, end, at('2026-10-18T12:00:00Z'))).toBe('live');
+        });
+
+        it('keeps running low while the event is on', () => {
+            expect(deriveEventStatus('running_low', start, end, at('2026-10-18T13:00:00Z'))).toBe('running_low');
+        });
+
+        it('is ended once the end time passes', () => {
+            expect(deriveEventStatus('live', start, end, at('2026-10-18T14:00:00Z'))).toBe('ended');
+        });
+
+        it('never overrides cancelled or draft events', () => {
+            expect(deriveEventStatus('cancelled', start, end, at('2026-10-18T13:00:00Z'))).toBe('cancelled');
+            expect(deriveEventStatus('draft', start, end, at('2026-10-18T13:00:00Z'))).toBe('draft');
+        });
+    });
+
+    describe('withDerivedStatuses', () => {
+        const event = (id: string, startTime: string, endTime: string) => ({
+            id,
+            status: 'scheduled' as const,
+            startTime: new Date(startTime),
+            endTime: new Date(endTime),
+        });
+        const list = [
+            event('lunch', '2026-10-18T12:00:00Z', '2026-10-18T14:00:00Z'),
+            event('dinner', '2026-10-18T18:00:00Z', '2026-10-18T20:00:00Z'),
+        ];
+
+        it('updates the events whose status moved on', () => {
+            const next = withDerivedStatuses(list, new Date('2026-10-18T15:00:00Z'));
+
+            expect(next.map(e => e.status)).toEqual(['ended', 'scheduled']);
+            expect(next[1]).toBe(list[1]);
+        });
+
+        it('returns the same list when nothing changed', () => {
+            expect(withDerivedStatuses(list, new Date('2026-10-18T09:00:00Z'))).toBe(list);
+        });
+    });
+
+    describe('displayStatus', () => {
+        const counted = (remaining: number) => ({ name: 'Pizza', dietaryTags: [], quantity: 12, remaining });
+
+        it('shows food gone once every counted portion is handed out', () => {
+            expect(displayStatus({ status: 'running_low', portionsRemaining: 0, portionsTotal: 12, foodOfferings: [counted(0)] })).toBe('food_gone');
+        });
+
+        it('goes back to the status when portions are counted back in', () => {
+            expect(displayStatus({ status: 'running_low', portionsRemaining: 1, portionsTotal: 12, foodOfferings: [counted(1)] })).toBe('running_low');
+        });
+
+        it('never shows food gone while uncounted food may be left', () => {
+            const cookies = { name: 'Cookies', dietaryTags: [] };
+            expect(displayStatus({ status: 'running_low', portionsRemaining: 0, portionsTotal: 12, foodOfferings: [counted(0), cookies] })).toBe('running_low');
+        });
+
+        it('keeps ended and cancelled events as they are', () => {
+            expect(displayStatus({ status: 'ended', portionsRemaining: 0, portionsTotal: 12 })).toBe('ended');
+            expect(displayStatus({ status: 'cancelled', portionsRemaining: 0, portionsTotal: 12 })).toBe('cancelled');
+        });
+    });
+});
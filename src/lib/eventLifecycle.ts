@@ -0,0 +1,137 @@
+import { EVENT_STATUS, FOOD_GONE } from "@/constants/map";
+import { EVENT_TIMING } from "@/constants/config";
+import { DisplayStatus, EventStatus, FoodOffering } from "@/types/event";
+
+/**
+ * Event lifecycle state machine
+ *
+ * draft -> scheduled -> starting_soon -> live -> running_low -> ended
+ *
+ * An event can be cancelled from any state before it ends. Ended and cancelled
+ * are terminal. running_low can go back to live when an organizer restocks.
+ */
+export const EVENT_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+    [EVENT_STATUS.DRAFT]: [EVENT_STATUS.SCHEDULED, EVENT_STATUS.CANCELLED],
+    [EVENT_STATUS.SCHEDULED]: [EVENT_STATUS.DRAFT, EVENT_STATUS.STARTING_SOON, EVENT_STATUS.LIVE, EVENT_STATUS.CANCELLED],
+    [EVENT_STATUS.STARTING_SOON]: [EVENT_STATUS.SCHEDULED, EVENT_STATUS.LIVE, EVENT_STATUS.CANCELLED],
+    [EVENT_STATUS.LIVE]: [EVENT_STATUS.RUNNING_LOW, EVENT_STATUS.ENDED, EVENT_STATUS.CANCELLED],
+    [EVENT_STATUS.RUNNING_LOW]: [EVENT_STATUS.LIVE, EVENT_STATUS.ENDED, EVENT_STATUS.CANCELLED],
+    [EVENT_STATUS.ENDED]: [],
+    [EVENT_STATUS.CANCELLED]: [],
+};
+
+//Statuses that show up on the public map and event list
+export const VISIBLE_STATUSES: EventStatus[] = [
+    EVENT_STATUS.SCHEDULED,
+    EVENT_STATUS.STARTING_SOON,
+    EVENT_STATUS.LIVE,
+    EVENT_STATUS.RUNNING_LOW,
+];
+
+export function isEventStatus(value: unknown): value is EventStatus {
+    return typeof value === "string" && value in EVENT_TRANSITIONS;
+}
+
+export function canTransition(from: EventStatus, to: EventStatus): boolean {
+    return EVENT_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+//Throws if the status change is not allowed by the state machine
+export function assertTransition(from: EventStatus, to: EventStatus) {
+    if (!canTransition(from, to)) {
+        throw new Error(`Cannot change event from ${from} to ${to}`);
+    }
+}
+
+export function isTerminalStatus(status: EventStatus): boolean {
+    return EVENT_TRANSITIONS[status].length === 0;
+}
+
+//Students can only RSVP to events that are published and not over
+export function isAcceptingRsvps(status: EventStatus): boolean {
+    return VISIBLE_STATUSES.includes(status);
+}
+
+//Statuses set by people rather than the clock, the clock never overrides these
+const MANUAL_STATUSES: EventStatus[] = [
+    EVENT_STATUS.DRAFT,
+    EVENT_STATUS.ENDED,
+    EVENT_STATUS.CANCELLED,
+];
+
+/**
+ * Works out an event's current status from its start and end time
+ *
+ * Draft, cancelled and ended events keep their stored status. Otherwise the event is
+ * ended after endTime, live between startTime and endTime (or running_low if the
+ * organizer marked it so), starting_soon within the window before startTime, and
+ * scheduled before that. Re-deriving an already derived status gives the same result.
+ */
+export function deriveEventStatus(
+    storedStatus: EventStatus,
+    startTime: Date,
+    endTime: Date,
+    now: Date = new Date(),
+    startingSoonMinutes: number = EVENT_TIMING.STARTING_SOON_MINUTES
+): EventStatus {
+    if (MANUAL_STATUSES.includes(storedStatus)) {
+        return storedStatus;
+    }
+
+    const nowMs = now.getTime();
+    if (nowMs >= endTime.getTime()) {
+        return EVENT_STATUS.ENDED;
+    }
+
+    if (nowMs >= startTime.getTime()) {
+        return storedStatus === EVENT_STATUS.RUNNING_LOW ? EVENT_STATUS.RUNNING_LOW : EVENT_STATUS.LIVE;
+    }
+
+    if (startTime.getTime() - nowMs <= startingSoonMinutes * 60 * 1000) {
+        return EVENT_STATUS.STARTING_SOON;
+    }
+
+    return EVENT_STATUS.SCHEDULED;
+}
+
+//Returns a copy of the event with its status derived for the given time
+export function withDerivedStatus<T extends { status: EventStatus; startTime: Date; endTime: Date }>(
+    event: T,
+    now: Date = new Date()
+): T {
+    const status = deriveEventStatus(event.status, event.startTime, event.endTime, now);
+    return status === event.status ? event : { ...event, status };
+}
+
+//Derives the status of every event in a list, returning the same list when none changed
+export function withDerivedStatuses<T extends { status: EventStatus; startTime: Date; endTime: Date }>(
+    events: T[],
+    now: Date = new Date()
+): T[] {
+    let hasChanged = false;
+    const next = events.map(event => {
+        const derived = withDerivedStatus(event, now);
+        if (derived !== event) hasChanged = true;
+        return derived;
+    });
+    return hasChanged ? next : events;
+}
+
+//Whether an event that's on has handed out every portion. Only counted food can run out, so an
+//event with an item nobody counts never shows as gone
+export function isFoodGone(event: {
+    status: EventStatus;
+    portionsRemaining?: number;
+    portionsTotal?: number;
+    foodOfferings?: FoodOffering[];
+}): boolean {
+    return (event.status === EVENT_STATUS.LIVE || event.status === EVENT_STATUS.RUNNING_LOW)
+        && (event.portionsTotal ?? 0) > 0
+        && event.portionsRemaining === 0
+        && !(event.foodOfferings || []).some(offering => offering.quantity === undefined || offering.remaining === undefined);
+}
+
+//What markers and badges show, food gone instead of the status once the food has run out
+export function displayStatus(event: Parameters<typeof isFoodGone>[0]): DisplayStatus {
+    return isFoodGone(event) ? FOOD_GONE : event.status;
+}
@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+
+import { findBuilding, toBuilding, validateBuilding, validateEventLocation, withCurrentBuilding } from './eventLocations';
+import { Building } from '@/types/event';
+
+const gsu: Building = {
+    id: 'gsu',
+    name: 'George Sherman Union (GSU)',
+    coordinates: [-71.10877, 42.35119],
+    address: '775 Commonwealth Avenue',
+    isActive: true,
+};
+
+describe('toBuilding', () => {
+    it('maps a catalog row', () => {
+        expect(toBuilding({
+            id: 'gsu',
+            name: 'George Sherman Union (GSU)',
+            address: '775 Commonwealth Avenue',
+            lng: -71.10877,
+            lat: 42.35119,
+            is_active: true,
+        })).toEqual(gsu);
+    });
+});
+
+describe('validateBuilding', () => {
+    it('accepts a complete building', () => {
+        expect(validateBuilding(gsu)).toBeNull();
+    });
+
+    it('needs a short lowercase code, a name and a pin', () => {
+        expect(validateBuilding({ ...gsu, id: 'GSU' })).toBe('Code must be 2 to 20 lowercase letters, numbers or dashes');
+        expect(validateBuilding({ ...gsu, name: '  ' })).toBe('Name is required');
+        expect(validateBuilding({ ...gsu, coordinates: [NaN, 42.35] })).toBe('Building must be a point on the map');
+    });
+});
+
+describe('validateEventLocation', () => {
+    it('accepts a building with a room and a custom spot', () => {
+        expect(validateEventLocation({ ...gsu, room: 'Room 310' })).toBeNull();
+        expect(validateEventLocation({ id: 'custom', name: 'BU Beach', coordinates: [-71.1045, 42.3519], address: '' })).toBeNull();
+    });
+
+    it('rejects missing names, pins off the globe and long text', () => {
+        expect(validateEventLocation({ ...gsu, name: '' })).toBe('Location name is required');
+        expect(validateEventLocation({ ...gsu, coordinates: [-200, 42] })).toBe('Location must be a point on the map');
+        expect(validateEventLocation({ ...gsu, room: 'x'.repeat(101) })).toBe('Room must be at most 100 characters');
+        expect(validateEventLocation({ ...gsu, instructions: 'x'.repeat(501) })).toBe('Directions must be at most 500 characters');
+    });
+});
+
+describe('findBuilding', () => {
+    it('matches the code or the name', () => {
+        expect(findBuilding([gsu], 'gsu')).toBe(gsu);
+        expect(findBuilding([gsu], 'George Sherman Union (GSU)')).toBe(gsu);
+        expect(findBuilding([gsu], 'GSU')).toBeUndefined();
+    });
+});
+
+describe('withCurrentBuilding', () => {
+    it('takes the catalog name and pin but keeps the room and directions', () => {
+        const saved = { ...gsu, name: 'GSU (old name)', coordinates: [-71.1, 42.3] as [number, number], room: 'Room 310', instructions: 'By the stairs' };
+
+        expect(withCurrentBuilding(saved, [gsu])).toEqual({ ...gsu, room: 'Room 310', instructions: 'By the stairs' });
+    });
+
+    it('leaves custom locations and buildings no longer listed alone', () => {
+        const beach = { id: 'custom', name: 'BU Beach', coordinates: [-71.1045, 42.3519] as [number, number], address: '' };
+
+        expect(withCurrentBuilding(beach, [gsu])).toBe(beach);
+        expect(withCurrentBuilding({ ...gsu, id: 'old' }, [gsu])).toEqual({ ...gsu, id: 'old' });
+    });
+});
@@ -0,0 +1,87 @@
+import { Building, EventLocation } from "@/types/event";
+import { CUSTOM_LOCATION_ID, LOCATION_LIMITS } from "@/constants/eventData";
+
+//Buildings and event locations without the database, for forms and validation. The catalog
+//itself is loaded and saved through locationService.
+
+export interface BuildingRow {
+    id: string;
+    name: string;
+    address: string;
+    lng: number;
+    lat: number;
+    is_active: boolean;
+}
+
+//A location that hasn't been picked yet, for new event forms
+export const EMPTY_LOCATION: EventLocation = {
+    id: "",
+    name: "",
+    coordinates: [NaN, NaN],
+    address: "",
+};
+
+const BUILDING_ID_PATTERN = /^[a-z0-9-]{2,20}$/;
+const MAX_BUILDING_NAME_LENGTH = 100;
+
+export function toBuilding(row: BuildingRow): Building {
+    return {
+        id: row.id,
+        name: row.name,
+        coordinates: [row.lng, row.lat],
+        address: row.address,
+        isActive: row.is_active,
+    };
+}
+
+const isValidCoordinates = ([lng, lat]: [number, number]) =>
+    Number.isFinite(lng) && Number.isFinite(lat) && Math.abs(lng) <= 180 && Math.abs(lat) <= 90;
+
+//What's wrong with a building before it's saved, or null when it's fine
+export function validateBuilding(building: Building): string | null {
+    if (!BUILDING_ID_PATTERN.test(building.id)) {
+        return "Code must be 2 to 20 lowercase letters, numbers or dashes";
+    }
+    if (!building.name.trim()) {
+        return "Name is required";
+    }
+    if (building.name.trim().length > MAX_BUILDING_NAME_LENGTH) {
+        return `Name must be at most ${MAX_BUILDING_NAME_LENGTH} characters`;
+    }
+    if (!isValidCoordinates(building.coordinates)) {
+        return "Building must be a point on the map";
+    }
+    return null;
+}
+
+//What's wrong with where an event is, or null when it's fine
+export function validateEventLocation(location: EventLocation): string | null {
+    if (!location.name.trim()) {
+        return "Location name is required";
+    }
+    if (!isValidCoordinates(location.coordinates)) {
+        return "Location must be a point on the map";
+    }
+    if ((location.room?.length ?? 0) > LOCATION_LIMITS.ROOM) {
+        return `Room must be at most ${LOCATION_LIMITS.ROOM} characters`;
+    }
+    if ((location.instructions?.length ?? 0) > LOCATION_LIMITS.INSTRUCTIONS) {
+        return `Directions must be at most ${LOCATION_LIMITS.INSTRUCTIONS} characters`;
+    }
+    return null;
+}
+
+//A building by its code or name, for API bodies and calendar feed URLs
+export function findBuilding(buildings: Building[], idOrName: string): Building | undefined {
+    return buildings.find(building => building.id === idOrName || building.name === idOrName);
+}
+
+//Brings a saved location (from a template, say) up to date with the catalog, keeping its room
+//and directions. Custom locations and buildings no longer in the catalog stay as they were.
+export function withCurrentBuilding(location: EventLocation, buildings: Building[]): EventLocation {
+    if (location.id === CUSTOM_LOCATION_ID) {
+        return location;
+    }
+    const building = buildings.find(b => b.id === location.id);
+    return building ? { ...building, room: location.room, instructions: location.instructions } : location;
+}
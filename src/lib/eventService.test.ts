@@ -0,0 +1,297 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+    adjustFoodQuantity,
+    cancelEvent,
+    cancelRsvp,
+    createEvent,
+    deleteEvent,
+    fetchEvent,
+    fetchEventFormData,
+    fetchEventsNear,
+    fetchPublicEvents,
+    fetchPublicEventsInBounds,
+    fetchPublicEventsPage,
+    getUserRsvp,
+    getWaitlistPosition,
+    joinWaitlist,
+    rsvpToEvent,
+    updateEvent,
+} from './eventService';
+import { createMemoryRepository, MemoryData } from './memoryRepository';
+import { createDemoData, DEMO_ORGANIZER_ID, DEMO_STUDENT_ID } from './demoData';
+import { EventRepository } from './repository';
+import { EventFormData } from '@/types/event';
+
+jest.mock('./supabaseClient', () => ({ __esModule: true, default: {} }));
+
+// GSU, the demo pizza night is there
+const GSU: [number, number] = [-71.10877, 42.35119];
+
+let repository: EventRepository;
+
+const setup = (overrides: Partial<MemoryData> = {}) => {
+    repository = createMemoryRepository({ ...createDemoData(new Date()), ...overrides });
+};
+
+const formData = (overrides: Partial<EventFormData> = {}): EventFormData => ({
+    title: 'Taco Tuesday',
+    startDateTime: new Date(Date.now() + 60 * 60 * 1000),
+    endDateTime: new Date(Date.now() + 2 * 60 * 60 * 1000),
+    location: {
+        id: 'gsu',
+        name: 'George Sherman Union (GSU)',
+        coordinates: GSU,
+        address: '775 Commonwealth Avenue',
+    },
+    foodOfferings: [{ name: 'Tacos', dietaryTags: [], quantity: 20 }],
+    organizerName: 'Spark Organizer',
+    organizerEmail: 'organizer@bu.edu',
+    maxAttendees: 2,
+    isPublic: true,
+    ...overrides,
+});
+
+beforeEach(() => setup());
+
+describe('fetching events', () => {
+    it('lists upcoming public events soonest first', async () => {
+        const events = await fetchPublicEvents(repository);
+
+        expect(events.map(event => event.id)).toEqual(['demo-seminar', 'demo-workshop', 'demo-pizza', 'demo-breakfast']);
+        expect(events[0]).toMatchObject({ status: 'live', attendees: 30, maxAttendees: 40, organizerName: 'Spark Organizer' });
+        expect(events[2]).toMatchObject({ attendees: 5, waitlistCount: 1 });
+    });
+
+    it('pages through the same list', async () => {
+        const { events, total } = await fetchPublicEventsPage(2, 3, repository);
+
+        expect(total).toBe(4);
+        expect(events.map(event => event.id)).toEqual(['demo-breakfast']);
+    });
+
+    it('finds events inside the map area', async () => {
+        const events = await fetchPublicEventsInBounds({ west: -71.11, south: 42.35, east: -71.105, north: 42.352 }, repository);
+
+        expect(events.map(event => event.id)).toEqual(['demo-pizza']);
+    });
+
+    it('finds events nearby, nearest first', async () => {
+        const events = await fetchEventsNear(GSU, 500, repository);
+
+        expect(events.map(event => event.id)).toEqual(['demo-pizza', 'demo-workshop', 'demo-seminar']);
+    });
+
+    it('rejects a radius that is not positive', async () => {
+        await expect(fetchEventsNear(GSU, 0, repository)).rejects.toThrow('Radius must be more than 0 meters');
+    });
+});
+
+describe('rsvpToEvent', () => {
+    it('adds the user to the attendees', async () => {
+        await rsvpToEvent('demo-workshop', DEMO_STUDENT_ID, repository);
+
+        expect((await fetchEvent('demo-workshop', repository)).attendees).toBe(13);
+        expect((await getUserRsvp(DEMO_STUDENT_ID, repository)).map(event => event.id)).toEqual(['demo-workshop']);
+    });
+
+    it('rejects a second RSVP', async () => {
+        await rsvpToEvent('demo-workshop', DEMO_STUDENT_ID, repository);
+
+        await expect(rsvpToEvent('demo-workshop', DEMO_STUDENT_ID, repository)).rejects.toThrow("You have already RSVP'd to this event");
+    });
+
+    it('rejects an RSVP once the event is at capacity', async () => {
+        await expect(rsvpToEvent('demo-pizza', DEMO_STUDENT_ID, repository)).rejects.toThrow('Event is full');
+        expect((await fetchEvent('demo-pizza', repository)).attendees).toBe(5);
+    });
+
+    it('rejects an RSVP to a cancelled event', async () => {
+        await cancelEvent('demo-workshop', DEMO_ORGANIZER_ID, 'Room flooded', 'this', repository);
+
+        await expect(rsvpToEvent('demo-workshop', DEMO_STUDENT_ID, repository)).rejects.toThrow('Event is no longer accepting RSVPs');
+    });
+
+    it('rejects an RSVP for someone else', async () => {
+        await expect(rsvpToEvent('demo-workshop', DEMO_ORGANIZER_ID, repository)).rejects.toThrow('You can only RSVP for yourself');
+    });
+
+    it('rejects an RSVP to an event that does not exist', async () => {
+        await expect(rsvpToEvent('missing', DEMO_STUDENT_ID, repository)).rejects.toThrow('Event not found');
+    });
+});
+
+describe('cancelRsvp and the waitlist', () => {
+    beforeEach(() => setup({ signedInProfileId: null }));
+
+    it('gives the freed spot to the first person on the waitlist', async () => {
+        const { promotedUserId } = await cancelRsvp('demo-pizza', 'demo-pizza-guest-1', repository);
+
+        expect(promotedUserId).toBe('demo-pizza-guest-6');
+        expect(await repository.findAttendee('demo-pizza', 'demo-pizza-guest-6')).not.toBeNull();
+        expect(await fetchEvent('demo-pizza', repository)).toMatchObject({ attendees: 5, waitlistCount: 0 });
+    });
+
+    it('skips a suspended user at the front of the line', async () => {
+        const demo = createDemoData(new Date());
+        setup({
+            signedInProfileId: null,
+            profiles: demo.profiles.map(profile => profile.id === DEMO_STUDENT_ID
+                ? { ...profile, suspended_at: demo.events[0].created_at, suspension_reason: 'Spam' }
+                : profile),
+            waitlist: [
+                { id: 'suspended-in-line', event_id: 'demo-pizza', user_id: DEMO_STUDENT_ID, position: 0, joined_at: demo.events[0].created_at },
+                ...demo.waitlist,
+            ],
+        });
+
+        const { promotedUserId } = await cancelRsvp('demo-pizza', 'demo-pizza-guest-1', repository);
+
+        expect(promotedUserId).toBe('demo-pizza-guest-6');
+        expect(await repository.findAttendee('demo-pizza', DEMO_STUDENT_ID)).toBeNull();
+        expect(await getWaitlistPosition('demo-pizza', DEMO_STUDENT_ID, repository)).toBe(1);
+    });
+
+    it('promotes nobody when the waitlist is empty', async () => {
+        const { promotedUserId } = await cancelRsvp('demo-workshop', 'demo-workshop-guest-1', repository);
+
+        expect(promotedUserId).toBeNull();
+        expect((await fetchEvent('demo-workshop', repository)).attendees).toBe(11);
+    });
+
+    it('joins the back of the line for a full event', async () => {
+        expect(await joinWaitlist('demo-pizza', DEMO_STUDENT_ID, repository)).toBe(2);
+        expect(await getWaitlistPosition('demo-pizza', DEMO_STUDENT_ID, repository)).toBe(2);
+
+        await expect(joinWaitlist('demo-pizza', DEMO_STUDENT_ID, repository)).rejects.toThrow('You are already on the waitlist for this event');
+    });
+
+    it('only waitlists events that are full', async () => {
+        await expect(joinWaitlist('demo-workshop', DEMO_STUDENT_ID, repository)).rejects.toThrow('Event still has spots available');
+    });
+});
+
+describe('creating and editing events', () => {
+    it('creates an event with its food', async () => {
+        const created = await createEvent(formData(), DEMO_ORGANIZER_ID, repository);
+        const event = await fetchEvent(created.id, repository);
+
+        expect(event).toMatchObject({ title: 'Taco Tuesday', status: 'scheduled', maxAttendees: 2, portionsRemaining: 20 });
+        expect(event.coords).toEqual(GSU);
+    });
+
+    it('only lets faculty post events', async () => {
+        await expect(createEvent(formData(), DEMO_STUDENT_ID, repository)).rejects.toThrow('Only faculty can post events');
+    });
+
+    it('creates every occurrence of a recurring event', async () => {
+        const created = await createEvent(formData({ recurrence: { frequency: 'weekly', weekdays: [], count: 3, exceptDates: [] } }), DEMO_ORGANIZER_ID, repository);
+
+        const organizerEvents = await repository.findOrganizerEvents(DEMO_ORGANIZER_ID);
+        expect(organizerEvents.filter(event => event.series_id === created.series_id)).toHaveLength(3);
+        expect((await fetchEventFormData(created.id, repository)).recurrence).toMatchObject({ frequency: 'weekly', count: 3 });
+    });
+
+    it('saves changes and keeps the RSVPs', async () => {
+        const form = await fetchEventFormData('demo-workshop', repository);
+
+        const event = await updateEvent('demo-workshop', { ...form, title: 'Robotics Workshop', maxAttendees: 30 }, DEMO_ORGANIZER_ID, repository);
+
+        expect(event).toMatchObject({ title: 'Robotics Workshop', maxAttendees: 30, attendees: 12 });
+    });
+
+    it('only lets the organizer edit or delete an event', async () => {
+        const form = await fetchEventFormData('demo-workshop', repository);
+
+        await expect(updateEvent('demo-workshop', form, DEMO_STUDENT_ID, repository)).rejects.toThrow('Only the organizer can edit this event');
+        await expect(deleteEvent('demo-workshop', DEMO_STUDENT_ID, repository)).rejects.toThrow('Only the organizer can delete this event');
+    });
+});
+
+describe('cancelEvent', () => {
+    it('cancels the event and counts the attendees to notify', async () => {
+        const result = await cancelEvent('demo-pizza', DEMO_ORGANIZER_ID, 'Oven broke', 'this', repository);
+
+        expect(result.notifiedAttendees).toBe(5);
+        expect(result.event).toMatchObject({ status: 'cancelled', cancellationReason: 'Oven broke' });
+        expect((await fetchPublicEvents(repository)).map(event => event.id)).not.toContain('demo-pizza');
+    });
+
+    it('notifies every attendee and everyone on the waitlist', async () => {
+        const { notifiedUserIds } = await cancelEvent('demo-pizza', DEMO_ORGANIZER_ID, 'Oven broke', 'this', repository);
+
+        expect(notifiedUserIds).toEqual([
+            'demo-pizza-guest-1',
+            'demo-pizza-guest-2',
+            'demo-pizza-guest-3',
+            'demo-pizza-guest-4',
+            'demo-pizza-guest-5',
+            'demo-pizza-guest-6',
+        ]);
+    });
+
+    it('leaves the notice in the inbox of everyone notified', async () => {
+        await cancelEvent('demo-pizza', DEMO_ORGANIZER_ID, 'Oven broke', 'this', repository);
+
+        const { notifications, total } = await repository.findNotifications('demo-pizza-guest-6');
+        expect(total).toBe(1);
+        expect(notifications[0]).toMatchObject({ title: 'Event cancelled', message: 'Pizza Night was cancelled: Oven broke', read: false });
+        expect(await repository.markNotificationsRead('demo-pizza-guest-6', 'all')).toBe(1);
+        expect(await repository.countUnreadNotifications('demo-pizza-guest-6')).toBe(0);
+    });
+
+    it('notifies someone going to several occurrences of a series once', async () => {
+        const created = await createEvent(formData({ recurrence: { frequency: 'weekly', weekdays: [], count: 3, exceptDates: [] } }), DEMO_ORGANIZER_ID, repository);
+        const occurrences = (await repository.findOrganizerEvents(DEMO_ORGANIZER_ID)).filter(event => event.series_id === created.series_id);
+        for (const occurrence of occurrences) {
+            await rsvpToEvent(occurrence.id, DEMO_STUDENT_ID, repository);
+        }
+
+        const { notifiedUserIds, notifiedAttendees } = await cancelEvent(created.id, DEMO_ORGANIZER_ID, 'Semester ended', 'all', repository);
+
+        expect(notifiedUserIds).toEqual([DEMO_STUDENT_ID]);
+        expect(notifiedAttendees).toBe(1);
+    });
+
+    it('requires a reason', async () => {
+        await expect(cancelEvent('demo-pizza', DEMO_ORGANIZER_ID, '  ', 'this', repository)).rejects.toThrow('A cancellation reason is required');
+    });
+
+    it('cancels the following occurrences of a series', async () => {
+        const created = await createEvent(formData({ recurrence: { frequency: 'weekly', weekdays: [], count: 3, exceptDates: [] } }), DEMO_ORGANIZER_ID, repository);
+
+        const { cancelledEventIds } = await cancelEvent(created.id, DEMO_ORGANIZER_ID, 'Semester ended', 'following', repository);
+
+        expect(cancelledEventIds).toHaveLength(3);
+    });
+});
+
+describe('adjustFoodQuantity', () => {
+    beforeEach(() => setup({ signedInProfileId: DEMO_ORGANIZER_ID }));
+
+    it('keeps serving at zero portions so the last one can be counted back in', async () => {
+        // The seminar has started and has 18 of 40 sandwiches left
+        expect(await adjustFoodQuantity('demo-seminar-sandwiches', -17, repository)).toEqual({ remaining: 1, eventStatus: 'running_low' });
+        expect(await adjustFoodQuantity('demo-seminar-sandwiches', -1, repository)).toEqual({ remaining: 0, eventStatus: 'running_low' });
+        expect(await adjustFoodQuantity('demo-seminar-sandwiches', 1, repository)).toEqual({ remaining: 1, eventStatus: 'running_low' });
+    });
+
+    it('goes back to live once a restock is past the running low share', async () => {
+        await adjustFoodQuantity('demo-seminar-sandwiches', -18, repository);
+
+        expect(await adjustFoodQuantity('demo-seminar-sandwiches', 11, repository)).toEqual({ remaining: 11, eventStatus: 'live' });
+        expect((await fetchEvent('demo-seminar', repository)).portionsRemaining).toBe(11);
+    });
+
+    it('only lets the organizer count portions', async () => {
+        setup();
+
+        await expect(adjustFoodQuantity('demo-seminar-sandwiches', -1, repository)).rejects.toThrow('Only the organizer can update portions');
+    });
+
+    it('refuses items without a count', async () => {
+        await expect(adjustFoodQuantity('demo-workshop-cookies', -1, repository)).rejects.toThrow("This item doesn't have a portion count");
+    });
+});
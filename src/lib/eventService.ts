@@ -1,144 +1,385 @@
 import { transform } from "next/dist/build/swc/generated-native";
-import supabase from "./supabaseClient";
-import { DashboardEvent, EventFormData } from "@/types/event"
+import { DashboardEvent, EventFormData, EventStatus, SeriesScope } from "@/types/event"
+import { TablesUpdate } from "@/types/database";
+import { CUSTOM_LOCATION_ID } from "@/constants/eventData";
+import { EVENT_STATUS, MAP_VIEWPORT, NEARBY_EVENTS } from "@/constants/map";
+import { MapBounds } from "@/types/map";
+import { assertTransition, deriveEventStatus } from "./eventLifecycle";
+import { toFoodOfferings, withMatchingItemIds } from "./foodInventory";
+import { normalizeOfferingTags } from "./dietaryRules";
+import { canEditEvent, hasPermission, toUserRole } from "./permissions";
+import { expandRecurrence, shiftOccurrence, validateRecurrence } from "./recurrence";
+import { validateEventLocation } from "./eventLocations";
+import { toPointValue } from "./geo";
+import { AdjustFoodResult, EventRecord, EventRepository, EventRow, getEventRepository, RsvpResult, toCoordinates, toDashboardEvent } from "./repository";
 import { title } from "process";
 
-//Events table representing the structure of the events in the database
-
-interface EventTable {
-    id: string;
-    title: string;
-    location: string;
-    location_coordinates: any;
-    description: string | null;
-    start_time: string;
-    end_time: string;
-    organizer_id: string;
-    max_attendees: number;
-    status: "available" | "starting soon" | "cancelled";
-    is_public: boolean;
-    food_offerings: any;
-    created_at: string;
-    updated_at: string;
-}
+//Services take an optional repository, API routes pass one that runs as the calling user
+//(createSupabaseRepository(auth.supabase)) and tests pass an in-memory one
 
-export async function fetchPublicEvents() {
+export async function fetchPublicEvents(repository: EventRepository = getEventRepository()) {
     try {
         // Add more detailed logging
         console.log("Attempting to fetch public events");
-        
-        const { data, error } = await supabase
-            .from("events")
-            .select(`
-                *,
-                profiles:organizer_id (full_name, email),
-                event_attendees!event_id (id)
-            `) // Get the count of attendees
-            .eq("is_public", true)
-            .eq("status", "available")
-            .order("start_time", { ascending: true });
-
-        if (error) {
-            console.error("Error fetching public events:", error.message, error.details);
-            throw error;
-        }
-
-        console.log("Events fetched successfully:", data?.length || 0);
-        return transformEvents(data || []);
+
+        // Each event comes with its attendee and waitlist ids and the food left
+        const { records } = await repository.findUpcomingPublicEvents();
+
+        console.log("Events fetched successfully:", records.length);
+        return records.map(toDashboardEvent);
     } catch (err) {
         console.error("Exception in fetchPublicEvents:", err);
         throw err;
     }
 }
 
-export async function getUserRsvp(userId: string) {
-    const { data, error } = await supabase
-        .from("event_attendees")
-        .select(`event_id, 
-            events:event_id (*, 
-            profiles:organizer_id (name, email))`)
-        .eq("user_id", userId);
+//One page of the public events, in the same order as fetchPublicEvents
+export async function fetchPublicEventsPage(page: number, pageSize: number, repository: EventRepository = getEventRepository()) {
+    const from = (page - 1) * pageSize;
+    const { records, total } = await repository.findUpcomingPublicEvents({ from, to: from + pageSize - 1 });
+    return { events: records.map(toDashboardEvent), total };
+}
+
+//Public events inside an area of the map, in the same order as fetchPublicEvents
+export async function fetchPublicEventsInBounds(bounds: MapBounds, repository: EventRepository = getEventRepository()) {
+    const records = await repository.findUpcomingPublicEventsInBounds(bounds, MAP_VIEWPORT.MAX_EVENTS);
+    return records.map(toDashboardEvent);
+}
 
-    if (error) {
-        console.error("Unable to fetch user RSVP events:", error);
-        throw error;
+//Public events within radiusMeters of a spot, nearest first
+export async function fetchEventsNear(coords: [number, number], radiusMeters: number, repository: EventRepository = getEventRepository()) {
+    if (!(radiusMeters > 0)) {
+        throw new Error("Radius must be more than 0 meters");
     }
 
-    const eventRecords = data?.map(item => item.events) || [];
-    return transformEvents(eventRecords);
+    const records = await repository.findUpcomingPublicEventsNear(coords, radiusMeters, NEARBY_EVENTS.MAX_EVENTS);
+    return records.map(toDashboardEvent);
 }
 
-    //Creating a new event
-    export async function createEvent(eventData: EventFormData, userId: string) {
-        //takes in the form data turns it into database format
-        const eventRecord = {
+//Events an organizer posted, newest first and including past ones, for duplicating and templates
+export async function fetchOrganizerEvents(organizerId: string, limit: number = 50, repository: EventRepository = getEventRepository()) {
+    const records = await repository.findOrganizerEvents(organizerId, { limit });
+    return records.map(toDashboardEvent);
+}
+
+//The events a user has RSVP'd to
+export async function getUserRsvp(userId: string, repository: EventRepository = getEventRepository()) {
+    return (await repository.findAttendingEvents(userId)).map(toDashboardEvent);
+}
+
+//The role permission checks go by, "User not found" when there's no such profile
+async function fetchUserRole(profileId: string, repository: EventRepository) {
+    const profile = await repository.findProfile(profileId);
+    if (!profile) {
+        throw new Error("User not found");
+    }
+    return toUserRole(profile.role);
+}
+
+    //Converts the editable form fields into their database columns
+    type EventColumns = ReturnType<typeof toEventColumns>;
+
+    function toEventColumns(eventData: EventFormData) {
+        return {
             title: eventData.title,
             location: eventData.location.name,
-            location_coordinates: `(${eventData.location.coordinates[0]}, ${eventData.location.coordinates[1]})`,
+            location_point: toPointValue(eventData.location.coordinates),
+            building_id: eventData.location.id === CUSTOM_LOCATION_ID ? null : eventData.location.id,
+            location_address: eventData.location.address || null,
+            location_room: eventData.location.room?.trim() || null,
+            location_instructions: eventData.location.instructions?.trim() || null,
+            description: eventData.description || null,
             start_time: eventData.startDateTime.toISOString(), //Referenced ChatGPT
             end_time: eventData.endDateTime.toISOString(),
-            organizer_id: userId,
             max_attendees: eventData.maxAttendees || null,
-            status: "available",
-            is_public: eventData.isPublic,
-            food_offerings: eventData.foodOfferings
+            is_public: eventData.isPublic
         };
+    }
 
-        // Inserting the event into the database
-        const {data, error} = await supabase
-        .from ("events")
-        .insert(eventRecord)
-        .select()
-        .single();
+    //Creating a new event. Recurring events create every occurrence up front and return the first.
+    export async function createEvent(eventData: EventFormData, userId: string, repository: EventRepository = getEventRepository()) {
+        if (!hasPermission(await fetchUserRole(userId, repository), "create_event")) {
+            throw new Error("Only faculty can post events");
+        }
 
-        if (error) {
-            console.error("Unable to create event:", error);
-            throw error;
+        const locationProblem = validateEventLocation(eventData.location);
+        if (locationProblem) {
+            throw new Error(locationProblem);
         }
-        return data;
-    }
 
-    export async function rsvpToEvent(eventId: string, userId: string) {
-        try {
-            console.log("Attempting RSVP with:", { eventId, userId });
+        //contradictory allergen tags are a safety problem, reject them before anything is saved
+        const foodOfferings = normalizeOfferingTags(eventData.foodOfferings);
 
-            const { data: eventData, error: eventError } = await supabase //checks if the events is at capacity
-            .from("events")
-            .select(`
-                max_attendees,
-                event_attendees!event_id (id)
-            `)
-            .eq("id", eventId) //finds the specific event
-            .single(); //expects only one event
-            
-            if (eventError) { //appears if event cannot be found
-                throw new Error("Event not found");
+        const { recurrence, startDateTime, endDateTime } = eventData;
+        if (recurrence) {
+            const problem = validateRecurrence(startDateTime, endDateTime, recurrence);
+            if (problem) {
+                throw new Error(problem);
             }
+        }
 
-            //calculate the current number of attendees
-            const currentAttendees = eventData.event_attendees?.length || 0;
+        const occurrences = recurrence
+            ? expandRecurrence(startDateTime, endDateTime, recurrence)
+            : [{ start: startDateTime, end: endDateTime }];
+        const seriesId = recurrence ? await repository.insertSeries(userId, recurrence) : null;
+
+        //takes in the form data turns it into database format
+        const eventRecords = occurrences.map(occurrence => ({
+            ...toEventColumns(eventData),
+            start_time: occurrence.start.toISOString(),
+            end_time: occurrence.end.toISOString(),
+            organizer_id: userId,
+            status: EVENT_STATUS.SCHEDULED,
+            series_id: seriesId,
+        }));
+
+        // Inserting the events into the database
+        const data = await repository.insertEvents(eventRecords);
+
+        //food goes into its own inventory rows once the events exist
+        for (const event of data) {
+            await repository.saveFoodItems(event.id, foodOfferings);
+        }
+        return data[0];
+    }
 
-            //checks if the event is at capcity
-            if (eventData.max_attendees && currentAttendees >= eventData.max_attendees) {
-                throw new Error("Event is full");
+    //The other occurrences of a series an edit or cancellation also applies to. Occurrences that
+    //already ended or were cancelled are history and are left alone.
+    async function fetchSeriesOccurrences(
+        seriesId: string,
+        from: { id: string; start_time: string },
+        scope: SeriesScope,
+        repository: EventRepository
+    ): Promise<EventRecord[]> {
+        if (scope === "this") {
+            return [];
+        }
+
+        return repository.findSeriesOccurrences(seriesId, {
+            excludeId: from.id,
+            startsAfter: scope === "following" ? from.start_time : undefined,
+        });
+    }
+
+    //Loads an event back into the shape the AddEventModal form expects
+    export async function fetchEventFormData(eventId: string, repository: EventRepository = getEventRepository()): Promise<EventFormData> {
+        const data = await repository.findEvent(eventId);
+        const recurrence = data.series_id ? await repository.findSeriesRecurrence(data.series_id) : null;
+
+        return {
+            title: data.title,
+            startDateTime: new Date(data.start_time),
+            endDateTime: new Date(data.end_time),
+            location: {
+                id: data.building_id || CUSTOM_LOCATION_ID,
+                name: data.location,
+                coordinates: toCoordinates(data.location_point),
+                address: data.location_address || "",
+                room: data.location_room || undefined,
+                instructions: data.location_instructions || undefined,
+            },
+            description: data.description || "",
+            foodOfferings: toFoodOfferings(data.food_items),
+            organizerName: data.profiles?.full_name || "",
+            organizerEmail: data.profiles?.email || "",
+            maxAttendees: data.max_attendees || undefined,
+            isPublic: data.is_public,
+            recurrence: recurrence || undefined,
+        };
+    }
+
+    //Updating an existing event, only the organizer (or an admin) is allowed to do this.
+    //For an occurrence of a recurring event, scope also applies the edit to the following or all
+    //occurrences, each moved the way this one moved.
+    export async function updateEvent(
+        eventId: string,
+        eventData: EventFormData,
+        userId: string,
+        repository: EventRepository = getEventRepository(),
+        scope: SeriesScope = "this"
+    ) {
+        const existing = await repository.findEvent(eventId);
+
+        if (!canEditEvent(await fetchUserRole(userId, repository), existing.organizer_id === userId)) { //ownership check
+            throw new Error("Only the organizer can edit this event");
+        }
+
+        const locationProblem = validateEventLocation(eventData.location);
+        if (locationProblem) {
+            throw new Error(locationProblem);
+        }
+
+        const foodOfferings = normalizeOfferingTags(eventData.foodOfferings);
+        const nextColumns = toEventColumns(eventData);
+        await saveEventColumns(existing, nextColumns, repository);
+
+        //the repository keeps portions already handed out when counts change
+        await repository.saveFoodItems(eventId, foodOfferings);
+
+        const others = existing.series_id
+            ? await fetchSeriesOccurrences(existing.series_id, existing, scope, repository)
+            : [];
+        for (const occurrence of others) {
+            const { start, end } = shiftOccurrence(
+                new Date(occurrence.start_time),
+                new Date(existing.start_time),
+                { start: eventData.startDateTime, end: eventData.endDateTime }
+            );
+            await saveEventColumns(occurrence, {
+                ...nextColumns,
+                start_time: start.toISOString(),
+                end_time: end.toISOString(),
+            }, repository);
+            //the food ids in the form belong to this occurrence, match them to the other one's items
+            await repository.saveFoodItems(occurrence.id, withMatchingItemIds(foodOfferings, occurrence.food_items || []));
+        }
+
+        return fetchEvent(eventId, repository);
+    }
+
+    //Writes the columns that differ from the stored event, if any
+    async function saveEventColumns(existing: EventRow, nextColumns: EventColumns, repository: EventRepository) {
+        const changes: Partial<EventColumns> = {};
+        const copyColumn = <K extends keyof EventColumns>(column: K) => {
+            changes[column] = nextColumns[column];
+        };
+        (Object.keys(nextColumns) as Array<keyof EventColumns>).forEach((column) => {
+            if (hasColumnChanged(column, existing[column], nextColumns[column])) {
+                copyColumn(column);
             }
+        });
+
+        if (Object.keys(changes).length === 0) {
+            return;
+        }
+
+        await repository.updateEvent(existing.id, changes);
+    }
+
+    //Deletes an event outright, only the organizer (or an admin) is allowed to do this
+    export async function deleteEvent(eventId: string, userId: string, repository: EventRepository = getEventRepository()) {
+        const existing = await repository.findEvent(eventId);
 
-            const { error: insertError } = await supabase //inserts new RSVP into the database in the event_attendees joint table
-            .from("event_attendees")
-            .insert({
-                event_id: eventId,
-                user_id: userId,
-                rsvp_time: new Date().toISOString() //stores the timestamp of rsvp
-            });
-                    
-            if (insertError) {
-                console.error("Insert error:", insertError);
-
-                if(insertError.code === '23505') { //postgreSql function that checks for duplicate entries
-                    throw new Error("You have already RSVP'd to this event");
-                }
-
-                throw new Error("Failed to RSVP to event");
+        if (!canEditEvent(await fetchUserRole(userId, repository), existing.organizer_id === userId)) {
+            throw new Error("Only the organizer can delete this event");
+        }
+
+        await repository.deleteEvent(eventId);
+    }
+
+    //Moves an event to a new lifecycle status, only the organizer (or an admin) is allowed to do this.
+    //Moderators can also cancel events they don't organize.
+    export async function transitionEventStatus(
+        eventId: string,
+        nextStatus: EventStatus,
+        userId: string,
+        extraColumns: TablesUpdate<"events"> = {},
+        repository: EventRepository = getEventRepository()
+    ) {
+        const existing = await repository.findEvent(eventId);
+
+        const role = await fetchUserRole(userId, repository);
+        const canModerate = nextStatus === EVENT_STATUS.CANCELLED && hasPermission(role, "moderate");
+        if (!canEditEvent(role, existing.organizer_id === userId) && !canModerate) {
+            throw new Error("Only the organizer can change this event");
+        }
+
+        //the stored status can lag behind the clock, so check against the derived one
+        const currentStatus = deriveEventStatus(
+            existing.status as EventStatus,
+            new Date(existing.start_time),
+            new Date(existing.end_time)
+        );
+        assertTransition(currentStatus, nextStatus);
+
+        //the status filter makes this a compare-and-set, so two concurrent transitions can't both win
+        const updated = await repository.updateEvent(eventId, { ...extraColumns, status: nextStatus }, existing.status);
+
+        if (!updated) {
+            throw new Error("Event was changed by someone else, please refresh");
+        }
+
+        return fetchEvent(eventId, repository);
+    }
+
+    //Cancels an event and tells everyone who RSVP'd. For an occurrence of a recurring event,
+    //scope also cancels the following or all occurrences that haven't happened yet.
+    export async function cancelEvent(
+        eventId: string,
+        userId: string,
+        reason: string,
+        scope: SeriesScope = "this",
+        repository: EventRepository = getEventRepository()
+    ) {
+        if (!reason.trim()) {
+            throw new Error("A cancellation reason is required");
+        }
+
+        const cancelColumns = {
+            cancellation_reason: reason.trim(),
+            cancelled_at: new Date().toISOString(),
+        };
+        const cancelledEvent = await transitionEventStatus(eventId, EVENT_STATUS.CANCELLED, userId, cancelColumns, repository);
+
+        const others = cancelledEvent.seriesId
+            ? await fetchSeriesOccurrences(cancelledEvent.seriesId, { id: eventId, start_time: cancelledEvent.startTime.toISOString() }, scope, repository)
+            : [];
+        for (const occurrence of others) {
+            await transitionEventStatus(occurrence.id, EVENT_STATUS.CANCELLED, userId, cancelColumns, repository);
+        }
+
+        //one notification per attendee and waitlisted user, however many occurrences they RSVP'd to.
+        //The events are already cancelled, so a failure here is logged rather than thrown.
+        const cancelledEventIds = [eventId, ...others.map(occurrence => occurrence.id)];
+        const notifiedUserIds = await repository.notifyCancellation(cancelledEventIds).catch((error): string[] => {
+            console.error("Unable to notify attendees of the cancellation:", error);
+            return [];
+        });
+        const attendees = await repository.findAttendeeUserIds(cancelledEventIds).catch((): string[] => []);
+
+        return {
+            event: cancelledEvent,
+            cancelledEventIds: cancelledEventIds,
+            notifiedUserIds: notifiedUserIds,
+            notifiedAttendees: notifiedUserIds.filter(userId => attendees.includes(userId)).length,
+        };
+    }
+
+    //Fetches a single event in the dashboard format
+    export async function fetchEvent(eventId: string, repository: EventRepository = getEventRepository()): Promise<DashboardEvent> {
+        return toDashboardEvent(await repository.findEvent(eventId));
+    }
+
+    //Compares a stored column against its new value, normalizing formats the database rewrites
+    function hasColumnChanged(column: keyof EventColumns, before: unknown, after: unknown): boolean {
+        switch (column) {
+            case "start_time":
+            case "end_time":
+                return new Date(String(before)).getTime() !== new Date(String(after)).getTime();
+            case "location_point":
+                //stored as EWKB, written as EWKT
+                return toPointValue(toCoordinates(before)) !== after;
+            default:
+                return (before ?? null) !== (after ?? null);
+        }
+    }
+
+    const RSVP_ERRORS: Record<Exclude<RsvpResult, "ok">, string> = {
+        not_found: "Event not found",
+        closed: "Event is no longer accepting RSVPs",
+        duplicate: "You have already RSVP'd to this event",
+        full: "Event is full",
+        forbidden: "You can only RSVP for yourself",
+    };
+
+    export async function rsvpToEvent(eventId: string, userId: string, repository: EventRepository = getEventRepository()) {
+        try {
+            console.log("Attempting RSVP with:", { eventId, userId });
+
+            const result = await repository.rsvp(eventId, userId);
+
+            if (result !== "ok") {
+                throw new Error(RSVP_ERRORS[result] || "Failed to RSVP to event");
             }
                 return true;
         }catch (error) {
@@ -153,57 +394,79 @@ export async function getUserRsvp(userId: string) {
 
     
 
-    export async function cancelRsvp(eventId: string, userId: string) {
-        const {error} = await supabase
-            .from("event_attendees")
-            .delete()
-            .eq("event_id", eventId)
-            .eq("user_id", userId);
+    const ADJUST_FOOD_ERRORS: Record<Exclude<AdjustFoodResult, "ok">, string> = {
+        not_found: "Food item not found",
+        forbidden: "Only the organizer can update portions",
+        closed: "This event is no longer serving food",
+        untracked: "This item doesn't have a portion count",
+    };
 
-            if (error) {
-                console.error("Error cancelling RSVP:", error);
-                throw error;
-            }
+    //Hands out (negative delta) or puts back (positive delta) portions of a food item. Running out
+    //leaves the event running_low rather than ending it, so a mis-tap or a restock can be counted back in.
+    export async function adjustFoodQuantity(foodItemId: string, delta: number, repository: EventRepository = getEventRepository()) {
+        const { result, quantity, eventStatus } = await repository.adjustFoodQuantity(foodItemId, delta);
+
+        if (result !== "ok") {
+            throw new Error(ADJUST_FOOD_ERRORS[result]);
+        }
+        return { remaining: quantity as number, eventStatus: eventStatus as EventStatus };
+    }
+
+    export async function cancelRsvp(eventId: string, userId: string, repository: EventRepository = getEventRepository()) {
+        await repository.deleteAttendee(eventId, userId);
+
+            //hand the freed seat to the next person on the waitlist
+            const promotedUserId = await repository.promoteFromWaitlist(eventId);
+
+            return { promotedUserId };
+        }
+
+    //Joins the waitlist for a full event and returns the user's place in line
+    export async function joinWaitlist(eventId: string, userId: string, repository: EventRepository = getEventRepository()) {
+        const eventData = await repository.findEvent(eventId);
+
+        if (await repository.findAttendee(eventId, userId)) {
+            throw new Error("You have already RSVP'd to this event");
+        }
 
-            return true;
-        }
-
-        function transformEvents(records: any []) : DashboardEvent[] {
-            return records.map((record) => {
-                let coords: [number, number] = [-71.1097, 42.3505]; //BU coordinates
-                if (record.location_coordinates) {
-                    // Remove parentheses and split by comma
-                    const coordString = record.location_coordinates.replace(/[()]/g, '');
-                    const [lng, lat] = coordString.split(',').map(Number);
-                    coords = [lng, lat];
-                }
-
-                const startTime = new Date(record.start_time);
-                const endTime = new Date(record.end_time);
-                const timeRange = `${formatTime(startTime)} - ${formatTime(endTime)}`;
-                const attendeeCount = Array.isArray(record.event_attendees) 
-                ? record.event_attendees.length 
-                : 0;
-
-                return {
-                    id: record.id,
-                    title: record.title,
-                    location: record.location,
-                    time: timeRange,
-                    attendees: attendeeCount,
-                    status: record.status,
-                    coords: coords,
-                    description: record.description || "",
-                    foodOfferings: record.food_offerings || [],
-                    organizerName: record.profiles?.full_name || "",
-                    organizerEmail: record.profiles?.email || "",
-                    maxAttendees: record.max_attendees,
-                    isPublic: record.is_public,
-                };
-            });
-        }
-
-        //Helper function to format time
-        function formatTime(data: Date): string {
-            return data.toLocaleTimeString([], {hour: 'numeric', minute: '2-digit'});
+        //the waitlist is only for events that are actually full
+        const attendeeCount = eventData.event_attendees?.length ?? 0;
+        if (!eventData.max_attendees || attendeeCount < eventData.max_attendees) {
+            throw new Error("Event still has spots available");
         }
+
+        if (await repository.joinWaitlist(eventId, userId) === "duplicate") {
+            throw new Error("You are already on the waitlist for this event");
+        }
+
+        const position = await getWaitlistPosition(eventId, userId, repository);
+        return position ?? 1;
+    }
+
+    export async function leaveWaitlist(eventId: string, userId: string, repository: EventRepository = getEventRepository()) {
+        await repository.leaveWaitlist(eventId, userId);
+
+        return true;
+    }
+
+    //Returns the user's place in line (1 = next to be promoted), or null if they aren't waitlisted
+    export async function getWaitlistPosition(eventId: string, userId: string, repository: EventRepository = getEventRepository()): Promise<number | null> {
+        const userIds = await repository.findWaitlistUserIds(eventId);
+
+        const index = userIds.indexOf(userId);
+        return index === -1 ? null : index + 1;
+    }
+
+    //Places in line for every event the user is waitlisted on, keyed by event id
+    export async function getUserWaitlistPositions(userId: string, repository: EventRepository = getEventRepository()): Promise<Record<string, number>> {
+        const eventIds = await repository.findWaitlistedEventIds(userId);
+
+        const positions: Record<string, number> = {};
+        await Promise.all(eventIds.map(async (eventId) => {
+            const position = await getWaitlistPosition(eventId, userId, repository);
+            if (position !== null) {
+                positions[eventId] = position;
+            }
+        }));
+        return positions;
+    }
@@ -0,0 +1,69 @@
+/**
+ * @jest-environment node
+ */
+
+import { duplicateEventFormData, templateToFormData, toEventTemplate, toTemplateData } from './eventTemplates';
+import { EventFormData } from '@/types/event';
+
+const gsu = { id: 'gsu', name: 'George Sherman Union (GSU)', coordinates: [-71.10877, 42.35119] as [number, number], address: '775 Commonwealth Avenue' };
+
+const formData = (overrides: Partial<EventFormData> = {}): EventFormData => ({
+    title: 'Pizza Lunch',
+    startDateTime: new Date(2026, 9, 19, 12, 0),
+    endDateTime: new Date(2026, 9, 19, 13, 30),
+    location: gsu,
+    description: 'Weekly seminar',
+    foodOfferings: [{ id: 'pizza-1', name: 'Pizza', dietaryTags: [], quantity: 20, remaining: 4 }],
+    organizerName: 'Dr. Smith',
+    organizerEmail: 'smith@bu.edu',
+    maxAttendees: 30,
+    isPublic: true,
+    recurrence: { frequency: 'weekly', weekdays: [1], count: 4, exceptDates: [] },
+    ...overrides,
+});
+
+describe('toTemplateData', () => {
+    it('keeps the menu and length but not the inventory', () => {
+        expect(toTemplateData(formData())).toEqual({
+            title: 'Pizza Lunch',
+            description: 'Weekly seminar',
+            location: gsu,
+            foodOfferings: [{ name: 'Pizza', dietaryTags: [], quantity: 20 }],
+            maxAttendees: 30,
+            isPublic: true,
+            durationMinutes: 90,
+        });
+    });
+});
+
+describe('templateToFormData', () => {
+    it('fills the form from the template at the start already picked', () => {
+        const template = toEventTemplate({
+            id: 'template-1',
+            name: 'Pizza order',
+            data: toTemplateData(formData()),
+            updated_at: '2026-10-18T12:00:00Z',
+        });
+        const current = formData({ title: '', startDateTime: new Date(2026, 10, 2, 11, 0), organizerName: 'Dr. Jones', foodOfferings: [] });
+
+        const filled = templateToFormData(template, current);
+
+        expect(filled.title).toBe('Pizza Lunch');
+        expect(filled.organizerName).toBe('Dr. Jones');
+        expect(filled.startDateTime).toEqual(new Date(2026, 10, 2, 11, 0));
+        expect(filled.endDateTime).toEqual(new Date(2026, 10, 2, 12, 30));
+        expect(filled.foodOfferings).toEqual([{ name: 'Pizza', dietaryTags: [], quantity: 20 }]);
+    });
+});
+
+describe('duplicateEventFormData', () => {
+    it('moves the event to the chosen day at the same time', () => {
+        const copy = duplicateEventFormData(formData(), '2026-11-04');
+
+        expect(copy.startDateTime).toEqual(new Date(2026, 10, 4, 12, 0));
+        expect(copy.endDateTime).toEqual(new Date(2026, 10, 4, 13, 30));
+        expect(copy.foodOfferings[0]).not.toHaveProperty('id');
+        expect(copy.foodOfferings[0]).not.toHaveProperty('remaining');
+        expect(copy.recurrence).toBeUndefined();
+    });
+});
@@ -0,0 +1,86 @@
+import { EventFormData, EventTemplate, FoodOffering } from "@/types/event";
+
+//Event templates and duplicating events. Both start a new event from an old one, so both
+//drop what belongs to the old event: food item ids, portions handed out and the recurrence.
+//No database access here, so forms can use these without loading the Supabase client.
+
+//What a template stores in event_templates.data
+export type EventTemplateData = Omit<EventTemplate, "id" | "name" | "updatedAt">;
+
+export interface EventTemplateRow {
+    id: string;
+    name: string;
+    data: EventTemplateData;
+    updated_at: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export const MAX_TEMPLATE_NAME_LENGTH = 60;
+
+//The name a template is saved under, throws when it's blank or too long
+export function toTemplateName(name: string): string {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+        throw new Error("Template name is required");
+    }
+    if (trimmedName.length > MAX_TEMPLATE_NAME_LENGTH) {
+        throw new Error(`Template name must be at most ${MAX_TEMPLATE_NAME_LENGTH} characters`);
+    }
+    return trimmedName;
+}
+
+//The menu without anything tied to one event's inventory
+function toMenu(offerings: FoodOffering[]): FoodOffering[] {
+    return offerings.map(({ id, remaining, ...offering }) => offering);
+}
+
+export function toTemplateData(formData: EventFormData): EventTemplateData {
+    return {
+        title: formData.title,
+        description: formData.description || undefined,
+        location: formData.location,
+        foodOfferings: toMenu(formData.foodOfferings),
+        maxAttendees: formData.maxAttendees,
+        isPublic: formData.isPublic,
+        durationMinutes: Math.max(1, Math.round((formData.endDateTime.getTime() - formData.startDateTime.getTime()) / MINUTE_MS)),
+    };
+}
+
+export function toEventTemplate(row: EventTemplateRow): EventTemplate {
+    return {
+        ...row.data,
+        id: row.id,
+        name: row.name,
+        updatedAt: new Date(row.updated_at),
+    };
+}
+
+//Fills the form from a template, keeping the start and organizer details already in the form
+export function templateToFormData(template: EventTemplate, current: EventFormData): EventFormData {
+    return {
+        ...current,
+        title: template.title,
+        description: template.description || "",
+        location: template.location,
+        foodOfferings: toMenu(template.foodOfferings),
+        maxAttendees: template.maxAttendees,
+        isPublic: template.isPublic,
+        endDateTime: new Date(current.startDateTime.getTime() + template.durationMinutes * MINUTE_MS),
+    };
+}
+
+//A copy of an event on another day ("YYYY-MM-DD"), at the same time of day and for as long
+export function duplicateEventFormData(formData: EventFormData, date: string): EventFormData {
+    const [year, month, day] = date.split("-").map(Number);
+    const start = new Date(formData.startDateTime);
+    start.setFullYear(year, month - 1, day);
+
+    return {
+        ...formData,
+        startDateTime: start,
+        endDateTime: new Date(start.getTime() + (formData.endDateTime.getTime() - formData.startDateTime.getTime())),
+        foodOfferings: toMenu(formData.foodOfferings),
+        recurrence: undefined,
+    };
+}
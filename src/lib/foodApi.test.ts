@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+
+import { parseFoodEventBody } from './foodApi';
+import { parsePagination, serviceError } from './apiResponse';
+import { Building } from '@/types/event';
+
+jest.mock('./supabaseClient', () => ({ __esModule: true, default: {} }));
+
+const cds: Building = {
+    id: 'cds',
+    name: 'Duan Family Center for Computing & Data Science (CDS)',
+    coordinates: [-71.10311, 42.34991],
+    address: '665 Commonwealth Avenue',
+    isActive: true,
+};
+const buildings = [cds];
+
+const organizer = { name: 'Dr. Organizer', email: 'organizer@bu.edu' };
+
+const validBody = {
+    title: 'Leftover catering',
+    startTime: '2026-10-18T17:00:00Z',
+    endTime: '2026-10-18T18:00:00Z',
+    location: 'cds',
+    foodOfferings: [{ name: 'Sandwiches', quantity: 30, dietaryTags: ['vegetarian'] }],
+};
+
+describe('parseFoodEventBody', () => {
+    it('turns a valid create body into form data', () => {
+        const { data, errors } = parseFoodEventBody(validBody, organizer, buildings);
+
+        expect(errors).toBeUndefined();
+        expect(data?.location).toEqual(cds);
+        expect(data?.organizerEmail).toBe('organizer@bu.edu');
+        expect(data?.isPublic).toBe(true);
+        expect(data?.foodOfferings[0]).toMatchObject({
+            name: 'Sandwiches',
+            quantity: 30,
+            dietaryTags: [expect.objectContaining({ id: 'vegetarian' })],
+        });
+    });
+
+    it('requires the core fields when creating', () => {
+        const { errors } = parseFoodEventBody({}, organizer, buildings);
+        expect(Object.keys(errors!)).toEqual(
+            expect.arrayContaining(['title', 'startTime', 'endTime', 'location', 'foodOfferings'])
+        );
+    });
+
+    it('reports each bad field', () => {
+        const { errors } = parseFoodEventBody({
+            ...validBody,
+            endTime: '2026-10-18T16:00:00Z',
+            location: 'nowhere',
+            maxAttendees: 0,
+            colour: 'blue',
+            foodOfferings: [{ name: '', quantity: 2.5, dietaryTags: ['not_a_tag'] }],
+        }, organizer, buildings);
+
+        expect(errors).toEqual({
+            endTime: 'endTime must be after startTime',
+            location: 'Unknown building "nowhere"',
+            maxAttendees: 'maxAttendees must be a whole number of at least 1, or null',
+            colour: 'Unknown field',
+            'foodOfferings[0].name': 'name is required',
+            'foodOfferings[0].quantity': 'quantity must be a whole number of at least 1',
+            'foodOfferings[0].dietaryTags': 'Unknown dietary tags: not_a_tag',
+        });
+    });
+
+    it('rejects contradicting dietary tags', () => {
+        const { errors } = parseFoodEventBody({
+            ...validBody,
+            foodOfferings: [{ name: 'Cheese Pizza', dietaryTags: ['vegan', 'contains_dairy'] }],
+        }, organizer, buildings);
+        expect(errors).toEqual({
+            'foodOfferings[0].dietaryTags': "Vegan (Dairy-Free) and Contains Dairy can't both apply",
+        });
+    });
+
+    it('accepts a custom location with coordinates', () => {
+        const { data } = parseFoodEventBody({
+            ...validBody,
+            location: { name: 'Marsh Plaza', coordinates: [-71.1063, 42.3503] },
+        }, organizer, buildings);
+        expect(data?.location).toEqual({ id: 'custom', name: 'Marsh Plaza', coordinates: [-71.1063, 42.3503], address: '' });
+    });
+
+    it('accepts a building with the room and directions', () => {
+        const { data } = parseFoodEventBody({
+            ...validBody,
+            location: { building: 'cds', room: 'Room 1750', instructions: ' Table by the windows ' },
+        }, organizer, buildings);
+        expect(data?.location).toEqual({ ...cds, room: 'Room 1750', instructions: 'Table by the windows' });
+    });
+
+    it('rejects unknown buildings and overly long directions', () => {
+        expect(parseFoodEventBody({ ...validBody, location: { building: 'gsu' } }, organizer, buildings).errors)
+            .toEqual({ location: 'Unknown building "gsu"' });
+        expect(parseFoodEventBody({ ...validBody, location: { building: 'cds', instructions: 'x'.repeat(501) } }, organizer, buildings).errors)
+            .toEqual({ location: 'location.instructions must be a string of at most 500 characters' });
+    });
+
+    it('only changes the fields given when updating', () => {
+        const existing = parseFoodEventBody(validBody, organizer, buildings).data!;
+        const { data } = parseFoodEventBody({ title: 'More sandwiches', maxAttendees: null }, organizer, buildings, existing);
+
+        expect(data).toEqual({ ...existing, title: 'More sandwiches', maxAttendees: undefined });
+    });
+
+    it('rejects bodies that are not objects', () => {
+        expect(parseFoodEventBody(undefined, organizer, buildings).errors).toEqual({ body: 'Request body must be a JSON object' });
+    });
+});
+
+describe('parsePagination', () => {
+    it('defaults to the first page', () => {
+        expect(parsePagination(new URLSearchParams())).toEqual({ pagination: { page: 1, pageSize: 20 } });
+    });
+
+    it('rejects out of range values', () => {
+        const { errors } = parsePagination(new URLSearchParams('page=0&pageSize=500'));
+        expect(Object.keys(errors!)).toEqual(['page', 'pageSize']);
+    });
+});
+
+describe('serviceError', () => {
+    it.each([
+        ['Event not found', 404],
+        ['Only the organizer can edit this event', 403],
+        ['Event is full', 409],
+        ['Your account is suspended', 403],
+        ['You cannot suspend your own account', 409],
+        ['Failed to update event', 500],
+    ])('maps "%s" to %i', async (message, status) => {
+        const response = serviceError(new Error(message));
+        expect(response.status).toBe(status);
+        expect(await response.json()).toEqual({ error: message });
+    });
+});
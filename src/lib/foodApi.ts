@@ -0,0 +1,286 @@
+import { CUSTOM_LOCATION_ID, DIETARY_TAGS, LOCATION_LIMITS } from "@/constants/eventData";
+import { Building, DashboardEvent, EventFormData, EventLocation, FoodOffering } from "@/types/event";
+import { findTagContradiction } from "./dietaryRules";
+import { findBuilding } from "./eventLocations";
+
+/**
+ * Request validation and response shapes for the /api/food/v1 routes
+ *
+ * Request bodies use plain JSON so department scripts can post food without the React form:
+ *
+ *   {
+ *     "title": "Leftover catering",
+ *     "startTime": "2026-10-18T17:00:00Z",
+ *     "endTime": "2026-10-18T18:00:00Z",
+ *     "location": "cds",                       // building id or name, or an object, see below
+ *     "description": "Sandwiches from the seminar",
+ *     "maxAttendees": 30,
+ *     "isPublic": true,
+ *     "foodOfferings": [{ "name": "Sandwiches", "quantity": 30, "dietaryTags": ["vegetarian"] }]
+ *   }
+ *
+ * A location object is a building with the room and directions,
+ * { "building": "cds", "room": "Room 1750", "instructions": "Table by the windows" },
+ * or somewhere off the building list, { "name", "coordinates": [lng, lat], "address", "room", "instructions" }.
+ * Buildings come from the campus_buildings catalog.
+ */
+
+export const FOOD_API_VERSION = "v1";
+
+type FieldErrors = Record<string, string>;
+
+const EVENT_FIELDS = ["title", "startTime", "endTime", "location", "description", "maxAttendees", "isPublic", "foodOfferings"];
+const TEMPERATURES: FoodOffering["temperature"][] = ["hot", "cold", "room temperature"];
+const MAX_TITLE_LENGTH = 200;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+function parseLocation(value: unknown, buildings: Building[], errors: FieldErrors): EventLocation | undefined {
+    if (typeof value === "string") {
+        const building = findBuilding(buildings, value);
+        if (!building) {
+            errors.location = `Unknown building "${value}"`;
+        }
+        return building;
+    }
+
+    if (!isPlainObject(value)) {
+        errors.location = "location must be a building id or a { name, coordinates } object";
+        return undefined;
+    }
+
+    const { building: buildingId, name, coordinates, address, room, instructions } = value;
+    if (room !== undefined && room !== null && (typeof room !== "string" || room.length > LOCATION_LIMITS.ROOM)) {
+        errors.location = `location.room must be a string of at most ${LOCATION_LIMITS.ROOM} characters`;
+        return undefined;
+    }
+    if (instructions !== undefined && instructions !== null &&
+        (typeof instructions !== "string" || instructions.length > LOCATION_LIMITS.INSTRUCTIONS)) {
+        errors.location = `location.instructions must be a string of at most ${LOCATION_LIMITS.INSTRUCTIONS} characters`;
+        return undefined;
+    }
+    const details = { room: optionalString(room), instructions: optionalString(instructions) };
+
+    if (buildingId !== undefined) {
+        const building = typeof buildingId === "string" ? findBuilding(buildings, buildingId) : undefined;
+        if (!building) {
+            errors.location = `Unknown building "${buildingId}"`;
+            return undefined;
+        }
+        return { ...building, ...details };
+    }
+
+    const [lng, lat] = Array.isArray(coordinates) ? coordinates : [];
+    if (typeof name !== "string" || !name.trim()) {
+        errors.location = "location.name is required";
+    } else if (typeof lng !== "number" || typeof lat !== "number" || Math.abs(lng) > 180 || Math.abs(lat) > 90) {
+        errors.location = "location.coordinates must be [longitude, latitude]";
+    } else {
+        return {
+            id: CUSTOM_LOCATION_ID,
+            name: name.trim(),
+            coordinates: [lng, lat],
+            address: optionalString(address) || "",
+            ...details,
+        };
+    }
+    return undefined;
+}
+
+function parseFoodOfferings(value: unknown, errors: FieldErrors): FoodOffering[] | undefined {
+    if (!Array.isArray(value) || value.length === 0) {
+        errors.foodOfferings = "foodOfferings must be a non-empty array";
+        return undefined;
+    }
+
+    return value.map((item, index) => {
+        const field = `foodOfferings[${index}]`;
+        if (!isPlainObject(item)) {
+            errors[field] = "must be an object";
+            return { name: "", dietaryTags: [] };
+        }
+
+        if (typeof item.name !== "string" || !item.name.trim()) {
+            errors[`${field}.name`] = "name is required";
+        }
+
+        if (item.quantity !== undefined && item.quantity !== null &&
+            (!Number.isInteger(item.quantity) || item.quantity < 1)) {
+            errors[`${field}.quantity`] = "quantity must be a whole number of at least 1";
+        }
+
+        if (item.temperature !== undefined && !TEMPERATURES.includes(item.temperature)) {
+            errors[`${field}.temperature`] = `temperature must be one of ${TEMPERATURES.join(", ")}`;
+        }
+
+        const tagIds: unknown[] = Array.isArray(item.dietaryTags) ? item.dietaryTags : [];
+        if (item.dietaryTags !== undefined && !Array.isArray(item.dietaryTags)) {
+            errors[`${field}.dietaryTags`] = "dietaryTags must be an array of tag ids";
+        }
+        const unknownTags = tagIds.filter(id => !DIETARY_TAGS.some(tag => tag.id === id));
+        const dietaryTags = DIETARY_TAGS.filter(tag => tagIds.includes(tag.id));
+        const contradiction = findTagContradiction(dietaryTags);
+        if (unknownTags.length > 0) {
+            errors[`${field}.dietaryTags`] = `Unknown dietary tags: ${unknownTags.join(", ")}`;
+        } else if (contradiction) {
+            errors[`${field}.dietaryTags`] = contradiction;
+        }
+
+        return {
+            id: optionalString(item.id),
+            name: typeof item.name === "string" ? item.name.trim() : "",
+            description: optionalString(item.description),
+            quantity: item.quantity ?? undefined,
+            servingSize: optionalString(item.servingSize),
+            temperature: item.temperature,
+            dietaryTags,
+        };
+    });
+}
+
+/**
+ * Validates a create (no existing event) or update (existing event) body
+ *
+ * For updates every field is optional and missing fields keep their current value.
+ * buildings is the catalog building ids and names in location are looked up in.
+ * Returns the merged form data, or per-field error messages.
+ */
+export function parseFoodEventBody(
+    body: unknown,
+    organizer: { name: string; email: string },
+    buildings: Building[],
+    existing?: EventFormData
+): { data?: EventFormData; errors?: FieldErrors } {
+    if (!isPlainObject(body)) {
+        return { errors: { body: "Request body must be a JSON object" } };
+    }
+
+    const errors: FieldErrors = {};
+    const isCreate = !existing;
+
+    Object.keys(body)
+        .filter(key => !EVENT_FIELDS.includes(key))
+        .forEach(key => { errors[key] = "Unknown field"; });
+
+    const has = (field: string) => body[field] !== undefined;
+    for (const field of ["title", "startTime", "endTime", "location", "foodOfferings"]) {
+        if (isCreate && !has(field)) {
+            errors[field] = `${field} is required`;
+        }
+    }
+
+    let title = existing?.title;
+    if (has("title")) {
+        if (typeof body.title !== "string" || !body.title.trim()) {
+            errors.title = "title must be a non-empty string";
+        } else if (body.title.trim().length > MAX_TITLE_LENGTH) {
+            errors.title = `title must be at most ${MAX_TITLE_LENGTH} characters`;
+        } else {
+            title = body.title.trim();
+        }
+    }
+
+    const parseDate = (field: "startTime" | "endTime", current?: Date) => {
+        if (!has(field)) return current;
+        const date = typeof body[field] === "string" ? new Date(body[field]) : new Date(NaN);
+        if (isNaN(date.getTime())) {
+            errors[field] = `${field} must be an ISO 8601 date`;
+            return current;
+        }
+        return date;
+    };
+    const startDateTime = parseDate("startTime", existing?.startDateTime);
+    const endDateTime = parseDate("endTime", existing?.endDateTime);
+    if (startDateTime && endDateTime && !errors.startTime && !errors.endTime && endDateTime <= startDateTime) {
+        errors.endTime = "endTime must be after startTime";
+    }
+
+    const location = has("location") ? parseLocation(body.location, buildings, errors) : existing?.location;
+    const foodOfferings = has("foodOfferings") ? parseFoodOfferings(body.foodOfferings, errors) : existing?.foodOfferings;
+
+    let maxAttendees = existing?.maxAttendees;
+    if (has("maxAttendees")) {
+        if (body.maxAttendees === null) {
+            maxAttendees = undefined;
+        } else if (!Number.isInteger(body.maxAttendees) || body.maxAttendees < 1) {
+            errors.maxAttendees = "maxAttendees must be a whole number of at least 1, or null";
+        } else {
+            maxAttendees = body.maxAttendees;
+        }
+    }
+
+    let isPublic = existing?.isPublic ?? true;
+    if (has("isPublic")) {
+        if (typeof body.isPublic !== "boolean") {
+            errors.isPublic = "isPublic must be true or false";
+        } else {
+            isPublic = body.isPublic;
+        }
+    }
+
+    if (has("description") && body.description !== null && typeof body.description !== "string") {
+        errors.description = "description must be a string";
+    }
+    const description = has("description") ? optionalString(body.description) : existing?.description;
+
+    if (Object.keys(errors).length > 0) {
+        return { errors };
+    }
+
+    return {
+        data: {
+            title: title!,
+            startDateTime: startDateTime!,
+            endDateTime: endDateTime!,
+            location: location!,
+            description,
+            foodOfferings: foodOfferings!,
+            organizerName: existing?.organizerName || organizer.name,
+            organizerEmail: existing?.organizerEmail || organizer.email,
+            maxAttendees,
+            isPublic,
+        },
+    };
+}
+
+//The public JSON shape of a food event, kept separate from DashboardEvent so the API stays stable
+export function toFoodEventResource(event: DashboardEvent) {
+    return {
+        id: event.id,
+        title: event.title,
+        description: event.description || null,
+        location: event.location,
+        coordinates: event.coords,
+        building: event.buildingId ?? null,
+        address: event.locationAddress ?? null,
+        room: event.locationRoom ?? null,
+        instructions: event.locationInstructions ?? null,
+        startTime: event.startTime.toISOString(),
+        endTime: event.endTime.toISOString(),
+        status: event.status,
+        isPublic: event.isPublic,
+        attendees: event.attendees,
+        maxAttendees: event.maxAttendees ?? null,
+        waitlistCount: event.waitlistCount ?? 0,
+        portionsRemaining: event.portionsRemaining ?? null,
+        portionsTotal: event.portionsTotal ?? null,
+        cancellationReason: event.cancellationReason ?? null,
+        organizer: {
+            name: event.organizerName,
+            email: event.organizerEmail,
+        },
+        foodOfferings: event.foodOfferings.map(food => ({
+            id: food.id ?? null,
+            name: food.name,
+            description: food.description ?? null,
+            dietaryTags: food.dietaryTags.map(tag => tag.id),
+            quantity: food.quantity ?? null,
+            remaining: food.remaining ?? null,
+            servingSize: food.servingSize ?? null,
+            temperature: food.temperature ?? null,
+        })),
+    };
+}
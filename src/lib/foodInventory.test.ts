@@ -0,0 +1,104 @@
+/**
+ * @jest-environment node
+ */
+
+import { isRunningLow, summarizePortions, toFoodOfferings, withFoodItem, withMatchingItemIds, withoutFoodItem, FoodItemRow } from './foodInventory';
+import { DashboardEvent } from '@/types/event';
+
+jest.mock('./supabaseClient', () => ({ __esModule: true, default: {} }));
+
+const row = (overrides: Partial<FoodItemRow>): FoodItemRow => ({
+    id: 'pizza',
+    event_id: 'event-1',
+    name: 'Pizza',
+    description: null,
+    dietary_tags: [],
+    serving_size: null,
+    temperature: null,
+    quantity: 10,
+    initial_quantity: 10,
+    status: 'available',
+    sort_order: 0,
+    created_at: '2026-10-18T12:00:00Z',
+    updated_at: '2026-10-18T12:00:00Z',
+    ...overrides,
+});
+
+const event = (rows: FoodItemRow[]): DashboardEvent => {
+    const foodOfferings = toFoodOfferings(rows);
+    return {
+        id: 'event-1',
+        title: 'Pizza Night',
+        location: 'George Sherman Union (GSU)',
+        time: '6:00 PM - 8:00 PM',
+        startTime: new Date('2026-10-18T18:00:00Z'),
+        endTime: new Date('2026-10-18T20:00:00Z'),
+        attendees: 0,
+        status: 'live',
+        coords: [-71.10877, 42.35119],
+        foodOfferings,
+        ...summarizePortions(foodOfferings),
+        organizerId: 'organizer-1',
+        organizerName: 'Organizer',
+        organizerEmail: 'organizer@bu.edu',
+        isPublic: true,
+    };
+};
+
+describe('food inventory helpers', () => {
+    it('keeps the order the organizer listed items in', () => {
+        const offerings = toFoodOfferings([
+            row({ id: 'soda', name: 'Soda', sort_order: 1 }),
+            row({ id: 'pizza', name: 'Pizza', sort_order: 0 }),
+        ]);
+        expect(offerings.map(offering => offering.name)).toEqual(['Pizza', 'Soda']);
+    });
+
+    it('adds up counted portions and skips uncounted items', () => {
+        const offerings = toFoodOfferings([
+            row({ id: 'pizza', quantity: 4, initial_quantity: 10 }),
+            row({ id: 'salad', quantity: 6, initial_quantity: 10 }),
+            row({ id: 'soda', quantity: null, initial_quantity: null }),
+        ]);
+        expect(summarizePortions(offerings)).toEqual({ portionsRemaining: 10, portionsTotal: 20 });
+    });
+
+    it('has no totals when nothing is counted', () => {
+        const offerings = toFoodOfferings([row({ quantity: null, initial_quantity: null })]);
+        expect(summarizePortions(offerings)).toEqual({ portionsRemaining: undefined, portionsTotal: undefined });
+    });
+
+    it('counts a quarter or less as running low', () => {
+        expect(isRunningLow(3, 10)).toBe(false);
+        expect(isRunningLow(2, 10)).toBe(true);
+        expect(isRunningLow(0, 0)).toBe(false);
+    });
+
+    it('applies realtime updates, inserts and deletes', () => {
+        const base = event([row({ id: 'pizza', quantity: 10 })]);
+
+        const updated = withFoodItem(base, row({ id: 'pizza', quantity: 3 }));
+        expect(updated.foodOfferings[0].remaining).toBe(3);
+        expect(updated.portionsRemaining).toBe(3);
+
+        const inserted = withFoodItem(updated, row({ id: 'salad', name: 'Salad', quantity: 5, initial_quantity: 5 }));
+        expect(inserted.foodOfferings).toHaveLength(2);
+        expect(inserted.portionsTotal).toBe(15);
+
+        const deleted = withoutFoodItem(inserted, 'pizza');
+        expect(deleted.foodOfferings.map(offering => offering.id)).toEqual(['salad']);
+        expect(deleted.portionsRemaining).toBe(5);
+        expect(withoutFoodItem(deleted, 'missing')).toBe(deleted);
+    });
+
+    it('matches edited offerings to another event\'s items by name', () => {
+        const offerings = [
+            { id: 'pizza-1', name: 'pizza ', dietaryTags: [] },
+            { id: 'salad-1', name: 'Salad', dietaryTags: [] },
+            { name: 'Cookies', dietaryTags: [] },
+        ];
+
+        expect(withMatchingItemIds(offerings, [row({ id: 'pizza-2' })]).map(offering => offering.id))
+            .toEqual(['pizza-2', undefined, undefined]);
+    });
+});
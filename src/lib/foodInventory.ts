@@ -0,0 +1,164 @@
+import supabase, { DbClient } from "./supabaseClient";
+import { FoodItem } from "@/types";
+import { DashboardEvent, FoodOffering } from "@/types/event";
+import { FOOD_INVENTORY } from "@/constants/config";
+import { Json } from "@/types/database";
+
+//Food items table representing the structure of the food_items rows in the database
+
+export interface FoodItemRow {
+    id: string;
+    event_id: string;
+    name: string;
+    description: string | null;
+    dietary_tags: FoodOffering["dietaryTags"] | null;
+    serving_size: string | null;
+    temperature: FoodOffering["temperature"] | null;
+    quantity: number | null;
+    initial_quantity: number | null;
+    status: FoodItem["status"];
+    sort_order: number;
+    created_at: string;
+    updated_at: string;
+}
+
+//Converts a food_items row into a FoodItem, the event supplies the location, donor and expiry
+export function toFoodItem(
+    row: FoodItemRow,
+    event: { location: string; organizer_id: string; end_time: string }
+): FoodItem {
+    return {
+        id: row.id,
+        eventId: row.event_id,
+        name: row.name,
+        description: row.description || "",
+        quantity: row.quantity,
+        initialQuantity: row.initial_quantity,
+        expiryDate: new Date(event.end_time),
+        location: event.location,
+        donorId: event.organizer_id,
+        status: row.status,
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+    };
+}
+
+//Converts a food_items row into the offering shape the event modals and form use
+export function toFoodOffering(row: FoodItemRow): FoodOffering {
+    return {
+        id: row.id,
+        name: row.name,
+        dietaryTags: row.dietary_tags || [],
+        description: row.description || undefined,
+        quantity: row.initial_quantity ?? undefined,
+        remaining: row.quantity ?? undefined,
+        servingSize: row.serving_size || undefined,
+        temperature: row.temperature || undefined,
+    };
+}
+
+//Offerings for an event in the order the organizer listed them
+export function toFoodOfferings(rows: FoodItemRow[] | null | undefined): FoodOffering[] {
+    return [...(rows || [])]
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map(toFoodOffering);
+}
+
+//Adds up the counted portions, items without a count are left out
+export function summarizePortions(offerings: FoodOffering[]): { portionsRemaining?: number; portionsTotal?: number } {
+    const counted = offerings.filter(offering => offering.quantity !== undefined && offering.remaining !== undefined);
+    if (counted.length === 0) {
+        return { portionsRemaining: undefined, portionsTotal: undefined };
+    }
+    return {
+        portionsRemaining: counted.reduce((sum, offering) => sum + (offering.remaining || 0), 0),
+        portionsTotal: counted.reduce((sum, offering) => sum + (offering.quantity || 0), 0),
+    };
+}
+
+//Whether an item (or a whole event's portions) is down to the running low share
+export function isRunningLow(remaining: number, total: number): boolean {
+    return total > 0 && remaining <= total * FOOD_INVENTORY.RUNNING_LOW_RATIO;
+}
+
+//Applies a realtime food_items insert or update to an event
+export function withFoodItem<T extends DashboardEvent>(event: T, row: FoodItemRow): T {
+    const offering = toFoodOffering(row);
+    const exists = event.foodOfferings.some(item => item.id === row.id);
+    const foodOfferings = exists
+        ? event.foodOfferings.map(item => item.id === row.id ? offering : item)
+        : [...event.foodOfferings, offering];
+    return { ...event, foodOfferings, ...summarizePortions(foodOfferings) };
+}
+
+//Sets the portions left for one of an event's food items
+export function withFoodRemaining<T extends DashboardEvent>(event: T, foodItemId: string, remaining: number): T {
+    const foodOfferings = event.foodOfferings.map(item => item.id === foodItemId ? { ...item, remaining } : item);
+    return { ...event, foodOfferings, ...summarizePortions(foodOfferings) };
+}
+
+//Applies a realtime food_items delete to an event
+export function withoutFoodItem<T extends DashboardEvent>(event: T, foodItemId: string): T {
+    if (!event.foodOfferings.some(item => item.id === foodItemId)) {
+        return event;
+    }
+    const foodOfferings = event.foodOfferings.filter(item => item.id !== foodItemId);
+    return { ...event, foodOfferings, ...summarizePortions(foodOfferings) };
+}
+
+//Points offerings edited on one event at another event's food items with the same name, so
+//saving them there keeps that event's portions handed out. Unmatched offerings become new items.
+export function withMatchingItemIds(offerings: FoodOffering[], rows: FoodItemRow[]): FoodOffering[] {
+    const unmatched = [...rows];
+    return offerings.map(offering => {
+        const index = unmatched.findIndex(row => row.name.trim().toLowerCase() === offering.name.trim().toLowerCase());
+        const match = index === -1 ? undefined : unmatched.splice(index, 1)[0];
+        return { ...offering, id: match?.id };
+    });
+}
+
+//Loads an event's food items
+export async function fetchFoodItems(eventId: string): Promise<FoodItem[]> {
+    const { data, error } = await supabase
+        .from("events")
+        .select(`location, organizer_id, end_time, food_items!event_id (*)`)
+        .eq("id", eventId)
+        .single();
+
+    if (error || !data) {
+        console.error("Unable to fetch food items:", error);
+        throw new Error("Event not found");
+    }
+
+    return [...(data.food_items as FoodItemRow[])]
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map(row => toFoodItem(row, data));
+}
+
+//Replaces an event's food items with the offerings from the event form
+export async function saveFoodItems(eventId: string, offerings: FoodOffering[], client: DbClient = supabase) {
+    const items = offerings.map(offering => ({
+        id: offering.id || null,
+        name: offering.name,
+        description: offering.description || null,
+        dietaryTags: offering.dietaryTags,
+        servingSize: offering.servingSize || null,
+        temperature: offering.temperature || null,
+        quantity: offering.quantity ?? null,
+    }));
+
+    const { data: result, error } = await client
+        .rpc("save_food_items", { p_event_id: eventId, p_items: items as unknown as Json });
+
+    if (error) {
+        console.error("Unable to save food items:", error);
+        throw new Error("Failed to save food offerings");
+    }
+
+    if (result === "forbidden") {
+        throw new Error("Only the organizer can edit this event");
+    }
+    if (result === "not_found") {
+        throw new Error("Event not found");
+    }
+}
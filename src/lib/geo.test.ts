@@ -0,0 +1,42 @@
+/**
+ * @jest-environment node
+ */
+
+import { parsePoint, toPointValue } from './geo';
+
+// [-71.1087, 42.3505] as PostGIS sends it, little endian with SRID 4326
+const GSU_EWKB = '0101000020E6100000D044D8F0F4C651C0BE9F1A2FDD2C4540';
+
+describe('parsePoint', () => {
+    it('reads hex EWKB from PostgREST and realtime', () => {
+        expect(parsePoint(GSU_EWKB)).toEqual([-71.1087, 42.3505]);
+        expect(parsePoint(GSU_EWKB.toLowerCase())).toEqual([-71.1087, 42.3505]);
+    });
+
+    it('reads big endian EWKB', () => {
+        expect(parsePoint('0020000001000010E6C051C6F4F0D844D040452CDD2F1A9FBE')).toEqual([-71.1087, 42.3505]);
+    });
+
+    it('reads GeoJSON points', () => {
+        expect(parsePoint({ type: 'Point', coordinates: [-71.1087, 42.3505] })).toEqual([-71.1087, 42.3505]);
+    });
+
+    it('is undefined when there is no point', () => {
+        expect(parsePoint(null)).toBeUndefined();
+        expect(parsePoint(undefined)).toBeUndefined();
+    });
+
+    it('rejects values that are not points', () => {
+        expect(() => parsePoint('(-71.1087, 42.3505)')).toThrow('Unrecognized location point');
+        expect(() => parsePoint('0101000020E6100000D044')).toThrow('Unrecognized location point');
+        // a linestring
+        expect(() => parsePoint('0102000020E6100000')).toThrow('Unrecognized location point');
+        expect(() => parsePoint({ type: 'Polygon', coordinates: [] })).toThrow('Unrecognized location point');
+    });
+});
+
+describe('toPointValue', () => {
+    it('writes EWKT the database casts to a geography point', () => {
+        expect(toPointValue([-71.1087, 42.3505])).toBe('SRID=4326;POINT(-71.1087 42.3505)');
+    });
+});
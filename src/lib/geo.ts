@@ -0,0 +1,62 @@
+//Event locations are PostGIS geography points (events.location_point). PostgREST and realtime
+//send them as hex EWKB, and they're written as EWKT, these turn both into [lng, lat] and back.
+
+//Points are stored in WGS 84, the same longitude and latitude the map uses
+export const SRID = 4326;
+
+const WKB_POINT = 1;
+const EWKB_SRID_FLAG = 0x20000000;
+
+interface GeoJsonPoint {
+    type: "Point";
+    coordinates: [number, number];
+}
+
+const isGeoJsonPoint = (value: unknown): value is GeoJsonPoint =>
+    typeof value === "object" && value !== null
+    && (value as GeoJsonPoint).type === "Point"
+    && Array.isArray((value as GeoJsonPoint).coordinates);
+
+//Reads a hex EWKB point, e.g. "0101000020E6100000..."
+function parseEwkbPoint(hex: string): [number, number] {
+    if (!/^[0-9a-f]+$/i.test(hex) || hex.length % 2 !== 0) {
+        throw new Error("Unrecognized location point");
+    }
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    const view = new DataView(bytes.buffer);
+    const littleEndian = view.getUint8(0) === 1;
+    const type = view.getUint32(1, littleEndian);
+    if ((type & 0xffff) !== WKB_POINT) {
+        throw new Error("Unrecognized location point");
+    }
+    //the SRID, when there is one, sits between the type and the coordinates
+    const offset = type & EWKB_SRID_FLAG ? 9 : 5;
+    if (bytes.length < offset + 16) {
+        throw new Error("Unrecognized location point");
+    }
+    return [view.getFloat64(offset, littleEndian), view.getFloat64(offset + 8, littleEndian)];
+}
+
+//A stored point as [lng, lat], undefined when there's none. Takes hex EWKB (how PostgREST and
+//realtime send geography columns) or GeoJSON.
+export function parsePoint(value: unknown): [number, number] | undefined {
+    if (value === null || value === undefined) {
+        return undefined;
+    }
+    const coordinates = typeof value === "string"
+        ? parseEwkbPoint(value)
+        : isGeoJsonPoint(value) ? value.coordinates : undefined;
+
+    if (!coordinates || !coordinates.every(Number.isFinite)) {
+        throw new Error("Unrecognized location point");
+    }
+    return [coordinates[0], coordinates[1]];
+}
+
+//[lng, lat] as EWKT, which the database casts into a geography point on insert and update
+export function toPointValue([lng, lat]: [number, number]): string {
+    return `SRID=${SRID};POINT(${lng} ${lat})`;
+}
@@ -0,0 +1,35 @@
+/**
+ * @jest-environment node
+ */
+
+import { searchPlaces } from './geocoding';
+
+describe('searchPlaces', () => {
+    it('reads the matching places', async () => {
+        const fetchImpl = jest.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({
+                features: [{ text: 'Marsh Plaza', place_name: 'Marsh Plaza, Boston, Massachusetts 02215', center: [-71.1063, 42.3503] }],
+            }),
+        });
+
+        const places = await searchPlaces('marsh plaza', 'token', fetchImpl);
+
+        expect(places).toEqual([{ name: 'Marsh Plaza', address: 'Marsh Plaza, Boston, Massachusetts 02215', coordinates: [-71.1063, 42.3503] }]);
+        expect(fetchImpl.mock.calls[0][0]).toContain('/marsh%20plaza.json?proximity=');
+    });
+
+    it('skips very short searches', async () => {
+        const fetchImpl = jest.fn();
+
+        await expect(searchPlaces(' ab ', 'token', fetchImpl)).resolves.toEqual([]);
+        expect(fetchImpl).not.toHaveBeenCalled();
+    });
+
+    it('throws when the search fails', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        const fetchImpl = jest.fn().mockResolvedValue({ ok: false, status: 401 });
+
+        await expect(searchPlaces('marsh plaza', 'bad-token', fetchImpl)).rejects.toThrow('Address search failed');
+    });
+});
@@ -0,0 +1,55 @@
+import { BU_CENTER } from "@/constants/map";
+
+//Address search for event locations off the building list, using Mapbox's geocoding API.
+//Results near campus come first.
+
+export interface PlaceResult {
+    /** Short name, e.g. "Marsh Plaza" or "700 Commonwealth Avenue" */
+    name: string;
+    /** Full address with city and state */
+    address: string;
+    coordinates: [number, number];
+}
+
+interface MapboxGeocodingResponse {
+    features?: {
+        text: string;
+        place_name: string;
+        center: [number, number];
+    }[];
+}
+
+const MAPBOX_GEOCODING_URL = "https://api.mapbox.com/geocoding/v5/mapbox.places";
+const MAX_RESULTS = 5;
+const MIN_QUERY_LENGTH = 3;
+
+//Places matching what the organizer typed, nothing for very short searches
+export async function searchPlaces(
+    query: string,
+    accessToken: string | undefined = process.env.NEXT_PUBLIC_MAPBOX_TOKEN,
+    fetchImpl: typeof fetch = (input, init) => fetch(input, init)
+): Promise<PlaceResult[]> {
+    const search = query.trim();
+    if (search.length < MIN_QUERY_LENGTH) {
+        return [];
+    }
+    if (!accessToken) {
+        throw new Error("Address search isn't set up, drop a pin on the map instead");
+    }
+
+    const url = `${MAPBOX_GEOCODING_URL}/${encodeURIComponent(search)}.json`
+        + `?proximity=${BU_CENTER.join(",")}&limit=${MAX_RESULTS}&access_token=${encodeURIComponent(accessToken)}`;
+
+    const response = await fetchImpl(url);
+    if (!response.ok) {
+        console.error("Unable to search addresses:", response.status);
+        throw new Error("Address search failed, drop a pin on the map instead");
+    }
+
+    const body: MapboxGeocodingResponse = await response.json();
+    return (body.features || []).map(feature => ({
+        name: feature.text,
+        address: feature.place_name,
+        coordinates: feature.center,
+    }));
+}
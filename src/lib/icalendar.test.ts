@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+
+import { buildCalendar, calendarFileName, CalendarEvent, escapeText, foldLine, formatICalDate } from './icalendar';
+
+const gsu = { name: 'George Sherman Union (GSU)', address: '775 Commonwealth Avenue', coordinates: [-71.10877, 42.35119] as [number, number] };
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+    id: 'event-1',
+    title: 'Pizza',
+    location: gsu.name,
+    address: gsu.address,
+    coords: gsu.coordinates,
+    startTime: new Date('2026-10-19T16:00:00Z'),
+    endTime: new Date('2026-10-19T17:30:00Z'),
+    status: 'scheduled',
+    sequence: 0,
+    ...overrides,
+});
+
+// Unfolds continuation lines and splits the calendar into its content lines
+const contentLines = (calendar: string) => calendar.replace(/\r\n /g, '').split('\r\n');
+
+describe('formatICalDate', () => {
+    it('writes UTC date-times without separators or milliseconds', () => {
+        expect(formatICalDate(new Date('2026-10-19T16:05:09.123Z'))).toBe('20261019T160509Z');
+    });
+});
+
+describe('escapeText', () => {
+    it('escapes backslashes, semicolons, commas and newlines', () => {
+        expect(escapeText('a\\b; c, d\ne\r\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+    });
+});
+
+describe('foldLine', () => {
+    it('leaves short lines alone', () => {
+        expect(foldLine('SUMMARY:Pizza')).toBe('SUMMARY:Pizza');
+    });
+
+    it('folds at 75 octets without splitting multi-byte characters', () => {
+        const line = `DESCRIPTION:${'é'.repeat(100)}`;
+        const folded = foldLine(line);
+        const encoder = new TextEncoder();
+
+        folded.split('\r\n').forEach(part => {
+            expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+        });
+        expect(folded.replace(/\r\n /g, '')).toBe(line);
+    });
+});
+
+describe('buildCalendar', () => {
+    const now = new Date('2026-10-18T12:00:00Z');
+
+    it('writes a confirmed event with its address and coordinates', () => {
+        const lines = contentLines(buildCalendar([event({ description: 'Free pizza' })], { name: 'My RSVPs', now }));
+
+        expect(lines[0]).toBe('BEGIN:VCALENDAR');
+        expect(lines).toEqual(expect.arrayContaining([
+            'X-WR-CALNAME:My RSVPs',
+            'UID:event-1@sparkbytes',
+            'DTSTAMP:20261018T120000Z',
+            'DTSTART:20261019T160000Z',
+            'DTEND:20261019T173000Z',
+            'SEQUENCE:0',
+            'STATUS:CONFIRMED',
+            'SUMMARY:Pizza',
+            `LOCATION:${escapeText(`${gsu.name}, ${gsu.address}`)}`,
+            `GEO:${gsu.coordinates[1]};${gsu.coordinates[0]}`,
+            'DESCRIPTION:Free pizza',
+        ]));
+        expect(lines.slice(-2)).toEqual(['END:VCALENDAR', '']);
+    });
+
+    it('marks cancelled events so calendar apps drop them', () => {
+        const lines = contentLines(buildCalendar([event({ status: 'cancelled', sequence: 3, cancellationReason: 'Room closed' })], { now }));
+
+        expect(lines).toEqual(expect.arrayContaining([
+            'SEQUENCE:3',
+            'STATUS:CANCELLED',
+            'SUMMARY:Cancelled: Pizza',
+            'DESCRIPTION:Cancelled: Room closed',
+        ]));
+    });
+
+    it('puts the room first and the directions in the description', () => {
+        const lines = contentLines(buildCalendar([
+            event({ description: 'Free pizza', room: 'Room 310', instructions: 'Table by the windows' }),
+        ], { now }));
+
+        expect(lines).toEqual(expect.arrayContaining([
+            `LOCATION:${escapeText(`Room 310, ${gsu.name}, ${gsu.address}`)}`,
+            `DESCRIPTION:${escapeText('Free pizza\n\nWhere exactly: Table by the windows')}`,
+        ]));
+    });
+
+    it('writes custom locations without an address as they are', () => {
+        const lines = contentLines(buildCalendar([event({ location: 'Room 101', address: undefined, coords: undefined })], { now }));
+
+        expect(lines).toContain('LOCATION:Room 101');
+        expect(lines.some(line => line.startsWith('GEO:'))).toBe(false);
+    });
+});
+
+describe('calendarFileName', () => {
+    it('slugs the title', () => {
+        expect(calendarFileName('Free Pizza @ CDS!')).toBe('free-pizza-cds.ics');
+        expect(calendarFileName('???')).toBe('event.ics');
+    });
+});
@@ -0,0 +1,136 @@
+import { DashboardEvent, EventStatus } from "@/types/event";
+import { EVENT_STATUS } from "@/constants/map";
+
+//RFC 5545 (iCalendar) output for the "Add to calendar" download and the /api/calendar feeds
+
+export interface CalendarEvent {
+    id: string;
+    title: string;
+    description?: string;
+    location: string;
+    address?: string;
+    room?: string;
+    instructions?: string;
+    coords?: [number, number]; //[lng, lat] like the rest of the app
+    startTime: Date;
+    endTime: Date;
+    status: EventStatus;
+    sequence: number;
+    updatedAt?: Date;
+    cancellationReason?: string;
+}
+
+const PRODUCT_ID = "-//Spark!Bytes//Food Events//EN";
+const MAX_LINE_OCTETS = 75;
+
+//UTC date-time, e.g. 20261019T170000Z
+export function formatICalDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+//TEXT values escape backslashes, semicolons, commas and newlines
+export function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+//Lines longer than 75 octets continue on the next line after a space, without splitting a character
+export function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = "";
+    let size = 0;
+
+    Array.from(line).forEach(char => {
+        const octets = encoder.encode(char).length;
+        //continuation lines lose one octet to the leading space
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (size + octets > limit) {
+            parts.push(current);
+            current = "";
+            size = 0;
+        }
+        current += char;
+        size += octets;
+    });
+    parts.push(current);
+
+    return parts.join("\r\n ");
+}
+
+//"Room, building name, street address", with whichever of them the event has
+function toLocationText(event: CalendarEvent): string {
+    return [event.room, event.location, event.address].filter(Boolean).join(", ");
+}
+
+function toEventLines(event: CalendarEvent, now: Date): string[] {
+    const isCancelled = event.status === EVENT_STATUS.CANCELLED;
+    const description = [
+        isCancelled && event.cancellationReason && `Cancelled: ${event.cancellationReason}`,
+        event.description,
+        event.instructions && `Where exactly: ${event.instructions}`,
+    ].filter(Boolean).join("\n\n");
+
+    return [
+        "BEGIN:VEVENT",
+        `UID:${event.id}@sparkbytes`,
+        `DTSTAMP:${formatICalDate(now)}`,
+        `DTSTART:${formatICalDate(event.startTime)}`,
+        `DTEND:${formatICalDate(event.endTime)}`,
+        `SEQUENCE:${event.sequence}`,
+        ...(event.updatedAt ? [`LAST-MODIFIED:${formatICalDate(event.updatedAt)}`] : []),
+        `STATUS:${isCancelled ? "CANCELLED" : "CONFIRMED"}`,
+        `SUMMARY:${escapeText(isCancelled ? `Cancelled: ${event.title}` : event.title)}`,
+        `LOCATION:${escapeText(toLocationText(event))}`,
+        ...(event.coords ? [`GEO:${event.coords[1]};${event.coords[0]}`] : []),
+        ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+        "END:VEVENT",
+    ];
+}
+
+//A whole VCALENDAR, name is shown by calendar apps for subscribed feeds
+export function buildCalendar(events: CalendarEvent[], { name, now = new Date() }: { name?: string; now?: Date } = {}): string {
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:${PRODUCT_ID}`,
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+        ...events.flatMap(event => toEventLines(event, now)),
+        "END:VCALENDAR",
+    ];
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+//The food being served goes into the description so it shows up in the calendar entry
+export function toCalendarEvent(event: DashboardEvent): CalendarEvent {
+    const food = event.foodOfferings.map(offering => offering.name).join(", ");
+    const description = [event.description, food && `Food: ${food}`].filter(Boolean).join("\n\n");
+
+    return {
+        id: event.id,
+        title: event.title,
+        description: description || undefined,
+        location: event.location,
+        address: event.locationAddress,
+        room: event.locationRoom,
+        instructions: event.locationInstructions,
+        coords: event.coords,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        status: event.status,
+        sequence: event.sequence ?? 0,
+        updatedAt: event.updatedAt,
+        cancellationReason: event.cancellationReason,
+    };
+}
+
+//e.g. "free-pizza-at-cds.ics"
+export function calendarFileName(title: string): string {
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+    return `${slug || "event"}.ics`;
+}
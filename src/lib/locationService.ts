@@ -0,0 +1,93 @@
+import supabase, { DbClient } from "./supabaseClient";
+import { Building } from "@/types/event";
+import { BuildingRow, toBuilding, validateBuilding } from "./eventLocations";
+
+//The campus building catalog. Anyone can read the catalog, adding and
+//editing buildings needs the manage_buildings permission, which the database enforces (see the
+//campus locations migration).
+
+const BUILDING_COLUMNS = "id, name, address, lng, lat, is_active";
+
+//The catalog by name, only the buildings organizers can pick unless includeInactive is set
+export async function fetchBuildings(
+    { includeInactive = false }: { includeInactive?: boolean } = {},
+    client: DbClient = supabase
+): Promise<Building[]> {
+    let query = client
+        .from("campus_buildings")
+        .select(BUILDING_COLUMNS)
+        .order("name", { ascending: true });
+
+    if (!includeInactive) {
+        query = query.eq("is_active", true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        console.error("Unable to fetch buildings:", error);
+        throw new Error("Failed to load buildings");
+    }
+    return (data as BuildingRow[] || []).map(toBuilding);
+}
+
+//Adds a building, or with isNew false saves changes to one. The code can't change once added,
+//calendar feed URLs have it.
+export async function saveBuilding(building: Building, isNew: boolean, client: DbClient = supabase): Promise<Building> {
+    const problem = validateBuilding(building);
+    if (problem) {
+        throw new Error(problem);
+    }
+
+    const columns = {
+        name: building.name.trim(),
+        address: building.address.trim(),
+        lng: building.coordinates[0],
+        lat: building.coordinates[1],
+    };
+
+    const { data, error } = isNew
+        ? await client
+            .from("campus_buildings")
+            .insert({ ...columns, id: building.id, is_active: true })
+            .select(BUILDING_COLUMNS)
+        : await client
+            .from("campus_buildings")
+            .update({ ...columns, updated_at: new Date().toISOString() })
+            .eq("id", building.id)
+            .select(BUILDING_COLUMNS);
+
+    if (error?.code === "23505") {
+        throw new Error("A building with that code or name already exists");
+    }
+    if (error?.code === "42501") {
+        throw new Error("Only admins can manage buildings");
+    }
+    if (error) {
+        console.error("Unable to save building:", error);
+        throw new Error("Failed to save building");
+    }
+    //row level security hides rows it won't let you update instead of failing
+    if (!data || data.length === 0) {
+        throw new Error("Only admins can manage buildings");
+    }
+    return toBuilding(data[0] as BuildingRow);
+}
+
+//Hides a building from the picker (or brings it back). Buildings are never deleted, past events
+//still point at them.
+export async function setBuildingActive(buildingId: string, isActive: boolean, client: DbClient = supabase) {
+    const { data, error } = await client
+        .from("campus_buildings")
+        .update({ is_active: isActive, updated_at: new Date().toISOString() })
+        .eq("id", buildingId)
+        .select("id");
+
+    if (error) {
+        console.error("Unable to change building:", error);
+        throw new Error(isActive ? "Failed to restore building" : "Failed to retire building");
+    }
+    if (!data || data.length === 0) {
+        throw new Error("Only admins can manage buildings");
+    }
+}
@@ -0,0 +1,180 @@
+/**
+ * @jest-environment node
+ */
+
+import { containsBounds, eventPopupHtml, groupEventsByLocation, isInBounds, padBounds, toEventFeatureCollection } from './mapFeatures';
+import { Event } from '@/types/map';
+
+const event = (overrides: Partial<Event> = {}): Event => ({
+    id: 'event-1',
+    title: 'Pizza Lunch',
+    location: 'CDS',
+    time: '12:00 PM - 1:00 PM',
+    attendees: 3,
+    status: 'live',
+    coords: [-71.1003, 42.3484],
+    ...overrides,
+});
+
+const campus = { west: -71.12, south: 42.34, east: -71.10, north: 42.36 };
+
+describe('groupEventsByLocation', () => {
+    it('puts events at the same coordinates in one group, in order', () => {
+        const groups = groupEventsByLocation([
+            event({ id: 'a' }),
+            event({ id: 'b', coords: [-71.1054, 42.3503], location: 'GSU' }),
+            event({ id: 'c' }),
+        ]);
+
+        expect(groups.map(group => group.events.map(e => e.id))).toEqual([['a', 'c'], ['b']]);
+        expect(groups[1]).toMatchObject({ key: '-71.1054,42.3503', location: 'GSU' });
+    });
+
+    it('picks the event most worth going to as the best', () => {
+        const [group] = groupEventsByLocation([
+            event({ id: 'later', status: 'scheduled' }),
+            event({ id: 'low', status: 'running_low' }),
+            event({ id: 'now', status: 'live' }),
+        ]);
+
+        expect(group.best.id).toBe('now');
+    });
+
+    it('ranks an event whose food is gone below ones still serving', () => {
+        const [group] = groupEventsByLocation([
+            event({ id: 'gone', status: 'running_low', portionsRemaining: 0, portionsTotal: 12 }),
+            event({ id: 'later', status: 'scheduled' }),
+        ]);
+
+        expect(group.best.id).toBe('later');
+    });
+
+    it('prefers events that fit the dietary profile', () => {
+        const [group] = groupEventsByLocation([
+            event({ id: 'live', status: 'live' }),
+            event({ id: 'soon', status: 'starting_soon' }),
+        ], ['live']);
+
+        expect(group.best.id).toBe('soon');
+        expect(group.events.map(e => e.dimmed)).toEqual([true, false]);
+    });
+
+    it('skips events without usable coordinates', () => {
+        const groups = groupEventsByLocation([event({ coords: [NaN, NaN] }), event({ id: 'event-2' })]);
+
+        expect(groups.map(group => group.key)).toEqual(['-71.1003,42.3484']);
+    });
+});
+
+describe('toEventFeatureCollection', () => {
+    it('makes a point per location with the best color and the count', () => {
+        const collection = toEventFeatureCollection(groupEventsByLocation([
+            event({ id: 'a', status: 'scheduled' }),
+            event({ id: 'b', status: 'live' }),
+        ]));
+
+        expect(collection.features).toEqual([{
+            type: 'Feature',
+            id: '-71.1003,42.3484',
+            geometry: { type: 'Point', coordinates: [-71.1003, 42.3484] },
+            properties: { key: '-71.1003,42.3484', count: 2, color: '#22c55e', dimmed: false },
+        }]);
+    });
+
+    it('dims a location only when every event there is dimmed', () => {
+        const features = (dimmed: string[]) => toEventFeatureCollection(
+            groupEventsByLocation([event({ id: 'a' }), event({ id: 'b' })], dimmed)
+        ).features;
+
+        expect(features(['a'])[0].properties.dimmed).toBe(false);
+        expect(features(['a', 'b'])[0].properties.dimmed).toBe(true);
+    });
+});
+
+describe('eventPopupHtml', () => {
+    it('shows a single event with its walk and portions', () => {
+        const [group] = groupEventsByLocation([
+            event({ portionsRemaining: 4, portionsTotal: 20, distance: '450 m · 5 min walk' }),
+        ]);
+
+        const html = eventPopupHtml(group);
+        expect(html).toContain('Pizza Lunch');
+        expect(html).toContain('4 of 20 portions left');
+        expect(html).toContain('450 m · 5 min walk');
+        expect(html).not.toContain('data-event-id');
+    });
+
+    it('says when the food is gone instead of counting zero portions', () => {
+        const [group] = groupEventsByLocation([event({ status: 'running_low', portionsRemaining: 0, portionsTotal: 12 })]);
+
+        const html = eventPopupHtml(group);
+        expect(html).toContain('All 12 portions are gone');
+        expect(html).not.toContain('0 of 12 portions left');
+        expect(toEventFeatureCollection([group]).features[0].properties.color).toBe('#78716c');
+    });
+
+    it('shows how full an event is', () => {
+        const [open] = groupEventsByLocation([event({ attendees: 3, maxAttendees: 10 })]);
+        const [full] = groupEventsByLocation([event({ attendees: 10, maxAttendees: 10, waitlistCount: 2 })]);
+        const [unlimited] = groupEventsByLocation([event()]);
+
+        expect(eventPopupHtml(open)).toContain('3 of 10 spots taken');
+        expect(eventPopupHtml(full)).toContain('Full, 2 waiting');
+        expect(eventPopupHtml(unlimited)).toContain('3 attending');
+    });
+
+    it('lists every event at a location to pick from', () => {
+        const [group] = groupEventsByLocation([event({ id: 'a' }), event({ id: 'b', title: 'Bagels' })], ['b']);
+
+        const html = eventPopupHtml(group);
+        expect(html).toContain('2 events here');
+        expect(html).toContain('data-event-id="a"');
+        expect(html).toContain('data-event-id="b"');
+        expect(html).toContain("Doesn't fit your dietary profile");
+    });
+
+    it('escapes what organizers typed', () => {
+        const [group] = groupEventsByLocation([
+            event({ title: '<img src=x onerror=alert(1)>' }),
+            event({ id: '"><script>', title: 'Bagels' }),
+        ]);
+
+        const html = eventPopupHtml(group);
+        expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+        expect(html).not.toContain('<img');
+        expect(html).not.toContain('<script>');
+    });
+});
+
+describe('padBounds', () => {
+    it('grows every side by the ratio', () => {
+        const padded = padBounds(campus, 0.5);
+
+        expect(padded.west).toBeCloseTo(-71.13);
+        expect(padded.east).toBeCloseTo(-71.09);
+        expect(padded.south).toBeCloseTo(42.33);
+        expect(padded.north).toBeCloseTo(42.37);
+    });
+
+    it('stops at the edges of the globe', () => {
+        expect(padBounds({ west: -170, south: -80, east: 170, north: 80 }, 1)).toEqual({
+            west: -180, south: -90, east: 180, north: 90,
+        });
+    });
+});
+
+describe('containsBounds', () => {
+    it('is true only when the inner area fits entirely', () => {
+        expect(containsBounds(padBounds(campus, 0.5), campus)).toBe(true);
+        expect(containsBounds(campus, padBounds(campus, 0.5))).toBe(false);
+        expect(containsBounds(campus, { ...campus, east: -71.09 })).toBe(false);
+    });
+});
+
+describe('isInBounds', () => {
+    it('includes points on the edge', () => {
+        expect(isInBounds([-71.11, 42.35], campus)).toBe(true);
+        expect(isInBounds([-71.10, 42.36], campus)).toBe(true);
+        expect(isInBounds([-71.05, 42.35], campus)).toBe(false);
+    });
+});
@@ -0,0 +1,208 @@
+import type { Feature, FeatureCollection, Point } from "geojson";
+import { Event, MapBounds } from "@/types/map";
+import { DisplayStatus } from "@/types/event";
+import { EVENT_STATUS, EVENT_STATUS_COLORS, FOOD_GONE } from "@/constants/map";
+import { displayStatus, isFoodGone } from "./eventLifecycle";
+import { isEventFull } from "./rsvpCounts";
+
+//Events as GeoJSON for the map's clustered source, and the bounding box maths for loading
+//only the events in the area on screen.
+
+//Events at one spot on the map, usually one building. Events are snapped to their building's
+//coordinates, so without grouping their markers would sit exactly on top of each other.
+export interface EventLocationGroup {
+    key: string;
+    coords: [number, number];
+    location: string;
+    events: GroupedEvent[];
+    best: GroupedEvent;
+}
+
+export type GroupedEvent = Event & { dimmed: boolean };
+
+//What each location feature carries, Mapbox hands these back on click and hover
+export interface EventFeatureProperties {
+    key: string;
+    count: number;
+    color: string;
+    dimmed: boolean;
+}
+
+//Which event's color a group takes, the one most worth walking over for comes first
+const STATUS_PRIORITY: DisplayStatus[] = [
+    EVENT_STATUS.LIVE,
+    EVENT_STATUS.RUNNING_LOW,
+    EVENT_STATUS.STARTING_SOON,
+    EVENT_STATUS.SCHEDULED,
+    EVENT_STATUS.DRAFT,
+    FOOD_GONE,
+    EVENT_STATUS.ENDED,
+    EVENT_STATUS.CANCELLED,
+];
+
+const FALLBACK_COLOR = "#a1a1aa";
+
+const HTML_ESCAPES: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&#39;",
+};
+
+function escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+function statusRank(event: Event): number {
+    const rank = STATUS_PRIORITY.indexOf(displayStatus(event));
+    return rank === -1 ? STATUS_PRIORITY.length : rank;
+}
+
+function statusColor(event: Event): string {
+    return EVENT_STATUS_COLORS[displayStatus(event)]?.hex ?? FALLBACK_COLOR;
+}
+
+//Dimmed events only win when every event in the group is dimmed, then the earliest listed wins
+function isBetter(event: GroupedEvent, best: GroupedEvent): boolean {
+    if (event.dimmed !== best.dimmed) return !event.dimmed;
+    return statusRank(event) < statusRank(best);
+}
+
+//Groups events with the same coordinates, keeping the order they were passed in
+export function groupEventsByLocation(events: Event[], dimmedEventIds: string[] = []): EventLocationGroup[] {
+    const groups: EventLocationGroup[] = [];
+    const byKey: Record<string, EventLocationGroup> = {};
+
+    events
+        .filter(event => event.coords && event.coords.every(Number.isFinite))
+        .forEach(event => {
+            const grouped: GroupedEvent = { ...event, dimmed: dimmedEventIds.includes(event.id) };
+            const key = event.coords.join(",");
+            const group = byKey[key];
+
+            if (!group) {
+                byKey[key] = { key, coords: event.coords, location: event.location, events: [grouped], best: grouped };
+                groups.push(byKey[key]);
+                return;
+            }
+
+            group.events.push(grouped);
+            if (isBetter(grouped, group.best)) {
+                group.best = grouped;
+            }
+        });
+
+    return groups;
+}
+
+//One point feature per location, colored by its best event
+export function toEventFeatureCollection(
+    groups: EventLocationGroup[]
+): FeatureCollection<Point, EventFeatureProperties> {
+    const features: Feature<Point, EventFeatureProperties>[] = groups.map(group => ({
+        type: "Feature",
+        id: group.key,
+        geometry: { type: "Point", coordinates: group.coords },
+        properties: {
+            key: group.key,
+            count: group.events.length,
+            color: statusColor(group.best),
+            dimmed: group.events.every(event => event.dimmed),
+        },
+    }));
+
+    return { type: "FeatureCollection", features };
+}
+
+//Walk, attendance, portions left and the dietary note, as spans when they go inside a button
+function eventDetailsHtml(event: GroupedEvent, tag: "p" | "span" = "p"): string {
+    return `
+            ${event.distance
+                ? `<${tag} class="block text-sm text-blue-300">${escapeHtml(event.distance)}</${tag}>`
+                : ''}
+            <${tag} class="block text-sm ${isEventFull(event) ? 'text-red-300' : 'text-zinc-300'}">${attendanceText(event)}</${tag}>
+            ${isFoodGone(event)
+                ? `<${tag} class="block text-sm text-stone-300">All ${event.portionsTotal} portions are gone</${tag}>`
+                : event.portionsTotal !== undefined
+                ? `<${tag} class="block text-sm text-green-300">${event.portionsRemaining} of ${event.portionsTotal} portions left</${tag}>`
+                : ''}
+            ${event.dimmed
+                ? `<${tag} class="block text-sm text-amber-300">Doesn't fit your dietary profile</${tag}>`
+                : ''}`;
+}
+
+//"Full, 3 waiting" once every spot is taken, otherwise how many are going
+function attendanceText(event: GroupedEvent): string {
+    if (isEventFull(event)) {
+        return `Full, ${event.waitlistCount ?? 0} waiting`;
+    }
+    return event.maxAttendees
+        ? `${event.attendees} of ${event.maxAttendees} spots taken`
+        : `${event.attendees} attending`;
+}
+
+/**
+ * The popup for a location marker, titles are typed by organizers so everything is escaped
+ *
+ * A single event shows its details. Several list every event as a button carrying its id in
+ * data-event-id, for the map to open when clicked.
+ */
+export function eventPopupHtml(group: EventLocationGroup): string {
+    if (group.events.length === 1) {
+        const [event] = group.events;
+        return `
+        <div class="text-white">
+            <h3 class="font-semibold">${escapeHtml(event.title)}</h3>
+            <p class="text-sm text-zinc-300">${escapeHtml(event.location)}</p>
+            <p class="text-sm text-zinc-300">${escapeHtml(event.time)}</p>
+            ${eventDetailsHtml(event)}
+        </div>
+    `;
+    }
+
+    const items = group.events.map(event => `
+            <li>
+                <button type="button" data-event-id="${escapeHtml(event.id)}" class="w-full text-left rounded px-2 py-1 hover:bg-zinc-700${event.dimmed ? ' opacity-60' : ''}">
+                    <span class="flex items-center gap-2">
+                        <span class="h-2 w-2 rounded-full flex-none" style="background-color: ${statusColor(event)}"></span>
+                        <span class="font-semibold">${escapeHtml(event.title)}</span>
+                    </span>
+                    <span class="block text-sm text-zinc-300">${escapeHtml(event.time)}</span>
+                    ${eventDetailsHtml(event, "span")}
+                </button>
+            </li>`).join("");
+
+    return `
+        <div class="text-white">
+            <h3 class="font-semibold">${escapeHtml(group.location)}</h3>
+            <p class="text-sm text-zinc-300">${group.events.length} events here</p>
+            <ul class="mt-2 space-y-1 max-h-60 overflow-y-auto">${items}
+            </ul>
+        </div>
+    `;
+}
+
+//Grows the bounds by ratio of their width and height on every side, staying on the globe
+export function padBounds(bounds: MapBounds, ratio: number): MapBounds {
+    const padLng = (bounds.east - bounds.west) * ratio;
+    const padLat = (bounds.north - bounds.south) * ratio;
+    return {
+        west: Math.max(-180, bounds.west - padLng),
+        south: Math.max(-90, bounds.south - padLat),
+        east: Math.min(180, bounds.east + padLng),
+        north: Math.min(90, bounds.north + padLat),
+    };
+}
+
+export function containsBounds(outer: MapBounds, inner: MapBounds): boolean {
+    return inner.west >= outer.west
+        && inner.south >= outer.south
+        && inner.east <= outer.east
+        && inner.north <= outer.north;
+}
+
+export function isInBounds(coords: [number, number], bounds: MapBounds): boolean {
+    const [lng, lat] = coords;
+    return lng >= bounds.west && lng <= bounds.east && lat >= bounds.south && lat <= bounds.north;
+}
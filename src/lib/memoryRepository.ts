@@ -0,0 +1,493 @@
+import { Json, Tables } from "@/types/database";
+import { EventStatus, EventTemplate, RecurrenceRule } from "@/types/event";
+import { Notification } from "@/types";
+import { EVENT_STATUS } from "@/constants/map";
+import { isAcceptingRsvps, VISIBLE_STATUSES } from "./eventLifecycle";
+import { FoodItemRow, isRunningLow } from "./foodInventory";
+import { toBuilding } from "./eventLocations";
+import { EventTemplateRow, toEventTemplate, toTemplateData, toTemplateName } from "./eventTemplates";
+import { parsePoint, SRID } from "./geo";
+import { isInBounds } from "./mapFeatures";
+import { distanceMeters } from "./routing";
+import { AttendeeRow, EventRecord, EventRepository, EventRow, ProfileRow } from "./repository";
+
+//An EventRepository that keeps everything in memory, for unit tests, local runs without a network
+//and the landing page demo. It's deterministic: ids count up from 1 and the clock can be fixed.
+//RSVP, capacity, waitlist, portion count and cancellation notice rules match the database functions.
+//Database triggers (other notifications, calendar sequence numbers), realtime and row level security
+//aren't simulated.
+
+//Everything a memory repository holds, createDemoData has the seeded fixtures
+export interface MemoryData {
+    profiles: ProfileRow[];
+    events: EventRow[];
+    attendees: AttendeeRow[];
+    waitlist: Tables<"event_waitlist">[];
+    foodItems: FoodItemRow[];
+    series: Tables<"event_series">[];
+    buildings: Tables<"campus_buildings">[];
+    templates: Tables<"event_templates">[];
+    notifications: Tables<"notifications">[];
+    //The profile findSignedInProfile returns, and the only one that can RSVP. null for signed out.
+    signedInProfileId: string | null;
+}
+
+const EWKT_POINT = new RegExp(`^SRID=${SRID};POINT\\((\\S+) (\\S+)\\)$`);
+
+//JSON copies, so the seed can be reused and callers can't change the store through what they get back
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const byStartTime = (a: EventRow, b: EventRow) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime();
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+//data is jsonb, which the generated types only know as Json
+const toTemplate = (row: Tables<"event_templates">): EventTemplate => toEventTemplate(copy(row) as unknown as EventTemplateRow);
+
+//The same conversion as notificationService's, which would load the Supabase client
+const toNotification = (row: Tables<"notifications">): Notification => ({
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    message: row.message,
+    type: row.type as Notification["type"],
+    eventId: row.event_id,
+    read: row.read,
+    createdAt: new Date(row.created_at),
+});
+
+//The database turns the EWKT eventService writes into a point. This stores it as GeoJSON, which
+//parsePoint reads like the EWKB the database sends back.
+function toStoredPoint(value: unknown): unknown {
+    const match = typeof value === "string" ? EWKT_POINT.exec(value) : null;
+    return match ? { type: "Point", coordinates: [Number(match[1]), Number(match[2])] } : value;
+}
+
+export function createMemoryRepository(seed: MemoryData, now: () => Date = () => new Date()): EventRepository {
+    const data = copy(seed);
+    let nextId = 1;
+    const newId = (prefix: string) => `${prefix}-${nextId++}`;
+    const timestamp = () => now().toISOString();
+
+    const findEventRow = (eventId: string) => data.events.find(event => event.id === eventId);
+    const attendeesOf = (eventId: string) => data.attendees.filter(attendee => attendee.event_id === eventId);
+    //in line, next to be promoted first
+    const waitlistOf = (eventId: string) => data.waitlist
+        .filter(entry => entry.event_id === eventId)
+        .sort((a, b) => a.position - b.position);
+    const isSuspended = (profileId: string) => !!data.profiles.find(profile => profile.id === profileId)?.suspended_at;
+    const coordinatesOf = (event: EventRow) => parsePoint(event.location_point) as [number, number];
+
+    const isUpcomingPublic = (event: EventRow) => event.is_public
+        && VISIBLE_STATUSES.includes(event.status as EventStatus)
+        && new Date(event.end_time) > now();
+
+    //The row with the relations the Supabase repository joins
+    const toRecord = (event: EventRow): EventRecord => {
+        const organizer = data.profiles.find(profile => profile.id === event.organizer_id);
+        return copy({
+            ...event,
+            profiles: organizer ? { full_name: organizer.full_name, email: organizer.email } : null,
+            event_attendees: attendeesOf(event.id).map(attendee => ({ id: attendee.id })),
+            event_waitlist: waitlistOf(event.id).map(entry => ({ id: entry.id })),
+            food_items: data.foodItems.filter(item => item.event_id === event.id),
+        });
+    };
+
+    const upcomingPublicEvents = () => data.events.filter(isUpcomingPublic).sort(byStartTime);
+
+    const repository: EventRepository = {
+        name: "memory",
+
+        findUpcomingPublicEvents: async (range) => {
+            const events = upcomingPublicEvents();
+            const page = range ? events.slice(range.from, range.to + 1) : events;
+            return { records: page.map(toRecord), total: events.length };
+        },
+
+        findUpcomingPublicEventsInBounds: async (bounds, limit) => upcomingPublicEvents()
+            .filter(event => isInBounds(coordinatesOf(event), bounds))
+            .slice(0, limit)
+            .map(toRecord),
+
+        findUpcomingPublicEventsNear: async (coords, radiusMeters, limit) => upcomingPublicEvents()
+            .map(event => ({ event, distance: distanceMeters(coords, coordinatesOf(event)) }))
+            .filter(({ distance }) => distance <= radiusMeters)
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, limit)
+            .map(({ event }) => toRecord(event)),
+
+        findOrganizerEvents: async (organizerId, { limit, excludedStatuses = [] } = {}) => data.events
+            .filter(event => event.organizer_id === organizerId && !excludedStatuses.includes(event.status))
+            .sort((a, b) => byStartTime(b, a))
+            .slice(0, limit)
+            .map(toRecord),
+
+        findEvent: async (eventId) => {
+            const event = findEventRow(eventId);
+            if (!event) {
+                throw new Error("Event not found");
+            }
+            return toRecord(event);
+        },
+
+        findSeriesOccurrences: async (seriesId, { excludeId, startsAfter }) => data.events
+            .filter(event => event.series_id === seriesId
+                && event.id !== excludeId
+                && event.status !== EVENT_STATUS.ENDED
+                && event.status !== EVENT_STATUS.CANCELLED
+                && new Date(event.end_time) > now()
+                && (!startsAfter || new Date(event.start_time) > new Date(startsAfter)))
+            .sort(byStartTime)
+            .map(toRecord),
+
+        findSeriesRecurrence: async (seriesId) => {
+            const series = data.series.find(entry => entry.id === seriesId);
+            return series ? copy(series.recurrence) as unknown as RecurrenceRule : null;
+        },
+
+        insertSeries: async (organizerId, recurrence) => {
+            const id = newId("series");
+            data.series.push({
+                id,
+                organizer_id: organizerId,
+                recurrence: copy(recurrence) as unknown as Json,
+                created_at: timestamp(),
+            });
+            return id;
+        },
+
+        insertEvents: async (rows) => {
+            const inserted = rows.map((row): EventRow => ({
+                id: newId("event"),
+                building_id: null,
+                cancellation_reason: null,
+                cancelled_at: null,
+                description: null,
+                food_offerings: null,
+                is_public: true,
+                location_address: null,
+                location_instructions: null,
+                location_room: null,
+                max_attendees: null,
+                sequence: 0,
+                series_id: null,
+                status: EVENT_STATUS.SCHEDULED,
+                created_at: timestamp(),
+                updated_at: timestamp(),
+                ...row,
+                location_point: toStoredPoint(row.location_point),
+            }));
+            data.events.push(...inserted);
+            return copy(inserted);
+        },
+
+        updateEvent: async (eventId, changes, expectedStatus) => {
+            const event = findEventRow(eventId);
+            if (!event || (expectedStatus !== undefined && event.status !== expectedStatus)) {
+                return false;
+            }
+            Object.assign(event, changes, { updated_at: timestamp() });
+            if ("location_point" in changes) {
+                event.location_point = toStoredPoint(changes.location_point);
+            }
+            return true;
+        },
+
+        deleteEvent: async (eventId) => {
+            //the foreign keys cascade
+            data.events = data.events.filter(event => event.id !== eventId);
+            data.attendees = data.attendees.filter(attendee => attendee.event_id !== eventId);
+            data.waitlist = data.waitlist.filter(entry => entry.event_id !== eventId);
+            data.foodItems = data.foodItems.filter(item => item.event_id !== eventId);
+        },
+
+        //Same as the save_food_items database function: items keep their id when the form still has
+        //it, and changing a count keeps the portions already handed out
+        saveFoodItems: async (eventId, offerings) => {
+            if (!findEventRow(eventId)) {
+                throw new Error("Event not found");
+            }
+            const existing = data.foodItems.filter(item => item.event_id === eventId);
+            const items = offerings.map((offering, index): FoodItemRow => {
+                const before = existing.find(item => item.id === offering.id);
+                const initial = offering.quantity ?? null;
+                const quantity = initial === null ? null
+                    : before?.initial_quantity == null || before.quantity === null ? initial
+                    : Math.max(0, Math.min(initial, before.quantity + initial - before.initial_quantity));
+                return {
+                    id: before?.id ?? newId("food"),
+                    event_id: eventId,
+                    name: offering.name,
+                    description: offering.description || null,
+                    dietary_tags: offering.dietaryTags,
+                    serving_size: offering.servingSize || null,
+                    temperature: offering.temperature || null,
+                    quantity,
+                    initial_quantity: initial,
+                    status: quantity === 0 ? "claimed" : "available",
+                    sort_order: index,
+                    created_at: before?.created_at ?? timestamp(),
+                    updated_at: timestamp(),
+                };
+            });
+            data.foodItems = data.foodItems.filter(item => item.event_id !== eventId).concat(items);
+        },
+
+        //Same checks as the adjust_food_quantity database function, and the same status refresh:
+        //a started event is live, or running_low from a quarter of its counted portions down to none
+        adjustFoodQuantity: async (foodItemId, delta) => {
+            const item = data.foodItems.find(entry => entry.id === foodItemId);
+            const event = item && findEventRow(item.event_id);
+            if (!item || !event) {
+                return { result: "not_found", quantity: null, eventStatus: null };
+            }
+            const status = event.status as EventStatus;
+            if (data.signedInProfileId !== null && data.signedInProfileId !== event.organizer_id) {
+                return { result: "forbidden", quantity: null, eventStatus: status };
+            }
+            if (([EVENT_STATUS.DRAFT, EVENT_STATUS.ENDED, EVENT_STATUS.CANCELLED] as EventStatus[]).includes(status)) {
+                return { result: "closed", quantity: null, eventStatus: status };
+            }
+            if (item.quantity === null || item.initial_quantity === null) {
+                return { result: "untracked", quantity: null, eventStatus: status };
+            }
+
+            item.quantity = Math.max(0, Math.min(item.initial_quantity, item.quantity + delta));
+            item.status = item.quantity === 0 ? "claimed" : "available";
+            item.updated_at = timestamp();
+
+            const counted = data.foodItems.filter(entry => entry.event_id === event.id && (entry.initial_quantity ?? 0) > 0);
+            const started = new Date(event.start_time) <= now() && now() < new Date(event.end_time);
+            if (counted.length > 0 && started && VISIBLE_STATUSES.includes(status)) {
+                const remaining = counted.reduce((sum, entry) => sum + (entry.quantity ?? 0), 0);
+                const total = counted.reduce((sum, entry) => sum + (entry.initial_quantity ?? 0), 0);
+                const next = isRunningLow(remaining, total) ? EVENT_STATUS.RUNNING_LOW : EVENT_STATUS.LIVE;
+                if (next !== status) {
+                    Object.assign(event, { status: next, updated_at: timestamp() });
+                }
+            }
+            return { result: "ok", quantity: item.quantity, eventStatus: event.status as EventStatus };
+        },
+
+        //Same checks, in the same order, as the rsvp_to_event database function
+        rsvp: async (eventId, userId) => {
+            if (data.signedInProfileId !== null && data.signedInProfileId !== userId) {
+                return "forbidden";
+            }
+            const event = findEventRow(eventId);
+            if (!event) {
+                return "not_found";
+            }
+            if (!isAcceptingRsvps(event.status as EventStatus) || new Date(event.end_time) <= now()) {
+                return "closed";
+            }
+            const attendees = attendeesOf(eventId);
+            if (attendees.some(attendee => attendee.user_id === userId)) {
+                return "duplicate";
+            }
+            if (event.max_attendees !== null && attendees.length >= event.max_attendees) {
+                return "full";
+            }
+            data.attendees.push({
+                id: newId("attendee"),
+                event_id: eventId,
+                user_id: userId,
+                rsvp_time: timestamp(),
+                checked_in_at: null,
+                checked_in_by: null,
+            });
+            return "ok";
+        },
+
+        deleteAttendee: async (eventId, userId) => {
+            data.attendees = data.attendees.filter(attendee => !(attendee.event_id === eventId && attendee.user_id === userId));
+        },
+
+        //Same as the promote_from_waitlist database function
+        promoteFromWaitlist: async (eventId) => {
+            const event = findEventRow(eventId);
+            if (!event) {
+                return null;
+            }
+            if (event.max_attendees !== null && attendeesOf(eventId).length >= event.max_attendees) {
+                return null;
+            }
+            //suspended users keep their place but can't be seated, like promote_from_waitlist
+            const next = waitlistOf(eventId).find(entry => !isSuspended(entry.user_id));
+            if (!next) {
+                return null;
+            }
+            if (!attendeesOf(eventId).some(attendee => attendee.user_id === next.user_id)) {
+                data.attendees.push({
+                    id: newId("attendee"),
+                    event_id: eventId,
+                    user_id: next.user_id,
+                    rsvp_time: timestamp(),
+                    checked_in_at: null,
+                    checked_in_by: null,
+                });
+            }
+            data.waitlist = data.waitlist.filter(entry => entry.id !== next.id);
+            return next.user_id;
+        },
+
+        findAttendee: async (eventId, userId) => {
+            const attendee = attendeesOf(eventId).find(row => row.user_id === userId);
+            return attendee ? copy(attendee) : null;
+        },
+
+        findAttendingEventIds: async (userId) => data.attendees
+            .filter(attendee => attendee.user_id === userId)
+            .map(attendee => attendee.event_id),
+
+        findAttendingEvents: async (userId) => data.attendees
+            .filter(attendee => attendee.user_id === userId)
+            .map(attendee => findEventRow(attendee.event_id))
+            .filter((event): event is EventRow => event !== undefined)
+            .map(toRecord),
+
+        findAttendeeUserIds: async (eventIds) => Array.from(new Set(data.attendees
+            .filter(attendee => eventIds.includes(attendee.event_id))
+            .map(attendee => attendee.user_id))),
+
+        //Same as the notify_event_cancelled database function
+        notifyCancellation: async (eventIds) => {
+            const cancelled = data.events
+                .filter(event => eventIds.includes(event.id) && event.status === EVENT_STATUS.CANCELLED)
+                .sort(byStartTime);
+            const cancelledIds = cancelled.map(event => event.id);
+            const alreadySent = data.notifications
+                .some(notification => notification.title === "Event cancelled" && cancelledIds.includes(notification.event_id ?? ""));
+            if (cancelled.length === 0 || alreadySent) {
+                return [];
+            }
+
+            const bySince = <T>(rows: T[], since: (row: T) => string) => [...rows].sort((a, b) => since(a).localeCompare(since(b)));
+            const attendeeIds = bySince(data.attendees.filter(attendee => cancelledIds.includes(attendee.event_id)), attendee => attendee.rsvp_time ?? "")
+                .map(attendee => attendee.user_id);
+            const waitlistIds = bySince(data.waitlist.filter(entry => cancelledIds.includes(entry.event_id)), entry => entry.joined_at)
+                .map(entry => entry.user_id)
+                .filter(userId => !attendeeIds.includes(userId));
+            const recipients = Array.from(new Set(attendeeIds.concat(waitlistIds)));
+
+            const [event] = cancelled;
+            recipients.forEach(userId => data.notifications.push({
+                id: newId("notification"),
+                user_id: userId,
+                title: "Event cancelled",
+                message: `${event.title} was cancelled${event.cancellation_reason ? `: ${event.cancellation_reason}` : ""}`,
+                type: "system",
+                event_id: event.id,
+                read: false,
+                created_at: timestamp(),
+            }));
+            return recipients;
+        },
+
+        joinWaitlist: async (eventId, userId) => {
+            if (waitlistOf(eventId).some(entry => entry.user_id === userId)) {
+                return "duplicate";
+            }
+            data.waitlist.push({
+                id: newId("waitlist"),
+                event_id: eventId,
+                user_id: userId,
+                //an identity column in the database, so later joins are always further back
+                position: Math.max(0, ...data.waitlist.map(entry => entry.position)) + 1,
+                joined_at: timestamp(),
+            });
+            return "ok";
+        },
+
+        leaveWaitlist: async (eventId, userId) => {
+            data.waitlist = data.waitlist.filter(entry => !(entry.event_id === eventId && entry.user_id === userId));
+        },
+
+        findWaitlistUserIds: async (eventId) => waitlistOf(eventId).map(entry => entry.user_id),
+
+        findWaitlistedEventIds: async (userId) => data.waitlist
+            .filter(entry => entry.user_id === userId)
+            .map(entry => entry.event_id),
+
+        findProfile: async (profileId) => {
+            const profile = data.profiles.find(row => row.id === profileId);
+            return profile ? copy(profile) : null;
+        },
+
+        findProfileByAuthId: async (authId) => {
+            const profile = data.profiles.find(row => row.auth_id === authId);
+            return profile ? copy(profile) : null;
+        },
+
+        findSignedInProfile: async () => data.signedInProfileId === null
+            ? null
+            : repository.findProfile(data.signedInProfileId),
+
+        insertProfile: async (profile) => {
+            data.profiles.push({
+                id: newId("profile"),
+                dietary_restrictions: [],
+                last_login: null,
+                requested_role: null,
+                role: "student",
+                suspended_at: null,
+                suspension_reason: null,
+                ...profile,
+            });
+        },
+
+        updateProfile: async (profileId, changes) => {
+            const profile = data.profiles.find(row => row.id === profileId);
+            if (profile) {
+                Object.assign(profile, changes);
+            }
+        },
+
+        findBuildings: async () => data.buildings
+            .filter(building => building.is_active)
+            .sort(byName)
+            .map(toBuilding),
+
+        findTemplates: async (organizerId) => data.templates
+            .filter(template => template.organizer_id === organizerId)
+            .sort(byName)
+            .map(toTemplate),
+
+        //Same as the upsert on organizer_id and name in templateService
+        saveTemplate: async (organizerId, name, formData) => {
+            const templateName = toTemplateName(name);
+            let template = data.templates.find(row => row.organizer_id === organizerId && row.name === templateName);
+            if (!template) {
+                template = { id: newId("template"), organizer_id: organizerId, name: templateName, data: {}, created_at: timestamp(), updated_at: timestamp() };
+                data.templates.push(template);
+            }
+            Object.assign(template, { data: copy(toTemplateData(formData)) as unknown as Json, updated_at: timestamp() });
+            return toTemplate(template);
+        },
+
+        deleteTemplate: async (templateId) => {
+            data.templates = data.templates.filter(template => template.id !== templateId);
+        },
+
+        findNotifications: async (userId, { page = 1, pageSize = 20, unreadOnly = false } = {}) => {
+            const notifications = data.notifications
+                .filter(notification => notification.user_id === userId && (!unreadOnly || !notification.read))
+                .sort((a, b) => b.created_at.localeCompare(a.created_at));
+            const from = (page - 1) * pageSize;
+            return { notifications: notifications.slice(from, from + pageSize).map(toNotification), total: notifications.length };
+        },
+
+        countUnreadNotifications: async (userId) => data.notifications
+            .filter(notification => notification.user_id === userId && !notification.read)
+            .length,
+
+        markNotificationsRead: async (userId, notificationIds) => {
+            const unread = data.notifications.filter(notification => notification.user_id === userId
+                && !notification.read
+                && (notificationIds === "all" || notificationIds.includes(notification.id)));
+            unread.forEach(notification => { notification.read = true; });
+            return unread.length;
+        },
+    };
+    return repository;
+}
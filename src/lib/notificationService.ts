@@ -0,0 +1,112 @@
+import supabase, { DbClient } from "./supabaseClient";
+import { Notification } from "@/types";
+
+//Notifications are written by the database (see the notifications migration), these only read and mark them
+
+export interface NotificationRow {
+    id: string;
+    user_id: string;
+    title: string;
+    message: string;
+    type: Notification["type"];
+    event_id: string | null;
+    read: boolean;
+    created_at: string;
+}
+
+export function toNotification(row: NotificationRow): Notification {
+    return {
+        id: row.id,
+        userId: row.user_id,
+        title: row.title,
+        message: row.message,
+        type: row.type,
+        eventId: row.event_id,
+        read: row.read,
+        createdAt: new Date(row.created_at),
+    };
+}
+
+//One page of a user's notifications, newest first
+export async function fetchNotifications(
+    userId: string,
+    { page = 1, pageSize = 20, unreadOnly = false }: { page?: number; pageSize?: number; unreadOnly?: boolean } = {},
+    client: DbClient = supabase
+) {
+    const from = (page - 1) * pageSize;
+    let query = client
+        .from("notifications")
+        .select("*", { count: "exact" })
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .range(from, from + pageSize - 1);
+
+    if (unreadOnly) {
+        query = query.eq("read", false);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+        console.error("Unable to fetch notifications:", error);
+        throw new Error("Failed to load notifications");
+    }
+
+    return {
+        notifications: (data as NotificationRow[] || []).map(toNotification),
+        total: count || 0,
+    };
+}
+
+export async function getUnreadNotificationCount(userId: string, client: DbClient = supabase) {
+    const { count, error } = await client
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .eq("read", false);
+
+    if (error) {
+        console.error("Unable to count unread notifications:", error);
+        throw new Error("Failed to load notifications");
+    }
+
+    return count || 0;
+}
+
+//Marks some of a user's notifications read, returns how many changed
+export async function markNotificationsRead(userId: string, notificationIds: string[], client: DbClient = supabase) {
+    if (notificationIds.length === 0) {
+        return 0;
+    }
+
+    const { data, error } = await client
+        .from("notifications")
+        .update({ read: true })
+        .eq("user_id", userId)
+        .eq("read", false)
+        .in("id", notificationIds)
+        .select("id");
+
+    if (error) {
+        console.error("Unable to mark notifications read:", error);
+        throw new Error("Failed to update notifications");
+    }
+
+    return data?.length || 0;
+}
+
+export async function markAllNotificationsRead(userId: string, client: DbClient = supabase) {
+    const { data, error } = await client
+        .from("notifications")
+        .update({ read: true })
+        .eq("user_id", userId)
+        .eq("read", false)
+        .select("id");
+
+    if (error) {
+        console.error("Unable to mark all notifications read:", error);
+        throw new Error("Failed to update notifications");
+    }
+
+    return data?.length || 0;
+}
@@ -0,0 +1,42 @@
+/**
+ * @jest-environment node
+ */
+
+import { canEditEvent, hasPermission, toUserRole } from './permissions';
+
+jest.mock('./supabaseClient', () => ({ __esModule: true, default: {} }));
+
+describe('hasPermission', () => {
+    it.each([
+        ['student', 'create_event', false],
+        ['faculty', 'create_event', true],
+        ['faculty', 'edit_any_event', false],
+        ['faculty', 'manage_users', false],
+        ['admin', 'moderate', true],
+        ['admin', 'manage_users', true],
+        ['faculty', 'manage_buildings', false],
+        ['admin', 'manage_buildings', true],
+    ] as const)('%s can %s: %s', (role, permission, expected) => {
+        expect(hasPermission(role, permission)).toBe(expected);
+    });
+
+    it('treats unknown roles as students', () => {
+        expect(toUserRole('donor')).toBe('student');
+        expect(hasPermission(undefined, 'create_event')).toBe(false);
+    });
+});
+
+describe('canEditEvent', () => {
+    it('lets faculty edit only their own events', () => {
+        expect(canEditEvent('faculty', true)).toBe(true);
+        expect(canEditEvent('faculty', false)).toBe(false);
+    });
+
+    it('lets admins edit any event', () => {
+        expect(canEditEvent('admin', false)).toBe(true);
+    });
+
+    it('does not let a student edit an event they somehow organize', () => {
+        expect(canEditEvent('student', true)).toBe(false);
+    });
+});
@@ -0,0 +1,43 @@
+import supabase, { DbClient } from "./supabaseClient";
+import { Permission, UserRole } from "@/types";
+import { ROLE_PERMISSIONS, ROLES } from "@/constants/config";
+
+//Roles are stored as plain text, anything unknown is treated as a student
+export function toUserRole(role: string | null | undefined): UserRole {
+    return Object.values(ROLES).includes(role as UserRole) ? role as UserRole : ROLES.STUDENT;
+}
+
+//Whether the role is allowed to do something, per ROLE_PERMISSIONS
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+    return ROLE_PERMISSIONS[toUserRole(role)].includes(permission);
+}
+
+//Organizers can edit their own events, and some roles can edit anyone's
+export function canEditEvent(role: string | null | undefined, isOrganizer: boolean): boolean {
+    return (isOrganizer && hasPermission(role, "edit_own_event")) || hasPermission(role, "edit_any_event");
+}
+
+//Result codes returned by the set_user_role database function
+type SetRoleResult = "ok" | "not_found" | "forbidden" | "invalid_role" | "self";
+
+const SET_ROLE_ERRORS: Record<Exclude<SetRoleResult, "ok">, string> = {
+    not_found: "User not found",
+    forbidden: "Only admins can change roles",
+    invalid_role: `Role must be one of ${Object.values(ROLES).join(", ")}`,
+    self: "You cannot change your own role",
+};
+
+//Changes a user's role, also how admins approve (role = 'faculty') or decline (role = 'student') faculty requests
+export async function setUserRole(profileId: string, role: UserRole, client: DbClient = supabase) {
+    const { data: result, error } = await client
+        .rpc("set_user_role", { p_profile_id: profileId, p_role: role });
+
+    if (error) {
+        console.error("Unable to change user role:", error);
+        throw new Error("Failed to change role");
+    }
+
+    if (result !== "ok") {
+        throw new Error(SET_ROLE_ERRORS[result as Exclude<SetRoleResult, "ok">] || "Failed to change role");
+    }
+}
@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+
+import { describeRecurrence, expandRecurrence, shiftOccurrence, toDateKey, validateRecurrence } from './recurrence';
+import { RecurrenceRule } from '@/types/event';
+import { RECURRENCE } from '@/constants/config';
+
+// Local times, so the expected days don't depend on the machine's time zone.
+// October 19 2026 is a Monday.
+const at = (month: number, day: number, hour: number = 12, minute: number = 0) => new Date(2026, month - 1, day, hour, minute);
+
+const rule = (overrides: Partial<RecurrenceRule> = {}): RecurrenceRule => ({
+    frequency: 'weekly',
+    weekdays: [1],
+    count: 3,
+    exceptDates: [],
+    ...overrides,
+});
+
+const days = (start: Date, end: Date, recurrence: RecurrenceRule) =>
+    expandRecurrence(start, end, recurrence).map(occurrence => toDateKey(occurrence.start));
+
+describe('expandRecurrence', () => {
+    it('repeats weekly at the same time and length', () => {
+        const occurrences = expandRecurrence(at(10, 19, 12), at(10, 19, 13, 30), rule());
+
+        expect(occurrences.map(occurrence => toDateKey(occurrence.start))).toEqual(['2026-10-19', '2026-10-26', '2026-11-02']);
+        occurrences.forEach(occurrence => {
+            expect(occurrence.start.getHours()).toBe(12);
+            expect(occurrence.end.getTime() - occurrence.start.getTime()).toBe(90 * 60 * 1000);
+        });
+    });
+
+    it('repeats on several weekdays every other week', () => {
+        expect(days(at(10, 19), at(10, 19, 13), rule({ frequency: 'biweekly', weekdays: [1, 3], count: 4 })))
+            .toEqual(['2026-10-19', '2026-10-21', '2026-11-02', '2026-11-04']);
+    });
+
+    it('starts on the first picked weekday on or after the start date', () => {
+        expect(days(at(10, 20), at(10, 20, 13), rule({ weekdays: [1, 3], count: 2 })))
+            .toEqual(['2026-10-21', '2026-10-26']);
+    });
+
+    it('stops after the until date', () => {
+        expect(days(at(10, 19), at(10, 19, 13), rule({ count: undefined, until: '2026-11-02' })))
+            .toEqual(['2026-10-19', '2026-10-26', '2026-11-02']);
+    });
+
+    it('skips except dates but still counts them', () => {
+        expect(days(at(10, 19), at(10, 19, 13), rule({ exceptDates: ['2026-10-26'] })))
+            .toEqual(['2026-10-19', '2026-11-02']);
+    });
+
+    it('uses the start date\'s weekday when none are picked', () => {
+        expect(days(at(10, 21), at(10, 21, 13), rule({ weekdays: [], count: 2 })))
+            .toEqual(['2026-10-21', '2026-10-28']);
+    });
+});
+
+describe('validateRecurrence', () => {
+    const start = at(10, 19);
+    const end = at(10, 19, 13);
+
+    it('accepts a rule with an end', () => {
+        expect(validateRecurrence(start, end, rule())).toBeNull();
+    });
+
+    it('needs exactly one of until and count', () => {
+        expect(validateRecurrence(start, end, rule({ count: undefined }))).toMatch(/end date or a number/);
+        expect(validateRecurrence(start, end, rule({ until: '2026-12-01' }))).toMatch(/end date or a number/);
+    });
+
+    it('rejects bad counts, weekdays and end dates', () => {
+        expect(validateRecurrence(start, end, rule({ count: 0 }))).toMatch(/whole number/);
+        expect(validateRecurrence(start, end, rule({ weekdays: [7] }))).toMatch(/days of the week/);
+        expect(validateRecurrence(start, end, rule({ count: undefined, until: '2026-10-18' }))).toMatch(/after the first event/);
+    });
+
+    it('rejects rules with no occurrences or too many', () => {
+        expect(validateRecurrence(start, end, rule({ count: 1, exceptDates: ['2026-10-19'] }))).toMatch(/No occurrences/);
+        expect(validateRecurrence(start, end, rule({ count: RECURRENCE.MAX_OCCURRENCES + 1 }))).toMatch(/at most/);
+    });
+});
+
+describe('describeRecurrence', () => {
+    it('summarizes the rule', () => {
+        expect(describeRecurrence(at(10, 19), rule({ frequency: 'biweekly', weekdays: [3, 1], exceptDates: ['2026-10-26'] })))
+            .toBe('Every 2 weeks on Mon, Wed 3 times, skipping 1 date');
+        expect(describeRecurrence(at(10, 19), rule({ count: undefined, until: '2026-12-12' })))
+            .toBe('Weekly on Mon until 2026-12-12');
+    });
+});
+
+describe('shiftOccurrence', () => {
+    it('moves another occurrence by the same days and to the new time', () => {
+        const shifted = shiftOccurrence(at(11, 2, 12), at(10, 26, 12), { start: at(10, 27, 13), end: at(10, 27, 15) });
+
+        expect(shifted.start).toEqual(at(11, 3, 13));
+        expect(shifted.end).toEqual(at(11, 3, 15));
+    });
+});
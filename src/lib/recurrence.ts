@@ -0,0 +1,126 @@
+import { RecurrenceRule } from "@/types/event";
+import { RECURRENCE } from "@/constants/config";
+
+//Recurring events. Rules are expanded into one start and end per occurrence in local time,
+//so a 12pm lunch stays at 12pm across daylight saving changes.
+
+export interface Occurrence {
+    start: Date;
+    end: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+//Stops runaway rules (an until date years out) from looping forever
+const MAX_SEARCH_DAYS = 2 * 366;
+
+//Local calendar day as "YYYY-MM-DD"
+export function toDateKey(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+//Whole calendar days from a to b, rounding absorbs the hour lost or gained to daylight saving
+function daysBetween(a: Date, b: Date): number {
+    return Math.round((startOfDay(b).getTime() - startOfDay(a).getTime()) / DAY_MS);
+}
+
+function addDays(date: Date, days: number): Date {
+    const next = new Date(date);
+    next.setDate(next.getDate() + days);
+    return next;
+}
+
+//The start date's weekday when none were picked
+function ruleWeekdays(start: Date, rule: RecurrenceRule): number[] {
+    return rule.weekdays.length > 0 ? rule.weekdays : [start.getDay()];
+}
+
+/**
+ * Expands a rule into its occurrences, earliest first
+ *
+ * Occurrences fall on the picked weekdays on or after the start date, every week or every
+ * other week counting from the start date's week, each at the start's time of day and with
+ * the same length. Except dates are skipped but still count towards count, like RFC 5545 EXDATE.
+ */
+export function expandRecurrence(start: Date, end: Date, rule: RecurrenceRule): Occurrence[] {
+    const weekdays = ruleWeekdays(start, rule);
+    const interval = rule.frequency === "biweekly" ? 2 : 1;
+    const duration = end.getTime() - start.getTime();
+    const weekStart = addDays(startOfDay(start), -start.getDay());
+
+    const occurrences: Occurrence[] = [];
+    let matched = 0;
+
+    for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+        const day = addDays(startOfDay(start), offset);
+        const dateKey = toDateKey(day);
+
+        if (rule.until && dateKey > rule.until) break;
+        if (rule.count !== undefined && matched >= rule.count) break;
+        if (occurrences.length > RECURRENCE.MAX_OCCURRENCES) break;
+
+        const week = Math.floor(daysBetween(weekStart, day) / 7);
+        if (week % interval !== 0 || !weekdays.includes(day.getDay())) continue;
+
+        matched += 1;
+        if (rule.exceptDates.includes(dateKey)) continue;
+
+        const occurrenceStart = new Date(day);
+        occurrenceStart.setHours(start.getHours(), start.getMinutes(), start.getSeconds(), 0);
+        occurrences.push({ start: occurrenceStart, end: new Date(occurrenceStart.getTime() + duration) });
+    }
+
+    return occurrences;
+}
+
+//Returns what's wrong with the rule for the form to show, or null when it's fine
+export function validateRecurrence(start: Date, end: Date, rule: RecurrenceRule): string | null {
+    if (rule.weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+        return "Pick days of the week from Sunday to Saturday";
+    }
+    if ((rule.until === undefined) === (rule.count === undefined)) {
+        return "Pick an end date or a number of occurrences";
+    }
+    if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1)) {
+        return "The number of occurrences must be a whole number";
+    }
+    if (rule.until !== undefined && rule.until < toDateKey(start)) {
+        return "The end date must be after the first event";
+    }
+
+    const occurrences = expandRecurrence(start, end, rule);
+    if (occurrences.length === 0) {
+        return "No occurrences fall between the start and the end date";
+    }
+    if (occurrences.length > RECURRENCE.MAX_OCCURRENCES) {
+        return `A recurring event can have at most ${RECURRENCE.MAX_OCCURRENCES} occurrences`;
+    }
+    return null;
+}
+
+//e.g. "Every 2 weeks on Mon, Wed until 2026-12-12"
+export function describeRecurrence(start: Date, rule: RecurrenceRule): string {
+    const days = [...ruleWeekdays(start, rule)].sort().map(day => WEEKDAY_NAMES[day]).join(", ");
+    const frequency = rule.frequency === "biweekly" ? "Every 2 weeks" : "Weekly";
+    const ending = rule.until ? `until ${rule.until}` : `${rule.count} time${rule.count === 1 ? "" : "s"}`;
+    const skipped = rule.exceptDates.length > 0 ? `, skipping ${rule.exceptDates.length} date${rule.exceptDates.length === 1 ? "" : "s"}` : "";
+    return `${frequency} on ${days} ${ending}${skipped}`;
+}
+
+/**
+ * Moves an occurrence the way an edited occurrence moved, for edits that apply to several
+ *
+ * Moving Tuesday's 12pm lunch to Wednesday at 1pm moves every other occurrence one day later
+ * to 1pm too, and they all take the edited occurrence's new length.
+ */
+export function shiftOccurrence(occurrenceStart: Date, before: Date, after: Occurrence): Occurrence {
+    const start = addDays(occurrenceStart, daysBetween(before, after.start));
+    start.setHours(after.start.getHours(), after.start.getMinutes(), after.start.getSeconds(), 0);
+    return { start, end: new Date(start.getTime() + (after.end.getTime() - after.start.getTime())) };
+}
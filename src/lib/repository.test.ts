@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+
+import { EventRecord, toDashboardEvent, withEventRow } from './repository';
+import { FoodItemRow } from './foodInventory';
+import { DIETARY_TAGS } from '@/constants/eventData';
+
+jest.mock('./supabaseClient', () => ({ __esModule: true, default: {} }));
+
+// [-71.1087, 42.3505] as PostGIS sends it
+const GSU_EWKB = '0101000020E6100000D044D8F0F4C651C0BE9F1A2FDD2C4540';
+
+const pizza: FoodItemRow = {
+    id: 'pizza',
+    event_id: 'event-1',
+    name: 'Pizza',
+    description: null,
+    dietary_tags: [DIETARY_TAGS[0]],
+    serving_size: null,
+    temperature: 'hot',
+    quantity: 4,
+    initial_quantity: 10,
+    status: 'available',
+    sort_order: 0,
+    created_at: '2026-10-18T12:00:00Z',
+    updated_at: '2026-10-18T12:00:00Z',
+};
+
+const record = (overrides: Partial<EventRecord> = {}): EventRecord => ({
+    id: 'event-1',
+    title: 'Pizza Night',
+    location: 'George Sherman Union (GSU)',
+    location_point: GSU_EWKB,
+    building_id: 'gsu',
+    location_address: '775 Commonwealth Avenue',
+    location_room: null,
+    location_instructions: null,
+    description: null,
+    start_time: '2099-10-18T21:00:00Z',
+    end_time: '2099-10-18T23:00:00Z',
+    organizer_id: 'organizer-1',
+    max_attendees: null,
+    status: 'scheduled',
+    is_public: true,
+    food_offerings: null,
+    cancellation_reason: null,
+    cancelled_at: null,
+    sequence: 2,
+    series_id: null,
+    created_at: '2026-10-18T12:00:00Z',
+    updated_at: '2026-10-18T12:00:00Z',
+    ...overrides,
+});
+
+describe('toDashboardEvent', () => {
+    it('maps an event with its relations', () => {
+        const event = toDashboardEvent(record({
+            max_attendees: 30,
+            profiles: { full_name: 'Jane Doe', email: 'jane@bu.edu' },
+            event_attendees: [{ id: 'a' }, { id: 'b' }],
+            event_waitlist: [{ id: 'c' }],
+            food_items: [pizza],
+        }));
+
+        expect(event).toMatchObject({
+            id: 'event-1',
+            title: 'Pizza Night',
+            coords: [-71.1087, 42.3505],
+            attendees: 2,
+            waitlistCount: 1,
+            maxAttendees: 30,
+            organizerId: 'organizer-1',
+            organizerName: 'Jane Doe',
+            organizerEmail: 'jane@bu.edu',
+            portionsRemaining: 4,
+            portionsTotal: 10,
+            buildingId: 'gsu',
+            locationAddress: '775 Commonwealth Avenue',
+            sequence: 2,
+        });
+        expect(event.foodOfferings).toHaveLength(1);
+    });
+
+    it('maps a realtime row that has no relations', () => {
+        const event = toDashboardEvent(record());
+
+        expect(event.attendees).toBe(0);
+        expect(event.waitlistCount).toBe(0);
+        expect(event.foodOfferings).toEqual([]);
+        expect(event.organizerName).toBe('');
+        expect(event.maxAttendees).toBeUndefined();
+        expect(event.locationRoom).toBeUndefined();
+    });
+
+    it('formats the time range the same way for every source', () => {
+        const start = new Date('2099-10-18T21:00:00Z');
+        const end = new Date('2099-10-18T23:00:00Z');
+        const format = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+        expect(toDashboardEvent(record()).time).toBe(`${format(start)} - ${format(end)}`);
+    });
+
+    it('derives the status from the clock', () => {
+        const event = toDashboardEvent(record({ start_time: '2020-01-01T12:00:00Z', end_time: '2020-01-01T13:00:00Z' }));
+        expect(event.status).toBe('ended');
+    });
+
+    it('rejects an event without a location', () => {
+        expect(() => toDashboardEvent(record({ location_point: null }))).toThrow('Event has no location');
+    });
+});
+
+describe('withEventRow', () => {
+    const loaded = [
+        toDashboardEvent(record({ profiles: { full_name: 'Jane Doe', email: 'jane@bu.edu' }, event_attendees: [{ id: 'a' }], food_items: [pizza] })),
+        toDashboardEvent(record({ id: 'event-2', title: 'Bagels' })),
+    ];
+
+    it('updates the event and keeps the fields realtime rows leave out', () => {
+        const [updated, other] = withEventRow(loaded, record({ title: 'Pizza Party', status: 'running_low' }));
+
+        expect(updated).toMatchObject({ title: 'Pizza Party', attendees: 1, organizerName: 'Jane Doe', portionsRemaining: 4 });
+        expect(other).toBe(loaded[1]);
+    });
+
+    it('drops events that were cancelled or ended', () => {
+        expect(withEventRow(loaded, record({ status: 'cancelled' })).map(event => event.id)).toEqual(['event-2']);
+        expect(withEventRow(loaded, record({ id: 'event-2', status: 'ended' })).map(event => event.id)).toEqual(['event-1']);
+    });
+});
@@ -0,0 +1,199 @@
+import supabase from "./supabaseClient";
+import { Tables, TablesInsert, TablesUpdate } from "@/types/database";
+import { Building, DashboardEvent, EventFormData, EventStatus, EventTemplate, FoodOffering, RecurrenceRule } from "@/types/event";
+import { Notification } from "@/types";
+import { MapBounds } from "@/types/map";
+import { DATA_SOURCE } from "@/constants/config";
+import { deriveEventStatus, VISIBLE_STATUSES } from "./eventLifecycle";
+import { FoodItemRow, summarizePortions, toFoodOfferings } from "./foodInventory";
+import { parsePoint } from "./geo";
+import { createSupabaseRepository } from "./supabaseRepository";
+import { createMemoryRepository } from "./memoryRepository";
+import { createDemoData } from "./demoData";
+
+//Where events, RSVPs, waitlists and profiles are stored, along with the buildings, templates and
+//notifications the dashboard shows next to them. eventService runs on an EventRepository
+//so the source can be swapped: the Supabase database, or a deterministic in-memory store for
+//unit tests, local runs without a network and the landing page demo. Permission checks and
+//business rules stay in eventService, the repositories only read and write.
+
+export type EventRow = Tables<"events">;
+export type ProfileRow = Tables<"profiles">;
+export type AttendeeRow = Tables<"event_attendees">;
+
+//An events row with its organizer, attendee and waitlist ids, and food items. Realtime payloads
+//only have the columns, so every relation is optional.
+export type EventRecord = EventRow & {
+    profiles?: Pick<ProfileRow, "full_name" | "email"> | null;
+    event_attendees?: Array<Pick<AttendeeRow, "id">>;
+    event_waitlist?: Array<{ id: string }>;
+    food_items?: FoodItemRow[];
+};
+
+//Result codes of an RSVP, the same ones the rsvp_to_event database function returns
+export type RsvpResult = "ok" | "not_found" | "closed" | "duplicate" | "full" | "forbidden";
+
+//Result codes of a portion count change, the same ones adjust_food_quantity returns
+export type AdjustFoodResult = "ok" | "not_found" | "forbidden" | "closed" | "untracked";
+
+export interface EventRepository {
+    name: string;
+
+    //Public events in a visible status that haven't ended, soonest first. range picks one page
+    //(from and to are inclusive row offsets), total counts every match.
+    findUpcomingPublicEvents(range?: { from: number; to: number }): Promise<{ records: EventRecord[]; total: number }>;
+    //The same events inside an area of the map
+    findUpcomingPublicEventsInBounds(bounds: MapBounds, limit: number): Promise<EventRecord[]>;
+    //The same events within radiusMeters of a spot, nearest first
+    findUpcomingPublicEventsNear(coords: [number, number], radiusMeters: number, limit: number): Promise<EventRecord[]>;
+    //An organizer's events, newest first and including past ones
+    findOrganizerEvents(organizerId: string, options?: { limit?: number; excludedStatuses?: string[] }): Promise<EventRecord[]>;
+    //Throws "Event not found" when there's no such event
+    findEvent(eventId: string): Promise<EventRecord>;
+    //The other occurrences of a series that haven't ended or been cancelled, soonest first
+    findSeriesOccurrences(seriesId: string, options: { excludeId: string; startsAfter?: string }): Promise<EventRecord[]>;
+    findSeriesRecurrence(seriesId: string): Promise<RecurrenceRule | null>;
+    //Returns the new series id
+    insertSeries(organizerId: string, recurrence: RecurrenceRule): Promise<string>;
+    insertEvents(rows: TablesInsert<"events">[]): Promise<EventRow[]>;
+    //Bumps updated_at. With expectedStatus the update only happens while the event still has
+    //that status, returns false when nothing was updated.
+    updateEvent(eventId: string, changes: TablesUpdate<"events">, expectedStatus?: string): Promise<boolean>;
+    deleteEvent(eventId: string): Promise<void>;
+    //Replaces an event's food items, keeping portions already handed out
+    saveFoodItems(eventId: string, offerings: FoodOffering[]): Promise<void>;
+    //Hands out (negative delta) or puts back (positive delta) portions and refreshes the event's
+    //status from what's left. quantity is only set when result is "ok".
+    adjustFoodQuantity(foodItemId: string, delta: number): Promise<{
+        result: AdjustFoodResult;
+        quantity: number | null;
+        eventStatus: EventStatus | null;
+    }>;
+
+    //RSVPs the user if the event is open and has room
+    rsvp(eventId: string, userId: string): Promise<RsvpResult>;
+    deleteAttendee(eventId: string, userId: string): Promise<void>;
+    //Moves the first person on the waitlist into a free spot, returns who or null
+    promoteFromWaitlist(eventId: string): Promise<string | null>;
+    //null when the user hasn't RSVP'd
+    findAttendee(eventId: string, userId: string): Promise<AttendeeRow | null>;
+    findAttendingEventIds(userId: string): Promise<string[]>;
+    findAttendingEvents(userId: string): Promise<EventRecord[]>;
+    //Everyone who RSVP'd to any of the events, each user once
+    findAttendeeUserIds(eventIds: string[]): Promise<string[]>;
+    //Stores an "Event cancelled" notification for everyone who RSVP'd to or waitlisted any of the
+    //cancelled events, each user once, and returns who got one, attendees first. Does nothing when
+    //the cancellation was already sent.
+    notifyCancellation(eventIds: string[]): Promise<string[]>;
+
+    joinWaitlist(eventId: string, userId: string): Promise<"ok" | "duplicate">;
+    leaveWaitlist(eventId: string, userId: string): Promise<void>;
+    //User ids in line, next to be promoted first
+    findWaitlistUserIds(eventId: string): Promise<string[]>;
+    findWaitlistedEventIds(userId: string): Promise<string[]>;
+
+    //null when there's no such profile
+    findProfile(profileId: string): Promise<ProfileRow | null>;
+    findProfileByAuthId(authId: string): Promise<ProfileRow | null>;
+    //null when nobody is signed in or they have no profile
+    findSignedInProfile(): Promise<ProfileRow | null>;
+    insertProfile(profile: TablesInsert<"profiles">): Promise<void>;
+    updateProfile(profileId: string, changes: TablesUpdate<"profiles">): Promise<void>;
+
+    //Active campus buildings for the location picker, by name
+    findBuildings(): Promise<Building[]>;
+
+    //The organizer's event templates, by name
+    findTemplates(organizerId: string): Promise<EventTemplate[]>;
+    //Replaces the organizer's template with the same name, if there is one
+    saveTemplate(organizerId: string, name: string, formData: EventFormData): Promise<EventTemplate>;
+    deleteTemplate(templateId: string): Promise<void>;
+
+    //One page of a user's notifications, newest first
+    findNotifications(userId: string, options?: { page?: number; pageSize?: number; unreadOnly?: boolean }): Promise<{ notifications: Notification[]; total: number }>;
+    countUnreadNotifications(userId: string): Promise<number>;
+    //Marks some, or with "all" every one, of a user's notifications read. Returns how many changed.
+    markNotificationsRead(userId: string, notificationIds: string[] | "all"): Promise<number>;
+}
+
+let defaultRepository: EventRepository | undefined;
+
+//The repository picked by DATA_SOURCE, created once so the in-memory store keeps its changes
+export function getEventRepository(): EventRepository {
+    if (!defaultRepository) {
+        defaultRepository = DATA_SOURCE === "memory"
+            ? createMemoryRepository(createDemoData(new Date()))
+            : createSupabaseRepository(supabase);
+    }
+    return defaultRepository;
+}
+
+//Converts an events row, with or without its relations, into the dashboard format
+export function toDashboardEvent(record: EventRecord): DashboardEvent {
+    const startTime = new Date(record.start_time);
+    const endTime = new Date(record.end_time);
+    const foodOfferings = toFoodOfferings(record.food_items);
+
+    return {
+        id: record.id,
+        title: record.title,
+        location: record.location,
+        time: `${formatTime(startTime)} - ${formatTime(endTime)}`,
+        startTime: startTime,
+        endTime: endTime,
+        attendees: record.event_attendees?.length ?? 0,
+        waitlistCount: record.event_waitlist?.length ?? 0,
+        status: deriveEventStatus(record.status as EventStatus, startTime, endTime),
+        coords: toCoordinates(record.location_point),
+        description: record.description || "",
+        foodOfferings: foodOfferings,
+        ...summarizePortions(foodOfferings),
+        organizerId: record.organizer_id,
+        organizerName: record.profiles?.full_name || "",
+        organizerEmail: record.profiles?.email || "",
+        maxAttendees: record.max_attendees ?? undefined,
+        isPublic: record.is_public,
+        cancellationReason: record.cancellation_reason || undefined,
+        sequence: record.sequence ?? 0,
+        updatedAt: record.updated_at ? new Date(record.updated_at) : undefined,
+        seriesId: record.series_id || undefined,
+        buildingId: record.building_id || undefined,
+        locationAddress: record.location_address || undefined,
+        locationRoom: record.location_room || undefined,
+        locationInstructions: record.location_instructions || undefined,
+    };
+}
+
+//Applies an events row from realtime to a list. Events that left the visible statuses drop out,
+//the rest keep the joined fields (attendees, organizer, food) the raw row doesn't include
+export function withEventRow(events: DashboardEvent[], row: EventRecord): DashboardEvent[] {
+    if (!VISIBLE_STATUSES.includes(row.status as EventStatus)) {
+        return events.filter(event => event.id !== row.id);
+    }
+    return events.map(event => event.id === row.id
+        ? {
+            ...toDashboardEvent(row),
+            attendees: event.attendees,
+            waitlistCount: event.waitlistCount,
+            organizerName: event.organizerName,
+            organizerEmail: event.organizerEmail,
+            foodOfferings: event.foodOfferings,
+            portionsRemaining: event.portionsRemaining,
+            portionsTotal: event.portionsTotal,
+        }
+        : event);
+}
+
+//Every event has a location_point, the database won't store one without
+export function toCoordinates(value: unknown): [number, number] {
+    const coords = parsePoint(value);
+    if (!coords) {
+        throw new Error("Event has no location");
+    }
+    return coords;
+}
+
+//Start and end times as the list and popups show them, e.g. "5:30 PM"
+function formatTime(date: Date): string {
+    return date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+}
@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+    arrivalTime,
+    campusWalkingRoute,
+    canArriveBefore,
+    createMapboxRoutingProvider,
+    distanceMeters,
+    formatWalk,
+    RoutingProvider,
+    withFallback,
+} from './routing';
+import { ROUTING } from '@/constants/config';
+
+// A few campus buildings, [lng, lat]
+const BUILDINGS: Record<string, [number, number]> = {
+    gsu: [-71.10877, 42.35119],
+    qsb: [-71.09957, 42.34969],
+    kch: [-71.09653, 42.35033],
+    sv2: [-71.11781, 42.35339],
+    cds: [-71.10311, 42.34991],
+    sar: [-71.10194, 42.34977],
+};
+
+const building = (id: string) => BUILDINGS[id];
+
+describe('distanceMeters', () => {
+    it('measures short campus distances', () => {
+        // GSU to Questrom is about 750 m down Commonwealth Avenue
+        expect(distanceMeters(building('gsu'), building('qsb'))).toBeGreaterThan(700);
+        expect(distanceMeters(building('gsu'), building('qsb'))).toBeLessThan(800);
+    });
+});
+
+describe('campusWalkingRoute', () => {
+    it('follows the footpaths between buildings', () => {
+        const route = campusWalkingRoute(building('sv2'), building('kch'));
+
+        expect(route.coordinates[0]).toEqual(building('sv2'));
+        expect(route.coordinates[route.coordinates.length - 1]).toEqual(building('kch'));
+        expect(route.coordinates.length).toBeGreaterThan(4);
+        expect(route.distanceMeters).toBeGreaterThan(distanceMeters(building('sv2'), building('kch')));
+        expect(route.durationSeconds).toBeCloseTo(route.distanceMeters / ROUTING.WALKING_SPEED_MPS);
+    });
+
+    it('walks straight across when the points are next to each other', () => {
+        const route = campusWalkingRoute(building('cds'), building('sar'));
+
+        expect(route.coordinates).toEqual([building('cds'), building('sar')]);
+    });
+
+    it('estimates from a straight line when starting off campus', () => {
+        const downtown: [number, number] = [-71.0589, 42.3601];
+        const route = campusWalkingRoute(downtown, building('gsu'));
+
+        expect(route.coordinates).toEqual([downtown, building('gsu')]);
+        expect(route.distanceMeters).toBeCloseTo(distanceMeters(downtown, building('gsu')) * ROUTING.DETOUR_FACTOR);
+    });
+});
+
+describe('createMapboxRoutingProvider', () => {
+    it('reads the first route', async () => {
+        const fetchImpl = jest.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({
+                routes: [{ distance: 420, duration: 300, geometry: { coordinates: [[-71.1, 42.35], [-71.2, 42.36]] } }],
+            }),
+        });
+        const provider = createMapboxRoutingProvider('token', fetchImpl);
+
+        const route = await provider.getWalkingRoute([-71.1, 42.35], [-71.2, 42.36]);
+
+        expect(route).toEqual({ coordinates: [[-71.1, 42.35], [-71.2, 42.36]], distanceMeters: 420, durationSeconds: 300 });
+        expect(fetchImpl.mock.calls[0][0]).toContain('/walking/-71.1,42.35;-71.2,42.36?');
+    });
+
+    it('throws when there is no route', async () => {
+        const fetchImpl = jest.fn().mockResolvedValue({ ok: false, status: 401 });
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        const provider = createMapboxRoutingProvider('bad-token', fetchImpl);
+
+        await expect(provider.getWalkingRoute([-71.1, 42.35], [-71.2, 42.36])).rejects.toThrow("Couldn't find a walking route");
+    });
+});
+
+describe('withFallback', () => {
+    it('uses the fallback when the primary provider fails', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        const failing: RoutingProvider = { name: 'failing', getWalkingRoute: () => Promise.reject(new Error('offline')) };
+        const fallbackRoute = { coordinates: [], distanceMeters: 1, durationSeconds: 1 };
+        const fallback: RoutingProvider = { name: 'fallback', getWalkingRoute: async () => fallbackRoute };
+
+        await expect(withFallback(failing, fallback).getWalkingRoute([0, 0], [1, 1])).resolves.toBe(fallbackRoute);
+    });
+});
+
+describe('formatWalk', () => {
+    it('rounds meters and minutes', () => {
+        expect(formatWalk({ coordinates: [], distanceMeters: 447, durationSeconds: 319 })).toBe('450 m · 5 min walk');
+        expect(formatWalk({ coordinates: [], distanceMeters: 1234, durationSeconds: 20 })).toBe('1.2 km · 1 min walk');
+    });
+});
+
+describe('canArriveBefore', () => {
+    const route = { coordinates: [], distanceMeters: 840, durationSeconds: 600 };
+    const now = new Date(2026, 9, 19, 12, 0);
+
+    it('compares the arrival with the end time', () => {
+        expect(arrivalTime(route, now)).toEqual(new Date(2026, 9, 19, 12, 10));
+        expect(canArriveBefore(route, new Date(2026, 9, 19, 12, 30), now)).toBe(true);
+        expect(canArriveBefore(route, new Date(2026, 9, 19, 12, 5), now)).toBe(false);
+    });
+});
@@ -0,0 +1,202 @@
+import { WalkingRoute } from "@/types/map";
+import { ROUTING } from "@/constants/config";
+import { FOOTPATH_EDGES, FOOTPATH_NODES, FootpathNode } from "@/constants/footpaths";
+
+//Walking directions. Routes come from a RoutingProvider so the source can be swapped: Mapbox
+//Directions when configured, otherwise the offline campus footpath graph, which also gives the
+//instant estimates in the events list without an API call per event.
+
+export interface RoutingProvider {
+    name: string;
+    getWalkingRoute(from: [number, number], to: [number, number]): Promise<WalkingRoute>;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+const MAPBOX_DIRECTIONS_URL = "https://api.mapbox.com/directions/v5/mapbox/walking";
+
+//Great-circle distance between two [lng, lat] points
+export function distanceMeters(a: [number, number], b: [number, number]): number {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const dLat = toRadians(b[1] - a[1]);
+    const dLng = toRadians(b[0] - a[0]);
+    const h = Math.sin(dLat / 2) ** 2
+        + Math.cos(toRadians(a[1])) * Math.cos(toRadians(b[1])) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+function pathLength(coordinates: [number, number][]): number {
+    let total = 0;
+    for (let i = 1; i < coordinates.length; i++) {
+        total += distanceMeters(coordinates[i - 1], coordinates[i]);
+    }
+    return total;
+}
+
+function toRoute(coordinates: [number, number][], distance: number = pathLength(coordinates)): WalkingRoute {
+    return {
+        coordinates,
+        distanceMeters: distance,
+        durationSeconds: distance / ROUTING.WALKING_SPEED_MPS,
+    };
+}
+
+function nearestNode(point: [number, number]): { node: FootpathNode; distance: number } {
+    let nearest = { node: FOOTPATH_NODES[0], distance: Infinity };
+    FOOTPATH_NODES.forEach(node => {
+        const distance = distanceMeters(point, node.coordinates);
+        if (distance < nearest.distance) {
+            nearest = { node, distance };
+        }
+    });
+    return nearest;
+}
+
+//Shortest path between two footpath nodes (Dijkstra, the graph is a few dozen nodes)
+function shortestPath(fromId: string, toId: string): FootpathNode[] | null {
+    const nodes: Record<string, FootpathNode> = {};
+    const neighbours: Record<string, string[]> = {};
+    FOOTPATH_NODES.forEach(node => {
+        nodes[node.id] = node;
+        neighbours[node.id] = [];
+    });
+    FOOTPATH_EDGES.forEach(([a, b]) => {
+        neighbours[a].push(b);
+        neighbours[b].push(a);
+    });
+
+    const distances: Record<string, number> = { [fromId]: 0 };
+    const previous: Record<string, string> = {};
+    const visited: Record<string, boolean> = {};
+
+    for (;;) {
+        const unvisited = Object.keys(distances).filter(id => !visited[id]);
+        if (unvisited.length === 0) return null;
+
+        const currentId = unvisited.reduce((best, id) => distances[id] < distances[best] ? id : best);
+        if (currentId === toId) break;
+        visited[currentId] = true;
+
+        neighbours[currentId].forEach(next => {
+            const distance = distances[currentId] + distanceMeters(nodes[currentId].coordinates, nodes[next].coordinates);
+            if (distances[next] === undefined || distance < distances[next]) {
+                distances[next] = distance;
+                previous[next] = currentId;
+            }
+        });
+    }
+
+    const path: FootpathNode[] = [nodes[toId]];
+    while (path[0].id !== fromId) {
+        path.unshift(nodes[previous[path[0].id]]);
+    }
+    return path;
+}
+
+/**
+ * Walks from one point to another along the campus footpaths
+ *
+ * Each end joins the footpaths at its nearest node. Points too far from campus to join, or
+ * close enough that the footpaths would be a detour, get a straight line stretched by
+ * DETOUR_FACTOR for the streets in between.
+ */
+export function campusWalkingRoute(from: [number, number], to: [number, number]): WalkingRoute {
+    const direct = distanceMeters(from, to);
+    const start = nearestNode(from);
+    const end = nearestNode(to);
+
+    if (start.distance > ROUTING.MAX_SNAP_METERS || end.distance > ROUTING.MAX_SNAP_METERS
+        || direct <= start.distance + end.distance) {
+        return toRoute([from, to], direct * ROUTING.DETOUR_FACTOR);
+    }
+
+    const path = shortestPath(start.node.id, end.node.id);
+    if (!path) {
+        return toRoute([from, to], direct * ROUTING.DETOUR_FACTOR);
+    }
+    return toRoute([from, ...path.map(node => node.coordinates), to]);
+}
+
+export const campusRoutingProvider: RoutingProvider = {
+    name: "campus",
+    getWalkingRoute: async (from, to) => campusWalkingRoute(from, to),
+};
+
+interface MapboxDirectionsResponse {
+    routes?: {
+        distance: number;
+        duration: number;
+        geometry: { coordinates: [number, number][] };
+    }[];
+}
+
+//Mapbox Directions' walking profile, which knows every street and crossing
+export function createMapboxRoutingProvider(
+    accessToken: string,
+    fetchImpl: typeof fetch = (input, init) => fetch(input, init)
+): RoutingProvider {
+    return {
+        name: "mapbox",
+        getWalkingRoute: async (from, to) => {
+            const url = `${MAPBOX_DIRECTIONS_URL}/${from.join(",")};${to.join(",")}`
+                + `?geometries=geojson&overview=full&access_token=${encodeURIComponent(accessToken)}`;
+
+            const response = await fetchImpl(url);
+            const body: MapboxDirectionsResponse | null = response.ok ? await response.json() : null;
+            const route = body?.routes?.[0];
+
+            if (!route) {
+                console.error("Unable to fetch walking directions:", response.status);
+                throw new Error("Couldn't find a walking route");
+            }
+
+            return {
+                coordinates: route.geometry.coordinates,
+                distanceMeters: route.distance,
+                durationSeconds: route.duration,
+            };
+        },
+    };
+}
+
+//Tries primary, and fallback when primary can't route (offline, rate limited, bad token)
+export function withFallback(primary: RoutingProvider, fallback: RoutingProvider): RoutingProvider {
+    return {
+        name: primary.name,
+        getWalkingRoute: async (from, to) => {
+            try {
+                return await primary.getWalkingRoute(from, to);
+            } catch (error) {
+                console.error(`Routing with ${primary.name} failed, using ${fallback.name}:`, error);
+                return fallback.getWalkingRoute(from, to);
+            }
+        },
+    };
+}
+
+//The provider picked by ROUTING.PROVIDER
+export function getRoutingProvider(): RoutingProvider {
+    const token = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
+    if (ROUTING.PROVIDER === "mapbox" && token) {
+        return withFallback(createMapboxRoutingProvider(token), campusRoutingProvider);
+    }
+    return campusRoutingProvider;
+}
+
+//e.g. "450 m · 6 min walk" or "1.2 km · 15 min walk"
+export function formatWalk(route: WalkingRoute): string {
+    const distance = route.distanceMeters < 1000
+        ? `${Math.round(route.distanceMeters / 10) * 10} m`
+        : `${(route.distanceMeters / 1000).toFixed(1)} km`;
+    const minutes = Math.max(1, Math.round(route.durationSeconds / 60));
+    return `${distance} · ${minutes} min walk`;
+}
+
+//When someone leaving now would get there
+export function arrivalTime(route: WalkingRoute, now: Date = new Date()): Date {
+    return new Date(now.getTime() + route.durationSeconds * 1000);
+}
+
+//Whether someone leaving now gets there before the event ends
+export function canArriveBefore(route: WalkingRoute, endTime: Date, now: Date = new Date()): boolean {
+    return arrivalTime(route, now).getTime() < endTime.getTime();
+}
@@ -0,0 +1,44 @@
+/**
+ * @jest-environment node
+ */
+
+import { isEventFull, toRsvpCounts, withRsvpCounts } from './rsvpCounts';
+import { Event } from '@/types/map';
+
+const event = (overrides: Partial<Event> = {}): Event => ({
+    id: 'event-1',
+    title: 'Pizza Night',
+    location: 'George Sherman Union (GSU)',
+    time: '6:00 PM - 8:00 PM',
+    attendees: 3,
+    status: 'live',
+    coords: [-71.10877, 42.35119],
+    ...overrides,
+});
+
+describe('isEventFull', () => {
+    it('is full once every spot is taken', () => {
+        expect(isEventFull(event({ attendees: 4, maxAttendees: 5 }))).toBe(false);
+        expect(isEventFull(event({ attendees: 5, maxAttendees: 5 }))).toBe(true);
+    });
+
+    it('never fills an event without a capacity', () => {
+        expect(isEventFull(event({ attendees: 500 }))).toBe(false);
+    });
+});
+
+describe('withRsvpCounts', () => {
+    it('replaces the counts instead of adding to them', () => {
+        const counts = toRsvpCounts({ event_id: 'event-1', attendee_count: 5, waitlist_count: 2, updated_at: '2026-10-18T12:00:00Z' });
+
+        const updated = withRsvpCounts(event({ attendees: 4, maxAttendees: 5 }), counts);
+
+        expect(updated).toMatchObject({ attendees: 5, waitlistCount: 2 });
+        expect(withRsvpCounts(updated, counts)).toBe(updated);
+    });
+
+    it('keeps the same event when nothing changed', () => {
+        const unchanged = event();
+        expect(withRsvpCounts(unchanged, { attendees: 3, waitlistCount: 0 })).toBe(unchanged);
+    });
+});
@@ -0,0 +1,30 @@
+import { Tables } from "@/types/database";
+import { Event } from "@/types/map";
+
+//Live attendee and waitlist counts. event_rsvp_counts rows stream over realtime carrying an
+//event's whole count, so applying one replaces what's shown instead of adding to it, and an
+//RSVP the user just made isn't counted twice when its own change comes back.
+
+export type RsvpCountRow = Tables<"event_rsvp_counts">;
+
+export interface RsvpCounts {
+    attendees: number;
+    waitlistCount: number;
+}
+
+export function toRsvpCounts(row: RsvpCountRow): RsvpCounts {
+    return { attendees: row.attendee_count, waitlistCount: row.waitlist_count };
+}
+
+//An event with a capacity that every spot is taken at, events without one are never full
+export function isEventFull(event: Pick<Event, "attendees" | "maxAttendees">): boolean {
+    return !!event.maxAttendees && event.attendees >= event.maxAttendees;
+}
+
+//The event with new counts, or the same object when they didn't change so state can skip a render
+export function withRsvpCounts<T extends Event>(event: T, counts: RsvpCounts): T {
+    if (event.attendees === counts.attendees && (event.waitlistCount ?? 0) === counts.waitlistCount) {
+        return event;
+    }
+    return { ...event, attendees: counts.attendees, waitlistCount: counts.waitlistCount };
+}
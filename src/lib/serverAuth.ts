@@ -0,0 +1,61 @@
+import { createClient } from "@supabase/supabase-js";
+import { Database } from "@/types/database";
+import { DbClient } from "./supabaseClient";
+import { EventRepository } from "./repository";
+import { createSupabaseRepository } from "./supabaseRepository";
+
+/**
+ * Auth for API routes
+ *
+ * The browser sends its Supabase access token as `Authorization: Bearer <token>`.
+ * getRequestProfile checks the token and returns a Supabase client that acts as that
+ * user (so row level security still applies), an EventRepository on that client for the
+ * eventService calls, and their profile.
+ * Suspended accounts are treated as signed out.
+ */
+
+export interface RequestProfile {
+    id: string;
+    auth_id: string;
+    email: string;
+    full_name: string;
+    role: string;
+}
+
+export interface AuthenticatedRequest {
+    supabase: DbClient;
+    repository: EventRepository;
+    profile: RequestProfile;
+}
+
+//Returns null if the request has no valid session, the user has no profile or is suspended
+export async function getRequestProfile(req: Request): Promise<AuthenticatedRequest | null> {
+    const header = req.headers.get("authorization") ?? "";
+    const [scheme, accessToken] = header.split(" ");
+    if (scheme?.toLowerCase() !== "bearer" || !accessToken) {
+        return null;
+    }
+
+    const supabase = createClient<Database>(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            global: { headers: { Authorization: `Bearer ${accessToken}` } },
+            auth: { persistSession: false, autoRefreshToken: false },
+        }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(accessToken);
+    if (userError || !user) {
+        return null;
+    }
+
+    const repository = createSupabaseRepository(supabase);
+    const profile = await repository.findProfileByAuthId(user.id).catch(() => null);
+    if (!profile || profile.suspended_at) {
+        return null;
+    }
+
+    const { id, auth_id, email, full_name, role } = profile;
+    return { supabase, repository, profile: { id, auth_id, email, full_name, role } };
+}
@@ -1,15 +0,0 @@
-import { createClient } from '@supabase/supabase-js'
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-
-// Create a single supabase client for interacting with your database
-const supabase = createClient(supabaseUrl, supabaseKey, {
-    auth: {
-        autoRefreshToken: true,
-        persistSession: true,
-        detectSessionInUrl: true,
-        flowType: "pkce" // Use PKCE flow for to protext aganist authorization code interception attacks
-    }
-})
-
-export default supabase
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { Database } from '@/types/database'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+// A Supabase client typed against the generated schema in types/database.ts. Services take one
+// as an optional last argument so API routes can run them as the calling user.
+export type DbClient = SupabaseClient<Database>
+
+// Create a single supabase client for interacting with your database
+const supabase: DbClient = createClient<Database>(supabaseUrl, supabaseKey, {
+    auth: {
+        autoRefreshToken: true,
+        persistSession: true,
+        detectSessionInUrl: true,
+        flowType: "pkce" // Use PKCE flow for to protext aganist authorization code interception attacks
+    }
+})
+
+export default supabase
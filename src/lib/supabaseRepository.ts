@@ -0,0 +1,473 @@
+import { DbClient } from "./supabaseClient";
+import { EVENT_STATUS } from "@/constants/map";
+import { EventStatus, RecurrenceRule } from "@/types/event";
+import { Json } from "@/types/database";
+import { VISIBLE_STATUSES } from "./eventLifecycle";
+import { saveFoodItems } from "./foodInventory";
+import { fetchBuildings } from "./locationService";
+import { deleteTemplate, fetchTemplates, saveTemplate } from "./templateService";
+import { fetchNotifications, getUnreadNotificationCount, markAllNotificationsRead, markNotificationsRead } from "./notificationService";
+import { AdjustFoodResult, EventRecord, EventRepository, RsvpResult } from "./repository";
+
+//The EventRepository backed by the Supabase database. Capacity, status and duplicate checks for
+//RSVPs run inside the database functions, and row level security applies as the client's user.
+
+//Event columns plus the organizer, attendee and waitlist ids, and the food items
+export const EVENT_SELECT = `
+    *,
+    profiles:organizer_id (full_name, email),
+    event_attendees!event_id (id),
+    event_waitlist!event_id (id),
+    food_items!event_id (*)
+`;
+
+//food_items.dietary_tags is jsonb, which the generated types only know as Json
+const toRecords = (rows: unknown[] | null): EventRecord[] => (rows || []) as EventRecord[];
+
+export function createSupabaseRepository(client: DbClient): EventRepository {
+    const repository: EventRepository = {
+        name: "supabase",
+
+        findUpcomingPublicEvents: async (range) => {
+            let query = client
+                .from("events")
+                .select(EVENT_SELECT, { count: "exact" })
+                .eq("is_public", true)
+                .in("status", VISIBLE_STATUSES)
+                .gt("end_time", new Date().toISOString()) // Skip events that are already over
+                .order("start_time", { ascending: true });
+
+            if (range) {
+                query = query.range(range.from, range.to);
+            }
+
+            const { data, error, count } = await query;
+
+            if (error) {
+                console.error("Error fetching public events:", error);
+                throw new Error("Failed to load events");
+            }
+            return { records: toRecords(data), total: count || 0 };
+        },
+
+        findUpcomingPublicEventsInBounds: async (bounds, limit) => {
+            const { data, error } = await client
+                .rpc("events_in_bounds", {
+                    p_west: bounds.west,
+                    p_south: bounds.south,
+                    p_east: bounds.east,
+                    p_north: bounds.north,
+                })
+                .in("status", VISIBLE_STATUSES)
+                .gt("end_time", new Date().toISOString())
+                .select(EVENT_SELECT)
+                .order("start_time", { ascending: true })
+                .limit(limit);
+
+            if (error) {
+                console.error("Unable to fetch events in the map area:", error);
+                throw new Error("Failed to load events for this area");
+            }
+            return toRecords(data);
+        },
+
+        findUpcomingPublicEventsNear: async (coords, radiusMeters, limit) => {
+            const { data, error } = await client
+                .rpc("events_near", { p_lng: coords[0], p_lat: coords[1], p_radius_meters: radiusMeters })
+                .in("status", VISIBLE_STATUSES)
+                .gt("end_time", new Date().toISOString())
+                .select(EVENT_SELECT)
+                .limit(limit);
+
+            if (error) {
+                console.error("Unable to fetch events nearby:", error);
+                throw new Error("Failed to load events nearby");
+            }
+            return toRecords(data);
+        },
+
+        findOrganizerEvents: async (organizerId, { limit, excludedStatuses = [] } = {}) => {
+            let query = client
+                .from("events")
+                .select(EVENT_SELECT)
+                .eq("organizer_id", organizerId);
+
+            if (excludedStatuses.length > 0) {
+                query = query.not("status", "in", `(${excludedStatuses.join(",")})`);
+            }
+
+            let ordered = query.order("start_time", { ascending: false });
+            if (limit !== undefined) {
+                ordered = ordered.limit(limit);
+            }
+
+            const { data, error } = await ordered;
+
+            if (error) {
+                console.error("Unable to fetch organizer events:", error);
+                throw new Error("Failed to load your events");
+            }
+            return toRecords(data);
+        },
+
+        findEvent: async (eventId) => {
+            const { data, error } = await client
+                .from("events")
+                .select(EVENT_SELECT)
+                .eq("id", eventId)
+                .single();
+
+            if (error || !data) {
+                console.error("Unable to fetch event:", error);
+                throw new Error("Event not found");
+            }
+            return toRecords([data])[0];
+        },
+
+        findSeriesOccurrences: async (seriesId, { excludeId, startsAfter }) => {
+            let query = client
+                .from("events")
+                .select(EVENT_SELECT)
+                .eq("series_id", seriesId)
+                .neq("id", excludeId)
+                .not("status", "in", `(${EVENT_STATUS.ENDED},${EVENT_STATUS.CANCELLED})`)
+                .gt("end_time", new Date().toISOString());
+
+            if (startsAfter) {
+                query = query.gt("start_time", startsAfter);
+            }
+
+            const { data, error } = await query.order("start_time", { ascending: true });
+
+            if (error) {
+                console.error("Unable to fetch series occurrences:", error);
+                throw new Error("Failed to load the other occurrences");
+            }
+            return toRecords(data);
+        },
+
+        findSeriesRecurrence: async (seriesId) => {
+            const { data, error } = await client
+                .from("event_series")
+                .select("recurrence")
+                .eq("id", seriesId)
+                .maybeSingle();
+
+            if (error) {
+                console.error("Unable to fetch event series:", error);
+                throw new Error("Failed to load the recurring event");
+            }
+            //recurrence is jsonb, written by insertSeries
+            return (data?.recurrence as unknown as RecurrenceRule | undefined) || null;
+        },
+
+        insertSeries: async (organizerId, recurrence) => {
+            const { data, error } = await client
+                .from("event_series")
+                .insert({ organizer_id: organizerId, recurrence: recurrence as unknown as Json })
+                .select("id")
+                .single();
+
+            if (error || !data) {
+                console.error("Unable to create event series:", error);
+                throw new Error("Failed to create recurring event");
+            }
+            return data.id;
+        },
+
+        insertEvents: async (rows) => {
+            const { data, error } = await client
+                .from("events")
+                .insert(rows)
+                .select();
+
+            if (error || !data) {
+                console.error("Unable to create event:", error);
+                throw new Error("Failed to create event");
+            }
+            return data;
+        },
+
+        updateEvent: async (eventId, changes, expectedStatus) => {
+            let query = client
+                .from("events")
+                .update({ ...changes, updated_at: new Date().toISOString() })
+                .eq("id", eventId);
+
+            //the status filter makes this a compare-and-set
+            if (expectedStatus !== undefined) {
+                query = query.eq("status", expectedStatus);
+            }
+
+            const { data, error } = await query.select("id");
+
+            if (error) {
+                console.error("Unable to update event:", error);
+                throw new Error("Failed to update event");
+            }
+            return (data || []).length > 0;
+        },
+
+        deleteEvent: async (eventId) => {
+            const { error } = await client
+                .from("events")
+                .delete()
+                .eq("id", eventId);
+
+            if (error) {
+                console.error("Unable to delete event:", error);
+                throw new Error("Failed to delete event");
+            }
+        },
+
+        saveFoodItems: (eventId, offerings) => saveFoodItems(eventId, offerings, client),
+
+        adjustFoodQuantity: async (foodItemId, delta) => {
+            //the count, the event lock and the status refresh happen in one database call
+            const { data, error } = await client
+                .rpc("adjust_food_quantity", { p_food_item_id: foodItemId, p_delta: delta })
+                .single();
+
+            if (error || !data) {
+                console.error("Unable to update portions:", error);
+                throw new Error("Failed to update portions");
+            }
+            return {
+                result: data.result as AdjustFoodResult,
+                quantity: data.quantity ?? null,
+                eventStatus: data.event_status as EventStatus | null,
+            };
+        },
+
+        rsvp: async (eventId, userId) => {
+            //capacity, status and duplicate checks all happen inside one locked database call
+            const { data, error } = await client
+                .rpc("rsvp_to_event", { p_event_id: eventId, p_user_id: userId });
+
+            if (error) {
+                console.error("RSVP function error:", error);
+                throw new Error("Failed to RSVP to event");
+            }
+            return data as RsvpResult;
+        },
+
+        deleteAttendee: async (eventId, userId) => {
+            const { error } = await client
+                .from("event_attendees")
+                .delete()
+                .eq("event_id", eventId)
+                .eq("user_id", userId);
+
+            if (error) {
+                console.error("Error cancelling RSVP:", error);
+                throw new Error("Failed to cancel RSVP");
+            }
+        },
+
+        promoteFromWaitlist: async (eventId) => {
+            const { data, error } = await client
+                .rpc("promote_from_waitlist", { p_event_id: eventId });
+
+            //the RSVP was already cancelled, a failed promotion shouldn't undo that
+            if (error) {
+                console.error("Error promoting from waitlist:", error);
+                return null;
+            }
+            return data || null;
+        },
+
+        findAttendee: async (eventId, userId) => {
+            const { data, error } = await client
+                .from("event_attendees")
+                .select("*")
+                .eq("event_id", eventId)
+                .eq("user_id", userId)
+                .maybeSingle();
+
+            if (error) {
+                console.error("Unable to fetch RSVP:", error);
+                throw new Error("Failed to load your RSVP");
+            }
+            return data;
+        },
+
+        findAttendingEventIds: async (userId) => {
+            const { data, error } = await client
+                .from("event_attendees")
+                .select("event_id")
+                .eq("user_id", userId);
+
+            if (error) {
+                console.error("Unable to fetch user RSVPs:", error);
+                throw new Error("Failed to load your RSVPs");
+            }
+            return (data || []).map(rsvp => rsvp.event_id);
+        },
+
+        findAttendingEvents: async (userId) => {
+            const { data, error } = await client
+                .from("event_attendees")
+                .select(`event_id, events:event_id (${EVENT_SELECT})`)
+                .eq("user_id", userId);
+
+            if (error) {
+                console.error("Unable to fetch user RSVP events:", error);
+                throw new Error("Failed to load your RSVPs");
+            }
+
+            const rows = (data || []) as unknown as Array<{ events: EventRecord | null }>;
+            return rows
+                .filter((row): row is { events: EventRecord } => row.events !== null)
+                .map(row => row.events);
+        },
+
+        findAttendeeUserIds: async (eventIds) => {
+            const { data, error } = await client
+                .from("event_attendees")
+                .select("user_id")
+                .in("event_id", eventIds);
+
+            if (error) {
+                console.error("Unable to fetch attendees:", error);
+                throw new Error("Failed to load attendees");
+            }
+            return Array.from(new Set((data || []).map(attendee => attendee.user_id)));
+        },
+
+        notifyCancellation: async (eventIds) => {
+            //one call for the whole series, so nobody hears about it once per occurrence
+            const { data, error } = await client
+                .rpc("notify_event_cancelled", { p_event_ids: eventIds });
+
+            if (error) {
+                console.error("Unable to notify attendees:", error);
+                throw new Error("Failed to notify attendees");
+            }
+            return data || [];
+        },
+
+        joinWaitlist: async (eventId, userId) => {
+            const { error } = await client
+                .from("event_waitlist")
+                .insert({ event_id: eventId, user_id: userId });
+
+            if (error?.code === "23505") {
+                return "duplicate";
+            }
+            if (error) {
+                console.error("Waitlist insert error:", error);
+                throw new Error("Failed to join waitlist");
+            }
+            return "ok";
+        },
+
+        leaveWaitlist: async (eventId, userId) => {
+            const { error } = await client
+                .from("event_waitlist")
+                .delete()
+                .eq("event_id", eventId)
+                .eq("user_id", userId);
+
+            if (error) {
+                console.error("Error leaving waitlist:", error);
+                throw new Error("Failed to leave waitlist");
+            }
+        },
+
+        findWaitlistUserIds: async (eventId) => {
+            const { data, error } = await client
+                .from("event_waitlist")
+                .select("user_id, position")
+                .eq("event_id", eventId)
+                .order("position", { ascending: true });
+
+            if (error) {
+                console.error("Unable to fetch waitlist:", error);
+                throw new Error("Failed to load the waitlist");
+            }
+            return (data || []).map(entry => entry.user_id);
+        },
+
+        findWaitlistedEventIds: async (userId) => {
+            const { data, error } = await client
+                .from("event_waitlist")
+                .select("event_id")
+                .eq("user_id", userId);
+
+            if (error) {
+                console.error("Unable to fetch user waitlists:", error);
+                throw new Error("Failed to load your waitlists");
+            }
+            return (data || []).map(entry => entry.event_id);
+        },
+
+        findProfile: async (profileId) => {
+            const { data, error } = await client
+                .from("profiles")
+                .select("*")
+                .eq("id", profileId)
+                .maybeSingle();
+
+            if (error) {
+                console.error("Error fetching profile:", error);
+                throw new Error("Failed to load the profile");
+            }
+            return data;
+        },
+
+        findProfileByAuthId: async (authId) => {
+            const { data, error } = await client
+                .from("profiles")
+                .select("*")
+                .eq("auth_id", authId)
+                .maybeSingle();
+
+            if (error) {
+                console.error("Error fetching profile:", error);
+                throw new Error("Failed to load your profile");
+            }
+            return data;
+        },
+
+        findSignedInProfile: async () => {
+            const { data: { user } } = await client.auth.getUser();
+            return user ? repository.findProfileByAuthId(user.id) : null;
+        },
+
+        insertProfile: async (profile) => {
+            const { error } = await client
+                .from("profiles")
+                .insert(profile);
+
+            if (error) {
+                console.error("Error inserting profile:", error);
+                throw new Error("Failed to save your profile");
+            }
+        },
+
+        updateProfile: async (profileId, changes) => {
+            const { error } = await client
+                .from("profiles")
+                .update(changes)
+                .eq("id", profileId);
+
+            if (error) {
+                console.error("Error updating profile:", error);
+                throw new Error("Failed to save your profile");
+            }
+        },
+
+        findBuildings: () => fetchBuildings({}, client),
+
+        findTemplates: (organizerId) => fetchTemplates(organizerId, client),
+        saveTemplate: (organizerId, name, formData) => saveTemplate(organizerId, name, formData, client),
+        deleteTemplate: (templateId) => deleteTemplate(templateId, client),
+
+        findNotifications: (userId, options) => fetchNotifications(userId, options, client),
+        countUnreadNotifications: (userId) => getUnreadNotificationCount(userId, client),
+        markNotificationsRead: (userId, notificationIds) => notificationIds === "all"
+            ? markAllNotificationsRead(userId, client)
+            : markNotificationsRead(userId, notificationIds, client),
+    };
+    return repository;
+}
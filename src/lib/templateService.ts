@@ -0,0 +1,63 @@
+import supabase, { DbClient } from "./supabaseClient";
+import { EventFormData, EventTemplate } from "@/types/event";
+import { Json } from "@/types/database";
+import { EventTemplateRow, toEventTemplate, toTemplateData, toTemplateName } from "./eventTemplates";
+
+//Saving and loading event templates, the conversions to and from the form are in eventTemplates
+
+//The organizer's templates, by name
+export async function fetchTemplates(organizerId: string, client: DbClient = supabase): Promise<EventTemplate[]> {
+    const { data, error } = await client
+        .from("event_templates")
+        .select("id, name, data, updated_at")
+        .eq("organizer_id", organizerId)
+        .order("name", { ascending: true });
+
+    if (error) {
+        console.error("Unable to fetch event templates:", error);
+        throw new Error("Failed to load your templates");
+    }
+
+    //data is jsonb, which the generated types only know as Json
+    return ((data || []) as unknown as EventTemplateRow[]).map(toEventTemplate);
+}
+
+//Saves the form as a template, replacing the organizer's template with the same name
+export async function saveTemplate(
+    organizerId: string,
+    name: string,
+    formData: EventFormData,
+    client: DbClient = supabase
+): Promise<EventTemplate> {
+    const trimmedName = toTemplateName(name);
+
+    const { data, error } = await client
+        .from("event_templates")
+        .upsert({
+            organizer_id: organizerId,
+            name: trimmedName,
+            data: toTemplateData(formData) as unknown as Json,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: "organizer_id,name" })
+        .select("id, name, data, updated_at")
+        .single();
+
+    if (error || !data) {
+        console.error("Unable to save event template:", error);
+        throw new Error("Failed to save template");
+    }
+
+    return toEventTemplate(data as unknown as EventTemplateRow);
+}
+
+export async function deleteTemplate(templateId: string, client: DbClient = supabase) {
+    const { error } = await client
+        .from("event_templates")
+        .delete()
+        .eq("id", templateId);
+
+    if (error) {
+        console.error("Unable to delete event template:", error);
+        throw new Error("Failed to delete template");
+    }
+}
@@ -0,0 +1,778 @@
+// Generated from the Supabase schema, don't edit by hand. After a migration, regenerate with
+//   npx supabase gen types typescript --local > src/types/database.ts
+// (or --project-id <id> against the hosted project).
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      admin_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          details: Json
+          id: string
+          target_id: string
+          target_label: string | null
+          target_type: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id: string
+          target_label?: string | null
+          target_type: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id?: string
+          target_label?: string | null
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campus_buildings: {
+        Row: {
+          address: string
+          created_at: string
+          id: string
+          is_active: boolean
+          lat: number
+          lng: number
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          address?: string
+          created_at?: string
+          id: string
+          is_active?: boolean
+          lat: number
+          lng: number
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          lat?: number
+          lng?: number
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      event_attendees: {
+        Row: {
+          checked_in_at: string | null
+          checked_in_by: string | null
+          event_id: string
+          id: string
+          rsvp_time: string | null
+          user_id: string
+        }
+        Insert: {
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          event_id: string
+          id?: string
+          rsvp_time?: string | null
+          user_id: string
+        }
+        Update: {
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          event_id?: string
+          id?: string
+          rsvp_time?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_attendees_checked_in_by_fkey"
+            columns: ["checked_in_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_attendees_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_attendees_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_reports: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          reason: string
+          reporter_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          reason: string
+          reporter_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          reason?: string
+          reporter_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_reports_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_reports_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_rsvp_counts: {
+        Row: {
+          attendee_count: number
+          event_id: string
+          updated_at: string
+          waitlist_count: number
+        }
+        Insert: {
+          attendee_count?: number
+          event_id: string
+          updated_at?: string
+          waitlist_count?: number
+        }
+        Update: {
+          attendee_count?: number
+          event_id?: string
+          updated_at?: string
+          waitlist_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_rsvp_counts_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: true
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_series: {
+        Row: {
+          created_at: string
+          id: string
+          organizer_id: string
+          recurrence: Json
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          organizer_id: string
+          recurrence: Json
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          organizer_id?: string
+          recurrence?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_series_organizer_id_fkey"
+            columns: ["organizer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_templates: {
+        Row: {
+          created_at: string
+          data: Json
+          id: string
+          name: string
+          organizer_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          data: Json
+          id?: string
+          name: string
+          organizer_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          id?: string
+          name?: string
+          organizer_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_templates_organizer_id_fkey"
+            columns: ["organizer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_waitlist: {
+        Row: {
+          event_id: string
+          id: string
+          joined_at: string
+          position: number
+          user_id: string
+        }
+        Insert: {
+          event_id: string
+          id?: string
+          joined_at?: string
+          position?: never
+          user_id: string
+        }
+        Update: {
+          event_id?: string
+          id?: string
+          joined_at?: string
+          position?: never
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_waitlist_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_waitlist_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          building_id: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          created_at: string
+          description: string | null
+          end_time: string
+          food_offerings: Json | null
+          id: string
+          is_public: boolean
+          location: string
+          location_address: string | null
+          location_instructions: string | null
+          location_point: unknown
+          location_room: string | null
+          max_attendees: number | null
+          organizer_id: string
+          sequence: number
+          series_id: string | null
+          start_time: string
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          building_id?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          description?: string | null
+          end_time: string
+          food_offerings?: Json | null
+          id?: string
+          is_public?: boolean
+          location: string
+          location_address?: string | null
+          location_instructions?: string | null
+          location_point: unknown
+          location_room?: string | null
+          max_attendees?: number | null
+          organizer_id: string
+          sequence?: number
+          series_id?: string | null
+          start_time: string
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          building_id?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          description?: string | null
+          end_time?: string
+          food_offerings?: Json | null
+          id?: string
+          is_public?: boolean
+          location?: string
+          location_address?: string | null
+          location_instructions?: string | null
+          location_point?: unknown
+          location_room?: string | null
+          max_attendees?: number | null
+          organizer_id?: string
+          sequence?: number
+          series_id?: string | null
+          start_time?: string
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "events_building_id_fkey"
+            columns: ["building_id"]
+            isOneToOne: false
+            referencedRelation: "campus_buildings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "events_organizer_id_fkey"
+            columns: ["organizer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "events_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "event_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      food_items: {
+        Row: {
+          created_at: string
+          description: string | null
+          dietary_tags: Json
+          event_id: string
+          id: string
+          initial_quantity: number | null
+          name: string
+          quantity: number | null
+          serving_size: string | null
+          sort_order: number
+          status: string
+          temperature: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          dietary_tags?: Json
+          event_id: string
+          id?: string
+          initial_quantity?: number | null
+          name: string
+          quantity?: number | null
+          serving_size?: string | null
+          sort_order?: number
+          status?: string
+          temperature?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          dietary_tags?: Json
+          event_id?: string
+          id?: string
+          initial_quantity?: number | null
+          name?: string
+          quantity?: number | null
+          serving_size?: string | null
+          sort_order?: number
+          status?: string
+          temperature?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "food_items_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          event_id: string | null
+          id: string
+          message: string
+          read: boolean
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id?: string | null
+          id?: string
+          message: string
+          read?: boolean
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string | null
+          id?: string
+          message?: string
+          read?: boolean
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          auth_id: string
+          dietary_restrictions: string[]
+          email: string
+          full_name: string
+          id: string
+          last_login: string | null
+          requested_role: string | null
+          role: string
+          suspended_at: string | null
+          suspension_reason: string | null
+        }
+        Insert: {
+          auth_id: string
+          dietary_restrictions?: string[]
+          email: string
+          full_name: string
+          id?: string
+          last_login?: string | null
+          requested_role?: string | null
+          role?: string
+          suspended_at?: string | null
+          suspension_reason?: string | null
+        }
+        Update: {
+          auth_id?: string
+          dietary_restrictions?: string[]
+          email?: string
+          full_name?: string
+          id?: string
+          last_login?: string | null
+          requested_role?: string | null
+          role?: string
+          suspended_at?: string | null
+          suspension_reason?: string | null
+        }
+        Relationships: []
+      }
+      role_permissions: {
+        Row: {
+          permission: string
+          role: string
+        }
+        Insert: {
+          permission: string
+          role: string
+        }
+        Update: {
+          permission?: string
+          role?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      adjust_food_quantity: {
+        Args: { p_food_item_id: string; p_delta: number }
+        Returns: {
+          result: string
+          quantity: number
+          event_status: string
+        }[]
+      }
+      calendar_feed: {
+        Args: { p_token: string; p_building_ids?: string[] }
+        Returns: {
+          id: string
+          title: string
+          description: string
+          location: string
+          location_point: string
+          location_address: string
+          location_room: string
+          location_instructions: string
+          start_time: string
+          end_time: string
+          status: string
+          cancellation_reason: string
+          sequence: number
+          updated_at: string
+        }[]
+      }
+      can_edit_event: {
+        Args: { p_event_id: string }
+        Returns: boolean
+      }
+      check_in_attendee: {
+        Args: { p_attendee_id: string; p_event_id: string }
+        Returns: {
+          result: string
+          attendee_name: string
+          checked_in_at: string
+        }[]
+      }
+      events_in_bounds: {
+        Args: { p_west: number; p_south: number; p_east: number; p_north: number }
+        Returns: Database["public"]["Tables"]["events"]["Row"][]
+      }
+      events_near: {
+        Args: { p_lng: number; p_lat: number; p_radius_meters: number }
+        Returns: Database["public"]["Tables"]["events"]["Row"][]
+      }
+      get_calendar_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      has_permission: {
+        Args: { p_permission: string }
+        Returns: boolean
+      }
+      notify_event_cancelled: {
+        Args: { p_event_ids: string[] }
+        Returns: string[]
+      }
+      promote_from_waitlist: {
+        Args: { p_event_id: string }
+        Returns: string
+      }
+      resolve_event_report: {
+        Args: { p_report_id: string; p_status: string }
+        Returns: string
+      }
+      rotate_calendar_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      rsvp_to_event: {
+        Args: { p_event_id: string; p_user_id: string }
+        Returns: string
+      }
+      save_food_items: {
+        Args: { p_event_id: string; p_items: Json }
+        Returns: string
+      }
+      set_user_role: {
+        Args: { p_profile_id: string; p_role: string }
+        Returns: string
+      }
+      set_user_suspended: {
+        Args: { p_profile_id: string; p_suspended: boolean; p_reason?: string }
+        Returns: string
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DefaultSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
@@ -1,4 +1,39 @@
-import { Building, DietaryTag } from '../constants/eventData';
+import { DietaryTag } from '../constants/eventData';
+import { EVENT_STATUS, FOOD_GONE } from '../constants/map';
+
+/**
+ * Lifecycle status of an event
+ * One of the values in EVENT_STATUS (draft, scheduled, starting_soon, live, running_low, ended, cancelled)
+ */
+export type EventStatus = typeof EVENT_STATUS[keyof typeof EVENT_STATUS];
+
+/** What markers and badges show, the status or food gone (see lib/eventLifecycle.ts displayStatus) */
+export type DisplayStatus = EventStatus | typeof FOOD_GONE;
+
+/**
+ * A campus building from the campus_buildings catalog, managed by admins
+ * Format of coordinates: [longitude, latitude]
+ */
+export interface Building {
+    /** Short code, also used in calendar feed URLs */
+    id: string;
+    name: string;
+    coordinates: [number, number];
+    address: string;
+    /** Inactive buildings stay on past events but can't be picked for new ones */
+    isActive?: boolean;
+}
+
+/**
+ * Where an event is: a catalog building, or a spot the organizer picked on the map or found
+ * by address, which has the id CUSTOM_LOCATION_ID
+ */
+export interface EventLocation extends Building {
+    /** Room or floor, e.g. "Room 440" or "3rd floor lounge" */
+    room?: string;
+    /** How to find the food once there, e.g. "Table by the east doors" */
+    instructions?: string;
+}
 
 /**
  * Base Event interface
@@ -10,7 +45,7 @@ export interface Event {
     location: string;
     time: string;
     attendees: number;
-    status: 'available' | 'starting_soon';
+    status: EventStatus;
     coords: [number, number];
 }
 
@@ -19,17 +54,20 @@ export interface Event {
  * Includes additional fields for detailed event information
  */
 export interface DashboardEvent extends Event {
+    /** When the event starts */
+    startTime: Date;
+    /** When the event ends */
+    endTime: Date;
     /** Optional description of the event */
     description?: string;
-    /** Array of food items being offered with their dietary tags */
-    foodOfferings: Array<{
-        name: string;
-        dietaryTags: Array<DietaryTag>;
-        description?: string;
-        quantity?: string;
-        servingSize?: string;
-        temperature?: 'hot' | 'cold' | 'room temperature';
-    }>;
+    /** Food items being offered with their dietary tags and portions left */
+    foodOfferings: Array<FoodOffering>;
+    /** Portions left across all counted food items, undefined when nothing is counted */
+    portionsRemaining?: number;
+    /** Portions the event started with across all counted food items */
+    portionsTotal?: number;
+    /** Profile id of the event organizer */
+    organizerId: string;
     /** Name of the event organizer */
     organizerName: string;
     /** Email of the event organizer */
@@ -38,12 +76,51 @@ export interface DashboardEvent extends Event {
     organizerPhone?: string;
     /** Optional maximum number of attendees allowed */
     maxAttendees?: number;
+    /** Number of people waiting for a spot once the event is full */
+    waitlistCount?: number;
     /** Whether the event is public or private */
     isPublic: boolean;
     /** Array of user IDs who have RSVP'd to this event (would be implemented with actual user IDs in production) */
     rsvpUsers?: string[];
+    /** Reason given by the organizer when the event was cancelled */
+    cancellationReason?: string;
+    /** Bumped by the database on every change a calendar shows (iCalendar SEQUENCE) */
+    sequence?: number;
+    /** When the event was last changed */
+    updatedAt?: Date;
+    /** The series this event is one occurrence of, undefined for one-off events */
+    seriesId?: string;
+    /** Catalog building the event is at, undefined for custom locations */
+    buildingId?: string;
+    /** Street address of the building or the custom location */
+    locationAddress?: string;
+    /** Room or floor */
+    locationRoom?: string;
+    /** How to find the food once there */
+    locationInstructions?: string;
 }
 
+/**
+ * How often a recurring event repeats
+ * Dates are local calendar days as "YYYY-MM-DD", the same format as a date input's value
+ */
+export interface RecurrenceRule {
+    frequency: 'weekly' | 'biweekly';
+    /** Days of the week it happens on, 0 = Sunday. Empty means the start date's weekday */
+    weekdays: number[];
+    /** Last day an occurrence can fall on, set this or count */
+    until?: string;
+    /** Number of occurrences, skipped dates included, set this or until */
+    count?: number;
+    /** Days that would have an occurrence but don't, like a holiday */
+    exceptDates: string[];
+}
+
+/**
+ * Which occurrences of a recurring event an edit or cancellation applies to
+ */
+export type SeriesScope = 'this' | 'following' | 'all';
+
 /**
  * Form data interface for event creation/editing
  */
@@ -51,21 +128,34 @@ export interface EventFormData {
     title: string;
     startDateTime: Date;
     endDateTime: Date;
-    location: Building;
+    location: EventLocation;
     description?: string;
-    foodOfferings: Array<{
-        name: string;
-        dietaryTags: Array<DietaryTag>;
-        description?: string;
-        quantity?: string;
-        servingSize?: string;
-        temperature?: 'hot' | 'cold' | 'room temperature';
-    }>;
+    foodOfferings: Array<FoodOffering>;
     organizerName: string;
     organizerEmail: string;
     organizerPhone?: string;
     maxAttendees?: number;
     isPublic: boolean;
+    /** Repeats the event, only used when creating it. Loaded back when editing an occurrence */
+    recurrence?: RecurrenceRule;
+}
+
+/**
+ * A saved starting point for new events, everything but the date
+ * Food offerings are the menu only, without item ids or portions handed out
+ */
+export interface EventTemplate {
+    id: string;
+    name: string;
+    title: string;
+    description?: string;
+    location: EventLocation;
+    foodOfferings: Array<FoodOffering>;
+    maxAttendees?: number;
+    isPublic: boolean;
+    /** Length of the event, the start comes from the form */
+    durationMinutes: number;
+    updatedAt: Date;
 }
 
 /**
@@ -80,6 +170,7 @@ export interface EventFormErrors {
     organizerName?: string;
     organizerEmail?: string;
     organizerPhone?: string;
+    recurrence?: string;
     general?: string;
 }
 
@@ -102,11 +193,19 @@ export interface RsvpStatus {
     count: number;
 } 
 
+/**
+ * A food item on an event, backed by a row in the food_items table
+ * quantity is the number of portions the organizer started with and remaining is how many
+ * are left. Both are undefined when the organizer didn't give a count.
+ */
 export interface FoodOffering {
+    /** food_items row id, undefined for items that haven't been saved yet */
+    id?: string;
     name: string;
     dietaryTags: Array<DietaryTag>;
     description?: string;
-    quantity?: string;
+    quantity?: number;
+    remaining?: number;
     servingSize?: string;
     temperature?: 'hot' | 'cold' | 'room temperature';
 }
\ No newline at end of file
@@ -3,29 +3,54 @@
  * This file contains all the TypeScript interfaces that define the shape of our data
  */
 
+/**
+ * Roles a profile can have, see ROLE_PERMISSIONS in constants/config.ts for what each may do
+ */
+export type UserRole = 'student' | 'faculty' | 'admin';
+
+/**
+ * Actions that are gated by role
+ */
+export type Permission =
+  | 'create_event'
+  | 'edit_own_event'
+  | 'edit_any_event'
+  | 'moderate'
+  | 'manage_users'
+  | 'manage_buildings';
+
 /**
  * User interface defines the structure of a user in the system
  * @property id - Unique identifier for the user
  * @property email - User's email address
- * @property role - User's role in the system (admin, donor, or recipient)
+ * @property role - User's role in the system (student, faculty or admin)
+ * @property requestedRole - Role the user asked for at signup, waiting on an admin
  * @property name - Optional user's full name
  * @property department - Optional user's BU department
+ * @property suspendedAt - When an admin suspended the account, null if it's active
+ * @property suspensionReason - Why the account was suspended
  */
 export interface User {
   id: string;
   email: string;
-  role: 'admin' | 'donor' | 'recipient';
+  role: UserRole;
+  requestedRole?: UserRole | null;
   name?: string;
   department?: string;
+  suspendedAt?: Date | null;
+  suspensionReason?: string | null;
 }
 
 /**
  * FoodItem interface defines the structure of a food item in the system
+ * Each item is a row in the food_items table belonging to an event
  * @property id - Unique identifier for the food item
+ * @property eventId - ID of the event the food is served at
  * @property name - Name of the food item
  * @property description - Detailed description of the food item
- * @property quantity - Amount of food available
- * @property expiryDate - Date when the food will expire
+ * @property quantity - Portions left, null when the organizer didn't give a count
+ * @property initialQuantity - Portions the event started with, null when not counted
+ * @property expiryDate - Date when the food will expire (the end of the event)
  * @property location - Where the food is located on campus
  * @property donorId - ID of the user who donated the food
  * @property status - Current status of the food item
@@ -34,9 +59,11 @@ export interface User {
  */
 export interface FoodItem {
   id: string;
+  eventId: string;
   name: string;
   description: string;
-  quantity: number;
+  quantity: number | null;
+  initialQuantity: number | null;
   expiryDate: Date;
   location: string;
   donorId: string;
@@ -52,6 +79,7 @@ export interface FoodItem {
  * @property title - Short title of the notification
  * @property message - Detailed message content
  * @property type - Type of notification (food available, claimed, or system)
+ * @property eventId - Event the notification is about, if any
  * @property read - Whether the notification has been read
  * @property createdAt - Timestamp when the notification was created
  */
@@ -61,6 +89,62 @@ export interface Notification {
   title: string;
   message: string;
   type: 'food_available' | 'food_claimed' | 'system';
+  eventId: string | null;
   read: boolean;
   createdAt: Date;
-} 
\ No newline at end of file
+} 
+
+/**
+ * EventReport interface defines a report a user filed about an event, for moderators to review
+ * @property id - Unique identifier for the report
+ * @property eventId - ID of the reported event
+ * @property eventTitle - Title of the reported event
+ * @property reporterName - Full name of the user who filed the report
+ * @property reason - What the reporter says is wrong
+ * @property status - open until a moderator dismisses it or acts on it (resolved)
+ * @property createdAt - Timestamp when the report was filed
+ */
+export interface EventReport {
+  id: string;
+  eventId: string;
+  eventTitle: string;
+  reporterName: string;
+  reason: string;
+  status: 'open' | 'dismissed' | 'resolved';
+  createdAt: Date;
+}
+
+/**
+ * Actions recorded in the admin audit log
+ */
+export type AuditAction =
+  | 'user.role_changed'
+  | 'user.suspended'
+  | 'user.unsuspended'
+  | 'event.edited'
+  | 'event.cancelled'
+  | 'event.deleted'
+  | 'report.dismissed'
+  | 'report.resolved';
+
+/**
+ * AuditLogEntry interface defines one admin or moderator action in the audit log
+ * @property id - Unique identifier for the entry
+ * @property actorName - Who did it, null for changes made directly in the database
+ * @property action - What was done
+ * @property targetType - Kind of thing it was done to
+ * @property targetId - ID of the user, event or report
+ * @property targetLabel - Name or title of the target when it happened
+ * @property details - Extra information for the action (old and new role, reason, changed fields)
+ * @property createdAt - Timestamp of the action
+ */
+export interface AuditLogEntry {
+  id: string;
+  actorName: string | null;
+  action: AuditAction;
+  targetType: 'user' | 'event' | 'report';
+  targetId: string;
+  targetLabel: string | null;
+  details: Record<string, unknown>;
+  createdAt: Date;
+}
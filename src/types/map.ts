@@ -1,3 +1,5 @@
+import { EventStatus, FoodOffering } from './event';
+
 /**
  * Represents a food event or building on the campus map
  * @interface Event
@@ -7,8 +9,13 @@
  * @property {string} [distance] - Distance from user's current location
  * @property {string} time - Event timing information
  * @property {number} attendees - Number of people attending
- * @property {'available' | 'starting_soon'} status - Current status of the event
+ * @property {EventStatus} status - Current lifecycle status of the event
  * @property {[number, number]} coords - Geographic coordinates [longitude, latitude]
+ * @property {number} [portionsRemaining] - Food portions left, when the organizer counts them
+ * @property {number} [portionsTotal] - Food portions the event started with
+ * @property {FoodOffering[]} [foodOfferings] - The food, items without a count keep an event from showing as gone
+ * @property {number} [maxAttendees] - Capacity, unlimited when not set
+ * @property {number} [waitlistCount] - People waiting for a spot once the event is full
  */
 export interface Event {
   id: string;
@@ -17,8 +24,13 @@ export interface Event {
   distance?: string;
   time: string;
   attendees: number;
-  status: 'available' | 'starting_soon';
+  status: EventStatus;
   coords: [number, number];
+  portionsRemaining?: number;
+  portionsTotal?: number;
+  foodOfferings?: FoodOffering[];
+  maxAttendees?: number;
+  waitlistCount?: number;
 }
 
 /**
@@ -27,11 +39,45 @@ export interface Event {
  * @property {Event[]} events - Array of events to display on the map
  * @property {(eventId: number) => void} onMarkerClick - Callback function when a marker is clicked
  * @property {[number, number]} [userPos] - Optional user's current position [longitude, latitude]
+ * @property {string[]} [dimmedEventIds] - Events drawn faded, e.g. ones that don't fit the user's dietary profile
+ * @property {(bounds: MapBounds) => void} [onBoundsChange] - Called with the visible area once the map loads and after each pan or zoom
+ * @property {[number, number][]} [route] - Walking route to draw as a line, the map zooms to fit it
  */
 export interface MapProps {
   events: Event[];
   onMarkerClick: (eventId: string) => void;
   userPos?: [number, number];
+  dimmedEventIds?: string[];
+  onBoundsChange?: (bounds: MapBounds) => void;
+  route?: [number, number][];
+}
+
+/**
+ * A walking route between two points
+ * @interface WalkingRoute
+ * @property {[number, number][]} coordinates - The path, [longitude, latitude] from start to end
+ * @property {number} distanceMeters - Length of the walk
+ * @property {number} durationSeconds - Estimated walking time
+ */
+export interface WalkingRoute {
+  coordinates: [number, number][];
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+/**
+ * A rectangular area of the map, in degrees
+ * @interface MapBounds
+ * @property {number} west - Smallest longitude
+ * @property {number} south - Smallest latitude
+ * @property {number} east - Largest longitude
+ * @property {number} north - Largest latitude
+ */
+export interface MapBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
 }
 
 /**
@@ -0,0 +1,26 @@
+-- Event lifecycle: draft -> scheduled -> starting_soon -> live -> running_low -> ended / cancelled
+-- Allowed transitions are enforced in src/lib/eventLifecycle.ts
+
+alter table public.events
+    add column if not exists cancellation_reason text,
+    add column if not exists cancelled_at timestamptz;
+
+-- Move the old "available" / "starting soon" values onto the new states
+update public.events
+set status = case
+    when end_time < now() then 'ended'
+    when start_time > now() then 'scheduled'
+    else 'live'
+end
+where status in ('available', 'starting soon');
+
+alter table public.events
+    alter column status set default 'scheduled';
+
+alter table public.events
+    drop constraint if exists events_status_check;
+
+alter table public.events
+    add constraint events_status_check check (
+        status in ('draft', 'scheduled', 'starting_soon', 'live', 'running_low', 'ended', 'cancelled')
+    );
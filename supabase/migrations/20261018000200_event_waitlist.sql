@@ -0,0 +1,81 @@
+-- Waitlist for events that have reached max_attendees
+-- position comes from an identity column so entries are ordered by join time;
+-- a user's place in line is the number of entries for the same event at or before theirs
+
+create table if not exists public.event_waitlist (
+    id uuid primary key default gen_random_uuid(),
+    event_id uuid not null references public.events(id) on delete cascade,
+    user_id uuid not null references public.profiles(id) on delete cascade,
+    position bigint generated always as identity,
+    joined_at timestamptz not null default now(),
+    unique (event_id, user_id)
+);
+
+create index if not exists event_waitlist_event_position_idx
+    on public.event_waitlist (event_id, position);
+
+alter table public.event_waitlist enable row level security;
+
+create policy "Waitlist entries are readable by everyone"
+    on public.event_waitlist for select
+    using (true);
+
+create policy "Users manage their own waitlist entries"
+    on public.event_waitlist for all
+    using (user_id in (select id from public.profiles where auth_id = auth.uid()))
+    with check (user_id in (select id from public.profiles where auth_id = auth.uid()));
+
+-- Moves the first person in line into event_attendees if there is room.
+-- The event row is locked so two cancellations can't promote into the same seat.
+-- Returns the promoted profile id, or null when nobody was promoted.
+create or replace function public.promote_from_waitlist(p_event_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_max integer;
+    v_count integer;
+    v_next public.event_waitlist%rowtype;
+begin
+    select max_attendees into v_max
+    from public.events
+    where id = p_event_id
+    for update;
+
+    if not found then
+        return null;
+    end if;
+
+    select count(*) into v_count
+    from public.event_attendees
+    where event_id = p_event_id;
+
+    if v_max is not null and v_count >= v_max then
+        return null;
+    end if;
+
+    select * into v_next
+    from public.event_waitlist
+    where event_id = p_event_id
+    order by position
+    limit 1
+    for update skip locked;
+
+    if not found then
+        return null;
+    end if;
+
+    insert into public.event_attendees (event_id, user_id, rsvp_time)
+    values (p_event_id, v_next.user_id, now())
+    on conflict do nothing;
+
+    delete from public.event_waitlist where id = v_next.id;
+
+    return v_next.user_id;
+end;
+$$;
+
+revoke execute on function public.promote_from_waitlist(uuid) from public, anon;
+grant execute on function public.promote_from_waitlist(uuid) to authenticated;
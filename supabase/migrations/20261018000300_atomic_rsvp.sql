@@ -0,0 +1,63 @@
+-- Race-free RSVPs
+-- rsvp_to_event locks the event row before counting attendees, so concurrent RSVPs for the
+-- same event run one at a time and the count can never pass max_attendees.
+-- Direct inserts into event_attendees are revoked so every RSVP goes through this function
+-- (promote_from_waitlist takes the same lock).
+
+create or replace function public.rsvp_to_event(p_event_id uuid, p_user_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_event record;
+    v_count integer;
+begin
+    -- Signed-in callers can only RSVP as themselves
+    if auth.uid() is not null and not exists (
+        select 1 from public.profiles where id = p_user_id and auth_id = auth.uid()
+    ) then
+        return 'forbidden';
+    end if;
+
+    select max_attendees, status, end_time into v_event
+    from public.events
+    where id = p_event_id
+    for update;
+
+    if not found then
+        return 'not_found';
+    end if;
+
+    if v_event.status not in ('scheduled', 'starting_soon', 'live', 'running_low')
+        or v_event.end_time <= now() then
+        return 'closed';
+    end if;
+
+    if exists (
+        select 1 from public.event_attendees
+        where event_id = p_event_id and user_id = p_user_id
+    ) then
+        return 'duplicate';
+    end if;
+
+    select count(*) into v_count
+    from public.event_attendees
+    where event_id = p_event_id;
+
+    if v_event.max_attendees is not null and v_count >= v_event.max_attendees then
+        return 'full';
+    end if;
+
+    insert into public.event_attendees (event_id, user_id, rsvp_time)
+    values (p_event_id, p_user_id, now());
+
+    return 'ok';
+end;
+$$;
+
+revoke execute on function public.rsvp_to_event(uuid, uuid) from public, anon;
+grant execute on function public.rsvp_to_event(uuid, uuid) to authenticated;
+
+revoke insert on public.event_attendees from anon, authenticated;
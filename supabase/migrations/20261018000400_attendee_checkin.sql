@@ -0,0 +1,80 @@
+-- Food pickup check-in
+-- Each RSVP gets a signed QR code (signed by the app server, see src/lib/checkinToken.ts).
+-- When the organizer scans it, check_in_attendee stamps checked_in_at so we know who showed up.
+
+alter table public.event_attendees
+    add column if not exists checked_in_at timestamptz,
+    add column if not exists checked_in_by uuid references public.profiles(id);
+
+create index if not exists event_attendees_checked_in_idx
+    on public.event_attendees (event_id)
+    where checked_in_at is not null;
+
+-- Marks an attendee as picked up
+-- Returns one row: result is 'ok', 'not_found', 'wrong_event', 'duplicate' or 'forbidden'.
+-- For 'duplicate', checked_in_at is when they were first checked in.
+create or replace function public.check_in_attendee(p_attendee_id uuid, p_event_id uuid)
+returns table (result text, attendee_name text, checked_in_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_organizer_id uuid;
+    v_attendee record;
+    v_checked_in_at timestamptz;
+begin
+    -- Only the faculty member who organizes the event can check people in
+    select p.id into v_organizer_id
+    from public.events e
+    join public.profiles p on p.id = e.organizer_id
+    where e.id = p_event_id
+      and p.role = 'faculty'
+      and (auth.uid() is null or p.auth_id = auth.uid());
+
+    if v_organizer_id is null then
+        return query select 'forbidden'::text, null::text, null::timestamptz;
+        return;
+    end if;
+
+    select a.event_id, a.checked_in_at, pr.full_name into v_attendee
+    from public.event_attendees a
+    left join public.profiles pr on pr.id = a.user_id
+    where a.id = p_attendee_id;
+
+    -- The RSVP was cancelled after the code was issued
+    if not found then
+        return query select 'not_found'::text, null::text, null::timestamptz;
+        return;
+    end if;
+
+    if v_attendee.event_id <> p_event_id then
+        return query select 'wrong_event'::text, v_attendee.full_name::text, null::timestamptz;
+        return;
+    end if;
+
+    -- Conditional update so two scanners can't both check in the same code
+    update public.event_attendees a
+    set checked_in_at = now(),
+        checked_in_by = v_organizer_id
+    where a.id = p_attendee_id
+      and a.checked_in_at is null
+    returning a.checked_in_at into v_checked_in_at;
+
+    if v_checked_in_at is null then
+        select a.checked_in_at into v_checked_in_at
+        from public.event_attendees a
+        where a.id = p_attendee_id;
+
+        return query select 'duplicate'::text, v_attendee.full_name::text, v_checked_in_at;
+        return;
+    end if;
+
+    return query select 'ok'::text, v_attendee.full_name::text, v_checked_in_at;
+end;
+$$;
+
+revoke execute on function public.check_in_attendee(uuid, uuid) from public, anon;
+grant execute on function public.check_in_attendee(uuid, uuid) to authenticated;
+
+revoke update on public.event_attendees from anon, authenticated;
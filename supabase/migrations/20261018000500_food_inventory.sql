@@ -0,0 +1,271 @@
+-- Per-item food inventory
+-- Food offerings used to live in events.food_offerings as JSON with a free text quantity.
+-- Each offering is now a food_items row with a numeric portion count that organizers count
+-- down as food goes out. When the portions left across an event drop to a quarter of what
+-- it started with the event flips to running_low, and at zero it ends (the food is gone).
+-- events.food_offerings is no longer written and is only kept for the backfill below.
+
+create table if not exists public.food_items (
+    id uuid primary key default gen_random_uuid(),
+    event_id uuid not null references public.events(id) on delete cascade,
+    name text not null,
+    description text,
+    dietary_tags jsonb not null default '[]'::jsonb,
+    serving_size text,
+    temperature text check (temperature in ('hot', 'cold', 'room temperature')),
+    -- Portions left, null when the organizer didn't give a count
+    quantity integer check (quantity >= 0),
+    -- Portions the event started with
+    initial_quantity integer check (initial_quantity >= 0),
+    status text not null default 'available'
+        check (status in ('available', 'reserved', 'claimed', 'expired')),
+    sort_order integer not null default 0,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    constraint food_items_quantity_tracked check ((quantity is null) = (initial_quantity is null)),
+    constraint food_items_quantity_within_initial check (quantity <= initial_quantity)
+);
+
+create index if not exists food_items_event_id_idx on public.food_items (event_id, sort_order);
+
+-- Backfill from the old JSON column, keeping the count when the free text was a plain number
+insert into public.food_items (
+    event_id, name, description, dietary_tags, serving_size, temperature,
+    quantity, initial_quantity, sort_order
+)
+select
+    e.id,
+    offering.value->>'name',
+    nullif(offering.value->>'description', ''),
+    coalesce(offering.value->'dietaryTags', '[]'::jsonb),
+    nullif(offering.value->>'servingSize', ''),
+    nullif(offering.value->>'temperature', ''),
+    case when trim(offering.value->>'quantity') ~ '^\d+$' then trim(offering.value->>'quantity')::integer end,
+    case when trim(offering.value->>'quantity') ~ '^\d+$' then trim(offering.value->>'quantity')::integer end,
+    offering.ordinality::integer - 1
+from public.events e
+cross join lateral jsonb_array_elements(
+    case when jsonb_typeof(e.food_offerings) = 'array' then e.food_offerings else '[]'::jsonb end
+) with ordinality as offering(value, ordinality)
+where coalesce(offering.value->>'name', '') <> ''
+  and not exists (select 1 from public.food_items f where f.event_id = e.id);
+
+alter table public.food_items enable row level security;
+
+drop policy if exists "Anyone can see food items" on public.food_items;
+create policy "Anyone can see food items"
+    on public.food_items for select
+    using (true);
+
+grant select on public.food_items to anon, authenticated;
+revoke insert, update, delete on public.food_items from anon, authenticated;
+
+-- Moves a started event between live, running_low and ended based on the portions left.
+-- Untracked items (no count) are ignored, and events with no tracked items are left alone.
+-- Keep RUNNING_LOW_RATIO in src/constants/config.ts in sync with the 0.25 below.
+create or replace function public.refresh_event_food_status(p_event_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_event record;
+    v_remaining integer;
+    v_total integer;
+    v_next_status text;
+begin
+    select status, start_time, end_time into v_event
+    from public.events
+    where id = p_event_id;
+
+    select sum(quantity), sum(initial_quantity) into v_remaining, v_total
+    from public.food_items
+    where event_id = p_event_id
+      and initial_quantity > 0;
+
+    if v_total is null
+        or v_event.status not in ('scheduled', 'starting_soon', 'live', 'running_low')
+        or now() < v_event.start_time
+        or now() >= v_event.end_time then
+        return v_event.status;
+    end if;
+
+    v_next_status := case
+        when v_remaining = 0 then 'ended'
+        when v_remaining <= v_total * 0.25 then 'running_low'
+        else 'live'
+    end;
+
+    if v_next_status <> v_event.status then
+        update public.events
+        set status = v_next_status,
+            updated_at = now()
+        where id = p_event_id;
+    end if;
+
+    return v_next_status;
+end;
+$$;
+
+revoke execute on function public.refresh_event_food_status(uuid) from public, anon, authenticated;
+
+-- Counts portions out (negative delta) or back in (positive delta) for one food item.
+-- Returns one row: result is 'ok', 'not_found', 'forbidden', 'closed' or 'untracked'.
+create or replace function public.adjust_food_quantity(p_food_item_id uuid, p_delta integer)
+returns table (result text, quantity integer, event_status text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_event_id uuid;
+    v_event record;
+    v_quantity integer;
+begin
+    select f.event_id into v_event_id
+    from public.food_items f
+    where f.id = p_food_item_id;
+
+    if v_event_id is null then
+        return query select 'not_found'::text, null::integer, null::text;
+        return;
+    end if;
+
+    -- Same lock as rsvp_to_event, so counts and statuses for one event change one at a time
+    select e.status, p.auth_id into v_event
+    from public.events e
+    join public.profiles p on p.id = e.organizer_id
+    where e.id = v_event_id
+    for update of e;
+
+    if auth.uid() is not null and v_event.auth_id is distinct from auth.uid() then
+        return query select 'forbidden'::text, null::integer, v_event.status::text;
+        return;
+    end if;
+
+    if v_event.status in ('draft', 'ended', 'cancelled') then
+        return query select 'closed'::text, null::integer, v_event.status::text;
+        return;
+    end if;
+
+    update public.food_items f
+    set quantity = greatest(0, least(f.initial_quantity, f.quantity + p_delta)),
+        status = case when greatest(0, least(f.initial_quantity, f.quantity + p_delta)) = 0
+            then 'claimed' else 'available' end,
+        updated_at = now()
+    where f.id = p_food_item_id
+      and f.quantity is not null
+    returning f.quantity into v_quantity;
+
+    if v_quantity is null then
+        return query select 'untracked'::text, null::integer, v_event.status::text;
+        return;
+    end if;
+
+    return query select 'ok'::text, v_quantity, public.refresh_event_food_status(v_event_id);
+end;
+$$;
+
+revoke execute on function public.adjust_food_quantity(uuid, integer) from public, anon;
+grant execute on function public.adjust_food_quantity(uuid, integer) to authenticated;
+
+-- Replaces an event's food items with the ones from the event form.
+-- Items that keep their id keep the portions already handed out: changing the count from
+-- 40 to 50 with 10 given away leaves 40 remaining. Items missing from p_items are deleted.
+-- Returns 'ok', 'not_found' or 'forbidden'.
+create or replace function public.save_food_items(p_event_id uuid, p_items jsonb)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_event record;
+    v_item jsonb;
+    v_index integer := 0;
+    v_item_id uuid;
+    v_initial integer;
+begin
+    select p.auth_id into v_event
+    from public.events e
+    join public.profiles p on p.id = e.organizer_id
+    where e.id = p_event_id
+    for update of e;
+
+    if not found then
+        return 'not_found';
+    end if;
+
+    if auth.uid() is not null and v_event.auth_id is distinct from auth.uid() then
+        return 'forbidden';
+    end if;
+
+    delete from public.food_items f
+    where f.event_id = p_event_id
+      and f.id::text not in (
+          select item->>'id' from jsonb_array_elements(p_items) item where item->>'id' is not null
+      );
+
+    for v_item in select value from jsonb_array_elements(p_items)
+    loop
+        v_item_id := nullif(v_item->>'id', '')::uuid;
+        v_initial := nullif(v_item->>'quantity', '')::integer;
+
+        update public.food_items f
+        set name = v_item->>'name',
+            description = nullif(v_item->>'description', ''),
+            dietary_tags = coalesce(v_item->'dietaryTags', '[]'::jsonb),
+            serving_size = nullif(v_item->>'servingSize', ''),
+            temperature = nullif(v_item->>'temperature', ''),
+            quantity = case
+                when v_initial is null then null
+                when f.initial_quantity is null then v_initial
+                else greatest(0, least(v_initial, f.quantity + v_initial - f.initial_quantity))
+            end,
+            initial_quantity = v_initial,
+            sort_order = v_index,
+            updated_at = now()
+        where f.id = v_item_id
+          and f.event_id = p_event_id;
+
+        if v_item_id is null or not found then
+            insert into public.food_items (
+                event_id, name, description, dietary_tags, serving_size, temperature,
+                quantity, initial_quantity, sort_order
+            ) values (
+                p_event_id,
+                v_item->>'name',
+                nullif(v_item->>'description', ''),
+                coalesce(v_item->'dietaryTags', '[]'::jsonb),
+                nullif(v_item->>'servingSize', ''),
+                nullif(v_item->>'temperature', ''),
+                v_initial,
+                v_initial,
+                v_index
+            );
+        end if;
+
+        v_index := v_index + 1;
+    end loop;
+
+    update public.food_items f
+    set status = case when f.quantity = 0 then 'claimed' else 'available' end
+    where f.event_id = p_event_id;
+
+    perform public.refresh_event_food_status(p_event_id);
+    return 'ok';
+end;
+$$;
+
+revoke execute on function public.save_food_items(uuid, jsonb) from public, anon;
+grant execute on function public.save_food_items(uuid, jsonb) to authenticated;
+
+-- Stream remaining counts to the dashboard
+do $$
+begin
+    if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+        alter publication supabase_realtime add table public.food_items;
+    end if;
+end;
+$$;
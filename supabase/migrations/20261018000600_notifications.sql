@@ -0,0 +1,184 @@
+-- Persisted notifications
+-- Until now people only heard about new, cancelled or changed events through toasts while the
+-- dashboard was open. Notifications are stored per user so anyone who was offline sees what
+-- they missed in the NavBar inbox.
+-- Rows are only written by the database (the triggers and functions below), users can read
+-- their own notifications and mark them read.
+
+create table if not exists public.notifications (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references public.profiles(id) on delete cascade,
+    title text not null,
+    message text not null,
+    type text not null check (type in ('food_available', 'food_claimed', 'system')),
+    event_id uuid references public.events(id) on delete set null,
+    read boolean not null default false,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_created_idx
+    on public.notifications (user_id, created_at desc);
+
+create index if not exists notifications_user_unread_idx
+    on public.notifications (user_id)
+    where not read;
+
+alter table public.notifications enable row level security;
+
+drop policy if exists "Users can see their own notifications" on public.notifications;
+create policy "Users can see their own notifications"
+    on public.notifications for select
+    using (user_id in (select id from public.profiles where auth_id = auth.uid()));
+
+drop policy if exists "Users can mark their own notifications read" on public.notifications;
+create policy "Users can mark their own notifications read"
+    on public.notifications for update
+    using (user_id in (select id from public.profiles where auth_id = auth.uid()))
+    with check (user_id in (select id from public.profiles where auth_id = auth.uid()));
+
+revoke all on public.notifications from anon, authenticated;
+grant select on public.notifications to authenticated;
+grant update (read) on public.notifications to authenticated;
+
+-- New public events go to everyone except the organizer, this replaces the
+-- "new events since your last login" toast on the dashboard
+create or replace function public.notify_new_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.is_public and new.status in ('scheduled', 'starting_soon', 'live', 'running_low') then
+        insert into public.notifications (user_id, title, message, type, event_id)
+        select p.id,
+               'New food event',
+               new.title || ' at ' || new.location,
+               'food_available',
+               new.id
+        from public.profiles p
+        where p.id <> new.organizer_id;
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists events_notify_new on public.events;
+create trigger events_notify_new
+    after insert on public.events
+    for each row execute function public.notify_new_event();
+
+-- Cancellations go to attendees and the waitlist, running low goes to attendees
+-- who haven't picked up their food yet
+create or replace function public.notify_event_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.status = 'cancelled' then
+        insert into public.notifications (user_id, title, message, type, event_id)
+        select recipients.user_id,
+               'Event cancelled',
+               new.title || ' was cancelled' || coalesce(': ' || new.cancellation_reason, ''),
+               'system',
+               new.id
+        from (
+            select user_id from public.event_attendees where event_id = new.id
+            union
+            select user_id from public.event_waitlist where event_id = new.id
+        ) recipients;
+    elsif new.status = 'running_low' then
+        insert into public.notifications (user_id, title, message, type, event_id)
+        select a.user_id,
+               'Food running low',
+               'Most of the food at ' || new.title || ' has been claimed, head over soon',
+               'food_claimed',
+               new.id
+        from public.event_attendees a
+        where a.event_id = new.id
+          and a.checked_in_at is null;
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists events_notify_status_change on public.events;
+create trigger events_notify_status_change
+    after update of status on public.events
+    for each row
+    when (old.status is distinct from new.status)
+    execute function public.notify_event_status_change();
+
+-- Same as 20261018000200_event_waitlist.sql, plus a notification for the promoted user
+create or replace function public.promote_from_waitlist(p_event_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_max integer;
+    v_title text;
+    v_count integer;
+    v_next public.event_waitlist%rowtype;
+begin
+    select max_attendees, title into v_max, v_title
+    from public.events
+    where id = p_event_id
+    for update;
+
+    if not found then
+        return null;
+    end if;
+
+    select count(*) into v_count
+    from public.event_attendees
+    where event_id = p_event_id;
+
+    if v_max is not null and v_count >= v_max then
+        return null;
+    end if;
+
+    select * into v_next
+    from public.event_waitlist
+    where event_id = p_event_id
+    order by position
+    limit 1
+    for update skip locked;
+
+    if not found then
+        return null;
+    end if;
+
+    insert into public.event_attendees (event_id, user_id, rsvp_time)
+    values (p_event_id, v_next.user_id, now())
+    on conflict do nothing;
+
+    delete from public.event_waitlist where id = v_next.id;
+
+    insert into public.notifications (user_id, title, message, type, event_id)
+    values (
+        v_next.user_id,
+        'You''re off the waitlist',
+        'A spot opened up at ' || v_title || ' and you are now attending',
+        'food_available',
+        p_event_id
+    );
+
+    return v_next.user_id;
+end;
+$$;
+
+revoke execute on function public.notify_new_event() from public, anon, authenticated;
+revoke execute on function public.notify_event_status_change() from public, anon, authenticated;
+
+-- Push new notifications to the NavBar badge
+do $$
+begin
+    if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+        alter publication supabase_realtime add table public.notifications;
+    end if;
+end;
+$$;
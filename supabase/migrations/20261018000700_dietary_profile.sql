@@ -0,0 +1,7 @@
+-- Dietary profile
+-- People save the restrictions they eat by (peanut allergy, halal, vegetarian, ...) so the
+-- dashboard can dim or hide events that don't fit and the event details can warn per item.
+-- The ids come from DIETARY_RESTRICTIONS in src/constants/eventData.ts.
+
+alter table public.profiles
+    add column if not exists dietary_restrictions text[] not null default '{}';
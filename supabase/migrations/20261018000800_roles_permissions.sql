@@ -0,0 +1,445 @@
+-- Roles and permissions
+-- Replaces the shared faculty code on the signup page. Everyone signs up as a student, people
+-- who pick "Faculty" get requested_role = 'faculty' and an admin approves them with set_user_role.
+-- role_permissions is the permission matrix, ROLE_PERMISSIONS in src/constants/config.ts
+-- mirrors it for the UI. The triggers below make sure it holds for direct table writes too.
+-- Bootstrap the first admin from the SQL editor:
+--   update public.profiles set role = 'admin' where email = 'someone@bu.edu';
+
+alter table public.profiles
+    add column if not exists requested_role text;
+
+alter table public.profiles
+    drop constraint if exists profiles_role_check;
+
+alter table public.profiles
+    add constraint profiles_role_check check (role in ('student', 'faculty', 'admin'));
+
+alter table public.profiles
+    drop constraint if exists profiles_requested_role_check;
+
+alter table public.profiles
+    add constraint profiles_requested_role_check check (requested_role in ('faculty'));
+
+create index if not exists profiles_requested_role_idx
+    on public.profiles (requested_role)
+    where requested_role is not null;
+
+create table if not exists public.role_permissions (
+    role text not null,
+    permission text not null check (
+        permission in ('create_event', 'edit_own_event', 'edit_any_event', 'moderate', 'manage_users')
+    ),
+    primary key (role, permission)
+);
+
+insert into public.role_permissions (role, permission) values
+    ('faculty', 'create_event'),
+    ('faculty', 'edit_own_event'),
+    ('admin', 'create_event'),
+    ('admin', 'edit_own_event'),
+    ('admin', 'edit_any_event'),
+    ('admin', 'moderate'),
+    ('admin', 'manage_users')
+on conflict do nothing;
+
+alter table public.role_permissions enable row level security;
+
+drop policy if exists "Anyone can read the permission matrix" on public.role_permissions;
+create policy "Anyone can read the permission matrix"
+    on public.role_permissions for select
+    using (true);
+
+revoke all on public.role_permissions from anon, authenticated;
+grant select on public.role_permissions to anon, authenticated;
+
+-- Whether the signed in user's role grants the permission
+create or replace function public.has_permission(p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1
+        from public.profiles p
+        join public.role_permissions rp on rp.role = p.role
+        where p.auth_id = auth.uid()
+          and rp.permission = p_permission
+    );
+$$;
+
+-- Organizers can edit their own events, roles with edit_any_event can edit every event
+create or replace function public.can_edit_event(p_event_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1
+        from public.events e
+        join public.profiles p on p.auth_id = auth.uid()
+        where e.id = p_event_id
+          and ((e.organizer_id = p.id and public.has_permission('edit_own_event'))
+               or public.has_permission('edit_any_event'))
+    );
+$$;
+
+revoke execute on function public.has_permission(text) from public, anon;
+grant execute on function public.has_permission(text) to authenticated;
+revoke execute on function public.can_edit_event(uuid) from public, anon;
+grant execute on function public.can_edit_event(uuid) to authenticated;
+
+-- Writes from the app (anon / authenticated) go through the permission matrix.
+-- Security definer functions and the SQL editor run as the table owner and are trusted, which
+-- is why these trigger functions run as the caller: current_user tells the two apart.
+create or replace function public.enforce_event_permissions()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+    v_profile_id uuid;
+    v_moderation_only boolean;
+begin
+    if current_user not in ('anon', 'authenticated') then
+        return coalesce(new, old);
+    end if;
+
+    if tg_op = 'INSERT' then
+        select id into v_profile_id from public.profiles where auth_id = auth.uid();
+        if not public.has_permission('create_event') then
+            raise exception 'Only faculty can post events' using errcode = '42501';
+        end if;
+        if new.organizer_id is distinct from v_profile_id then
+            raise exception 'Events can only be posted under your own profile' using errcode = '42501';
+        end if;
+        return new;
+    end if;
+
+    if tg_op = 'DELETE' then
+        if not public.can_edit_event(old.id) then
+            raise exception 'Only the organizer can delete this event' using errcode = '42501';
+        end if;
+        return old;
+    end if;
+
+    if public.can_edit_event(old.id) then
+        return new;
+    end if;
+
+    -- Moderators may cancel any event, but not change anything else about it
+    v_moderation_only := new.status = 'cancelled'
+        and (to_jsonb(new) - array['status', 'cancellation_reason', 'cancelled_at', 'updated_at'])
+          = (to_jsonb(old) - array['status', 'cancellation_reason', 'cancelled_at', 'updated_at']);
+
+    if v_moderation_only and public.has_permission('moderate') then
+        return new;
+    end if;
+
+    raise exception 'Only the organizer can edit this event' using errcode = '42501';
+end;
+$$;
+
+drop trigger if exists events_enforce_permissions on public.events;
+create trigger events_enforce_permissions
+    before insert or update or delete on public.events
+    for each row execute function public.enforce_event_permissions();
+
+-- Users can't give themselves a role. On signup an elevated role turns into a request,
+-- after that only set_user_role (or the SQL editor) changes it.
+create or replace function public.protect_profile_role()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+    if current_user not in ('anon', 'authenticated') then
+        return new;
+    end if;
+
+    if tg_op = 'INSERT' then
+        if new.role is distinct from 'student' then
+            new.requested_role := case when new.role = 'faculty' then 'faculty' end;
+            new.role := 'student';
+        end if;
+        return new;
+    end if;
+
+    if new.role is distinct from old.role then
+        raise exception 'Only admins can change roles' using errcode = '42501';
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_role on public.profiles;
+create trigger profiles_protect_role
+    before insert or update on public.profiles
+    for each row execute function public.protect_profile_role();
+
+revoke execute on function public.enforce_event_permissions() from public, anon, authenticated;
+revoke execute on function public.protect_profile_role() from public, anon, authenticated;
+
+-- Sets a user's role and clears their pending request, admins only.
+-- Approving a faculty request is set_user_role(id, 'faculty'), declining it is set_user_role(id, 'student').
+-- Returns 'ok', 'not_found', 'forbidden', 'invalid_role' or 'self'.
+create or replace function public.set_user_role(p_profile_id uuid, p_role text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_target public.profiles%rowtype;
+begin
+    if auth.uid() is not null and not public.has_permission('manage_users') then
+        return 'forbidden';
+    end if;
+
+    if p_role not in ('student', 'faculty', 'admin') then
+        return 'invalid_role';
+    end if;
+
+    select * into v_target
+    from public.profiles
+    where id = p_profile_id
+    for update;
+
+    if not found then
+        return 'not_found';
+    end if;
+
+    -- So an admin can't lock themselves out by accident
+    if v_target.auth_id = auth.uid() then
+        return 'self';
+    end if;
+
+    update public.profiles
+    set role = p_role,
+        requested_role = null
+    where id = p_profile_id;
+
+    if v_target.requested_role is not null and v_target.requested_role = p_role then
+        insert into public.notifications (user_id, title, message, type)
+        values (p_profile_id, 'Faculty access approved', 'You can now post food events', 'system');
+    elsif v_target.requested_role is not null then
+        insert into public.notifications (user_id, title, message, type)
+        values (p_profile_id, 'Faculty access request declined', 'Contact sparkbytesbu@gmail.com if you think this is a mistake', 'system');
+    elsif v_target.role is distinct from p_role then
+        insert into public.notifications (user_id, title, message, type)
+        values (p_profile_id, 'Your role changed', 'Your account is now ' || p_role, 'system');
+    end if;
+
+    return 'ok';
+end;
+$$;
+
+revoke execute on function public.set_user_role(uuid, text) from public, anon;
+grant execute on function public.set_user_role(uuid, text) to authenticated;
+
+-- The food and check-in functions from 20261018000400 and 20261018000500 only let the organizer
+-- in. They are redefined below with the same bodies, using can_edit_event instead.
+
+create or replace function public.check_in_attendee(p_attendee_id uuid, p_event_id uuid)
+returns table (result text, attendee_name text, checked_in_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_checker_id uuid;
+    v_attendee record;
+    v_checked_in_at timestamptz;
+begin
+    -- The organizer, or anyone who can edit every event, can check people in
+    if auth.uid() is null then
+        select e.organizer_id into v_checker_id
+        from public.events e
+        where e.id = p_event_id;
+    elsif public.can_edit_event(p_event_id) then
+        select p.id into v_checker_id
+        from public.profiles p
+        where p.auth_id = auth.uid();
+    end if;
+
+    if v_checker_id is null then
+        return query select 'forbidden'::text, null::text, null::timestamptz;
+        return;
+    end if;
+
+    select a.event_id, a.checked_in_at, pr.full_name into v_attendee
+    from public.event_attendees a
+    left join public.profiles pr on pr.id = a.user_id
+    where a.id = p_attendee_id;
+
+    -- The RSVP was cancelled after the code was issued
+    if not found then
+        return query select 'not_found'::text, null::text, null::timestamptz;
+        return;
+    end if;
+
+    if v_attendee.event_id <> p_event_id then
+        return query select 'wrong_event'::text, v_attendee.full_name::text, null::timestamptz;
+        return;
+    end if;
+
+    -- Conditional update so two scanners can't both check in the same code
+    update public.event_attendees a
+    set checked_in_at = now(),
+        checked_in_by = v_checker_id
+    where a.id = p_attendee_id
+      and a.checked_in_at is null
+    returning a.checked_in_at into v_checked_in_at;
+
+    if v_checked_in_at is null then
+        select a.checked_in_at into v_checked_in_at
+        from public.event_attendees a
+        where a.id = p_attendee_id;
+
+        return query select 'duplicate'::text, v_attendee.full_name::text, v_checked_in_at;
+        return;
+    end if;
+
+    return query select 'ok'::text, v_attendee.full_name::text, v_checked_in_at;
+end;
+$$;
+
+create or replace function public.adjust_food_quantity(p_food_item_id uuid, p_delta integer)
+returns table (result text, quantity integer, event_status text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_event_id uuid;
+    v_status text;
+    v_quantity integer;
+begin
+    select f.event_id into v_event_id
+    from public.food_items f
+    where f.id = p_food_item_id;
+
+    if v_event_id is null then
+        return query select 'not_found'::text, null::integer, null::text;
+        return;
+    end if;
+
+    -- Same lock as rsvp_to_event, so counts and statuses for one event change one at a time
+    select e.status into v_status
+    from public.events e
+    where e.id = v_event_id
+    for update;
+
+    if auth.uid() is not null and not public.can_edit_event(v_event_id) then
+        return query select 'forbidden'::text, null::integer, v_status;
+        return;
+    end if;
+
+    if v_status in ('draft', 'ended', 'cancelled') then
+        return query select 'closed'::text, null::integer, v_status;
+        return;
+    end if;
+
+    update public.food_items f
+    set quantity = greatest(0, least(f.initial_quantity, f.quantity + p_delta)),
+        status = case when greatest(0, least(f.initial_quantity, f.quantity + p_delta)) = 0
+            then 'claimed' else 'available' end,
+        updated_at = now()
+    where f.id = p_food_item_id
+      and f.quantity is not null
+    returning f.quantity into v_quantity;
+
+    if v_quantity is null then
+        return query select 'untracked'::text, null::integer, v_status;
+        return;
+    end if;
+
+    return query select 'ok'::text, v_quantity, public.refresh_event_food_status(v_event_id);
+end;
+$$;
+
+create or replace function public.save_food_items(p_event_id uuid, p_items jsonb)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_item jsonb;
+    v_index integer := 0;
+    v_item_id uuid;
+    v_initial integer;
+begin
+    perform 1
+    from public.events e
+    where e.id = p_event_id
+    for update;
+
+    if not found then
+        return 'not_found';
+    end if;
+
+    if auth.uid() is not null and not public.can_edit_event(p_event_id) then
+        return 'forbidden';
+    end if;
+
+    delete from public.food_items f
+    where f.event_id = p_event_id
+      and f.id::text not in (
+          select item->>'id' from jsonb_array_elements(p_items) item where item->>'id' is not null
+      );
+
+    for v_item in select value from jsonb_array_elements(p_items)
+    loop
+        v_item_id := nullif(v_item->>'id', '')::uuid;
+        v_initial := nullif(v_item->>'quantity', '')::integer;
+
+        update public.food_items f
+        set name = v_item->>'name',
+            description = nullif(v_item->>'description', ''),
+            dietary_tags = coalesce(v_item->'dietaryTags', '[]'::jsonb),
+            serving_size = nullif(v_item->>'servingSize', ''),
+            temperature = nullif(v_item->>'temperature', ''),
+            quantity = case
+                when v_initial is null then null
+                when f.initial_quantity is null then v_initial
+                else greatest(0, least(v_initial, f.quantity + v_initial - f.initial_quantity))
+            end,
+            initial_quantity = v_initial,
+            sort_order = v_index,
+            updated_at = now()
+        where f.id = v_item_id
+          and f.event_id = p_event_id;
+
+        if v_item_id is null or not found then
+            insert into public.food_items (
+                event_id, name, description, dietary_tags, serving_size, temperature,
+                quantity, initial_quantity, sort_order
+            ) values (
+                p_event_id,
+                v_item->>'name',
+                nullif(v_item->>'description', ''),
+                coalesce(v_item->'dietaryTags', '[]'::jsonb),
+                nullif(v_item->>'servingSize', ''),
+                nullif(v_item->>'temperature', ''),
+                v_initial,
+                v_initial,
+                v_index
+            );
+        end if;
+
+        v_index := v_index + 1;
+    end loop;
+
+    update public.food_items f
+    set status = case when f.quantity = 0 then 'claimed' else 'available' end
+    where f.event_id = p_event_id;
+
+    perform public.refresh_event_food_status(p_event_id);
+    return 'ok';
+end;
+$$;
@@ -0,0 +1,362 @@
+-- Admin console
+-- Backs the /admin area: suspending accounts, reports (flagged events) that moderators review,
+-- and an audit log of everything admins and moderators do.
+-- The audit log is written by the triggers below rather than by the app, so an action shows up
+-- in it no matter whether it came from the admin page, the API or another screen.
+
+alter table public.profiles
+    add column if not exists suspended_at timestamptz,
+    add column if not exists suspension_reason text;
+
+create index if not exists profiles_suspended_idx
+    on public.profiles (suspended_at)
+    where suspended_at is not null;
+
+-- Same as in 20261018000800, except a suspended account loses every permission it had
+create or replace function public.has_permission(p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1
+        from public.profiles p
+        join public.role_permissions rp on rp.role = p.role
+        where p.auth_id = auth.uid()
+          and p.suspended_at is null
+          and rp.permission = p_permission
+    );
+$$;
+
+-- Same as in 20261018000800, and the suspension columns are protected like the role
+create or replace function public.protect_profile_role()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+    if current_user not in ('anon', 'authenticated') then
+        return new;
+    end if;
+
+    if tg_op = 'INSERT' then
+        if new.role is distinct from 'student' then
+            new.requested_role := case when new.role = 'faculty' then 'faculty' end;
+            new.role := 'student';
+        end if;
+        new.suspended_at := null;
+        new.suspension_reason := null;
+        return new;
+    end if;
+
+    if new.role is distinct from old.role then
+        raise exception 'Only admins can change roles' using errcode = '42501';
+    end if;
+    if new.suspended_at is distinct from old.suspended_at
+        or new.suspension_reason is distinct from old.suspension_reason then
+        raise exception 'Only admins can suspend accounts' using errcode = '42501';
+    end if;
+    return new;
+end;
+$$;
+
+-- Suspended users can't RSVP or join a waitlist, this also covers rsvp_to_event and the
+-- waitlist promotion since it runs on the rows themselves
+create or replace function public.block_suspended_users()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if exists (
+        select 1 from public.profiles p
+        where p.id = new.user_id
+          and p.suspended_at is not null
+    ) then
+        raise exception 'Your account is suspended' using errcode = '42501';
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists event_attendees_block_suspended on public.event_attendees;
+create trigger event_attendees_block_suspended
+    before insert on public.event_attendees
+    for each row execute function public.block_suspended_users();
+
+drop trigger if exists event_waitlist_block_suspended on public.event_waitlist;
+create trigger event_waitlist_block_suspended
+    before insert on public.event_waitlist
+    for each row execute function public.block_suspended_users();
+
+revoke execute on function public.block_suspended_users() from public, anon, authenticated;
+
+-- Reports are how students flag an event for a moderator to look at.
+-- Each person can have one open report per event.
+create table if not exists public.event_reports (
+    id uuid primary key default gen_random_uuid(),
+    event_id uuid not null references public.events(id) on delete cascade,
+    reporter_id uuid not null references public.profiles(id) on delete cascade,
+    reason text not null check (length(trim(reason)) > 0),
+    status text not null default 'open' check (status in ('open', 'dismissed', 'resolved')),
+    resolved_by uuid references public.profiles(id) on delete set null,
+    resolved_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create unique index if not exists event_reports_one_open_per_reporter_idx
+    on public.event_reports (event_id, reporter_id)
+    where status = 'open';
+
+create index if not exists event_reports_open_idx
+    on public.event_reports (created_at)
+    where status = 'open';
+
+alter table public.event_reports enable row level security;
+
+drop policy if exists "Users can report events" on public.event_reports;
+create policy "Users can report events"
+    on public.event_reports for insert
+    with check (
+        reporter_id in (select id from public.profiles where auth_id = auth.uid() and suspended_at is null)
+        and status = 'open'
+    );
+
+drop policy if exists "Users see their own reports and moderators see all" on public.event_reports;
+create policy "Users see their own reports and moderators see all"
+    on public.event_reports for select
+    using (
+        reporter_id in (select id from public.profiles where auth_id = auth.uid())
+        or public.has_permission('moderate')
+    );
+
+revoke all on public.event_reports from anon, authenticated;
+grant select on public.event_reports to authenticated;
+grant insert (event_id, reporter_id, reason) on public.event_reports to authenticated;
+
+-- One row per admin or moderator action. actor_id is null for changes made from the SQL editor.
+create table if not exists public.admin_audit_log (
+    id uuid primary key default gen_random_uuid(),
+    actor_id uuid references public.profiles(id) on delete set null,
+    action text not null check (action in (
+        'user.role_changed', 'user.suspended', 'user.unsuspended',
+        'event.edited', 'event.cancelled', 'event.deleted',
+        'report.dismissed', 'report.resolved'
+    )),
+    target_type text not null check (target_type in ('user', 'event', 'report')),
+    target_id uuid not null,
+    target_label text,
+    details jsonb not null default '{}'::jsonb,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_created_idx
+    on public.admin_audit_log (created_at desc);
+
+create index if not exists admin_audit_log_target_idx
+    on public.admin_audit_log (target_type, target_id);
+
+alter table public.admin_audit_log enable row level security;
+
+drop policy if exists "Admins and moderators can read the audit log" on public.admin_audit_log;
+create policy "Admins and moderators can read the audit log"
+    on public.admin_audit_log for select
+    using (public.has_permission('manage_users') or public.has_permission('moderate'));
+
+revoke all on public.admin_audit_log from anon, authenticated;
+grant select on public.admin_audit_log to authenticated;
+
+-- Role and suspension changes. protect_profile_role makes sure only set_user_role,
+-- set_user_suspended and the SQL editor can get here.
+create or replace function public.audit_profile_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_actor_id uuid;
+begin
+    select id into v_actor_id from public.profiles where auth_id = auth.uid();
+
+    if new.role is distinct from old.role then
+        insert into public.admin_audit_log (actor_id, action, target_type, target_id, target_label, details)
+        values (v_actor_id, 'user.role_changed', 'user', new.id, new.full_name,
+                jsonb_build_object('from', old.role, 'to', new.role));
+    end if;
+
+    if new.suspended_at is not null and old.suspended_at is null then
+        insert into public.admin_audit_log (actor_id, action, target_type, target_id, target_label, details)
+        values (v_actor_id, 'user.suspended', 'user', new.id, new.full_name,
+                jsonb_build_object('reason', new.suspension_reason));
+    elsif new.suspended_at is null and old.suspended_at is not null then
+        insert into public.admin_audit_log (actor_id, action, target_type, target_id, target_label)
+        values (v_actor_id, 'user.unsuspended', 'user', new.id, new.full_name);
+    end if;
+
+    return null;
+end;
+$$;
+
+drop trigger if exists profiles_audit on public.profiles;
+create trigger profiles_audit
+    after update of role, suspended_at on public.profiles
+    for each row execute function public.audit_profile_change();
+
+-- Organizers changing their own events is normal use, so only changes by someone else
+-- who got in through edit_any_event or moderate are logged
+create or replace function public.audit_event_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_actor_id uuid;
+    v_changed jsonb;
+begin
+    select id into v_actor_id from public.profiles where auth_id = auth.uid();
+
+    if v_actor_id is null
+        or v_actor_id = old.organizer_id
+        or not (public.has_permission('edit_any_event') or public.has_permission('moderate')) then
+        return null;
+    end if;
+
+    if tg_op = 'DELETE' then
+        insert into public.admin_audit_log (actor_id, action, target_type, target_id, target_label)
+        values (v_actor_id, 'event.deleted', 'event', old.id, old.title);
+        return null;
+    end if;
+
+    if new.status = 'cancelled' and old.status is distinct from 'cancelled' then
+        insert into public.admin_audit_log (actor_id, action, target_type, target_id, target_label, details)
+        values (v_actor_id, 'event.cancelled', 'event', new.id, new.title,
+                jsonb_build_object('reason', new.cancellation_reason));
+        return null;
+    end if;
+
+    select coalesce(jsonb_agg(n.key order by n.key), '[]'::jsonb) into v_changed
+    from jsonb_each(to_jsonb(new)) n
+    where n.key <> 'updated_at'
+      and n.value is distinct from to_jsonb(old) -> n.key;
+
+    if jsonb_array_length(v_changed) > 0 then
+        insert into public.admin_audit_log (actor_id, action, target_type, target_id, target_label, details)
+        values (v_actor_id, 'event.edited', 'event', new.id, new.title,
+                jsonb_build_object('fields', v_changed));
+    end if;
+    return null;
+end;
+$$;
+
+drop trigger if exists events_audit on public.events;
+create trigger events_audit
+    after update or delete on public.events
+    for each row execute function public.audit_event_change();
+
+revoke execute on function public.audit_profile_change() from public, anon, authenticated;
+revoke execute on function public.audit_event_change() from public, anon, authenticated;
+
+-- Suspends or reinstates an account, admins only. Suspended users lose their permissions and
+-- can't RSVP, report events or use the API until reinstated.
+-- Returns 'ok', 'not_found', 'forbidden', 'reason_required' or 'self'.
+create or replace function public.set_user_suspended(p_profile_id uuid, p_suspended boolean, p_reason text default null)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_target public.profiles%rowtype;
+begin
+    if auth.uid() is not null and not public.has_permission('manage_users') then
+        return 'forbidden';
+    end if;
+
+    if p_suspended and coalesce(trim(p_reason), '') = '' then
+        return 'reason_required';
+    end if;
+
+    select * into v_target
+    from public.profiles
+    where id = p_profile_id
+    for update;
+
+    if not found then
+        return 'not_found';
+    end if;
+
+    if v_target.auth_id = auth.uid() then
+        return 'self';
+    end if;
+
+    -- Suspending someone who is already suspended only updates the reason
+    update public.profiles
+    set suspended_at = case when p_suspended then coalesce(v_target.suspended_at, now()) end,
+        suspension_reason = case when p_suspended then trim(p_reason) end
+    where id = p_profile_id;
+
+    return 'ok';
+end;
+$$;
+
+revoke execute on function public.set_user_suspended(uuid, boolean, text) from public, anon;
+grant execute on function public.set_user_suspended(uuid, boolean, text) to authenticated;
+
+-- Closes a report, moderators only. 'dismissed' means nothing was wrong, 'resolved' means the
+-- moderator acted on it (usually by cancelling the event first).
+-- Returns 'ok', 'not_found', 'forbidden', 'invalid_status' or 'already_closed'.
+create or replace function public.resolve_event_report(p_report_id uuid, p_status text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_actor_id uuid;
+    v_report record;
+begin
+    if auth.uid() is not null and not public.has_permission('moderate') then
+        return 'forbidden';
+    end if;
+
+    if p_status not in ('dismissed', 'resolved') then
+        return 'invalid_status';
+    end if;
+
+    select r.id, r.status, r.event_id, r.reason, e.title into v_report
+    from public.event_reports r
+    join public.events e on e.id = r.event_id
+    where r.id = p_report_id
+    for update of r;
+
+    if not found then
+        return 'not_found';
+    end if;
+
+    if v_report.status <> 'open' then
+        return 'already_closed';
+    end if;
+
+    select id into v_actor_id from public.profiles where auth_id = auth.uid();
+
+    update public.event_reports
+    set status = p_status,
+        resolved_by = v_actor_id,
+        resolved_at = now()
+    where id = p_report_id;
+
+    insert into public.admin_audit_log (actor_id, action, target_type, target_id, target_label, details)
+    values (v_actor_id, 'report.' || p_status, 'report', p_report_id, v_report.title,
+            jsonb_build_object('event_id', v_report.event_id, 'reason', v_report.reason));
+
+    return 'ok';
+end;
+$$;
+
+revoke execute on function public.resolve_event_report(uuid, text) from public, anon;
+grant execute on function public.resolve_event_report(uuid, text) to authenticated;
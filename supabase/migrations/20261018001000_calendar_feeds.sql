@@ -0,0 +1,208 @@
+-- Calendar export and subscribable feeds
+-- Events get a sequence number, bumped whenever something a calendar shows changes, so
+-- calendar apps replace their copy (RFC 5545 SEQUENCE). Cancelled events stay in the feeds
+-- with STATUS:CANCELLED so they disappear from people's calendars instead of going stale.
+-- Calendar apps can't log in, so feeds are read through a secret per-user token in the URL
+-- (/api/calendar/<token>) and the calendar_feed function below.
+
+alter table public.events
+    add column if not exists sequence integer not null default 0;
+
+-- Ignores whatever sequence the app sends and counts the changes itself
+create or replace function public.bump_event_sequence()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+    new.sequence := old.sequence;
+    if new.title is distinct from old.title
+        or new.description is distinct from old.description
+        or new.location is distinct from old.location
+        or new.start_time is distinct from old.start_time
+        or new.end_time is distinct from old.end_time
+        or new.status is distinct from old.status
+        or new.cancellation_reason is distinct from old.cancellation_reason then
+        new.sequence := old.sequence + 1;
+    end if;
+    return new;
+end;
+$$;
+
+-- Named so it runs after events_enforce_permissions (triggers fire in name order), which
+-- compares the whole row when a moderator cancels
+drop trigger if exists events_sequence_bump on public.events;
+create trigger events_sequence_bump
+    before update on public.events
+    for each row execute function public.bump_event_sequence();
+
+revoke execute on function public.bump_event_sequence() from public, anon, authenticated;
+
+-- One feed token per user. Rotating it breaks every feed URL the user handed out.
+create table if not exists public.calendar_feed_tokens (
+    user_id uuid primary key references public.profiles(id) on delete cascade,
+    token uuid not null unique default gen_random_uuid(),
+    created_at timestamptz not null default now()
+);
+
+-- Tokens are only handed out by the functions below
+alter table public.calendar_feed_tokens enable row level security;
+revoke all on public.calendar_feed_tokens from anon, authenticated;
+
+-- The signed in user's feed token, created the first time it's asked for
+create or replace function public.get_calendar_token()
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_profile_id uuid;
+    v_token uuid;
+begin
+    select id into v_profile_id from public.profiles where auth_id = auth.uid();
+    if v_profile_id is null then
+        return null;
+    end if;
+
+    insert into public.calendar_feed_tokens (user_id)
+    values (v_profile_id)
+    on conflict (user_id) do nothing;
+
+    select token into v_token from public.calendar_feed_tokens where user_id = v_profile_id;
+    return v_token;
+end;
+$$;
+
+-- Replaces the signed in user's token, for when a feed URL was shared by mistake
+create or replace function public.rotate_calendar_token()
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_profile_id uuid;
+    v_token uuid;
+begin
+    select id into v_profile_id from public.profiles where auth_id = auth.uid();
+    if v_profile_id is null then
+        return null;
+    end if;
+
+    insert into public.calendar_feed_tokens (user_id)
+    values (v_profile_id)
+    on conflict (user_id) do update
+        set token = gen_random_uuid(),
+            created_at = now()
+    returning token into v_token;
+
+    return v_token;
+end;
+$$;
+
+revoke execute on function public.get_calendar_token() from public, anon;
+grant execute on function public.get_calendar_token() to authenticated;
+revoke execute on function public.rotate_calendar_token() from public, anon;
+grant execute on function public.rotate_calendar_token() to authenticated;
+
+-- Events for a feed: the token owner's RSVPs, or with p_locations the public events at those
+-- buildings (by name, as stored on events). Events that ended over 30 days ago are left out.
+-- Raises no_data_found for an unknown token or a suspended owner.
+create or replace function public.calendar_feed(p_token uuid, p_locations text[] default null)
+returns table (
+    id uuid,
+    title text,
+    description text,
+    location text,
+    location_coordinates text,
+    start_time timestamptz,
+    end_time timestamptz,
+    status text,
+    cancellation_reason text,
+    sequence integer,
+    updated_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+    v_user_id uuid;
+begin
+    select t.user_id into v_user_id
+    from public.calendar_feed_tokens t
+    join public.profiles p on p.id = t.user_id
+    where t.token = p_token
+      and p.suspended_at is null;
+
+    if v_user_id is null then
+        raise exception 'Calendar feed not found' using errcode = 'P0002';
+    end if;
+
+    return query
+    select e.id, e.title, e.description, e.location, e.location_coordinates::text,
+           e.start_time, e.end_time, e.status, e.cancellation_reason, e.sequence, e.updated_at
+    from public.events e
+    where e.status <> 'draft'
+      and e.end_time > now() - interval '30 days'
+      and case
+          when p_locations is null then exists (
+              select 1 from public.event_attendees a
+              where a.event_id = e.id and a.user_id = v_user_id
+          )
+          else e.is_public and e.location = any(p_locations)
+      end
+    order by e.start_time;
+end;
+$$;
+
+revoke execute on function public.calendar_feed(uuid, text[]) from public;
+grant execute on function public.calendar_feed(uuid, text[]) to anon, authenticated;
+
+-- The sequence is bookkeeping, not something a moderator edited
+create or replace function public.audit_event_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_actor_id uuid;
+    v_changed jsonb;
+begin
+    select id into v_actor_id from public.profiles where auth_id = auth.uid();
+
+    if v_actor_id is null
+        or v_actor_id = old.organizer_id
+        or not (public.has_permission('edit_any_event') or public.has_permission('moderate')) then
+        return null;
+    end if;
+
+    if tg_op = 'DELETE' then
+        insert into public.admin_audit_log (actor_id, action, target_type, target_id, target_label)
+        values (v_actor_id, 'event.deleted', 'event', old.id, old.title);
+        return null;
+    end if;
+
+    if new.status = 'cancelled' and old.status is distinct from 'cancelled' then
+        insert into public.admin_audit_log (actor_id, action, target_type, target_id, target_label, details)
+        values (v_actor_id, 'event.cancelled', 'event', new.id, new.title,
+                jsonb_build_object('reason', new.cancellation_reason));
+        return null;
+    end if;
+
+    select coalesce(jsonb_agg(n.key order by n.key), '[]'::jsonb) into v_changed
+    from jsonb_each(to_jsonb(new)) n
+    where n.key not in ('updated_at', 'sequence')
+      and n.value is distinct from to_jsonb(old) -> n.key;
+
+    if jsonb_array_length(v_changed) > 0 then
+        insert into public.admin_audit_log (actor_id, action, target_type, target_id, target_label, details)
+        values (v_actor_id, 'event.edited', 'event', new.id, new.title,
+                jsonb_build_object('fields', v_changed));
+    end if;
+    return null;
+end;
+$$;
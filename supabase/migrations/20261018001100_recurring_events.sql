@@ -0,0 +1,46 @@
+-- Recurring events
+-- A series keeps the recurrence rule the organizer picked. Every occurrence is still its own
+-- events row, so RSVPs, waitlists, check-ins and food counts stay per occurrence. The app
+-- expands the rule when the series is created and edits or cancels occurrences through
+-- series_id ("this occurrence", "this and following", "all").
+--
+-- recurrence looks like
+--   { "frequency": "weekly" | "biweekly", "weekdays": [1, 3],
+--     "until": "2026-12-12" | null, "count": 10 | null, "exceptDates": ["2026-11-25"] }
+-- with weekdays 0 = Sunday and dates as local calendar days.
+
+create table if not exists public.event_series (
+    id uuid primary key default gen_random_uuid(),
+    organizer_id uuid not null references public.profiles(id) on delete cascade,
+    recurrence jsonb not null,
+    created_at timestamptz not null default now(),
+    constraint event_series_frequency_check
+        check (recurrence->>'frequency' in ('weekly', 'biweekly'))
+);
+
+alter table public.events
+    add column if not exists series_id uuid references public.event_series(id) on delete set null;
+
+create index if not exists events_series_start_idx
+    on public.events (series_id, start_time)
+    where series_id is not null;
+
+alter table public.event_series enable row level security;
+
+-- The rule is shown alongside the events, which are public already
+drop policy if exists "Event series are readable by everyone" on public.event_series;
+create policy "Event series are readable by everyone"
+    on public.event_series for select
+    using (true);
+
+drop policy if exists "Organizers create their own series" on public.event_series;
+create policy "Organizers create their own series"
+    on public.event_series for insert
+    with check (
+        organizer_id in (select id from public.profiles where auth_id = auth.uid())
+        and public.has_permission('create_event')
+    );
+
+revoke all on public.event_series from anon, authenticated;
+grant select on public.event_series to anon, authenticated;
+grant insert (organizer_id, recurrence) on public.event_series to authenticated;
@@ -0,0 +1,51 @@
+-- Event templates
+-- Organizers save the parts of an event they reuse (menu, dietary tags, building, capacity,
+-- length) under a name and start new events from them. data holds the template in the app's
+-- shape (see toTemplateData in src/lib/templateService.ts). Saving under an existing name
+-- replaces that template.
+
+create table if not exists public.event_templates (
+    id uuid primary key default gen_random_uuid(),
+    organizer_id uuid not null references public.profiles(id) on delete cascade,
+    name text not null check (length(btrim(name)) between 1 and 60),
+    data jsonb not null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    unique (organizer_id, name)
+);
+
+alter table public.event_templates enable row level security;
+
+-- Templates are private to the organizer who saved them
+drop policy if exists "Organizers read their own templates" on public.event_templates;
+create policy "Organizers read their own templates"
+    on public.event_templates for select
+    using (organizer_id in (select id from public.profiles where auth_id = auth.uid()));
+
+drop policy if exists "Organizers save their own templates" on public.event_templates;
+create policy "Organizers save their own templates"
+    on public.event_templates for insert
+    with check (
+        organizer_id in (select id from public.profiles where auth_id = auth.uid())
+        and public.has_permission('create_event')
+    );
+
+drop policy if exists "Organizers replace their own templates" on public.event_templates;
+create policy "Organizers replace their own templates"
+    on public.event_templates for update
+    using (organizer_id in (select id from public.profiles where auth_id = auth.uid()))
+    with check (
+        organizer_id in (select id from public.profiles where auth_id = auth.uid())
+        and public.has_permission('create_event')
+    );
+
+drop policy if exists "Organizers delete their own templates" on public.event_templates;
+create policy "Organizers delete their own templates"
+    on public.event_templates for delete
+    using (organizer_id in (select id from public.profiles where auth_id = auth.uid()));
+
+revoke all on public.event_templates from anon, authenticated;
+grant select, delete on public.event_templates to authenticated;
+-- An upsert writes every column it sends, the update policy keeps organizer_id the caller's
+grant insert (organizer_id, name, data, updated_at), update (organizer_id, name, data, updated_at)
+    on public.event_templates to authenticated;
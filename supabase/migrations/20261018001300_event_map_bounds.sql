@@ -0,0 +1,43 @@
+-- Viewport loading for the map
+-- The map only asks for the events inside the area on screen. location_coordinates holds
+-- "(lng, lat)", which PostgREST can't compare, so the longitude and latitude are copied into
+-- plain columns that can be filtered with gte/lte and share an index.
+
+alter table public.events
+    add column if not exists location_lng double precision,
+    add column if not exists location_lat double precision;
+
+-- Keeps location_lng and location_lat in step with location_coordinates
+create or replace function public.set_event_lng_lat()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+    v_parts text[];
+begin
+    v_parts := regexp_match(
+        new.location_coordinates::text,
+        '^\(\s*(-?[0-9.]+)\s*,\s*(-?[0-9.]+)\s*\)$'
+    );
+    new.location_lng := v_parts[1]::double precision;
+    new.location_lat := v_parts[2]::double precision;
+    return new;
+end;
+$$;
+
+drop trigger if exists events_set_lng_lat on public.events;
+create trigger events_set_lng_lat
+    before insert or update of location_coordinates on public.events
+    for each row execute function public.set_event_lng_lat();
+
+revoke execute on function public.set_event_lng_lat() from public, anon, authenticated;
+
+update public.events
+set location_lng = (regexp_match(location_coordinates::text, '^\(\s*(-?[0-9.]+)\s*,\s*(-?[0-9.]+)\s*\)$'))[1]::double precision,
+    location_lat = (regexp_match(location_coordinates::text, '^\(\s*(-?[0-9.]+)\s*,\s*(-?[0-9.]+)\s*\)$'))[2]::double precision
+where location_coordinates is not null;
+
+create index if not exists events_location_lat_lng_idx
+    on public.events (location_lat, location_lng)
+    where is_public;
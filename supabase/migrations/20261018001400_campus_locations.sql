@@ -0,0 +1,214 @@
+-- Campus buildings and custom event locations
+-- The building list moves out of BUILDINGS in src/constants/eventData.ts into campus_buildings,
+-- which admins with the new manage_buildings permission look after from the admin console.
+-- Events can still be anywhere: building_id is null for a pin dropped on the map or an address
+-- searched for, and any event can add the room or floor and directions for finding the food.
+
+alter table public.role_permissions
+    drop constraint if exists role_permissions_permission_check;
+
+alter table public.role_permissions
+    add constraint role_permissions_permission_check check (
+        permission in ('create_event', 'edit_own_event', 'edit_any_event', 'moderate', 'manage_users', 'manage_buildings')
+    );
+
+insert into public.role_permissions (role, permission) values
+    ('admin', 'manage_buildings')
+on conflict do nothing;
+
+-- id is the short code used in calendar feed URLs (?buildings=gsu,cds), so it never changes.
+-- Buildings are deactivated rather than deleted, past events still point at them.
+create table if not exists public.campus_buildings (
+    id text primary key check (id ~ '^[a-z0-9-]{2,20}$'),
+    name text not null unique check (length(btrim(name)) between 1 and 100),
+    address text not null default '',
+    lng double precision not null check (lng between -180 and 180),
+    lat double precision not null check (lat between -90 and 90),
+    is_active boolean not null default true,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+insert into public.campus_buildings (id, name, address, lng, lat) values
+    ('gsu', 'George Sherman Union (GSU)', '775 Commonwealth Avenue', -71.10877, 42.35119),
+    ('pho', 'Photonics Center (PHO)', '8 St Mary''s St', -71.106, 42.34922),
+    ('qsb', 'Questrom School of Business (QSB)', '595 Commonwealth Avenue', -71.09957, 42.34969),
+    ('kch', 'Kilachand Hall Study Lounge (KCH)', '91 Bay State Road', -71.09653, 42.35033),
+    ('cas', 'College of Arts & Sciences (CAS)', '725 Commonwealth Avenue', -71.1048, 42.35023),
+    ('yaw', 'Yawkey Center for Student Services (YAW)', '100 Bay State Road', -71.09787, 42.34979),
+    ('ing', 'Ingalls Engineering Resource Center (ING)', '44 Cummington Mall', -71.10288, 42.34862),
+    ('sv2', 'StuVi II Study Lounge (SV2)', '33 Harry Agganis Way', -71.11781, 42.35339),
+    ('whl', 'Wheelock College (WHL)', '2 Silber Way', -71.10088, 42.34973),
+    ('sel', 'Science & Engineering Library (SEL)', '38 Cummington Mall', -71.1008, 42.3486),
+    ('htc', 'Howard Thurman Center (HTC)', '808 Commonwealth Avenue', -71.1114, 42.35),
+    ('hjo', 'HoJo (HJO)', '575 Commonwealth Avenue', -71.09853, 42.34955),
+    ('cds', 'Duan Family Center for Computing & Data Science (CDS)', '665 Commonwealth Avenue', -71.10311, 42.34991),
+    ('sto', 'Stone Science Library (STO)', '725 Commonwealth Avenue, Room 440', -71.10362, 42.35013),
+    ('sth', 'School of Theology Library (STH)', '745 Commonwealth Avenue, 2nd Floor', -71.10706, 42.35051),
+    ('cgs', 'College of General Studies (CGS)', '871 Commonwealth Avenue', -71.11464, 42.3515),
+    ('bsm', 'Buick Street Market & Cafe (BSM)', '10 Buick Street', -71.11559, 42.35211),
+    ('sar', 'Sargent College (SAR)', '635 Commonwealth Avenue', -71.10194, 42.34977),
+    ('wcs', 'West Campus Study Spaces (WCS)', '275 Babcock Street', -71.1203468, 42.3531346),
+    ('fcc', 'Fenway Campus Center (FCC)', '150 Riverway', -71.10517, 42.34299)
+on conflict (id) do nothing;
+
+alter table public.campus_buildings enable row level security;
+
+drop policy if exists "Anyone can read the building catalog" on public.campus_buildings;
+create policy "Anyone can read the building catalog"
+    on public.campus_buildings for select
+    using (true);
+
+drop policy if exists "Building managers add buildings" on public.campus_buildings;
+create policy "Building managers add buildings"
+    on public.campus_buildings for insert
+    with check (public.has_permission('manage_buildings'));
+
+drop policy if exists "Building managers edit buildings" on public.campus_buildings;
+create policy "Building managers edit buildings"
+    on public.campus_buildings for update
+    using (public.has_permission('manage_buildings'))
+    with check (public.has_permission('manage_buildings'));
+
+revoke all on public.campus_buildings from anon, authenticated;
+grant select on public.campus_buildings to anon, authenticated;
+grant insert (id, name, address, lng, lat, is_active),
+      update (name, address, lng, lat, is_active, updated_at)
+    on public.campus_buildings to authenticated;
+
+-- location keeps the name shown everywhere (the building's, or whatever the organizer called
+-- the spot) and location_coordinates the pin, the new columns add what a building can't say
+alter table public.events
+    add column if not exists building_id text references public.campus_buildings(id) on delete set null,
+    add column if not exists location_address text,
+    add column if not exists location_room text check (length(location_room) <= 100),
+    add column if not exists location_instructions text check (length(location_instructions) <= 500);
+
+create index if not exists events_building_idx
+    on public.events (building_id)
+    where building_id is not null;
+
+update public.events e
+set building_id = b.id,
+    location_address = b.address
+from public.campus_buildings b
+where e.building_id is null
+  and e.location = b.name;
+
+-- A building that is renamed or moved takes its upcoming events along, past events keep
+-- where they actually happened. Runs as the owner so managing buildings doesn't also need
+-- edit_any_event.
+create or replace function public.sync_building_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.name is distinct from old.name
+        or new.address is distinct from old.address
+        or new.lng is distinct from old.lng
+        or new.lat is distinct from old.lat then
+        update public.events
+        set location = new.name,
+            location_address = new.address,
+            location_coordinates = point(new.lng, new.lat),
+            updated_at = now()
+        where building_id = new.id
+          and end_time > now();
+    end if;
+    return null;
+end;
+$$;
+
+drop trigger if exists campus_buildings_sync_events on public.campus_buildings;
+create trigger campus_buildings_sync_events
+    after update on public.campus_buildings
+    for each row execute function public.sync_building_events();
+
+revoke execute on function public.sync_building_events() from public, anon, authenticated;
+
+-- Same as in 20261018001000, and moving the event to another room or changing the directions
+-- also counts as a change calendars should pick up
+create or replace function public.bump_event_sequence()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+    new.sequence := old.sequence;
+    if new.title is distinct from old.title
+        or new.description is distinct from old.description
+        or new.location is distinct from old.location
+        or new.location_address is distinct from old.location_address
+        or new.location_room is distinct from old.location_room
+        or new.location_instructions is distinct from old.location_instructions
+        or new.start_time is distinct from old.start_time
+        or new.end_time is distinct from old.end_time
+        or new.status is distinct from old.status
+        or new.cancellation_reason is distinct from old.cancellation_reason then
+        new.sequence := old.sequence + 1;
+    end if;
+    return new;
+end;
+$$;
+
+-- Same as in 20261018001000, except building feeds match on building_id (so a renamed building
+-- keeps its feed) and the address, room and directions come along for the calendar entry
+drop function if exists public.calendar_feed(uuid, text[]);
+
+create function public.calendar_feed(p_token uuid, p_building_ids text[] default null)
+returns table (
+    id uuid,
+    title text,
+    description text,
+    location text,
+    location_coordinates text,
+    location_address text,
+    location_room text,
+    location_instructions text,
+    start_time timestamptz,
+    end_time timestamptz,
+    status text,
+    cancellation_reason text,
+    sequence integer,
+    updated_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+    v_user_id uuid;
+begin
+    select t.user_id into v_user_id
+    from public.calendar_feed_tokens t
+    join public.profiles p on p.id = t.user_id
+    where t.token = p_token
+      and p.suspended_at is null;
+
+    if v_user_id is null then
+        raise exception 'Calendar feed not found' using errcode = 'P0002';
+    end if;
+
+    return query
+    select e.id, e.title, e.description, e.location, e.location_coordinates::text,
+           e.location_address, e.location_room, e.location_instructions,
+           e.start_time, e.end_time, e.status, e.cancellation_reason, e.sequence, e.updated_at
+    from public.events e
+    where e.status <> 'draft'
+      and e.end_time > now() - interval '30 days'
+      and case
+          when p_building_ids is null then exists (
+              select 1 from public.event_attendees a
+              where a.event_id = e.id and a.user_id = v_user_id
+          )
+          else e.is_public and e.building_id = any(p_building_ids)
+      end
+    order by e.start_time;
+end;
+$$;
+
+revoke execute on function public.calendar_feed(uuid, text[]) from public;
+grant execute on function public.calendar_feed(uuid, text[]) to anon, authenticated;
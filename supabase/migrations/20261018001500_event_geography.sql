@@ -0,0 +1,164 @@
+-- Event locations as PostGIS geography
+-- location_coordinates was a "(lng, lat)" string that the app parsed back with regexes, and
+-- 20261018001300 copied it into location_lng and location_lat so the map could filter on it.
+-- location_point replaces all three: one geography point with a spatial index, queried by
+-- radius (events_near) and by map area (events_in_bounds).
+
+create extension if not exists postgis with schema extensions;
+
+alter table public.events
+    add column if not exists location_point extensions.geography(Point, 4326);
+
+update public.events
+set location_point = extensions.st_setsrid(extensions.st_makepoint(location_lng, location_lat), 4326)::extensions.geography
+where location_point is null
+  and location_lng is not null
+  and location_lat is not null;
+
+update public.events e
+set location_point = extensions.st_setsrid(extensions.st_makepoint(b.lng, b.lat), 4326)::extensions.geography
+from public.campus_buildings b
+where e.location_point is null
+  and e.building_id = b.id;
+
+-- Events that never had coordinates were drawn at the middle of campus, so that's where they stay
+update public.events
+set location_point = extensions.st_setsrid(extensions.st_makepoint(-71.1097, 42.3505), 4326)::extensions.geography
+where location_point is null;
+
+alter table public.events
+    alter column location_point set not null;
+
+create index if not exists events_location_point_idx
+    on public.events using gist (location_point);
+
+drop trigger if exists events_set_lng_lat on public.events;
+drop function if exists public.set_event_lng_lat();
+drop index if exists public.events_location_lat_lng_idx;
+
+alter table public.events
+    drop column if exists location_lng,
+    drop column if exists location_lat,
+    drop column if exists location_coordinates;
+
+-- Public events within a walk of a spot, nearest first. Runs as the caller, so row level
+-- security and the filters the app adds (status, end time) still apply.
+create or replace function public.events_near(p_lng double precision, p_lat double precision, p_radius_meters double precision)
+returns setof public.events
+language sql
+stable
+set search_path = public, extensions
+as $$
+    select e.*
+    from public.events e
+    where e.is_public
+      and st_dwithin(e.location_point, st_setsrid(st_makepoint(p_lng, p_lat), 4326)::geography, p_radius_meters)
+    order by e.location_point <-> st_setsrid(st_makepoint(p_lng, p_lat), 4326)::geography;
+$$;
+
+-- Public events inside an area of the map, given as its edges in degrees
+create or replace function public.events_in_bounds(
+    p_west double precision,
+    p_south double precision,
+    p_east double precision,
+    p_north double precision
+)
+returns setof public.events
+language sql
+stable
+set search_path = public, extensions
+as $$
+    select e.*
+    from public.events e
+    where e.is_public
+      and st_intersects(e.location_point, st_makeenvelope(p_west, p_south, p_east, p_north, 4326)::geography);
+$$;
+
+revoke execute on function public.events_near(double precision, double precision, double precision) from public;
+revoke execute on function public.events_in_bounds(double precision, double precision, double precision, double precision) from public;
+grant execute on function public.events_near(double precision, double precision, double precision) to anon, authenticated;
+grant execute on function public.events_in_bounds(double precision, double precision, double precision, double precision) to anon, authenticated;
+
+-- Same as in 20261018001400, writing the building's spot into location_point
+create or replace function public.sync_building_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+    if new.name is distinct from old.name
+        or new.address is distinct from old.address
+        or new.lng is distinct from old.lng
+        or new.lat is distinct from old.lat then
+        update public.events
+        set location = new.name,
+            location_address = new.address,
+            location_point = st_setsrid(st_makepoint(new.lng, new.lat), 4326)::geography,
+            updated_at = now()
+        where building_id = new.id
+          and end_time > now();
+    end if;
+    return null;
+end;
+$$;
+
+-- Same as in 20261018001400, returning location_point (hex EWKB, like PostgREST sends it)
+-- instead of location_coordinates
+drop function if exists public.calendar_feed(uuid, text[]);
+
+create function public.calendar_feed(p_token uuid, p_building_ids text[] default null)
+returns table (
+    id uuid,
+    title text,
+    description text,
+    location text,
+    location_point text,
+    location_address text,
+    location_room text,
+    location_instructions text,
+    start_time timestamptz,
+    end_time timestamptz,
+    status text,
+    cancellation_reason text,
+    sequence integer,
+    updated_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+    v_user_id uuid;
+begin
+    select t.user_id into v_user_id
+    from public.calendar_feed_tokens t
+    join public.profiles p on p.id = t.user_id
+    where t.token = p_token
+      and p.suspended_at is null;
+
+    if v_user_id is null then
+        raise exception 'Calendar feed not found' using errcode = 'P0002';
+    end if;
+
+    return query
+    select e.id, e.title, e.description, e.location, e.location_point::text,
+           e.location_address, e.location_room, e.location_instructions,
+           e.start_time, e.end_time, e.status, e.cancellation_reason, e.sequence, e.updated_at
+    from public.events e
+    where e.status <> 'draft'
+      and e.end_time > now() - interval '30 days'
+      and case
+          when p_building_ids is null then exists (
+              select 1 from public.event_attendees a
+              where a.event_id = e.id and a.user_id = v_user_id
+          )
+          else e.is_public and e.building_id = any(p_building_ids)
+      end
+    order by e.start_time;
+end;
+$$;
+
+revoke execute on function public.calendar_feed(uuid, text[]) from public;
+grant execute on function public.calendar_feed(uuid, text[]) to anon, authenticated;
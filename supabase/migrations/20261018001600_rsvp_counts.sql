@@ -0,0 +1,88 @@
+-- Live RSVP counts
+-- event_rsvp_counts holds each event's attendee and waitlist counts, kept current by triggers
+-- on event_attendees and event_waitlist. It's in the realtime publication, so every dashboard
+-- sees RSVPs, cancellations and waitlist changes as they happen without subscribing to the
+-- attendee rows themselves (which say who is going). Rows carry the whole count, so clients
+-- replace theirs instead of adding, and a change they made themselves is never counted twice.
+
+create table if not exists public.event_rsvp_counts (
+    event_id uuid primary key references public.events(id) on delete cascade,
+    attendee_count integer not null default 0 check (attendee_count >= 0),
+    waitlist_count integer not null default 0 check (waitlist_count >= 0),
+    updated_at timestamptz not null default now()
+);
+
+-- Backfill from the RSVPs and waitlists so far
+insert into public.event_rsvp_counts (event_id, attendee_count, waitlist_count)
+select
+    e.id,
+    (select count(*) from public.event_attendees a where a.event_id = e.id),
+    (select count(*) from public.event_waitlist w where w.event_id = e.id)
+from public.events e
+on conflict (event_id) do update
+set attendee_count = excluded.attendee_count,
+    waitlist_count = excluded.waitlist_count,
+    updated_at = now();
+
+alter table public.event_rsvp_counts enable row level security;
+
+drop policy if exists "RSVP counts are readable by everyone" on public.event_rsvp_counts;
+create policy "RSVP counts are readable by everyone"
+    on public.event_rsvp_counts for select
+    using (true);
+
+grant select on public.event_rsvp_counts to anon, authenticated;
+revoke insert, update, delete on public.event_rsvp_counts from anon, authenticated;
+
+-- Adds or takes one from the count for the table that changed. The update takes the row lock,
+-- so concurrent RSVPs and cancellations can't lose a change. Deletes only update: when the
+-- event itself is being deleted its counts row goes with it.
+create or replace function public.track_rsvp_counts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_event_id uuid := coalesce(new.event_id, old.event_id);
+    v_delta integer := case when tg_op = 'INSERT' then 1 else -1 end;
+    v_attendees integer := case when tg_table_name = 'event_attendees' then v_delta else 0 end;
+    v_waitlist integer := case when tg_table_name = 'event_waitlist' then v_delta else 0 end;
+begin
+    if tg_op = 'INSERT' then
+        insert into public.event_rsvp_counts (event_id, attendee_count, waitlist_count)
+        values (v_event_id, v_attendees, v_waitlist)
+        on conflict (event_id) do update
+        set attendee_count = event_rsvp_counts.attendee_count + v_attendees,
+            waitlist_count = event_rsvp_counts.waitlist_count + v_waitlist,
+            updated_at = now();
+    else
+        update public.event_rsvp_counts
+        set attendee_count = greatest(0, attendee_count + v_attendees),
+            waitlist_count = greatest(0, waitlist_count + v_waitlist),
+            updated_at = now()
+        where event_id = v_event_id;
+    end if;
+
+    return null;
+end;
+$$;
+
+drop trigger if exists event_attendees_track_rsvp_counts on public.event_attendees;
+create trigger event_attendees_track_rsvp_counts
+    after insert or delete on public.event_attendees
+    for each row execute function public.track_rsvp_counts();
+
+drop trigger if exists event_waitlist_track_rsvp_counts on public.event_waitlist;
+create trigger event_waitlist_track_rsvp_counts
+    after insert or delete on public.event_waitlist
+    for each row execute function public.track_rsvp_counts();
+
+-- Stream the counts to the dashboard
+do $$
+begin
+    if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+        alter publication supabase_realtime add table public.event_rsvp_counts;
+    end if;
+end;
+$$;
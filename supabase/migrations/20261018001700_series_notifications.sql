@@ -0,0 +1,39 @@
+-- One new-event notification per series
+-- createEvent inserts every occurrence of a recurring event as its own row, and
+-- events_notify_new fires for each of them, so a ten-week series sent everyone ten
+-- notifications at once. Only the first occurrence of a series notifies now, and says it repeats.
+-- Occurrences are inserted in one statement and after-row triggers run once it has finished,
+-- so the whole series is visible to the check below.
+
+create or replace function public.notify_new_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.series_id is not null and exists (
+        select 1
+        from public.events e
+        where e.series_id = new.series_id
+          and e.id <> new.id
+          and e.start_time < new.start_time
+    ) then
+        return new;
+    end if;
+
+    if new.is_public and new.status in ('scheduled', 'starting_soon', 'live', 'running_low') then
+        insert into public.notifications (user_id, title, message, type, event_id)
+        select p.id,
+               case when new.series_id is null then 'New food event' else 'New recurring food event' end,
+               new.title || ' at ' || new.location,
+               'food_available',
+               new.id
+        from public.profiles p
+        where p.id <> new.organizer_id;
+    end if;
+    return new;
+end;
+$$;
+
+revoke execute on function public.notify_new_event() from public, anon, authenticated;
@@ -0,0 +1,56 @@
+-- Running out of counted food no longer ends the event
+-- refresh_event_food_status moved an event to ended when its counted portions reached zero.
+-- ended is terminal, so adjust_food_quantity answered 'closed' from then on: one mis-tap on the
+-- last portion ended the event for good, +1 couldn't undo it, and events ended while food
+-- without a count could still be on the table. Zero portions now leaves the event running_low,
+-- adjust_food_quantity accepts running_low, and counting portions back in can take it to live.
+-- The app shows such an event as food gone (displayStatus in src/lib/eventLifecycle.ts) until
+-- portions are counted back in, without storing a status for it.
+-- Events it already ended stay ended, they look the same as ones an organizer ended.
+-- Keep RUNNING_LOW_RATIO in src/constants/config.ts in sync with the 0.25 below.
+
+create or replace function public.refresh_event_food_status(p_event_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_event record;
+    v_remaining integer;
+    v_total integer;
+    v_next_status text;
+begin
+    select status, start_time, end_time into v_event
+    from public.events
+    where id = p_event_id;
+
+    select sum(quantity), sum(initial_quantity) into v_remaining, v_total
+    from public.food_items
+    where event_id = p_event_id
+      and initial_quantity > 0;
+
+    if v_total is null
+        or v_event.status not in ('scheduled', 'starting_soon', 'live', 'running_low')
+        or now() < v_event.start_time
+        or now() >= v_event.end_time then
+        return v_event.status;
+    end if;
+
+    v_next_status := case
+        when v_remaining <= v_total * 0.25 then 'running_low'
+        else 'live'
+    end;
+
+    if v_next_status <> v_event.status then
+        update public.events
+        set status = v_next_status,
+            updated_at = now()
+        where id = p_event_id;
+    end if;
+
+    return v_next_status;
+end;
+$$;
+
+revoke execute on function public.refresh_event_food_status(uuid) from public, anon, authenticated;
@@ -0,0 +1,103 @@
+-- Cancellation notifications sent by cancelEvent
+-- The status trigger stored an "Event cancelled" notification per attendee of each cancelled row,
+-- so cancelling a series told someone who RSVP'd to every occurrence once per occurrence, and
+-- eventService only counted the attendees it assumed the trigger had reached. cancelEvent now
+-- calls notify_event_cancelled once with every event it cancelled: attendees and the waitlist
+-- hear about it once, and the service gets back who was notified.
+-- Running low notifications stay in the trigger.
+
+create or replace function public.notify_event_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.status = 'running_low' then
+        insert into public.notifications (user_id, title, message, type, event_id)
+        select a.user_id,
+               'Food running low',
+               'Most of the food at ' || new.title || ' has been claimed, head over soon',
+               'food_claimed',
+               new.id
+        from public.event_attendees a
+        where a.event_id = new.id
+          and a.checked_in_at is null;
+    end if;
+    return new;
+end;
+$$;
+
+revoke execute on function public.notify_event_status_change() from public, anon, authenticated;
+
+-- Notifies everyone who RSVP'd to or waitlisted the given cancelled events, each user once, about
+-- the earliest of them. Events that aren't cancelled or that the caller can't edit or moderate are
+-- left out, and nothing is sent if any of them already sent its cancellation, so calling it twice
+-- notifies nobody twice. Returns the notified user ids, attendees first.
+create or replace function public.notify_event_cancelled(p_event_ids uuid[])
+returns setof uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_event_ids uuid[];
+    v_event record;
+begin
+    select array_agg(e.id) into v_event_ids
+    from public.events e
+    where e.id = any(p_event_ids)
+      and e.status = 'cancelled'
+      and (auth.uid() is null or public.can_edit_event(e.id) or public.has_permission('moderate'));
+
+    if v_event_ids is null or exists (
+        select 1
+        from public.notifications n
+        where n.event_id = any(v_event_ids)
+          and n.title = 'Event cancelled'
+    ) then
+        return;
+    end if;
+
+    select e.id, e.title, e.cancellation_reason into v_event
+    from public.events e
+    where e.id = any(v_event_ids)
+    order by e.start_time
+    limit 1;
+
+    return query
+    with recipients as (
+        select a.user_id, 0 as waitlisted, min(a.rsvp_time) as since
+        from public.event_attendees a
+        where a.event_id = any(v_event_ids)
+        group by a.user_id
+        union all
+        select w.user_id, 1, min(w.joined_at)
+        from public.event_waitlist w
+        where w.event_id = any(v_event_ids)
+          and not exists (
+              select 1 from public.event_attendees a
+              where a.event_id = any(v_event_ids)
+                and a.user_id = w.user_id
+          )
+        group by w.user_id
+    ),
+    inserted as (
+        insert into public.notifications (user_id, title, message, type, event_id)
+        select r.user_id,
+               'Event cancelled',
+               v_event.title || ' was cancelled' || coalesce(': ' || v_event.cancellation_reason, ''),
+               'system',
+               v_event.id
+        from recipients r
+        returning user_id
+    )
+    select r.user_id
+    from recipients r
+    where r.user_id in (select user_id from inserted)
+    order by r.waitlisted, r.since;
+end;
+$$;
+
+revoke execute on function public.notify_event_cancelled(uuid[]) from public, anon;
+grant execute on function public.notify_event_cancelled(uuid[]) to authenticated;
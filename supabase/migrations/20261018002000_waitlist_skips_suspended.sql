@@ -0,0 +1,74 @@
+-- Waitlist promotion skips suspended users
+-- block_suspended_users rejects inserting a suspended user into event_attendees, and suspending
+-- someone leaves their waitlist entries in place, so a suspended user first in line made every
+-- promotion for that event fail and the waitlist stopped moving. promote_from_waitlist now takes
+-- the first person in line who isn't suspended. Suspended users keep their place, and move up
+-- again if an admin reinstates them.
+
+-- Same as 20261018000600_notifications.sql, skipping suspended profiles
+create or replace function public.promote_from_waitlist(p_event_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_max integer;
+    v_title text;
+    v_count integer;
+    v_next public.event_waitlist%rowtype;
+begin
+    select max_attendees, title into v_max, v_title
+    from public.events
+    where id = p_event_id
+    for update;
+
+    if not found then
+        return null;
+    end if;
+
+    select count(*) into v_count
+    from public.event_attendees
+    where event_id = p_event_id;
+
+    if v_max is not null and v_count >= v_max then
+        return null;
+    end if;
+
+    select * into v_next
+    from public.event_waitlist w
+    where w.event_id = p_event_id
+      and not exists (
+          select 1 from public.profiles p
+          where p.id = w.user_id
+            and p.suspended_at is not null
+      )
+    order by w.position
+    limit 1
+    for update skip locked;
+
+    if not found then
+        return null;
+    end if;
+
+    insert into public.event_attendees (event_id, user_id, rsvp_time)
+    values (p_event_id, v_next.user_id, now())
+    on conflict do nothing;
+
+    delete from public.event_waitlist where id = v_next.id;
+
+    insert into public.notifications (user_id, title, message, type, event_id)
+    values (
+        v_next.user_id,
+        'You''re off the waitlist',
+        'A spot opened up at ' || v_title || ' and you are now attending',
+        'food_available',
+        p_event_id
+    );
+
+    return v_next.user_id;
+end;
+$$;
+
+revoke execute on function public.promote_from_waitlist(uuid) from public, anon;
+grant execute on function public.promote_from_waitlist(uuid) to authenticated;